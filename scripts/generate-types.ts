@@ -0,0 +1,75 @@
+/**
+ * Generate TypeScript types from schemas, or check pattern props for drift.
+ *
+ * Usage:
+ *   vite-node scripts/generate-types.ts [--out <file>] [--brand-formats]
+ *   vite-node scripts/generate-types.ts --check
+ *
+ * Generation covers `commonDataShapes` and every `*.schema.ts` under
+ * src/patterns. Check mode compares each schema with the `<id>Props`
+ * interface in the sibling `<id>.tsx` file and exits non-zero on drift.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { commonDataShapes } from '../src/schemas/registry';
+import { generateTypes } from '../src/schemas/typeGenerator';
+import { checkPropsDrift } from '../src/schemas/typeDrift';
+import { loadSchemas, root } from './loadSchemas';
+
+async function generate(args: string[]): Promise<void> {
+  const schemas = await loadSchemas();
+  const output = generateTypes(
+    { shapes: commonDataShapes, components: schemas.map(({ schema }) => schema) },
+    { brandFormats: args.includes('--brand-formats') }
+  );
+
+  const outIndex = args.indexOf('--out');
+  if (outIndex !== -1 && args[outIndex + 1]) {
+    const outFile = path.resolve(root, args[outIndex + 1]);
+    fs.mkdirSync(path.dirname(outFile), { recursive: true });
+    fs.writeFileSync(outFile, output);
+    console.log(`Wrote ${path.relative(root, outFile)}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+async function check(): Promise<void> {
+  let driftCount = 0;
+
+  for (const { file, schema } of await loadSchemas()) {
+    const componentFile = path.join(path.dirname(file), `${schema.id}.tsx`);
+    const label = path.relative(root, componentFile);
+
+    if (!fs.existsSync(componentFile)) {
+      console.log(`- ${schema.id}: no component file at ${label}, skipped`);
+      continue;
+    }
+
+    const drift = checkPropsDrift(fs.readFileSync(componentFile, 'utf8'), schema);
+    if (drift.length === 0) {
+      console.log(`✓ ${schema.id}Props matches its schema`);
+      continue;
+    }
+
+    driftCount += drift.length;
+    console.log(`✗ ${schema.id}Props (${label}): ${drift.length} difference(s)`);
+    for (const item of drift) {
+      const detail = item.expected
+        ? ` (schema: ${item.expected}, interface: ${item.actual ?? '-'})`
+        : '';
+      console.log(`    [${item.kind}] ${item.message}${detail}`);
+    }
+  }
+
+  if (driftCount > 0) {
+    process.exitCode = 1;
+  }
+}
+
+const args = process.argv.slice(2);
+(args.includes('--check') ? check() : generate(args)).catch((error: unknown) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,91 @@
+/**
+ * Shared schema loading for node scripts: imports every `*.schema.ts` under
+ * src/patterns and collects the exported component schemas.
+ *
+ * With `includeConfigs`, every `*.config.ts` is loaded too. Pattern configs
+ * export prop controls, which are turned into schemas with
+ * `createSchemaFromPatternConfig` the way the design tools do. Their schemas
+ * are keyed `<Pattern>.config` so they never collide with a hand-written
+ * schema for the same pattern.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { createSchemaFromPatternConfig } from '../src/schemas/patternSchemas';
+import { ComponentSchema } from '../src/schemas/types';
+
+export const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const patternsDir = path.join(root, 'src/patterns');
+
+const SCHEMA_SUFFIX = '.schema.ts';
+const CONFIG_SUFFIX = '.config.ts';
+
+export interface LoadSchemasOptions {
+  // Also derive schemas from pattern `*.config.ts` controls
+  includeConfigs?: boolean;
+}
+
+function findSchemaFiles(dir: string, suffixes: string[]): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findSchemaFiles(fullPath, suffixes);
+    }
+    return suffixes.some((suffix) => entry.name.endsWith(suffix)) ? [fullPath] : [];
+  });
+}
+
+function isComponentSchema(value: unknown): value is ComponentSchema {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ComponentSchema).id === 'string' &&
+    Array.isArray((value as ComponentSchema).props)
+  );
+}
+
+// An array of pattern prop controls, each with a name and a control type
+function isControlList(value: unknown): value is Array<{ name: string; type: string }> {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (control) =>
+        typeof control === 'object' &&
+        control !== null &&
+        typeof (control as { name?: unknown }).name === 'string' &&
+        typeof (control as { type?: unknown }).type === 'string'
+    )
+  );
+}
+
+function configSchemas(file: string, module: Record<string, unknown>): ComponentSchema[] {
+  const patternName = path.basename(file, CONFIG_SUFFIX);
+  const lists = Object.entries(module).filter(([, value]) => isControlList(value));
+  return lists.map(([exportName, controls]) => ({
+    ...createSchemaFromPatternConfig(patternName, controls as unknown[]),
+    // A config exporting several control lists gets one schema per list
+    id: lists.length === 1 ? `${patternName}.config` : `${patternName}.config#${exportName}`,
+  }));
+}
+
+export async function loadSchemas(
+  options: LoadSchemasOptions = {}
+): Promise<Array<{ file: string; schema: ComponentSchema }>> {
+  const suffixes = options.includeConfigs ? [SCHEMA_SUFFIX, CONFIG_SUFFIX] : [SCHEMA_SUFFIX];
+  const results: Array<{ file: string; schema: ComponentSchema }> = [];
+  for (const file of findSchemaFiles(patternsDir, suffixes)) {
+    const module = (await import(pathToFileURL(file).href)) as Record<string, unknown>;
+    if (file.endsWith(CONFIG_SUFFIX)) {
+      configSchemas(file, module).forEach((schema) => results.push({ file, schema }));
+      continue;
+    }
+    for (const value of Object.values(module)) {
+      if (isComponentSchema(value)) {
+        results.push({ file, schema: value });
+      }
+    }
+  }
+  return results;
+}
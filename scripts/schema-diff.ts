@@ -0,0 +1,126 @@
+/**
+ * Compare registered schemas against a saved baseline.
+ *
+ * Usage:
+ *   vite-node scripts/schema-diff.ts [--baseline <file>]
+ *   vite-node scripts/schema-diff.ts --update [--baseline <file>]
+ *
+ * The baseline is a JSON snapshot of `commonDataShapes` and every schema
+ * from a `*.schema.ts` or `*.config.ts` under src/patterns (default:
+ * schema-baseline.json). Diff mode lists changes per schema and exits
+ * non-zero when any change is breaking; `--update` rewrites the baseline
+ * from the working tree.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { commonDataShapes } from '../src/schemas/registry';
+import { SchemaChange, diffDataShapes, diffSchemaSets } from '../src/schemas/schemaDiff';
+import { ComponentSchema, DataShape } from '../src/schemas/types';
+import { loadSchemas, root } from './loadSchemas';
+
+interface SchemaBaseline {
+  shapes: Record<string, DataShape>;
+  components: ComponentSchema[];
+}
+
+async function snapshot(): Promise<SchemaBaseline> {
+  const components = (await loadSchemas({ includeConfigs: true }))
+    .map(({ schema }) => schema)
+    .sort((a, b) => a.id.localeCompare(b.id));
+  // Round-trip through JSON so both sides drop functions the same way
+  return JSON.parse(JSON.stringify({ shapes: commonDataShapes, components })) as SchemaBaseline;
+}
+
+function diffShapes(
+  before: Record<string, DataShape>,
+  after: Record<string, DataShape>
+): Record<string, SchemaChange[]> {
+  const changes: Record<string, SchemaChange[]> = {};
+  for (const [name, shape] of Object.entries(before)) {
+    const shapeChanges = after[name]
+      ? diffDataShapes(name, shape, after[name])
+      : [
+          {
+            path: name,
+            kind: 'removed' as const,
+            severity: 'breaking' as const,
+            message: `Shape ${name} was removed`,
+          },
+        ];
+    if (shapeChanges.length > 0) {
+      changes[`shape:${name}`] = shapeChanges;
+    }
+  }
+  for (const name of Object.keys(after)) {
+    if (!before[name]) {
+      changes[`shape:${name}`] = [
+        {
+          path: name,
+          kind: 'added',
+          severity: 'non-breaking',
+          message: `Shape ${name} was added`,
+        },
+      ];
+    }
+  }
+  return changes;
+}
+
+async function run(args: string[]): Promise<void> {
+  const baselineIndex = args.indexOf('--baseline');
+  const baselineFile = path.resolve(
+    root,
+    (baselineIndex !== -1 ? args[baselineIndex + 1] : undefined) ?? 'schema-baseline.json'
+  );
+  const label = path.relative(root, baselineFile);
+  const current = await snapshot();
+
+  if (args.includes('--update')) {
+    fs.writeFileSync(baselineFile, `${JSON.stringify(current, null, 2)}\n`);
+    console.log(`Wrote ${label}`);
+    return;
+  }
+
+  if (!fs.existsSync(baselineFile)) {
+    console.error(`No baseline at ${label}; run with --update to create it`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const baseline = JSON.parse(fs.readFileSync(baselineFile, 'utf8')) as SchemaBaseline;
+  const changes = {
+    ...diffShapes(baseline.shapes, current.shapes),
+    ...diffSchemaSets(baseline.components, current.components).changes,
+  };
+
+  const entries = Object.entries(changes);
+  if (entries.length === 0) {
+    console.log(`✓ Schemas match ${label}`);
+    return;
+  }
+
+  let breakingCount = 0;
+  for (const [id, list] of entries) {
+    console.log(`${id}: ${list.length} change(s)`);
+    for (const item of list) {
+      if (item.severity === 'breaking') {
+        breakingCount++;
+      }
+      const marker = item.severity === 'breaking' ? '✗' : '-';
+      console.log(`  ${marker} [${item.kind}] ${item.message}`);
+    }
+  }
+
+  if (breakingCount > 0) {
+    console.log(`\n${breakingCount} breaking change(s) against ${label}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`\nNo breaking changes against ${label}`);
+  }
+}
+
+run(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(error);
+  process.exitCode = 1;
+});
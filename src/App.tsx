@@ -4,6 +4,8 @@ import { createTheme } from '@mui/material/styles';
 import { PaletteMode } from '@mui/material';
 import { AIDesignThemeProvider } from './providers/AIDesignThemeProvider';
 import { DensityModeProvider, DensityMode } from './contexts/DensityModeContext';
+import { ActionRuntimeProvider } from './contexts/ActionRuntimeContext';
+import { dataSourcesOf, useDesignStore } from './stores/designStore';
 import { ResponsiveLayout } from './components/layout/ResponsiveLayout';
 import { Home } from './pages/Home';
 import { ComponentShowcase } from './pages/ComponentShowcase';
@@ -31,6 +33,7 @@ import { DragDropDesignSystem } from './pages/DragDropDesignSystem';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { theme as baseTheme } from './theme/theme';
 import { darkPalette } from './theme';
+import { ActionHandlers } from './schemas/actions';
 import './styles/darkMode.css';
 
 function AppWithDensity(): React.ReactElement {
@@ -170,9 +173,19 @@ function AppWithDensity(): React.ReactElement {
     );
   }, [mode, density, toggleColorMode, toggleDensity]);
 
+  const navigate = React.useCallback<ActionHandlers['navigate']>(
+    (to, { replace }) => void router.navigate(to, { replace }),
+    [router]
+  );
+  // Actions of designed components mutate the sources placed in the designer
+  const instances = useDesignStore((state) => state.instances);
+  const dataSources = React.useMemo(() => dataSourcesOf(instances), [instances]);
+
   return (
     <AIDesignThemeProvider theme={theme}>
-      <RouterProvider router={router} />
+      <ActionRuntimeProvider navigate={navigate} dataSources={dataSources}>
+        <RouterProvider router={router} />
+      </ActionRuntimeProvider>
     </AIDesignThemeProvider>
   );
 }
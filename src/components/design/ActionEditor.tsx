@@ -0,0 +1,466 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add, ArrowDownward, ArrowUpward, Delete } from '@mui/icons-material';
+import { ActionSchema, ActionType } from '../../schemas/types';
+import { actionTypes, createAction, validateAction } from '../../schemas/actions';
+
+export interface ActionEditorProps {
+  label?: string;
+  action?: ActionSchema;
+  onChange: (action: ActionSchema | undefined) => void;
+  // Offered as targets of refetch and mutate actions
+  dataSourceIds?: string[];
+}
+
+const actionLabels: Record<ActionType, string> = {
+  navigate: 'Navigate',
+  openDialog: 'Open dialog',
+  setState: 'Set app state',
+  refetch: 'Refetch data source',
+  mutate: 'Run mutation',
+  showSnackbar: 'Show snackbar',
+  chain: 'Chain actions',
+};
+
+const severities = ['success', 'info', 'warning', 'error'] as const;
+
+const mutationMethods = ['POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+function splitList(text: string): string[] {
+  return text
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+interface DataSourceFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  dataSourceIds?: string[];
+}
+
+/**
+ * Pick a known data source, or type an ID when none are known
+ */
+const DataSourceField: React.FC<DataSourceFieldProps> = ({
+  label,
+  value,
+  onChange,
+  dataSourceIds,
+}) => {
+  if (!dataSourceIds || dataSourceIds.length === 0) {
+    return (
+      <TextField
+        size="small"
+        label={label}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    );
+  }
+
+  return (
+    <FormControl size="small" sx={{ minWidth: 200 }}>
+      <InputLabel>{label}</InputLabel>
+      <Select label={label} value={value} onChange={(e) => onChange(e.target.value)}>
+        {dataSourceIds.map((id) => (
+          <MenuItem key={id} value={id}>
+            {id}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
+
+interface BodyFieldProps {
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+/**
+ * JSON body editor that keeps invalid text until it parses
+ */
+const BodyField: React.FC<BodyFieldProps> = ({ value, onChange }) => {
+  const [text, setText] = useState(() =>
+    value === undefined ? '' : JSON.stringify(value, null, 2)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (next: string): void => {
+    setText(next);
+    if (next.trim() === '') {
+      setError(null);
+      onChange(undefined);
+      return;
+    }
+    try {
+      onChange(JSON.parse(next));
+      setError(null);
+    } catch {
+      setError('Body must be valid JSON');
+    }
+  };
+
+  return (
+    <TextField
+      size="small"
+      label="Body"
+      multiline
+      minRows={2}
+      placeholder={'{ "id": "{{ event.id }}" }'}
+      value={text}
+      onChange={(e) => handleChange(e.target.value)}
+      error={!!error}
+      helperText={error ?? 'JSON; string values may contain {{ }} bindings'}
+      InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.8rem' } }}
+    />
+  );
+};
+
+interface ActionFormProps {
+  label: string;
+  action?: ActionSchema;
+  onChange: (action: ActionSchema | undefined) => void;
+  dataSourceIds?: string[];
+}
+
+/**
+ * Action type picker and the inputs for the chosen type
+ */
+const ActionForm: React.FC<ActionFormProps> = ({ label, action, onChange, dataSourceIds }) => (
+  <Stack spacing={1.5}>
+    <FormControl size="small" fullWidth>
+      <InputLabel>{label}</InputLabel>
+      <Select
+        label={label}
+        value={action?.type ?? ''}
+        onChange={(e) =>
+          onChange(e.target.value ? createAction(e.target.value as ActionType) : undefined)
+        }
+      >
+        <MenuItem value="">
+          <em>None</em>
+        </MenuItem>
+        {actionTypes.map((type) => (
+          <MenuItem key={type} value={type}>
+            {actionLabels[type]}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+    {action && <ActionFields action={action} onChange={onChange} dataSourceIds={dataSourceIds} />}
+  </Stack>
+);
+
+interface ActionFieldsProps {
+  action: ActionSchema;
+  onChange: (action: ActionSchema) => void;
+  dataSourceIds?: string[];
+}
+
+/**
+ * Inputs for the parameters of one action
+ */
+const ActionFields: React.FC<ActionFieldsProps> = ({ action, onChange, dataSourceIds }) => {
+  switch (action.type) {
+    case 'navigate':
+      return (
+        <Stack spacing={1}>
+          <TextField
+            size="small"
+            label="Route"
+            placeholder="/orders/{{ event.id }}"
+            value={action.to}
+            onChange={(e) => onChange({ ...action, to: e.target.value })}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={action.replace === true}
+                onChange={(e) => onChange({ ...action, replace: e.target.checked || undefined })}
+              />
+            }
+            label="Replace current history entry"
+          />
+        </Stack>
+      );
+
+    case 'openDialog':
+      return (
+        <Stack spacing={1}>
+          <TextField
+            size="small"
+            label="Title"
+            value={action.title}
+            onChange={(e) => onChange({ ...action, title: e.target.value })}
+          />
+          <TextField
+            size="small"
+            label="Message"
+            multiline
+            minRows={2}
+            value={action.message ?? ''}
+            onChange={(e) => onChange({ ...action, message: e.target.value || undefined })}
+          />
+          <Stack direction="row" spacing={1}>
+            <TextField
+              size="small"
+              label="Confirm label"
+              placeholder="OK"
+              value={action.confirmLabel ?? ''}
+              onChange={(e) => onChange({ ...action, confirmLabel: e.target.value || undefined })}
+            />
+            <TextField
+              size="small"
+              label="Cancel label"
+              placeholder="Cancel"
+              value={action.cancelLabel ?? ''}
+              onChange={(e) => onChange({ ...action, cancelLabel: e.target.value || undefined })}
+            />
+          </Stack>
+          <Box pl={2} borderLeft={2} borderColor="divider">
+            <ActionForm
+              label="On confirm"
+              action={action.onConfirm}
+              onChange={(onConfirm) => onChange({ ...action, onConfirm })}
+              dataSourceIds={dataSourceIds}
+            />
+          </Box>
+          <Box pl={2} borderLeft={2} borderColor="divider">
+            <ActionForm
+              label="On cancel"
+              action={action.onCancel}
+              onChange={(onCancel) => onChange({ ...action, onCancel })}
+              dataSourceIds={dataSourceIds}
+            />
+          </Box>
+        </Stack>
+      );
+
+    case 'setState':
+      return (
+        <Stack direction="row" spacing={1}>
+          <TextField
+            size="small"
+            label="Key"
+            placeholder="selectedOrder"
+            value={action.key}
+            onChange={(e) => onChange({ ...action, key: e.target.value })}
+          />
+          <TextField
+            size="small"
+            label="Value"
+            placeholder="{{ event.id }}"
+            helperText="A single {{ }} binding keeps its type"
+            value={typeof action.value === 'string' ? action.value : JSON.stringify(action.value)}
+            onChange={(e) => onChange({ ...action, value: e.target.value })}
+            sx={{ flex: 1 }}
+          />
+        </Stack>
+      );
+
+    case 'refetch':
+      return (
+        <DataSourceField
+          label="Data source"
+          value={action.dataSource}
+          onChange={(dataSource) => onChange({ ...action, dataSource })}
+          dataSourceIds={dataSourceIds}
+        />
+      );
+
+    case 'mutate':
+      return (
+        <Stack spacing={1}>
+          <Stack direction="row" spacing={1}>
+            <DataSourceField
+              label="Data source"
+              value={action.dataSource}
+              onChange={(dataSource) => onChange({ ...action, dataSource })}
+              dataSourceIds={dataSourceIds}
+            />
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <InputLabel>Method</InputLabel>
+              <Select
+                label="Method"
+                value={action.method ?? ''}
+                onChange={(e) =>
+                  onChange({
+                    ...action,
+                    method: (e.target.value || undefined) as (typeof mutationMethods)[number],
+                  })
+                }
+              >
+                <MenuItem value="">
+                  <em>Default</em>
+                </MenuItem>
+                {mutationMethods.map((method) => (
+                  <MenuItem key={method} value={method}>
+                    {method}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+          <BodyField value={action.body} onChange={(body) => onChange({ ...action, body })} />
+          <TextField
+            size="small"
+            label="Refetch afterwards"
+            placeholder="orders, orderStats"
+            helperText="Comma-separated data source IDs"
+            value={(action.refetch ?? []).join(', ')}
+            onChange={(e) => {
+              const refetch = splitList(e.target.value);
+              onChange({ ...action, refetch: refetch.length > 0 ? refetch : undefined });
+            }}
+          />
+        </Stack>
+      );
+
+    case 'showSnackbar':
+      return (
+        <Stack direction="row" spacing={1}>
+          <TextField
+            size="small"
+            label="Message"
+            placeholder="Saved {{ event.name }}"
+            value={action.message}
+            onChange={(e) => onChange({ ...action, message: e.target.value })}
+            sx={{ flex: 1 }}
+          />
+          <FormControl size="small" sx={{ minWidth: 120 }}>
+            <InputLabel>Severity</InputLabel>
+            <Select
+              label="Severity"
+              value={action.severity ?? 'info'}
+              onChange={(e) =>
+                onChange({ ...action, severity: e.target.value as (typeof severities)[number] })
+              }
+            >
+              {severities.map((severity) => (
+                <MenuItem key={severity} value={severity}>
+                  {severity}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Stack>
+      );
+
+    case 'chain': {
+      const updateStep = (index: number, step: ActionSchema | undefined): void => {
+        onChange({
+          ...action,
+          actions: step
+            ? action.actions.map((current, i) => (i === index ? step : current))
+            : action.actions.filter((_, i) => i !== index),
+        });
+      };
+      const moveStep = (index: number, offset: number): void => {
+        const next = [...action.actions];
+        const [step] = next.splice(index, 1);
+        next.splice(index + offset, 0, step);
+        onChange({ ...action, actions: next });
+      };
+
+      return (
+        <Stack spacing={1}>
+          {action.actions.map((step, index) => (
+            // Actions are plain JSON without IDs; position is the key
+            // eslint-disable-next-line react/no-array-index-key
+            <Paper key={index} variant="outlined" sx={{ p: 1.5 }}>
+              <Stack direction="row" spacing={1} alignItems="flex-start">
+                <Typography variant="caption" color="text.secondary" sx={{ pt: 1 }}>
+                  {index + 1}.
+                </Typography>
+                <Box flex={1}>
+                  <ActionForm
+                    label="Action"
+                    action={step}
+                    onChange={(updated) => updateStep(index, updated)}
+                    dataSourceIds={dataSourceIds}
+                  />
+                </Box>
+                <IconButton
+                  size="small"
+                  aria-label="Move action up"
+                  disabled={index === 0}
+                  onClick={() => moveStep(index, -1)}
+                >
+                  <ArrowUpward fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  aria-label="Move action down"
+                  disabled={index === action.actions.length - 1}
+                  onClick={() => moveStep(index, 1)}
+                >
+                  <ArrowDownward fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  aria-label="Remove action"
+                  onClick={() => updateStep(index, undefined)}
+                >
+                  <Delete fontSize="small" />
+                </IconButton>
+              </Stack>
+            </Paper>
+          ))}
+          <Box>
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<Add />}
+              onClick={() =>
+                onChange({ ...action, actions: [...action.actions, createAction('showSnackbar')] })
+              }
+            >
+              Add Action
+            </Button>
+          </Box>
+        </Stack>
+      );
+    }
+  }
+};
+
+/**
+ * Editor for the action bound to a `function` prop
+ */
+export const ActionEditor: React.FC<ActionEditorProps> = ({
+  label = 'Action',
+  action,
+  onChange,
+  dataSourceIds,
+}) => {
+  const issues = action ? validateAction(action, 'action', dataSourceIds) : [];
+
+  return (
+    <Stack spacing={1}>
+      <ActionForm label={label} action={action} onChange={onChange} dataSourceIds={dataSourceIds} />
+      {issues.map((issue) => (
+        <Typography key={issue.path} variant="caption" color="error">
+          {issue.path.replace(/^action\.?/, '') || 'action'}: {issue.message}
+        </Typography>
+      ))}
+    </Stack>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Paper,
+  Stack,
+  Tab,
+  Tabs,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { ContentCopy, Download } from '@mui/icons-material';
+import { ComponentSchema } from '../../schemas/types';
+import { CodegenInstance, generateCode } from '../../schemas/codeGenerator';
+
+export interface CodePanelProps {
+  instances: Map<string, CodegenInstance>;
+  schemas: Map<string, ComponentSchema>;
+  // Generate only the subtree rooted at this instance
+  rootId?: string;
+  componentName?: string;
+  showModeToggle?: boolean;
+}
+
+/**
+ * Download a text file in the browser
+ */
+function downloadFile(fileName: string, content: string): void {
+  const blob = new Blob([content], { type: 'text/typescript' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Code view for generated TSX with copy and download actions
+ */
+export const CodePanel: React.FC<CodePanelProps> = ({
+  instances,
+  schemas,
+  rootId,
+  componentName,
+  showModeToggle = true,
+}) => {
+  const [mode, setMode] = useState<'page' | 'roots'>('page');
+  const [activeFile, setActiveFile] = useState(0);
+  const [copied, setCopied] = useState(false);
+
+  const result = useMemo(
+    () =>
+      generateCode(instances, schemas, {
+        mode,
+        rootIds: rootId ? [rootId] : undefined,
+        componentName,
+      }),
+    [instances, schemas, mode, rootId, componentName]
+  );
+
+  const file = result.files[Math.min(activeFile, result.files.length - 1)];
+
+  const handleCopy = async (): Promise<void> => {
+    if (!file) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(file.code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  if (result.files.length === 0) {
+    return <Alert severity="info">Add components to generate code</Alert>;
+  }
+
+  return (
+    <Stack spacing={2}>
+      <Box display="flex" alignItems="center" justifyContent="space-between" gap={1}>
+        {showModeToggle ? (
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={mode}
+            onChange={(_, value: 'page' | 'roots' | null) => {
+              if (value) {
+                setMode(value);
+                setActiveFile(0);
+              }
+            }}
+          >
+            <ToggleButton value="page">Single page</ToggleButton>
+            <ToggleButton value="roots">Per root</ToggleButton>
+          </ToggleButtonGroup>
+        ) : (
+          <Box />
+        )}
+
+        <Stack direction="row" spacing={1}>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<ContentCopy />}
+            onClick={() => void handleCopy()}
+          >
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<Download />}
+            onClick={() => downloadFile(file.fileName, file.code)}
+          >
+            Download
+          </Button>
+        </Stack>
+      </Box>
+
+      {result.files.length > 1 && (
+        <Tabs
+          value={Math.min(activeFile, result.files.length - 1)}
+          onChange={(_, value: number) => setActiveFile(value)}
+          variant="scrollable"
+        >
+          {result.files.map((generated) => (
+            <Tab key={generated.fileName} label={generated.fileName} />
+          ))}
+        </Tabs>
+      )}
+
+      <Paper variant="outlined" sx={{ bgcolor: 'grey.50' }}>
+        <Box
+          component="pre"
+          sx={{
+            m: 0,
+            p: 2,
+            overflow: 'auto',
+            maxHeight: 600,
+            fontSize: '0.8125rem',
+            fontFamily: 'monospace',
+          }}
+        >
+          {file.code}
+        </Box>
+      </Paper>
+
+      <Box>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Dependencies
+        </Typography>
+        <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+          {result.dependencies.map((dependency) => (
+            <Chip key={dependency} label={dependency} size="small" variant="outlined" />
+          ))}
+        </Stack>
+      </Box>
+
+      {result.warnings.length > 0 && (
+        <Alert severity="warning">
+          {result.warnings.map((warning) => (
+            <Typography key={warning} variant="body2">
+              {warning}
+            </Typography>
+          ))}
+        </Alert>
+      )}
+    </Stack>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertTitle, Box, Chip, Paper, Stack, Typography } from '@mui/material';
+import { DataSourceSchema } from '../../schemas/types';
+import {
+  DependencyCycleError,
+  affectedSources,
+  buildDependencyGraph,
+} from '../../schemas/computedSources';
+import { useDataGraph } from '../../contexts/DataGraphContext';
+
+export interface DataGraphViewProps {
+  sources: DataSourceSchema[];
+  // Source to start with selected, e.g. the one being edited
+  selectedId?: string;
+}
+
+/**
+ * Debug view of how data sources read each other. Selecting a source
+ * highlights the sources derived again when it changes; inside a
+ * DataGraphProvider each computed source also shows its live state.
+ */
+export const DataGraphView: React.FC<DataGraphViewProps> = ({ sources, selectedId }) => {
+  const graph = useMemo(() => buildDependencyGraph(sources), [sources]);
+  const live = useDataGraph();
+  const [selected, setSelected] = useState(selectedId);
+
+  const affected = useMemo(
+    () => new Set(selected ? affectedSources(graph, [selected]) : []),
+    [graph, selected]
+  );
+  // Sources that can be computed first, then those on or behind a cycle
+  const ids = useMemo(
+    () => [...graph.order, ...[...graph.nodes.keys()].filter((id) => !graph.order.includes(id))],
+    [graph]
+  );
+
+  if (graph.nodes.size === 0) {
+    return <Alert severity="info">No data sources defined</Alert>;
+  }
+
+  return (
+    <Stack spacing={1}>
+      {graph.cycles.map((cycle) => (
+        <Alert key={cycle.join('|')} severity="error">
+          <AlertTitle>Dependency cycle</AlertTitle>
+          {new DependencyCycleError(cycle).message}
+        </Alert>
+      ))}
+
+      {ids.map((id) => {
+        const node = graph.nodes.get(id);
+        if (!node) {
+          return null;
+        }
+        const state = live?.states[id];
+        const onCycle = graph.cycles.some((cycle) => cycle.includes(id));
+
+        return (
+          <Paper
+            key={id}
+            variant="outlined"
+            data-source-node={id}
+            onClick={() => setSelected(id === selected ? undefined : id)}
+            sx={{
+              p: 1.5,
+              cursor: 'pointer',
+              borderColor: id === selected ? 'primary.main' : onCycle ? 'error.main' : undefined,
+              bgcolor: affected.has(id) ? 'action.selected' : undefined,
+            }}
+          >
+            <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+              <Typography variant="subtitle2" fontFamily="monospace">
+                {id}
+              </Typography>
+              <Chip label={node.source.type} size="small" variant="outlined" />
+              {state && (
+                <Chip
+                  size="small"
+                  label={state.loading ? 'loading' : state.error ? 'error' : 'ready'}
+                  color={state.loading ? 'default' : state.error ? 'error' : 'success'}
+                />
+              )}
+              {live?.computeCounts[id] !== undefined && (
+                <Typography variant="caption" color="text.secondary">
+                  derived {live.computeCounts[id]}×
+                </Typography>
+              )}
+            </Box>
+
+            {(node.dependsOn.length > 0 || node.missing.length > 0) && (
+              <Box display="flex" alignItems="center" gap={0.5} flexWrap="wrap" mt={1}>
+                <Typography variant="caption" color="text.secondary">
+                  Reads
+                </Typography>
+                {node.dependsOn.map((input) => (
+                  <Chip key={input} label={input} size="small" />
+                ))}
+                {node.missing.map((input) => (
+                  <Chip key={input} label={`${input} (missing)`} size="small" color="error" />
+                ))}
+              </Box>
+            )}
+            {node.dependents.length > 0 && (
+              <Box display="flex" alignItems="center" gap={0.5} flexWrap="wrap" mt={1}>
+                <Typography variant="caption" color="text.secondary">
+                  Read by
+                </Typography>
+                {node.dependents.map((dependent) => (
+                  <Chip key={dependent} label={dependent} size="small" variant="outlined" />
+                ))}
+              </Box>
+            )}
+            {state?.error && (
+              <Typography variant="caption" color="error" display="block" mt={1}>
+                {state.error.message}
+              </Typography>
+            )}
+          </Paper>
+        );
+      })}
+    </Stack>
+  );
+};
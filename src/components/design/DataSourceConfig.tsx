@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Box,
   Typography,
@@ -17,13 +17,38 @@ import {
   Slider,
 } from '@mui/material';
 import { PlayArrow, Refresh } from '@mui/icons-material';
-import { ComponentSchema, DataSourceSchema } from '../../schemas/types';
+import { ComponentSchema, DataSourceSchema, TransformStep } from '../../schemas/types';
 import { useSchemaData } from '../../hooks/useSchemaData';
+import { inferShape, mergeShapes } from '../../schemas/shapeInference';
+import { runTransform } from '../../schemas/transforms';
+import { fetchMockData } from '../../schemas/mockSource';
+import { isStreamSource, nextMessage } from '../../schemas/streamSource';
+import { validateData, validateDataSource } from '../../schemas/validation';
+import { sourceDependencies } from '../../schemas/computedSources';
+import { TransformStepEditor } from './TransformStepEditor';
+import { MockSourceEditor } from './MockSourceEditor';
+import { StreamSourceEditor } from './StreamSourceEditor';
 
 export interface DataSourceConfigProps {
   schema: ComponentSchema;
   dataSource?: DataSourceSchema;
   onChange: (dataSource: DataSourceSchema | undefined) => void;
+  // Other sources, which `join` steps can read
+  dataSources?: DataSourceSchema[];
+}
+
+// Fetch what a source answers with before its transform steps
+async function fetchTestData(source: DataSourceSchema): Promise<unknown> {
+  // Use the actual data fetching logic; mock sources answer with their delay and faults
+  if (source.type === 'mock') {
+    return fetchMockData(source);
+  }
+  if (isStreamSource(source)) {
+    // Streaming sources are tried with the first message they receive
+    return nextMessage(source);
+  }
+  const response = await fetch(source.endpoint || '');
+  return response.json() as Promise<unknown>;
 }
 
 /**
@@ -33,14 +58,59 @@ export const DataSourceConfig: React.FC<DataSourceConfigProps> = ({
   schema,
   dataSource,
   onChange,
+  dataSources = [],
 }) => {
   const [localDataSource, setLocalDataSource] = useState<DataSourceSchema | undefined>(dataSource);
   const [testData, setTestData] = useState<any>(null);
+  // Data of the sources the transform joins with, loaded with the test data
+  const [testSources, setTestSources] = useState<Record<string, unknown>>({});
   const [testError, setTestError] = useState<string | null>(null);
   const [testing, setTesting] = useState(false);
+  // Every successful test response, used to infer the response shape
+  const [testSamples, setTestSamples] = useState<unknown[]>([]);
+
+  const inferredShape = useMemo(
+    () => (testSamples.length > 0 ? inferShape(testSamples) : null),
+    [testSamples]
+  );
+
+  const transformSteps = Array.isArray(localDataSource?.transform)
+    ? localDataSource.transform
+    : null;
+
+  // Static check of the steps and of their output against the component shape
+  const sourceCheck = useMemo(
+    () => (localDataSource ? validateDataSource(localDataSource, schema.dataShape) : null),
+    [localDataSource, schema.dataShape]
+  );
+
+  // Run the steps over the last test response
+  const transformPreview = useMemo(() => {
+    if (!transformSteps || transformSteps.length === 0 || testData === null) {
+      return null;
+    }
+    try {
+      const output = runTransform(testData, transformSteps, { sources: testSources });
+      return {
+        output,
+        error: null,
+        validation: schema.dataShape ? validateData(output, schema.dataShape) : null,
+      };
+    } catch (error) {
+      return {
+        output: null,
+        error: error instanceof Error ? error.message : String(error),
+        validation: null,
+      };
+    }
+  }, [transformSteps, testData, testSources, schema.dataShape]);
 
   // Handle field changes
   const handleChange = (field: string, value: any) => {
+    // Responses from another endpoint or source type say nothing about this one
+    if (field === 'endpoint' || field === 'type') {
+      setTestSamples([]);
+    }
     setLocalDataSource(
       (prev) =>
         ({
@@ -73,10 +143,21 @@ export const DataSourceConfig: React.FC<DataSourceConfigProps> = ({
     setTestData(null);
 
     try {
-      // Use the actual data fetching logic
-      const response = await fetch(localDataSource.endpoint || '');
-      const data = await response.json();
+      const joined = sourceDependencies(localDataSource).map((id) => {
+        const source = dataSources.find((candidate) => candidate.id === id);
+        if (!source || source.type === 'computed') {
+          throw new Error(`Cannot load data source "${id}" to join with`);
+        }
+        return source;
+      });
+      const [data, ...joinedData] = await Promise.all(
+        [localDataSource, ...joined].map(fetchTestData)
+      );
+      setTestSources(
+        Object.fromEntries(joined.map((source, index) => [source.id, joinedData[index]]))
+      );
       setTestData(data);
+      setTestSamples((prev) => [...prev, data]);
     } catch (error) {
       setTestError(error instanceof Error ? error.message : 'Failed to fetch data');
     } finally {
@@ -95,6 +176,14 @@ export const DataSourceConfig: React.FC<DataSourceConfigProps> = ({
     setLocalDataSource(undefined);
     setTestData(null);
     setTestError(null);
+    setTestSamples([]);
+  };
+
+  // Apply the inferred shape, keeping anything already declared
+  const handleApplyInferredShape = (): void => {
+    if (!inferredShape) {return;}
+    const existing = localDataSource?.responseShape;
+    handleChange('responseShape', existing ? mergeShapes(existing, inferredShape) : inferredShape);
   };
 
   if (!schema.dataShape) {
@@ -115,6 +204,9 @@ export const DataSourceConfig: React.FC<DataSourceConfigProps> = ({
           <MenuItem value="rest">REST API</MenuItem>
           <MenuItem value="graphql">GraphQL</MenuItem>
           <MenuItem value="static">Static Data</MenuItem>
+          <MenuItem value="mock">Mock Backend</MenuItem>
+          <MenuItem value="websocket">WebSocket</MenuItem>
+          <MenuItem value="sse">Server-Sent Events</MenuItem>
         </Select>
       </FormControl>
 
@@ -177,6 +269,37 @@ export const DataSourceConfig: React.FC<DataSourceConfigProps> = ({
             />
           )}
 
+          {/* Streaming configuration */}
+          {(localDataSource.type === 'websocket' || localDataSource.type === 'sse') && (
+            <>
+              <TextField
+                fullWidth
+                size="small"
+                label="Endpoint URL"
+                value={localDataSource.endpoint || ''}
+                onChange={(e) => handleChange('endpoint', e.target.value)}
+                placeholder={
+                  localDataSource.type === 'websocket'
+                    ? 'wss://api.example.com/live'
+                    : 'https://api.example.com/events'
+                }
+              />
+              <StreamSourceEditor
+                stream={localDataSource.stream ?? {}}
+                sourceType={localDataSource.type}
+                onChange={(stream) => handleChange('stream', stream)}
+              />
+            </>
+          )}
+
+          {/* Mock backend configuration */}
+          {localDataSource.type === 'mock' && (
+            <MockSourceEditor
+              mock={localDataSource.mock ?? {}}
+              onChange={(mock) => handleChange('mock', mock)}
+            />
+          )}
+
           {/* Cache configuration */}
           <Paper variant="outlined" sx={{ p: 2 }}>
             <Typography variant="subtitle2" gutterBottom>
@@ -212,23 +335,74 @@ export const DataSourceConfig: React.FC<DataSourceConfigProps> = ({
                       { value: 3600, label: '1h' },
                     ]}
                   />
+                  <Typography variant="body2" gutterBottom>
+                    Show Stale Data While Refreshing (seconds)
+                  </Typography>
+                  <Slider
+                    value={(localDataSource.cache?.staleWhileRevalidate ?? 0) / 1000}
+                    onChange={(_, value) =>
+                      handleCacheChange('staleWhileRevalidate', (value as number) * 1000)
+                    }
+                    min={0}
+                    max={86400}
+                    step={60}
+                    valueLabelDisplay="auto"
+                    marks={[
+                      { value: 0, label: 'Off' },
+                      { value: 3600, label: '1h' },
+                      { value: 86400, label: '1d' },
+                    ]}
+                  />
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={localDataSource.cache?.persist ?? false}
+                        onChange={(e) => handleCacheChange('persist', e.target.checked)}
+                      />
+                    }
+                    label="Keep Offline (persist across reloads)"
+                  />
                 </Box>
               )}
             </Stack>
           </Paper>
 
-          {/* Transform function */}
-          <TextField
-            fullWidth
-            size="small"
-            multiline
-            rows={4}
-            label="Transform Function (optional)"
-            value={localDataSource.transform || ''}
-            onChange={(e) => handleChange('transform', e.target.value)}
-            placeholder="return data.items.map(item => ({ ...item, label: item.name }))"
-            helperText="JavaScript function to transform the response data"
-          />
+          {/* Transform steps */}
+          <Paper variant="outlined" sx={{ p: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              Transform
+            </Typography>
+            {typeof localDataSource.transform === 'string' ? (
+              <Alert
+                severity="warning"
+                action={
+                  <Button
+                    color="inherit"
+                    size="small"
+                    onClick={() => handleChange('transform', [] as TransformStep[])}
+                  >
+                    Replace with Steps
+                  </Button>
+                }
+              >
+                This source uses a deprecated script transform, which only runs when the app opts in
+                with allowScriptTransform.
+              </Alert>
+            ) : (
+              <TransformStepEditor
+                steps={transformSteps ?? []}
+                onChange={(steps) =>
+                  handleChange('transform', steps.length > 0 ? steps : undefined)
+                }
+              />
+            )}
+            {sourceCheck?.errors?.map((issue) => (
+              <Alert key={`${issue.path}:${issue.message}`} severity="error" sx={{ mt: 1 }}>
+                {issue.path ? `${issue.path}: ` : ''}
+                {issue.message}
+              </Alert>
+            ))}
+          </Paper>
 
           {/* Test and save buttons */}
           <Stack direction="row" spacing={1}>
@@ -269,6 +443,60 @@ export const DataSourceConfig: React.FC<DataSourceConfigProps> = ({
               </Box>
             </Paper>
           )}
+
+          {transformPreview && (
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Transformed Data
+              </Typography>
+              {transformPreview.error && <Alert severity="error">{transformPreview.error}</Alert>}
+              {transformPreview.validation?.errors?.map((issue) => (
+                <Alert key={`${issue.path}:${issue.message}`} severity="warning" sx={{ mb: 1 }}>
+                  {issue.path}: {issue.message}
+                </Alert>
+              ))}
+              {!transformPreview.error && (
+                <Box
+                  component="pre"
+                  sx={{
+                    overflow: 'auto',
+                    maxHeight: 300,
+                    fontSize: '0.75rem',
+                    fontFamily: 'monospace',
+                  }}
+                >
+                  {JSON.stringify(transformPreview.output, null, 2)}
+                </Box>
+              )}
+            </Paper>
+          )}
+
+          {inferredShape && (
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+                <Typography variant="subtitle2">
+                  Inferred Response Shape ({testSamples.length}{' '}
+                  {testSamples.length === 1 ? 'sample' : 'samples'})
+                </Typography>
+                <Button size="small" onClick={handleApplyInferredShape}>
+                  {localDataSource.responseShape
+                    ? 'Merge into Response Shape'
+                    : 'Use as Response Shape'}
+                </Button>
+              </Box>
+              <Box
+                component="pre"
+                sx={{
+                  overflow: 'auto',
+                  maxHeight: 300,
+                  fontSize: '0.75rem',
+                  fontFamily: 'monospace',
+                }}
+              >
+                {JSON.stringify(inferredShape, null, 2)}
+              </Box>
+            </Paper>
+          )}
         </>
       )}
 
@@ -25,11 +25,13 @@ import {
   Lock,
   LockOpen,
 } from '@mui/icons-material';
-import { useDesignStore } from '../../stores/designStore';
+import { dataSourcesOf, useDesignStore } from '../../stores/designStore';
 import { SchemaPropsForm } from './SchemaPropsForm';
 import { SimplePropsForm } from './SimplePropsForm';
 import { DataSourceConfig } from './DataSourceConfig';
+import { DataGraphView } from './DataGraphView';
 import { ComponentInfo } from './ComponentInfo';
+import { CodePanel } from './CodePanel';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -68,6 +70,12 @@ export const DesignPanel: React.FC<DesignPanelProps> = React.memo(({ onClose })
   const instance = useDesignStore((state) => (selectedId ? state.getInstance(selectedId) : null));
   const schema = useDesignStore((state) => (instance ? state.getSchema(instance.schemaId) : null));
   const ancestors = useDesignStore((state) => (selectedId ? state.getAncestors(selectedId) : []));
+  const instances = useDesignStore((state) => state.instances);
+  const schemas = useDesignStore((state) => state.schemas);
+
+  // Sources of every instance, for the data graph
+  const dataSources = React.useMemo(() => dataSourcesOf(instances), [instances]);
+  const dataSourceIds = React.useMemo(() => dataSources.map((source) => source.id), [dataSources]);
 
   // Actions
   const selectInstance = useDesignStore((state) => state.selectInstance);
@@ -235,7 +243,12 @@ export const DesignPanel: React.FC<DesignPanelProps> = React.memo(({ onClose })
           {isLocked ? (
             <Alert severity="warning">Component is locked. Unlock to edit properties.</Alert>
           ) : (
-            <SchemaPropsForm schema={schema} values={instance.props} onChange={handlePropsChange} />
+            <SchemaPropsForm
+              schema={schema}
+              values={instance.props}
+              onChange={handlePropsChange}
+              dataSourceIds={dataSourceIds}
+            />
           )}
         </TabPanel>
 
@@ -243,11 +256,19 @@ export const DesignPanel: React.FC<DesignPanelProps> = React.memo(({ onClose })
           {isLocked ? (
             <Alert severity="warning">Component is locked. Unlock to configure data source.</Alert>
           ) : (
-            <DataSourceConfig
-              schema={schema}
-              dataSource={instance.dataSource}
-              onChange={handleDataSourceChange}
-            />
+            <Stack spacing={2}>
+              <DataSourceConfig
+                schema={schema}
+                dataSource={instance.dataSource}
+                onChange={handleDataSourceChange}
+                dataSources={dataSources}
+              />
+
+              <Divider />
+
+              <Typography variant="subtitle2">Data Graph</Typography>
+              <DataGraphView sources={dataSources} selectedId={instance.dataSource?.id} />
+            </Stack>
           )}
         </TabPanel>
 
@@ -262,6 +283,17 @@ export const DesignPanel: React.FC<DesignPanelProps> = React.memo(({ onClose })
 
             <Divider />
 
+            <Typography variant="subtitle2">Generated Code</Typography>
+            <CodePanel
+              instances={instances}
+              schemas={schemas}
+              rootId={instance.id}
+              componentName={instance.metadata?.name ?? schema.name}
+              showModeToggle={false}
+            />
+
+            <Divider />
+
             <Typography variant="subtitle2">Instance Configuration</Typography>
             <Box
               component="pre"
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import { Box, Chip, Stack } from '@mui/material';
+import {
+  ExpressionScopeShape,
+  checkTemplate,
+  getExpressionCompletions,
+  isBinding,
+} from '../../schemas/expressions';
+import { FieldType } from '../../schemas/types';
+import { SimpleInput } from './SimpleInput';
+
+export interface ExpressionInputProps {
+  label?: string;
+  value: string;
+  onChange: (value: string) => void;
+  // Names available inside `{{ }}`
+  scopeShape: ExpressionScopeShape;
+  // Type the prop expects; matching completions are listed first
+  expectedType?: FieldType;
+  error?: string;
+  helperText?: string;
+}
+
+const MAX_COMPLETIONS = 12;
+
+/**
+ * Text input for prop values that may contain `{{ }}` bindings. While a
+ * binding is open it offers the names in scope; closed bindings are checked
+ * for syntax errors.
+ */
+export const ExpressionInput: React.FC<ExpressionInputProps> = ({
+  label,
+  value,
+  onChange,
+  scopeShape,
+  expectedType,
+  error,
+  helperText,
+}) => {
+  const suggestions = useMemo(
+    () => getExpressionCompletions(value, scopeShape, expectedType),
+    [value, scopeShape, expectedType]
+  );
+  // An open binding is still being typed, so its syntax is not checked yet
+  const syntaxError = useMemo(
+    () => (isBinding(value) && !suggestions ? checkTemplate(value) : null),
+    [value, suggestions]
+  );
+  const message =
+    error ?? (syntaxError ? `${syntaxError.message} at ${syntaxError.position ?? 0}` : undefined);
+
+  return (
+    <Box>
+      <SimpleInput
+        fullWidth
+        label={label}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        error={!!message}
+        helperText={message ?? helperText}
+      />
+      {suggestions && suggestions.completions.length > 0 && (
+        <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mt: 0.5 }}>
+          {suggestions.completions.slice(0, MAX_COMPLETIONS).map((completion) => (
+            <Chip
+              key={`${completion.label}:${completion.type}`}
+              size="small"
+              variant={completion.matchesType ? 'filled' : 'outlined'}
+              color={completion.matchesType ? 'primary' : 'default'}
+              label={
+                completion.type === 'function'
+                  ? completion.label
+                  : `${completion.label}: ${completion.type}`
+              }
+              title={completion.detail}
+              onClick={() => onChange(value.slice(0, suggestions.from) + completion.insert)}
+            />
+          ))}
+        </Stack>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import {
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Slider,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { MockSourceSchema } from '../../schemas/types';
+
+export interface MockSourceEditorProps {
+  mock: MockSourceSchema;
+  onChange: (mock: MockSourceSchema) => void;
+}
+
+const statuses: Array<{ value: number; label: string }> = [
+  { value: 200, label: '200 OK' },
+  { value: 204, label: '204 No Content' },
+  { value: 400, label: '400 Bad Request' },
+  { value: 401, label: '401 Unauthorized' },
+  { value: 403, label: '403 Forbidden' },
+  { value: 404, label: '404 Not Found' },
+  { value: 500, label: '500 Internal Server Error' },
+  { value: 503, label: '503 Service Unavailable' },
+];
+
+function formatFixture(fixture: unknown): string {
+  return fixture === undefined ? '' : JSON.stringify(fixture, null, 2);
+}
+
+/**
+ * Edit how a mock source answers: its data, delay and failures
+ */
+export const MockSourceEditor: React.FC<MockSourceEditorProps> = ({ mock, onChange }) => {
+  // Invalid JSON stays in the field until it parses
+  const [fixtureText, setFixtureText] = useState(() => formatFixture(mock.fixture));
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+
+  const update = (changes: Partial<MockSourceSchema>): void => onChange({ ...mock, ...changes });
+
+  const handleFixtureChange = (text: string): void => {
+    setFixtureText(text);
+    if (!text.trim()) {
+      setFixtureError(null);
+      update({ fixture: undefined });
+      return;
+    }
+    try {
+      update({ fixture: JSON.parse(text) as unknown });
+      setFixtureError(null);
+    } catch (error) {
+      setFixtureError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const latency = typeof mock.latency === 'number' ? mock.latency : (mock.latency?.max ?? 0);
+
+  return (
+    <Stack spacing={2}>
+      <TextField
+        fullWidth
+        size="small"
+        multiline
+        rows={6}
+        label="Fixture (JSON)"
+        value={fixtureText}
+        onChange={(e) => handleFixtureChange(e.target.value)}
+        error={!!fixtureError}
+        helperText={fixtureError ?? 'Leave empty to generate data from the response shape'}
+        placeholder='[{"id": 1, "name": "Ada"}]'
+      />
+
+      {mock.fixture === undefined && (
+        <TextField
+          size="small"
+          type="number"
+          label="Generated Items"
+          value={mock.count ?? ''}
+          onChange={(e) => update({ count: e.target.value ? Number(e.target.value) : undefined })}
+          inputProps={{ min: 0 }}
+        />
+      )}
+
+      <div>
+        <Typography variant="body2" gutterBottom>
+          Latency (ms)
+        </Typography>
+        <Slider
+          value={latency}
+          onChange={(_, value) => update({ latency: (value as number) || undefined })}
+          min={0}
+          max={5000}
+          step={100}
+          valueLabelDisplay="auto"
+          marks={[
+            { value: 0, label: '0' },
+            { value: 1000, label: '1s' },
+            { value: 5000, label: '5s' },
+          ]}
+        />
+      </div>
+
+      <div>
+        <Typography variant="body2" gutterBottom>
+          Error Rate (%)
+        </Typography>
+        <Slider
+          value={(mock.errorRate ?? 0) * 100}
+          onChange={(_, value) => update({ errorRate: (value as number) / 100 || undefined })}
+          min={0}
+          max={100}
+          step={5}
+          valueLabelDisplay="auto"
+        />
+      </div>
+
+      <FormControl fullWidth size="small">
+        <InputLabel>Status</InputLabel>
+        <Select
+          value={mock.status ?? 200}
+          onChange={(e) => {
+            const status = Number(e.target.value);
+            update({ status: status === 200 ? undefined : status });
+          }}
+          label="Status"
+        >
+          {statuses.map(({ value, label }) => (
+            <MenuItem key={value} value={value}>
+              {label}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={mock.empty ?? false}
+            onChange={(e) => update({ empty: e.target.checked || undefined })}
+          />
+        }
+        label="Empty Results"
+      />
+    </Stack>
+  );
+};
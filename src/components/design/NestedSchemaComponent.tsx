@@ -4,6 +4,8 @@ import { ComponentSchema } from '../../schemas/types';
 import { ComponentInstance } from '../../contexts/DesignSystemContext';
 import { useSimpleData } from '../../hooks/useSimpleData';
 import { componentRegistry } from '../../schemas/registry';
+import { useBoundProps } from '../../hooks/useBoundProps';
+import { BindingErrorAlert } from '../schema/BindingErrorAlert';
 
 export interface NestedSchemaComponentProps {
   schema: ComponentSchema;
@@ -45,6 +47,9 @@ export const NestedSchemaComponent: React.FC<NestedSchemaComponentProps> = ({
   // Data fetching if configured
   const { data, loading, error } = useSimpleData(instance.dataSource);
 
+  // Evaluate `{{ }}` bindings against the fetched data and bind actions to function props
+  const { props: boundProps, issues: bindingIssues } = useBoundProps(instance.props, data, schema);
+
   // Get the actual component from registry
   const Component = useMemo(() => {
     return componentRegistry.get(schema.id) || componentRegistry.get(schema.name);
@@ -87,7 +92,7 @@ export const NestedSchemaComponent: React.FC<NestedSchemaComponentProps> = ({
 
   // Merge props with data
   const finalProps = useMemo(() => {
-    const props = { ...instance.props };
+    const props = { ...boundProps };
 
     // Add data if available
     if (data) {
@@ -106,7 +111,7 @@ export const NestedSchemaComponent: React.FC<NestedSchemaComponentProps> = ({
     }
 
     return props;
-  }, [instance.props, data, schema.dataShape, isContainer, isDropTarget]);
+  }, [boundProps, data, schema.dataShape, isContainer, isDropTarget]);
 
   const isLocked = instance.metadata?.locked;
 
@@ -174,7 +179,11 @@ export const NestedSchemaComponent: React.FC<NestedSchemaComponentProps> = ({
           )}
         </Stack>
         <Box sx={{ mt: 1 }}>
-          <Component {...finalProps} />
+          {bindingIssues.length > 0 ? (
+            <BindingErrorAlert name={schema.name} issues={bindingIssues} />
+          ) : (
+            <Component {...finalProps} />
+          )}
         </Box>
       </Paper>
     );
@@ -278,7 +287,14 @@ export const NestedSchemaComponent: React.FC<NestedSchemaComponentProps> = ({
 
       {/* Component content */}
       <Box sx={{ position: 'relative' }}>
-        <Component {...finalProps}>{childrenContent}</Component>
+        {bindingIssues.length > 0 ? (
+          <>
+            <BindingErrorAlert name={schema.name} issues={bindingIssues} />
+            {childrenContent}
+          </>
+        ) : (
+          <Component {...finalProps}>{childrenContent}</Component>
+        )}
       </Box>
 
       {/* Debug info in development */}
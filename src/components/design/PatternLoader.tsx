@@ -21,6 +21,15 @@ const patternComponents = {
   DataDisplayCard: PureDataDisplayCard, // Use pure version
 };
 
+// Import statements used by the code generator (relative to src/generated/)
+const patternImports: Record<string, string> = {
+  PageHeader: "import { PageHeader } from '../patterns/pending/PageHeader';",
+  EmptyStateCard: "import { EmptyStateCard } from '../patterns/pending/EmptyStateCard';",
+  LabelValuePair: "import { LabelValuePair } from '../patterns/pending/LabelValuePair';",
+  DataDisplayCard:
+    "import { PureDataDisplayCard as DataDisplayCard } from '../components/design/PureDataDisplayCard';",
+};
+
 const patternConfigs = {
   PageHeader: pageHeaderControls,
   EmptyStateCard: emptyStateCardControls,
@@ -94,6 +103,7 @@ function createSchemaFromPattern(
     category,
     description: `Pattern component: ${name}`,
     props: controls.map(controlToProp),
+    imports: patternImports[name] ? [patternImports[name]] : undefined,
   };
 }
 
@@ -139,6 +149,7 @@ export const PatternLoader: React.FC<PatternLoaderProps> = ({ onPatternsLoaded }
         type: 'layout',
         category: 'layout',
         description: 'Responsive container for page content',
+        imports: ["import { Container } from '@mui/material';"],
         props: [
           {
             name: 'maxWidth',
@@ -170,6 +181,7 @@ export const PatternLoader: React.FC<PatternLoaderProps> = ({ onPatternsLoaded }
         type: 'layout',
         category: 'layout',
         description: 'Grid layout container',
+        imports: ["import { Grid } from '@mui/material';"],
         props: [
           {
             name: 'spacing',
@@ -197,6 +209,7 @@ export const PatternLoader: React.FC<PatternLoaderProps> = ({ onPatternsLoaded }
         type: 'layout',
         category: 'layout',
         description: 'Stack layout for vertical or horizontal arrangements',
+        imports: ["import { Stack } from '@mui/material';"],
         props: [
           {
             name: 'direction',
@@ -237,6 +250,7 @@ export const PatternLoader: React.FC<PatternLoaderProps> = ({ onPatternsLoaded }
         type: 'layout',
         category: 'layout',
         description: 'Visual divider between sections',
+        imports: ["import { Divider } from '@mui/material';"],
         props: [
           {
             name: 'orientation',
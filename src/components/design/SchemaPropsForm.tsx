@@ -14,29 +14,61 @@ import {
   AccordionSummary,
   AccordionDetails,
   Alert,
+  IconButton,
+  Tooltip,
 } from '@mui/material';
-import { ExpandMore } from '@mui/icons-material';
-import { ComponentSchema, PropSchema } from '../../schemas/types';
-import { validateData } from '../../schemas/validation';
+import { ExpandMore, Functions } from '@mui/icons-material';
+import { ComponentSchema, FieldType, PropSchema } from '../../schemas/types';
+import { resolveShape, validateDataAsync } from '../../schemas/validation';
+import { ExpressionScopeShape, checkTemplate, isBinding } from '../../schemas/expressions';
+import { inferShape } from '../../schemas/shapeInference';
+import { useExpressionScope } from '../../contexts/ExpressionScopeContext';
 import { SpacingControl } from '../patterns/SpacingControl';
 import { TypographyControl } from '../patterns/TypographyControl';
 import { SimpleInput } from './SimpleInput';
+import { ExpressionInput } from './ExpressionInput';
+import { ActionEditor } from './ActionEditor';
+import { isActionSchema } from '../../schemas/actions';
 
 export interface SchemaPropsFormProps {
   schema: ComponentSchema;
   values: Record<string, any>;
   onChange: (values: Record<string, any>) => void;
   showActions?: boolean;
+  // Names offered inside `{{ }}` bindings; defaults to the schema's data
+  // shape plus the params and state of the surrounding expression scope
+  scopeShape?: ExpressionScopeShape;
+  // Data sources that actions on function props can refetch or mutate
+  dataSourceIds?: string[];
+}
+
+// Value type each prop type expects from a binding
+const bindingTypes: Partial<Record<PropSchema['type'], FieldType>> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  enum: 'string',
+  object: 'object',
+};
+
+/**
+ * Prop an error path belongs to, e.g. `.stats[0].value` -> `stats`
+ */
+function getErrorProp(path: string): string {
+  return path.replace(/^\./, '').split(/[.[]/)[0];
 }
 
 /**
  * Form component that generates controls from a component schema
  */
 export const SchemaPropsForm: React.FC<SchemaPropsFormProps> = React.memo(
-  ({ schema, values, onChange, showActions = true }) => {
+  ({ schema, values, onChange, showActions = true, scopeShape, dataSourceIds }) => {
     const [localValues, setLocalValues] = useState(() => ({ ...values }));
     const [isDirty, setIsDirty] = useState(false);
     const [errors, setErrors] = useState<Record<string, string>>({});
+    // Non-string props switched to an expression input
+    const [expressionProps, setExpressionProps] = useState<Set<string>>(() => new Set());
+    const { params, state } = useExpressionScope();
     const prevValuesRef = React.useRef(values);
 
     // Update local values when external values change (e.g., when switching components)
@@ -47,10 +79,21 @@ export const SchemaPropsForm: React.FC<SchemaPropsFormProps> = React.memo(
         setLocalValues({ ...values });
         setIsDirty(false);
         setErrors({});
+        setExpressionProps(new Set());
         prevValuesRef.current = values;
       }
     }, [values]);
 
+    const bindingScope = useMemo(
+      (): ExpressionScopeShape =>
+        scopeShape ?? {
+          data: schema.dataShape,
+          params: params && inferShape([params]),
+          state: state && inferShape([state]),
+        },
+      [scopeShape, schema.dataShape, params, state]
+    );
+
     // Group props by category
     const propGroups = useMemo(() => {
       const groups: Record<string, PropSchema[]> = {};
@@ -82,19 +125,56 @@ export const SchemaPropsForm: React.FC<SchemaPropsFormProps> = React.memo(
       });
     }, []);
 
+    const isBound = useCallback(
+      (prop: PropSchema) => isBinding(localValues[prop.name]) || expressionProps.has(prop.name),
+      [localValues, expressionProps]
+    );
+
+    // Switch a prop between its regular control and an expression
+    const toggleExpression = useCallback(
+      (prop: PropSchema) => {
+        const bound = isBound(prop);
+        setExpressionProps((prev) => {
+          const next = new Set(prev);
+          if (bound) {
+            next.delete(prop.name);
+          } else {
+            next.add(prop.name);
+          }
+          return next;
+        });
+        handleChange(prop.name, bound ? prop.default : '{{');
+      },
+      [isBound, handleChange]
+    );
+
     // Handle update
-    const handleUpdate = useCallback(() => {
-      // Validate if schema has validation rules
-      if (schema.dataShape) {
-        const result = validateData(localValues, schema.dataShape);
-        if (!result.valid && result.errors) {
-          const newErrors: Record<string, string> = {};
-          result.errors.forEach((error) => {
-            newErrors[error.path] = error.message;
-          });
-          setErrors(newErrors);
-          return;
+    const handleUpdate = useCallback(async (): Promise<void> => {
+      const newErrors: Record<string, string> = {};
+
+      // Bindings are only checked for syntax; they are evaluated when rendering
+      Object.entries(localValues).forEach(([name, value]) => {
+        const syntaxError = isBinding(value) ? checkTemplate(value) : null;
+        if (syntaxError) {
+          newErrors[name] = syntaxError.message;
         }
+      });
+
+      // Validate if schema has validation rules, including async custom rules
+      if (schema.dataShape) {
+        const result = await validateDataAsync(localValues, schema.dataShape);
+        // Keep the first error per prop; union summaries come before branch errors
+        result.errors?.forEach((error) => {
+          const prop = getErrorProp(error.path);
+          if (!isBinding(localValues[prop])) {
+            newErrors[prop] = newErrors[prop] ?? error.message;
+          }
+        });
+      }
+
+      if (Object.keys(newErrors).length > 0) {
+        setErrors(newErrors);
+        return;
       }
 
       onChange(localValues);
@@ -114,20 +194,30 @@ export const SchemaPropsForm: React.FC<SchemaPropsFormProps> = React.memo(
       (prop: PropSchema) => {
         const value = localValues[prop.name] ?? prop.default ?? '';
         const error = errors[prop.name];
+        // Cleared inputs store null when the data field accepts it
+        const dataShape = schema.dataShape && resolveShape(schema.dataShape);
+        const nullable = dataShape?.fields?.[prop.name]?.nullable === true;
+        // String props always accept bindings; other props once switched over
+        if (prop.type === 'string' || (prop.type !== 'function' && isBound(prop))) {
+          return (
+            <ExpressionInput
+              label={prop.label || prop.name}
+              value={typeof value === 'string' ? value : ''}
+              onChange={(newValue) =>
+                handleChange(
+                  prop.name,
+                  prop.type === 'string' && nullable && newValue === '' ? null : newValue
+                )
+              }
+              scopeShape={bindingScope}
+              expectedType={bindingTypes[prop.type]}
+              error={error}
+              helperText={prop.description}
+            />
+          );
+        }
 
         switch (prop.type) {
-          case 'string':
-            return (
-              <SimpleInput
-                fullWidth
-                label={prop.label || prop.name}
-                value={value || ''}
-                onChange={(e) => handleChange(prop.name, e.target.value)}
-                error={!!error}
-                helperText={error || prop.description}
-              />
-            );
-
           case 'number':
             return (
               <SimpleInput
@@ -135,7 +225,12 @@ export const SchemaPropsForm: React.FC<SchemaPropsFormProps> = React.memo(
                 type="number"
                 label={prop.label || prop.name}
                 value={value ?? 0}
-                onChange={(e) => handleChange(prop.name, Number(e.target.value))}
+                onChange={(e) =>
+                  handleChange(
+                    prop.name,
+                    nullable && e.target.value === '' ? null : Number(e.target.value)
+                  )
+                }
                 error={!!error}
                 helperText={error || prop.description}
               />
@@ -231,11 +326,32 @@ export const SchemaPropsForm: React.FC<SchemaPropsFormProps> = React.memo(
             // TODO: Add generic object editor
             return <Alert severity="info">Object editor for "{prop.name}" not implemented</Alert>;
 
+          case 'function':
+            return (
+              <Box>
+                <ActionEditor
+                  label={prop.name}
+                  action={isActionSchema(value) ? value : undefined}
+                  onChange={(action) => handleChange(prop.name, action)}
+                  dataSourceIds={dataSourceIds}
+                />
+                {prop.description && (
+                  <Typography
+                    variant="caption"
+                    color="text.secondary"
+                    sx={{ mt: 0.5, display: 'block' }}
+                  >
+                    {prop.description}
+                  </Typography>
+                )}
+              </Box>
+            );
+
           default:
             return <Alert severity="warning">Unknown prop type: {prop.type}</Alert>;
         }
       },
-      [localValues, errors, handleChange]
+      [localValues, errors, handleChange, schema.dataShape, isBound, bindingScope, dataSourceIds]
     );
 
     return (
@@ -249,7 +365,23 @@ export const SchemaPropsForm: React.FC<SchemaPropsFormProps> = React.memo(
             <AccordionDetails>
               <Stack spacing={2}>
                 {props.map((prop) => (
-                  <Box key={prop.name}>{renderControl(prop)}</Box>
+                  <Box key={prop.name} sx={{ position: 'relative' }}>
+                    {prop.type !== 'string' && prop.type !== 'function' && (
+                      <Tooltip
+                        title={isBound(prop) ? 'Use a fixed value' : 'Bind to an expression'}
+                      >
+                        <IconButton
+                          size="small"
+                          color={isBound(prop) ? 'primary' : 'default'}
+                          onClick={() => toggleExpression(prop)}
+                          sx={{ position: 'absolute', top: -6, right: 0, zIndex: 1 }}
+                        >
+                          <Functions fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {renderControl(prop)}
+                  </Box>
                 ))}
               </Stack>
             </AccordionDetails>
@@ -272,7 +404,12 @@ export const SchemaPropsForm: React.FC<SchemaPropsFormProps> = React.memo(
             <Button variant="outlined" size="small" onClick={handleCancel} disabled={!isDirty}>
               Cancel
             </Button>
-            <Button variant="contained" size="small" onClick={handleUpdate} disabled={!isDirty}>
+            <Button
+              variant="contained"
+              size="small"
+              onClick={() => void handleUpdate()}
+              disabled={!isDirty}
+            >
               Update
             </Button>
           </Box>
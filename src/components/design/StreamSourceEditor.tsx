@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import {
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+} from '@mui/material';
+import { StreamReducer, StreamReducerType, StreamSchema } from '../../schemas/types';
+
+export interface StreamSourceEditorProps {
+  stream: StreamSchema;
+  sourceType: 'websocket' | 'sse';
+  onChange: (stream: StreamSchema) => void;
+}
+
+const reducers: Array<{ value: StreamReducerType; label: string }> = [
+  { value: 'replace', label: 'Replace with each message' },
+  { value: 'append', label: 'Append to a list' },
+  { value: 'upsert', label: 'Upsert by key' },
+  { value: 'window', label: 'Keep a time window' },
+];
+
+function formatMessages(messages: unknown[] | undefined): string {
+  return messages === undefined ? '' : JSON.stringify(messages, null, 2);
+}
+
+function toCount(value: string): number | undefined {
+  return value ? Number(value) : undefined;
+}
+
+/**
+ * Edit how a streaming source subscribes, folds messages and reconnects
+ */
+export const StreamSourceEditor: React.FC<StreamSourceEditorProps> = ({
+  stream,
+  sourceType,
+  onChange,
+}) => {
+  // Invalid JSON stays in the field until it parses
+  const [subscribeText, setSubscribeText] = useState(() => formatMessages(stream.subscribe));
+  const [subscribeError, setSubscribeError] = useState<string | null>(null);
+
+  const reducer: StreamReducer = stream.reducer ?? { type: 'replace' };
+  const update = (changes: Partial<StreamSchema>): void => onChange({ ...stream, ...changes });
+  const updateReducer = (changes: Partial<StreamReducer>): void =>
+    update({ reducer: { ...reducer, ...changes } as StreamReducer });
+
+  const handleReducerTypeChange = (type: StreamReducerType): void => {
+    const next: StreamReducer =
+      type === 'upsert' ? { type, key: 'id' } : type === 'window' ? { type, size: 100 } : { type };
+    update({ reducer: type === 'replace' ? undefined : next });
+  };
+
+  const handleSubscribeChange = (text: string): void => {
+    setSubscribeText(text);
+    if (!text.trim()) {
+      setSubscribeError(null);
+      update({ subscribe: undefined });
+      return;
+    }
+    try {
+      const messages = JSON.parse(text) as unknown;
+      if (!Array.isArray(messages)) {
+        setSubscribeError('Enter an array of messages');
+        return;
+      }
+      update({ subscribe: messages });
+      setSubscribeError(null);
+    } catch (error) {
+      setSubscribeError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <Stack spacing={2}>
+      {sourceType === 'websocket' ? (
+        <TextField
+          fullWidth
+          size="small"
+          multiline
+          rows={3}
+          label="Subscribe Messages (JSON)"
+          value={subscribeText}
+          onChange={(e) => handleSubscribeChange(e.target.value)}
+          error={!!subscribeError}
+          helperText={subscribeError ?? 'Sent on every connection'}
+          placeholder='[{"type": "subscribe", "channel": "bids"}]'
+        />
+      ) : (
+        <TextField
+          fullWidth
+          size="small"
+          label="Event Types"
+          value={(stream.events ?? []).join(', ')}
+          onChange={(e) => {
+            const events = e.target.value
+              .split(',')
+              .map((event) => event.trim())
+              .filter(Boolean);
+            update({ events: events.length > 0 ? events : undefined });
+          }}
+          helperText="Comma separated; defaults to message"
+        />
+      )}
+
+      <TextField
+        fullWidth
+        size="small"
+        label="Message Path"
+        value={stream.messagePath ?? ''}
+        onChange={(e) => update({ messagePath: e.target.value || undefined })}
+        helperText="Dot path to the payload in each message"
+        placeholder="payload.items"
+      />
+
+      <FormControl fullWidth size="small">
+        <InputLabel>Reducer</InputLabel>
+        <Select
+          value={reducer.type}
+          onChange={(e) => handleReducerTypeChange(e.target.value as StreamReducerType)}
+          label="Reducer"
+        >
+          {reducers.map(({ value, label }) => (
+            <MenuItem key={value} value={value}>
+              {label}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {reducer.type === 'upsert' && (
+        <TextField
+          size="small"
+          label="Key"
+          value={reducer.key}
+          onChange={(e) => updateReducer({ key: e.target.value })}
+        />
+      )}
+      {(reducer.type === 'append' || reducer.type === 'upsert') && (
+        <TextField
+          size="small"
+          type="number"
+          label="Max Items"
+          value={reducer.max ?? ''}
+          onChange={(e) => updateReducer({ max: toCount(e.target.value) })}
+          inputProps={{ min: 1 }}
+        />
+      )}
+      {reducer.type === 'window' && (
+        <Stack direction="row" spacing={2}>
+          <TextField
+            size="small"
+            type="number"
+            label="Window (ms)"
+            value={reducer.duration ?? ''}
+            onChange={(e) => updateReducer({ duration: toCount(e.target.value) })}
+            inputProps={{ min: 1 }}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="Max Items"
+            value={reducer.size ?? ''}
+            onChange={(e) => updateReducer({ size: toCount(e.target.value) })}
+            inputProps={{ min: 1 }}
+          />
+        </Stack>
+      )}
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={stream.reconnect !== false}
+            onChange={(e) => update({ reconnect: e.target.checked ? undefined : false })}
+          />
+        }
+        label="Reconnect After Drops"
+      />
+    </Stack>
+  );
+};
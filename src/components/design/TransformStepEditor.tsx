@@ -0,0 +1,552 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add, ArrowDownward, ArrowUpward, Delete } from '@mui/icons-material';
+import {
+  RuleCondition,
+  TransformAggregateFn,
+  TransformOp,
+  TransformStep,
+  TransformValue,
+} from '../../schemas/types';
+import { transformOps } from '../../schemas/transforms';
+
+export interface TransformStepEditorProps {
+  steps: TransformStep[];
+  onChange: (steps: TransformStep[]) => void;
+}
+
+const opLabels: Record<TransformOp, string> = {
+  get: 'Get path',
+  pick: 'Pick fields',
+  rename: 'Rename fields',
+  map: 'Map fields',
+  filter: 'Filter',
+  sort: 'Sort',
+  groupBy: 'Group by',
+  aggregate: 'Aggregate',
+  flatten: 'Flatten',
+  join: 'Join source',
+};
+
+const conditionOperators: Array<NonNullable<RuleCondition['operator']>> = [
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'present',
+  'absent',
+];
+
+const aggregateFns: TransformAggregateFn[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+function createStep(op: TransformOp): TransformStep {
+  switch (op) {
+    case 'get':
+      return { op, path: '' };
+    case 'pick':
+      return { op, fields: [] };
+    case 'rename':
+    case 'map':
+      return { op, fields: {} };
+    case 'filter':
+      return { op, where: [] };
+    case 'sort':
+      return { op, by: [] };
+    case 'groupBy':
+      return { op, field: '' };
+    case 'aggregate':
+      return { op, metrics: {} };
+    case 'flatten':
+      return { op };
+    case 'join':
+      return { op, source: '', on: { local: '', foreign: '' }, as: '' };
+  }
+}
+
+/**
+ * Parse a literal typed into a text field: numbers, booleans and null keep
+ * their type, anything else stays a string
+ */
+function parseLiteral(text: string): string | number | boolean | null {
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  if (text === 'null') {
+    return null;
+  }
+  return text.trim() !== '' && !isNaN(Number(text)) ? Number(text) : text;
+}
+
+function formatLiteral(value: unknown): string {
+  return value === undefined ? '' : String(value as string);
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+interface RowListProps<T> {
+  rows: T[];
+  onChange: (rows: T[]) => void;
+  createRow: () => T;
+  renderRow: (row: T, update: (row: T) => void) => React.ReactNode;
+  addLabel: string;
+}
+
+/**
+ * Editable list of rows with add and remove buttons
+ */
+function RowList<T>({
+  rows,
+  onChange,
+  createRow,
+  renderRow,
+  addLabel,
+}: RowListProps<T>): React.ReactElement {
+  return (
+    <Stack spacing={1}>
+      {rows.map((row, index) => (
+        // Rows have no identity of their own; position is the key
+        // eslint-disable-next-line react/no-array-index-key
+        <Stack key={index} direction="row" spacing={1} alignItems="center">
+          {renderRow(row, (updated) =>
+            onChange(rows.map((current, i) => (i === index ? updated : current)))
+          )}
+          <IconButton
+            size="small"
+            aria-label="Remove row"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+          >
+            <Delete fontSize="small" />
+          </IconButton>
+        </Stack>
+      ))}
+      <Box>
+        <Button size="small" startIcon={<Add />} onClick={() => onChange([...rows, createRow()])}>
+          {addLabel}
+        </Button>
+      </Box>
+    </Stack>
+  );
+}
+
+function valueKind(value: TransformValue): 'field' | 'value' | 'template' {
+  if ('field' in value) {
+    return 'field';
+  }
+  return 'template' in value ? 'template' : 'value';
+}
+
+function valueText(value: TransformValue): string {
+  if ('field' in value) {
+    return value.field;
+  }
+  return 'template' in value ? value.template : formatLiteral(value.value);
+}
+
+function createValue(kind: string, text: string): TransformValue {
+  if (kind === 'field') {
+    return { field: text };
+  }
+  return kind === 'template' ? { template: text } : { value: parseLiteral(text) };
+}
+
+interface StepFieldsProps {
+  step: TransformStep;
+  onChange: (step: TransformStep) => void;
+}
+
+/**
+ * Inputs for the parameters of one step
+ */
+const StepFields: React.FC<StepFieldsProps> = ({ step, onChange }) => {
+  switch (step.op) {
+    case 'get':
+      return (
+        <TextField
+          size="small"
+          label="Path"
+          placeholder="data.items"
+          value={step.path}
+          onChange={(e) => onChange({ ...step, path: e.target.value })}
+        />
+      );
+
+    case 'pick':
+      return (
+        <TextField
+          size="small"
+          label="Fields"
+          placeholder="id, name, email"
+          helperText="Comma-separated top-level fields to keep"
+          value={step.fields.join(', ')}
+          onChange={(e) => onChange({ ...step, fields: splitList(e.target.value) })}
+        />
+      );
+
+    case 'rename':
+      return (
+        <RowList
+          rows={Object.entries(step.fields)}
+          onChange={(rows) => onChange({ ...step, fields: Object.fromEntries(rows) })}
+          createRow={(): [string, string] => ['', '']}
+          addLabel="Add rename"
+          renderRow={([from, to], update) => (
+            <>
+              <TextField
+                size="small"
+                label="From"
+                value={from}
+                onChange={(e) => update([e.target.value, to])}
+              />
+              <TextField
+                size="small"
+                label="To"
+                value={to}
+                onChange={(e) => update([from, e.target.value])}
+              />
+            </>
+          )}
+        />
+      );
+
+    case 'map':
+      return (
+        <RowList
+          rows={Object.entries(step.fields)}
+          onChange={(rows) => onChange({ ...step, fields: Object.fromEntries(rows) })}
+          createRow={(): [string, TransformValue] => ['', { field: '' }]}
+          addLabel="Add field"
+          renderRow={([name, value], update) => (
+            <>
+              <TextField
+                size="small"
+                label="Field"
+                value={name}
+                onChange={(e) => update([e.target.value, value])}
+              />
+              <Select
+                size="small"
+                value={valueKind(value)}
+                onChange={(e) => update([name, createValue(e.target.value, valueText(value))])}
+              >
+                <MenuItem value="field">From field</MenuItem>
+                <MenuItem value="value">Literal</MenuItem>
+                <MenuItem value="template">Template</MenuItem>
+              </Select>
+              <TextField
+                size="small"
+                label={valueKind(value) === 'template' ? 'Template, e.g. {first} {last}' : 'Value'}
+                value={valueText(value)}
+                onChange={(e) => update([name, createValue(valueKind(value), e.target.value)])}
+              />
+            </>
+          )}
+        />
+      );
+
+    case 'filter':
+      return (
+        <RowList
+          rows={step.where}
+          onChange={(where) => onChange({ ...step, where })}
+          createRow={(): RuleCondition => ({ field: '', operator: 'eq', value: '' })}
+          addLabel="Add condition"
+          renderRow={(condition, update) => (
+            <>
+              <TextField
+                size="small"
+                label="Field"
+                value={condition.field}
+                onChange={(e) => update({ ...condition, field: e.target.value })}
+              />
+              <Select
+                size="small"
+                value={condition.operator ?? 'eq'}
+                onChange={(e) =>
+                  update({
+                    ...condition,
+                    operator: e.target.value as NonNullable<RuleCondition['operator']>,
+                  })
+                }
+              >
+                {conditionOperators.map((operator) => (
+                  <MenuItem key={operator} value={operator}>
+                    {operator}
+                  </MenuItem>
+                ))}
+              </Select>
+              {condition.operator !== 'present' && condition.operator !== 'absent' && (
+                <TextField
+                  size="small"
+                  label="Value"
+                  value={formatLiteral(condition.value)}
+                  onChange={(e) => update({ ...condition, value: parseLiteral(e.target.value) })}
+                />
+              )}
+            </>
+          )}
+        />
+      );
+
+    case 'sort':
+      return (
+        <RowList
+          rows={step.by}
+          onChange={(by) => onChange({ ...step, by })}
+          createRow={() => ({ field: '', direction: 'asc' as const })}
+          addLabel="Add sort key"
+          renderRow={(key, update) => (
+            <>
+              <TextField
+                size="small"
+                label="Field"
+                value={key.field}
+                onChange={(e) => update({ ...key, field: e.target.value })}
+              />
+              <Select
+                size="small"
+                value={key.direction ?? 'asc'}
+                onChange={(e) => update({ ...key, direction: e.target.value as 'asc' | 'desc' })}
+              >
+                <MenuItem value="asc">Ascending</MenuItem>
+                <MenuItem value="desc">Descending</MenuItem>
+              </Select>
+            </>
+          )}
+        />
+      );
+
+    case 'groupBy':
+      return (
+        <Stack direction="row" spacing={1}>
+          <TextField
+            size="small"
+            label="Field"
+            value={step.field}
+            onChange={(e) => onChange({ ...step, field: e.target.value })}
+          />
+          <TextField
+            size="small"
+            label="Items key"
+            placeholder="items"
+            value={step.as ?? ''}
+            onChange={(e) => onChange({ ...step, as: e.target.value || undefined })}
+          />
+        </Stack>
+      );
+
+    case 'aggregate':
+      return (
+        <Stack spacing={1}>
+          <TextField
+            size="small"
+            label="Group by (optional)"
+            value={step.groupBy ?? ''}
+            onChange={(e) => onChange({ ...step, groupBy: e.target.value || undefined })}
+          />
+          <RowList
+            rows={Object.entries(step.metrics)}
+            onChange={(rows) => onChange({ ...step, metrics: Object.fromEntries(rows) })}
+            createRow={(): [string, { fn: TransformAggregateFn; field?: string }] => [
+              '',
+              { fn: 'count' },
+            ]}
+            addLabel="Add metric"
+            renderRow={([name, metric], update) => (
+              <>
+                <TextField
+                  size="small"
+                  label="Name"
+                  value={name}
+                  onChange={(e) => update([e.target.value, metric])}
+                />
+                <Select
+                  size="small"
+                  value={metric.fn}
+                  onChange={(e) =>
+                    update([name, { ...metric, fn: e.target.value as TransformAggregateFn }])
+                  }
+                >
+                  {aggregateFns.map((fn) => (
+                    <MenuItem key={fn} value={fn}>
+                      {fn}
+                    </MenuItem>
+                  ))}
+                </Select>
+                <TextField
+                  size="small"
+                  label="Field"
+                  value={metric.field ?? ''}
+                  onChange={(e) =>
+                    update([name, { ...metric, field: e.target.value || undefined }])
+                  }
+                />
+              </>
+            )}
+          />
+        </Stack>
+      );
+
+    case 'flatten':
+      return (
+        <TextField
+          size="small"
+          label="Nested array field (optional)"
+          helperText="Leave empty to flatten nested arrays one level"
+          value={step.field ?? ''}
+          onChange={(e) => onChange({ ...step, field: e.target.value || undefined })}
+        />
+      );
+
+    case 'join':
+      return (
+        <Stack spacing={1}>
+          <Stack direction="row" spacing={1}>
+            <TextField
+              size="small"
+              label="Source ID"
+              value={step.source}
+              onChange={(e) => onChange({ ...step, source: e.target.value })}
+            />
+            <TextField
+              size="small"
+              label="Store as"
+              value={step.as}
+              onChange={(e) => onChange({ ...step, as: e.target.value })}
+            />
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <TextField
+              size="small"
+              label="Local field"
+              value={step.on.local}
+              onChange={(e) => onChange({ ...step, on: { ...step.on, local: e.target.value } })}
+            />
+            <TextField
+              size="small"
+              label="Foreign field"
+              value={step.on.foreign}
+              onChange={(e) => onChange({ ...step, on: { ...step.on, foreign: e.target.value } })}
+            />
+          </Stack>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={step.many ?? false}
+                onChange={(e) => onChange({ ...step, many: e.target.checked || undefined })}
+              />
+            }
+            label="Attach all matches"
+          />
+        </Stack>
+      );
+  }
+};
+
+/**
+ * Visual editor for declarative data source transform steps
+ */
+export const TransformStepEditor: React.FC<TransformStepEditorProps> = ({ steps, onChange }) => {
+  const updateStep = (index: number, step: TransformStep): void => {
+    onChange(steps.map((current, i) => (i === index ? step : current)));
+  };
+
+  const moveStep = (index: number, offset: number): void => {
+    const next = [...steps];
+    const [step] = next.splice(index, 1);
+    next.splice(index + offset, 0, step);
+    onChange(next);
+  };
+
+  return (
+    <Stack spacing={1.5}>
+      {steps.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No transform steps; data is used as returned.
+        </Typography>
+      )}
+
+      {steps.map((step, index) => (
+        // Steps are plain JSON without IDs; position is the key
+        // eslint-disable-next-line react/no-array-index-key
+        <Paper key={index} variant="outlined" sx={{ p: 1.5 }}>
+          <Stack direction="row" spacing={1} alignItems="center" mb={1.5}>
+            <Typography variant="caption" color="text.secondary">
+              {index + 1}.
+            </Typography>
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+              <InputLabel>Step</InputLabel>
+              <Select
+                label="Step"
+                value={step.op}
+                onChange={(e) => updateStep(index, createStep(e.target.value as TransformOp))}
+              >
+                {transformOps.map((op) => (
+                  <MenuItem key={op} value={op}>
+                    {opLabels[op]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Box flex={1} />
+            <IconButton
+              size="small"
+              aria-label="Move step up"
+              disabled={index === 0}
+              onClick={() => moveStep(index, -1)}
+            >
+              <ArrowUpward fontSize="small" />
+            </IconButton>
+            <IconButton
+              size="small"
+              aria-label="Move step down"
+              disabled={index === steps.length - 1}
+              onClick={() => moveStep(index, 1)}
+            >
+              <ArrowDownward fontSize="small" />
+            </IconButton>
+            <IconButton
+              size="small"
+              aria-label="Remove step"
+              onClick={() => onChange(steps.filter((_, i) => i !== index))}
+            >
+              <Delete fontSize="small" />
+            </IconButton>
+          </Stack>
+          <StepFields step={step} onChange={(updated) => updateStep(index, updated)} />
+        </Paper>
+      ))}
+
+      <Box>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<Add />}
+          onClick={() => onChange([...steps, createStep('get')])}
+        >
+          Add Step
+        </Button>
+      </Box>
+    </Stack>
+  );
+};
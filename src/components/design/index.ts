@@ -18,9 +18,15 @@ export type { SchemaPropsFormProps } from './SchemaPropsForm';
 export { DataSourceConfig } from './DataSourceConfig';
 export type { DataSourceConfigProps } from './DataSourceConfig';
 
+export { DataGraphView } from './DataGraphView';
+export type { DataGraphViewProps } from './DataGraphView';
+
 export { ComponentInfo } from './ComponentInfo';
 export type { ComponentInfoProps } from './ComponentInfo';
 
+export { CodePanel } from './CodePanel';
+export type { CodePanelProps } from './CodePanel';
+
 // Re-export store for convenience
 export { useDesignStore } from '../../stores/designStore';
 export type { ComponentInstance } from '../../stores/designStore';
@@ -0,0 +1,67 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { ApplicationRenderer } from './ApplicationRenderer';
+import { MockAuthProvider } from '../../services/auth';
+import { ApplicationSchema, PageSchema } from '../../schemas/types';
+
+const page = (id: string, route: string, meta?: PageSchema['meta']): PageSchema => ({
+  id,
+  name: `${id} page`,
+  route,
+  layout: { type: 'flex' },
+  dataSources: [],
+  components: [],
+  meta,
+});
+
+const app: ApplicationSchema = {
+  id: 'crm',
+  name: 'CRM',
+  version: '1.0.0',
+  components: [],
+  pages: [
+    page('home', '/'),
+    page('reports', '/reports', { requiresAuth: true }),
+    page('admin', '/admin', { roles: ['admin'] }),
+  ],
+  features: { authentication: true, errorBoundary: true },
+};
+
+describe('ApplicationRenderer', () => {
+  it('should render the page for the current route with generated navigation', async () => {
+    render(<ApplicationRenderer schema={app} initialEntries={['/']} />);
+
+    expect(await screen.findByRole('heading', { name: 'home page' })).toBeInTheDocument();
+    const nav = screen.getByRole('navigation', { name: 'Application navigation' });
+    expect(nav).toHaveTextContent('home page');
+    expect(nav).not.toHaveTextContent('reports page');
+  });
+
+  it('should redirect to sign in and return after login', async () => {
+    const provider = new MockAuthProvider();
+    render(
+      <ApplicationRenderer schema={app} authProvider={provider} initialEntries={['/reports']} />
+    );
+
+    fireEvent.change(await screen.findByLabelText(/Username/), { target: { value: 'user' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByRole('heading', { name: 'reports page' })).toBeInTheDocument();
+    expect(screen.getByText('Regular User')).toBeInTheDocument();
+  });
+
+  it('should deny pages the user lacks roles for', async () => {
+    const provider = new MockAuthProvider({ initialUser: 'user' });
+    render(
+      <ApplicationRenderer schema={app} authProvider={provider} initialEntries={['/admin']} />
+    );
+
+    expect(await screen.findByText('Access denied')).toBeInTheDocument();
+  });
+
+  it('should show a not found page for unknown routes', async () => {
+    render(<ApplicationRenderer schema={app} initialEntries={['/missing']} />);
+
+    expect(await screen.findByText('Page not found')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,329 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  Link,
+  Navigate,
+  Outlet,
+  RouteObject,
+  RouterProvider,
+  createBrowserRouter,
+  createHashRouter,
+  createMemoryRouter,
+  useLocation,
+  useNavigate,
+} from 'react-router-dom';
+import {
+  Alert,
+  AlertTitle,
+  AppBar,
+  Box,
+  Button,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Stack,
+  TextField,
+  Toolbar,
+  Typography,
+} from '@mui/material';
+import {
+  ApplicationSchema,
+  DataSourceSchema,
+  PageSchema,
+  RuntimeConfig,
+} from '../../schemas/types';
+import { buildNavigation, getPageAccess, toRoutePath } from '../../schemas/appRouting';
+import { AuthProvider, MockAuthProvider } from '../../services/auth';
+import { AuthContextProvider, useAuth } from '../../contexts/AuthContext';
+import { ActionRuntimeProvider } from '../../contexts/ActionRuntimeContext';
+import { FormattingProvider } from '../../contexts/FormattingContext';
+import { ErrorBoundary } from '../ErrorBoundary';
+import { PageRenderer } from './PageRenderer';
+
+export interface ApplicationRendererProps {
+  schema: ApplicationSchema;
+  // Defaults to an in-memory MockAuthProvider when authentication is enabled
+  authProvider?: AuthProvider;
+  // Use an in-memory router starting at these entries (tests and previews)
+  initialEntries?: string[];
+  showNavigation?: boolean;
+  // Locale, currency and time zone used to format field values
+  config?: RuntimeConfig;
+}
+
+const LOGIN_PATH = '/login';
+
+interface LocationState {
+  from?: string;
+}
+
+interface ApplicationShellProps {
+  schema: ApplicationSchema;
+  showNavigation: boolean;
+}
+
+/**
+ * App bar and generated navigation around the active page
+ */
+const ApplicationShell: React.FC<ApplicationShellProps> = ({ schema, showNavigation }) => {
+  const location = useLocation();
+  const { user, logout } = useAuth();
+  const authEnabled = schema.features?.authentication === true;
+
+  const navigation = useMemo(() => buildNavigation(schema, user), [schema, user]);
+
+  return (
+    <Box display="flex" flexDirection="column" minHeight="100vh">
+      <AppBar position="static" color="default" elevation={1}>
+        <Toolbar>
+          <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
+            {schema.name}
+          </Typography>
+          {authEnabled &&
+            (user ? (
+              <Stack direction="row" spacing={2} alignItems="center">
+                <Typography variant="body2">{user.name}</Typography>
+                <Button color="inherit" onClick={() => void logout()}>
+                  Sign out
+                </Button>
+              </Stack>
+            ) : (
+              <Button color="inherit" component={Link} to={LOGIN_PATH}>
+                Sign in
+              </Button>
+            ))}
+        </Toolbar>
+      </AppBar>
+
+      <Box display="flex" flexGrow={1}>
+        {showNavigation && navigation.length > 0 && (
+          <Box
+            component="nav"
+            aria-label="Application navigation"
+            sx={{ width: 220, flexShrink: 0 }}
+          >
+            <List>
+              {navigation.map((entry) => (
+                <ListItem key={entry.pageId} disablePadding>
+                  <ListItemButton
+                    component={Link}
+                    to={entry.path}
+                    selected={location.pathname === entry.path}
+                  >
+                    <ListItemText primary={entry.label} />
+                  </ListItemButton>
+                </ListItem>
+              ))}
+            </List>
+          </Box>
+        )}
+
+        <Box component="main" flexGrow={1} p={3} minWidth={0}>
+          <Outlet />
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+interface GuardedPageProps {
+  page: PageSchema;
+  globalDataSources?: DataSourceSchema[];
+  authEnabled: boolean;
+  errorBoundary: boolean;
+}
+
+/**
+ * Enforce `meta.requiresAuth` and `meta.roles` before rendering a page
+ */
+const GuardedPage: React.FC<GuardedPageProps> = ({
+  page,
+  globalDataSources,
+  authEnabled,
+  errorBoundary,
+}) => {
+  const location = useLocation();
+  const { user, loading } = useAuth();
+
+  if (authEnabled && loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const access = getPageAccess(page, user, authEnabled);
+
+  if (access === 'unauthenticated') {
+    const state: LocationState = { from: location.pathname };
+    return <Navigate to={LOGIN_PATH} replace state={state} />;
+  }
+
+  if (access === 'forbidden') {
+    return (
+      <Alert severity="error">
+        <AlertTitle>Access denied</AlertTitle>
+        You do not have permission to view this page.
+      </Alert>
+    );
+  }
+
+  const content = <PageRenderer schema={page} globalDataSources={globalDataSources} showHeader />;
+
+  return errorBoundary ? <ErrorBoundary key={page.id}>{content}</ErrorBoundary> : content;
+};
+
+/**
+ * Sign-in form backed by the active auth provider
+ */
+const LoginPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { login } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const from = (location.state as LocationState | null)?.from ?? '/';
+
+  const handleSubmit = async (event: React.FormEvent): Promise<void> => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await login({ username, password });
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3, maxWidth: 400, mx: 'auto' }}>
+      <form onSubmit={(event) => void handleSubmit(event)}>
+        <Stack spacing={2}>
+          <Typography variant="h5" component="h1">
+            Sign in
+          </Typography>
+          {error && <Alert severity="error">{error}</Alert>}
+          <TextField
+            label="Username"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+            required
+          />
+          <TextField
+            label="Password"
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+          <Button type="submit" variant="contained" disabled={submitting}>
+            Sign in
+          </Button>
+        </Stack>
+      </form>
+    </Paper>
+  );
+};
+
+const NotFoundPage: React.FC = () => (
+  <Alert severity="warning">
+    <AlertTitle>Page not found</AlertTitle>
+    No page is defined for this route.
+  </Alert>
+);
+
+/**
+ * Build the react-router tree for an application schema
+ */
+function createApplicationRoutes(
+  schema: ApplicationSchema,
+  showNavigation: boolean
+): RouteObject[] {
+  const authEnabled = schema.features?.authentication === true;
+  const errorBoundary = schema.features?.errorBoundary === true;
+
+  const pageRoutes: RouteObject[] = schema.pages.map((page) => {
+    const element = (
+      <GuardedPage
+        page={page}
+        globalDataSources={schema.globalDataSources}
+        authEnabled={authEnabled}
+        errorBoundary={errorBoundary}
+      />
+    );
+    const path = toRoutePath(page.route);
+    return path ? { path, element } : { index: true, element };
+  });
+
+  const hasLoginPage = schema.pages.some((page) => toRoutePath(page.route) === 'login');
+
+  return [
+    {
+      path: '/',
+      element: <ApplicationShell schema={schema} showNavigation={showNavigation} />,
+      children: [
+        ...pageRoutes,
+        ...(authEnabled && !hasLoginPage ? [{ path: 'login', element: <LoginPage /> }] : []),
+        { path: '*', element: <NotFoundPage /> },
+      ],
+    },
+  ];
+}
+
+/**
+ * Runtime renderer for a whole application schema
+ */
+export const ApplicationRenderer: React.FC<ApplicationRendererProps> = ({
+  schema,
+  authProvider,
+  initialEntries,
+  showNavigation = true,
+  config,
+}) => {
+  // Router type is fixed for the lifetime of the renderer
+  const [memoryEntries] = useState(initialEntries);
+  const [fallbackProvider] = useState(() => new MockAuthProvider());
+
+  const router = useMemo(() => {
+    const routes = createApplicationRoutes(schema, showNavigation);
+    const basename = schema.routing?.basename;
+
+    if (memoryEntries) {
+      return createMemoryRouter(routes, { initialEntries: memoryEntries, basename });
+    }
+    if (schema.routing?.type === 'hash') {
+      return createHashRouter(routes, { basename });
+    }
+    return createBrowserRouter(routes, { basename });
+  }, [schema, showNavigation, memoryEntries]);
+
+  // Mutation actions can target global and page data sources
+  const dataSources = useMemo(
+    () => [
+      ...(schema.globalDataSources ?? []),
+      ...schema.pages.flatMap((page) => page.dataSources),
+    ],
+    [schema]
+  );
+  const navigate = useCallback(
+    (to: string, { replace }: { replace?: boolean }) => void router.navigate(to, { replace }),
+    [router]
+  );
+
+  return (
+    <AuthContextProvider provider={authProvider ?? fallbackProvider}>
+      <ActionRuntimeProvider navigate={navigate} dataSources={dataSources}>
+        <FormattingProvider config={config}>
+          <RouterProvider router={router} />
+        </FormattingProvider>
+      </ActionRuntimeProvider>
+    </AuthContextProvider>
+  );
+};
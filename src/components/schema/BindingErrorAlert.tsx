@@ -0,0 +1,22 @@
+import React from 'react';
+import { Alert, AlertTitle, Box } from '@mui/material';
+import { BindingIssue } from '../../schemas/expressions';
+
+export interface BindingErrorAlertProps {
+  name: string;
+  issues: BindingIssue[];
+}
+
+/**
+ * Shown in place of a component whose prop bindings failed to evaluate
+ */
+export const BindingErrorAlert: React.FC<BindingErrorAlertProps> = ({ name, issues }) => (
+  <Alert severity="error">
+    <AlertTitle>Cannot render {name}</AlertTitle>
+    {issues.map((issue) => (
+      <Box key={issue.path}>
+        <code>{issue.path}</code>: {issue.message} in <code>{issue.template}</code>
+      </Box>
+    ))}
+  </Alert>
+);
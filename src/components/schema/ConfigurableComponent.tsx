@@ -3,6 +3,10 @@ import { Box, CircularProgress, Alert, AlertTitle } from '@mui/material';
 import { ComponentSchema, DataSourceSchema } from '../../schemas/types';
 import { useSchemaData } from '../../hooks/useSchemaData';
 import { componentRegistry } from '../../schemas/registry';
+import { useBoundProps } from '../../hooks/useBoundProps';
+import { FormattingProvider } from '../../contexts/FormattingContext';
+import { PaginationProvider } from '../../contexts/PaginationContext';
+import { BindingErrorAlert } from './BindingErrorAlert';
 
 export interface ConfigurableComponentProps {
   schema: ComponentSchema;
@@ -23,24 +27,27 @@ export const ConfigurableComponent: React.FC<ConfigurableComponentProps> = ({
   onDataError,
 }) => {
   // Fetch data if data source is provided
-  const { data, loading, error, retry } = useSchemaData(dataSource, schema.dataShape, {
+  const result = useSchemaData(dataSource, schema.dataShape, {
     onSuccess: onDataLoad,
     onError: onDataError,
   });
+  const { data, loading, error, retry } = result;
 
   // Get component from registry
   const Component = useMemo(() => {
     return componentRegistry.get(schema.id) || componentRegistry.get(schema.name);
   }, [schema.id, schema.name]);
 
-  // Merge default props with config
-  const finalProps = useMemo(() => {
+  // Merge default props with config, then evaluate `{{ }}` bindings against the data
+  // and turn actions in function props into handlers
+  const configProps = useMemo(() => {
     return {
       ...schema.defaultProps,
       ...config,
-      data,
     };
-  }, [schema.defaultProps, config, data]);
+  }, [schema.defaultProps, config]);
+  const { props: boundProps, issues } = useBoundProps(configProps, data, schema);
+  const finalProps = useMemo(() => ({ ...boundProps, data }), [boundProps, data]);
 
   // Loading state
   if (loading && dataSource) {
@@ -71,8 +78,20 @@ export const ConfigurableComponent: React.FC<ConfigurableComponentProps> = ({
     );
   }
 
-  // Render component
-  return <Component {...finalProps} />;
+  // Binding errors
+  if (issues.length > 0) {
+    return <BindingErrorAlert name={schema.name} issues={issues} />;
+  }
+
+  // Render component, formatting its fields as the data shape declares and
+  // letting it load further pages
+  return (
+    <FormattingProvider shape={dataSource?.responseShape ?? schema.dataShape}>
+      <PaginationProvider pagination={dataSource?.pagination ? result : undefined}>
+        <Component {...finalProps} />
+      </PaginationProvider>
+    </FormattingProvider>
+  );
 };
 
 /**
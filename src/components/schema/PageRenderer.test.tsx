@@ -0,0 +1,383 @@
+import React from 'react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, beforeAll, afterEach, vi, Mock } from 'vitest';
+import { PageRenderer } from './PageRenderer';
+import { SchemaDataDisplay } from './SchemaDataDisplay';
+import { FormattingProvider } from '../../contexts/FormattingContext';
+import { ExpressionScopeProvider } from '../../contexts/ExpressionScopeContext';
+import { registerComponent } from '../../schemas/registry';
+import { createLocalStreamServer } from '../../schemas/localStreamServer';
+import { DataSourceSchema, PageSchema } from '../../schemas/types';
+
+const Greeting: React.FC<{ name?: string; data?: { count: number } }> = ({ name, data }) => (
+  <div>
+    Hello {name}
+    {data && <span> ({data.count})</span>}
+  </div>
+);
+
+const Customers: React.FC<{ data?: Array<{ customer: { name: string } | null }> }> = ({ data }) => (
+  <div>{data?.map((order) => order.customer?.name).join(', ')}</div>
+);
+
+const page: PageSchema = {
+  id: 'home',
+  name: 'Home',
+  route: '/',
+  title: 'Welcome',
+  layout: { type: 'flex', config: { direction: 'column' } },
+  dataSources: [{ id: 'counter', type: 'static', endpoint: '{"count": 3}' }],
+  components: [
+    { id: 'second', component: 'Greeting', props: { name: 'second' }, order: 2 },
+    { id: 'first', component: 'Greeting', props: { name: 'first' }, order: 1 },
+    {
+      id: 'mobile-only',
+      component: 'Greeting',
+      props: { name: 'desktop' },
+      responsive: { mobile: { props: { name: 'mobile' } } },
+    },
+    { id: 'data', component: 'Greeting', props: { name: 'data' }, dataSource: 'counter' },
+    { id: 'missing', component: 'Unregistered' },
+    { id: 'bad-source', component: 'Greeting', dataSource: 'nope' },
+  ],
+};
+
+describe('PageRenderer', () => {
+  beforeAll(() => {
+    registerComponent('Greeting', Greeting);
+    registerComponent('SchemaDataDisplay', SchemaDataDisplay);
+    registerComponent('Customers', Customers);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should render placements in order with the page header', () => {
+    render(<PageRenderer schema={page} showHeader />);
+
+    expect(screen.getByRole('heading', { name: 'Welcome' })).toBeInTheDocument();
+    const greetings = screen.getAllByText(/^Hello/).map((node) => node.textContent);
+    expect(greetings.slice(0, 2)).toEqual(['Hello first', 'Hello second']);
+  });
+
+  it('should apply breakpoint overrides', () => {
+    render(<PageRenderer schema={page} breakpoint="mobile" />);
+
+    expect(screen.getByText('Hello mobile')).toBeInTheDocument();
+    expect(screen.queryByText('Hello desktop')).not.toBeInTheDocument();
+  });
+
+  it('should wire data sources and report unresolved references', async () => {
+    render(<PageRenderer schema={page} />);
+
+    expect(await screen.findByText('(3)')).toBeInTheDocument();
+    expect(screen.getByText('Component not found')).toBeInTheDocument();
+    expect(screen.getByText('Data source not found')).toBeInTheDocument();
+  });
+
+  it('should format fields as the response shape and overrides declare', async () => {
+    const pricing: PageSchema = {
+      ...page,
+      dataSources: [
+        {
+          id: 'plans',
+          type: 'static',
+          endpoint: '[{"plan": "Pro", "price": 1200, "share": 0.25, "phone": "5551234567"}]',
+          responseShape: {
+            type: 'array',
+            itemShape: {
+              type: 'object',
+              fields: {
+                plan: { type: 'string' },
+                price: { type: 'number', format: 'currency' },
+                share: { type: 'number', format: 'percentage' },
+                phone: { type: 'string' },
+              },
+            },
+          },
+        },
+      ],
+      components: [
+        {
+          id: 'table',
+          component: 'SchemaDataDisplay',
+          dataSource: 'plans',
+          props: { variant: 'table', formats: { phone: 'phone' } },
+        },
+      ],
+    };
+
+    render(
+      <FormattingProvider config={{ locale: 'en-US', currency: 'EUR' }}>
+        <PageRenderer schema={pricing} />
+      </FormattingProvider>
+    );
+
+    expect(await screen.findByText('€1,200.00')).toBeInTheDocument();
+    expect(screen.getByText('25%')).toBeInTheDocument();
+    expect(screen.getByText('(555) 123-4567')).toBeInTheDocument();
+  });
+
+  it('should format list and card values as the response shape declares', () => {
+    const shape = {
+      type: 'array' as const,
+      itemShape: {
+        type: 'object' as const,
+        fields: {
+          name: { type: 'string' as const },
+          description: { type: 'number' as const, format: 'currency' as const },
+          metadata: {
+            type: 'object' as const,
+            properties: { share: { type: 'number' as const, format: 'percentage' as const } },
+          },
+        },
+      },
+    };
+    const plans = [{ name: 'Pro', description: 1200, metadata: { share: 0.25, seats: 5 } }];
+
+    const { unmount } = render(
+      <FormattingProvider config={{ locale: 'en-US', currency: 'EUR' }} shape={shape}>
+        <SchemaDataDisplay data={plans} variant="cards" />
+      </FormattingProvider>
+    );
+    expect(screen.getByText('€1,200.00')).toBeInTheDocument();
+    expect(screen.getByText('25%')).toBeInTheDocument();
+    unmount();
+
+    render(
+      <FormattingProvider config={{ locale: 'en-US', currency: 'EUR' }} shape={shape}>
+        <SchemaDataDisplay data={plans} variant="list" />
+      </FormattingProvider>
+    );
+    expect(screen.getByText('€1,200.00')).toBeInTheDocument();
+  });
+
+  it('should show loading and error states of mock sources', async () => {
+    const mocked = (mock: DataSourceSchema['mock']): PageSchema => ({
+      ...page,
+      dataSources: [{ id: 'counter', type: 'mock', mock }],
+      components: [{ id: 'data', component: 'Greeting', dataSource: 'counter' }],
+    });
+
+    const { unmount } = render(
+      <PageRenderer schema={mocked({ fixture: { count: 7 }, latency: 50 })} />
+    );
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+    expect(await screen.findByText('(7)')).toBeInTheDocument();
+    unmount();
+
+    render(<PageRenderer schema={mocked({ fixture: { count: 7 }, status: 503 })} />);
+    expect(await screen.findByText('Failed to load data')).toBeInTheDocument();
+    expect(screen.getByText('HTTP error! status: 503')).toBeInTheDocument();
+  });
+
+  it('should derive computed sources and report cycles', async () => {
+    const computedPage: PageSchema = {
+      ...page,
+      dataSources: [
+        {
+          id: 'total',
+          type: 'computed',
+          compute: {
+            inputs: { counter: { source: 'counter' }, bonus: { param: 'bonus' } },
+            value: { count: '{{ counter.count + bonus }}' },
+          },
+        },
+        { id: 'counter', type: 'mock', mock: { fixture: { count: 3 }, latency: 20 } },
+        { id: 'ping', type: 'computed', compute: { inputs: { pong: { source: 'pong' } } } },
+        { id: 'pong', type: 'computed', compute: { inputs: { ping: { source: 'ping' } } } },
+      ],
+      components: [
+        { id: 'total', component: 'Greeting', dataSource: 'total' },
+        { id: 'ping', component: 'Greeting', dataSource: 'ping' },
+      ],
+    };
+
+    render(
+      <ExpressionScopeProvider params={{ bonus: 4 }}>
+        <PageRenderer schema={computedPage} />
+      </ExpressionScopeProvider>
+    );
+
+    expect(await screen.findByText('(7)')).toBeInTheDocument();
+    expect(
+      screen.getByText('Data sources depend on each other: ping → pong → ping')
+    ).toBeInTheDocument();
+  });
+
+  it('should join sources with the data of the sources they read', async () => {
+    const joinPage: PageSchema = {
+      ...page,
+      dataSources: [
+        {
+          id: 'orders',
+          type: 'static',
+          endpoint: '[{"customerId": 2}, {"customerId": 1}]',
+          transform: [
+            {
+              op: 'join',
+              source: 'customers',
+              on: { local: 'customerId', foreign: 'id' },
+              as: 'customer',
+            },
+          ],
+        },
+        {
+          id: 'customers',
+          type: 'mock',
+          mock: {
+            fixture: [
+              { id: 1, name: 'Ada' },
+              { id: 2, name: 'Grace' },
+            ],
+            latency: 20,
+          },
+        },
+      ],
+      components: [{ id: 'orders', component: 'Customers', dataSource: 'orders' }],
+    };
+
+    render(<PageRenderer schema={joinPage} />);
+
+    expect(await screen.findByText('Grace, Ada')).toBeInTheDocument();
+  });
+
+  it('should fetch sources the data graph loads once', async () => {
+    const fetchMock = vi.fn(() =>
+      Promise.resolve(new Response(JSON.stringify({ count: 4 }), { status: 200 }))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const sharedPage: PageSchema = {
+      ...page,
+      dataSources: [
+        { id: 'counter', type: 'rest', endpoint: '/api/counter' },
+        { id: 'total', type: 'computed', compute: { inputs: { counter: { source: 'counter' } } } },
+      ],
+      components: [
+        { id: 'counter', component: 'Greeting', dataSource: 'counter' },
+        { id: 'total', component: 'Greeting', dataSource: 'total' },
+      ],
+    };
+
+    render(<PageRenderer schema={sharedPage} />);
+
+    await waitFor(() => expect(screen.getAllByText('(4)')).toHaveLength(2));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should update placements as a streaming source receives messages', async () => {
+    const server = createLocalStreamServer();
+    const uninstall = server.install();
+    const livePage: PageSchema = {
+      ...page,
+      dataSources: [
+        {
+          id: 'counter',
+          type: 'websocket',
+          endpoint: 'ws://local/counter',
+          stream: { subscribe: ['counter'] },
+        },
+      ],
+      components: [{ id: 'data', component: 'Greeting', dataSource: 'counter' }],
+    };
+
+    try {
+      render(<PageRenderer schema={livePage} />);
+      expect(screen.getByRole('progressbar')).toBeInTheDocument();
+
+      await waitFor(() => expect(server.received('ws://local/counter')).toEqual(['counter']));
+      act(() => server.send('ws://local/counter', { count: 5 }));
+      expect(await screen.findByText('(5)')).toBeInTheDocument();
+      act(() => server.send('ws://local/counter', { count: 6 }));
+      expect(await screen.findByText('(6)')).toBeInTheDocument();
+    } finally {
+      uninstall();
+    }
+  });
+
+  describe('with a paginated source', () => {
+    const users: DataSourceSchema = {
+      id: 'users',
+      type: 'rest',
+      endpoint: '/api/users',
+      pagination: { type: 'offset', pageSize: 2, itemsPath: 'items', totalPath: 'total' },
+    };
+    const names = ['Ada', 'Grace', 'Linus', 'Barbara', 'Ken'];
+
+    const usersPage = (variant: string, paging: string): PageSchema => ({
+      ...page,
+      dataSources: [users],
+      components: [
+        {
+          id: 'users',
+          component: 'SchemaDataDisplay',
+          dataSource: 'users',
+          props: { variant, paging, pageSize: 2 },
+        },
+      ],
+    });
+
+    const stubUsersApi = (): Mock<[string], Promise<unknown>> => {
+      const fetchMock = vi.fn((url: string): Promise<unknown> => {
+        const offset = Number(new URLSearchParams(url.split('?')[1]).get('offset'));
+        const items = names.slice(offset, offset + 2).map((name) => ({ name }));
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ items, total: names.length }),
+        });
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    };
+
+    it('should fetch further pages as the table pages forward', async () => {
+      const fetchMock = stubUsersApi();
+      render(<PageRenderer schema={usersPage('table', 'pages')} />);
+
+      expect(await screen.findByText('Grace')).toBeInTheDocument();
+      expect(screen.getByText('1–2 of 5')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Go to next page' }));
+      expect(await screen.findByText('Barbara')).toBeInTheDocument();
+      expect(screen.queryByText('Ada')).not.toBeInTheDocument();
+      expect(fetchMock).toHaveBeenLastCalledWith('/api/users?offset=2&limit=2', expect.anything());
+    });
+
+    it('should append pages to an infinite list', async () => {
+      stubUsersApi();
+      render(<PageRenderer schema={usersPage('list', 'infinite')} />);
+
+      expect(await screen.findByText('Grace')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Load more' }));
+      expect(await screen.findByText('Barbara')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Load more' }));
+
+      expect(await screen.findByText('Ken')).toBeInTheDocument();
+      expect(screen.getByText('Ada')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+    });
+
+    it('should keep the loaded pages when a further page fails', async () => {
+      const fetchMock = stubUsersApi();
+      const respond = fetchMock.getMockImplementation() as (url: string) => Promise<unknown>;
+      fetchMock
+        .mockImplementationOnce(respond)
+        .mockImplementationOnce(() =>
+          Promise.resolve({ ok: false, status: 500, statusText: 'Server Error' })
+        );
+      render(<PageRenderer schema={usersPage('list', 'infinite')} />);
+
+      expect(await screen.findByText('Grace')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Load more' }));
+
+      expect(await screen.findByText(/Could not load more/)).toBeInTheDocument();
+      expect(screen.getByText('Ada')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+      expect(await screen.findByText('Barbara')).toBeInTheDocument();
+      expect(screen.getByText('Ada')).toBeInTheDocument();
+      expect(screen.queryByText(/Could not load more/)).not.toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import React, { useMemo } from 'react';
+import { Alert, AlertTitle, Box, Button, CircularProgress, Typography } from '@mui/material';
+import { ComponentPlacement, DataSourceSchema, PageSchema } from '../../schemas/types';
+import { componentRegistry, componentSchemas } from '../../schemas/registry';
+import { useSchemaData } from '../../hooks/useSchemaData';
+import { useLayoutBreakpoint } from '../../hooks/useLayoutBreakpoint';
+import { FormattingProvider } from '../../contexts/FormattingContext';
+import { PaginationProvider } from '../../contexts/PaginationContext';
+import { DataGraphProvider } from '../../contexts/DataGraphContext';
+import {
+  LayoutBreakpoint,
+  PageLayoutConfig,
+  findDataSource,
+  getLayoutStyles,
+  getPlacementStyles,
+  resolvePlacements,
+} from '../../schemas/pageLayout';
+
+export interface PageRendererProps {
+  schema: PageSchema;
+  // Application-wide data sources, consulted after the page's own sources
+  globalDataSources?: DataSourceSchema[];
+  // Force a breakpoint instead of following the viewport
+  breakpoint?: LayoutBreakpoint;
+  showHeader?: boolean;
+}
+
+interface PlacementRendererProps {
+  placement: ComponentPlacement;
+  dataSource?: DataSourceSchema;
+}
+
+/**
+ * Render a single placement with its data source wired in
+ */
+const PlacementRenderer: React.FC<PlacementRendererProps> = ({ placement, dataSource }) => {
+  const schema = componentSchemas.get(placement.component);
+  const Component = componentRegistry.get(placement.component);
+
+  const shape = dataSource?.responseShape ?? schema?.dataShape;
+  const result = useSchemaData<unknown>(dataSource, shape);
+  const { data, loading, error, retry } = result;
+
+  const finalProps = useMemo(() => {
+    const props: Record<string, unknown> = { ...schema?.defaultProps, ...placement.props };
+    if (dataSource) {
+      props.data = data;
+    }
+    return props;
+  }, [schema?.defaultProps, placement.props, dataSource, data]);
+
+  if (placement.dataSource && !dataSource) {
+    return (
+      <Alert severity="warning">
+        <AlertTitle>Data source not found</AlertTitle>
+        Data source &quot;{placement.dataSource}&quot; is not defined for this page.
+      </Alert>
+    );
+  }
+
+  if (!Component) {
+    return (
+      <Alert severity="warning">
+        <AlertTitle>Component not found</AlertTitle>
+        Component &quot;{placement.component}&quot; is not registered in the component registry.
+      </Alert>
+    );
+  }
+
+  if (loading && dataSource) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight={120} p={3}>
+        <CircularProgress size={32} />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert
+        severity="error"
+        action={
+          <Button color="inherit" size="small" onClick={retry}>
+            Retry
+          </Button>
+        }
+      >
+        <AlertTitle>Failed to load data</AlertTitle>
+        {error.message}
+      </Alert>
+    );
+  }
+
+  return (
+    <FormattingProvider shape={shape}>
+      <PaginationProvider pagination={dataSource?.pagination ? result : undefined}>
+        <Component {...finalProps} />
+      </PaginationProvider>
+    </FormattingProvider>
+  );
+};
+
+/**
+ * Runtime renderer for schema-defined pages
+ */
+export const PageRenderer: React.FC<PageRendererProps> = ({
+  schema,
+  globalDataSources,
+  breakpoint: forcedBreakpoint,
+  showHeader = false,
+}) => {
+  const viewportBreakpoint = useLayoutBreakpoint();
+  const breakpoint = forcedBreakpoint ?? viewportBreakpoint;
+  const layoutType = schema.layout.type;
+  const config = (schema.layout.config ?? {}) as PageLayoutConfig;
+
+  const placements = useMemo(
+    () => resolvePlacements(schema.components, breakpoint),
+    [schema.components, breakpoint]
+  );
+
+  // Page sources first, so they shadow global ones as placements see them
+  const dataSources = useMemo(
+    () => [...schema.dataSources, ...(globalDataSources ?? [])],
+    [schema.dataSources, globalDataSources]
+  );
+
+  return (
+    <Box data-page-id={schema.id}>
+      {showHeader && (schema.title ?? schema.name) && (
+        <Box mb={3}>
+          <Typography variant="h4" component="h1">
+            {schema.title ?? schema.name}
+          </Typography>
+          {schema.description && (
+            <Typography variant="body1" color="text.secondary">
+              {schema.description}
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      <DataGraphProvider sources={dataSources}>
+        <Box sx={getLayoutStyles(layoutType, config, breakpoint)}>
+          {placements.map((placement) => (
+            <Box
+              key={placement.id}
+              data-placement-id={placement.id}
+              sx={getPlacementStyles(layoutType, placement, config)}
+            >
+              <PlacementRenderer
+                placement={placement}
+                dataSource={findDataSource(placement.dataSource, schema, globalDataSources)}
+              />
+            </Box>
+          ))}
+        </Box>
+      </DataGraphProvider>
+    </Box>
+  );
+};
@@ -1,5 +1,8 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
+  Alert,
+  Button,
+  CircularProgress,
   Card,
   CardContent,
   CardHeader,
@@ -19,10 +22,19 @@ import {
   Chip,
   Avatar,
   IconButton,
+  TablePagination,
 } from '@mui/material';
 import { TrendingUp, TrendingDown, TrendingFlat, MoreVert } from '@mui/icons-material';
 import { DataShape, ComponentSchema } from '../../schemas/types';
 import { commonDataShapes } from '../../schemas/registry';
+import { FormatSpec } from '../../schemas/formatting';
+import { FieldFormatter, useFormatter } from '../../contexts/FormattingContext';
+import { PaginationControls, usePagination } from '../../contexts/PaginationContext';
+import { useInfiniteScroll } from '../../hooks/useInfiniteScroll';
+
+// How tables and lists show paginated data: a page at a time, or growing as
+// the user scrolls
+type PagingMode = 'pages' | 'infinite';
 
 export interface SchemaDataDisplayProps {
   data: any;
@@ -30,6 +42,12 @@ export interface SchemaDataDisplayProps {
   subtitle?: string;
   variant?: 'auto' | 'stats' | 'list' | 'table' | 'cards';
   showHeader?: boolean;
+  // Per-column formats, overriding those declared by the data shape
+  formats?: Record<string, FormatSpec>;
+  // Only applies when the data source is paginated
+  paging?: PagingMode;
+  // Rows per page when paging by pages
+  pageSize?: number;
 }
 
 /**
@@ -41,6 +59,9 @@ export const SchemaDataDisplay: React.FC<SchemaDataDisplayProps> = ({
   subtitle,
   variant = 'auto',
   showHeader = true,
+  formats,
+  paging = 'pages',
+  pageSize = 10,
 }) => {
   // Auto-detect best display variant
   const displayVariant = variant === 'auto' ? detectDisplayVariant(data) : variant;
@@ -64,13 +85,13 @@ export const SchemaDataDisplay: React.FC<SchemaDataDisplayProps> = ({
   const renderContent = () => {
     switch (displayVariant) {
       case 'stats':
-        return <StatsDisplay data={data} />;
+        return <StatsDisplay data={data} formats={formats} />;
       case 'list':
-        return <ListDisplay data={data} />;
+        return <ListDisplay data={data} formats={formats} paging={paging} pageSize={pageSize} />;
       case 'table':
-        return <TableDisplay data={data} />;
+        return <TableDisplay data={data} formats={formats} paging={paging} pageSize={pageSize} />;
       case 'cards':
-        return <CardsDisplay data={data} />;
+        return <CardsDisplay data={data} formats={formats} />;
       default:
         return <JsonDisplay data={data} />;
     }
@@ -86,8 +107,24 @@ export const SchemaDataDisplay: React.FC<SchemaDataDisplayProps> = ({
 
 // Display variants
 
-const StatsDisplay: React.FC<{ data: any }> = ({ data }) => {
-  const stats = Array.isArray(data) ? data : [data];
+interface FormattedDisplayProps {
+  data: any;
+  formats?: Record<string, FormatSpec>;
+}
+
+interface StatItem {
+  label?: string;
+  value?: unknown;
+  unit?: string;
+  trend?: 'up' | 'down' | 'flat';
+  trendValue?: string;
+  // Format for `value`, when the data shape does not declare one
+  format?: FormatSpec;
+}
+
+const StatsDisplay: React.FC<FormattedDisplayProps> = ({ data, formats }) => {
+  const stats = (Array.isArray(data) ? data : [data]) as StatItem[];
+  const format = useFormatter();
 
   return (
     <Grid container spacing={3}>
@@ -98,7 +135,7 @@ const StatsDisplay: React.FC<{ data: any }> = ({ data }) => {
               {stat.label}
             </Typography>
             <Typography variant="h4" component="div">
-              {stat.value}
+              {format(stat.value, 'value', formats?.value ?? stat.format)}
               {stat.unit && (
                 <Typography variant="body1" component="span" ml={0.5}>
                   {stat.unit}
@@ -134,33 +171,59 @@ const StatsDisplay: React.FC<{ data: any }> = ({ data }) => {
   );
 };
 
-const ListDisplay: React.FC<{ data: any }> = ({ data }) => {
-  const items = Array.isArray(data) ? data : [data];
+interface PagedDisplayProps {
+  paging: PagingMode;
+  pageSize: number;
+}
+
+const ListDisplay: React.FC<FormattedDisplayProps & PagedDisplayProps> = ({
+  data,
+  formats,
+  paging,
+  pageSize,
+}) => {
+  const format = useFormatter();
+  const pagination = usePagination();
+  const items: any[] = Array.isArray(data) ? data : [data];
+  const pages = usePagedRows(items, pageSize, paging === 'pages' ? pagination : null);
 
   return (
-    <List>
-      {items.map((item, index) => (
-        <ListItem key={item.id || index}>
-          {item.avatar && (
-            <Avatar src={item.avatar} sx={{ mr: 2 }}>
-              {item.title?.[0]}
-            </Avatar>
-          )}
-          <ListItemText
-            primary={item.title || item.name || item.label}
-            secondary={item.subtitle || item.description}
-          />
-          {item.status && (
-            <Chip label={item.status} size="small" color={getStatusColor(item.status)} />
-          )}
-        </ListItem>
-      ))}
-    </List>
+    <>
+      <List>
+        {pages.rows.map((item, index) => (
+          <ListItem key={item.id || index}>
+            {item.avatar && (
+              <Avatar src={item.avatar} sx={{ mr: 2 }}>
+                {item.title?.[0]}
+              </Avatar>
+            )}
+            <ListItemText
+              primary={formatFirstField(item, ['title', 'name', 'label'], format, formats)}
+              secondary={formatFirstField(item, ['subtitle', 'description'], format, formats)}
+            />
+            {item.status && (
+              <Chip label={item.status} size="small" color={getStatusColor(item.status)} />
+            )}
+          </ListItem>
+        ))}
+      </List>
+      {pagination && <PagingFooter pagination={pagination} paging={paging} pages={pages} />}
+    </>
   );
 };
 
-const TableDisplay: React.FC<{ data: any }> = ({ data }) => {
-  let columns: string[] = [];
+// Structured table data may describe columns, optionally with a format
+type TableColumn = string | { key: string; label?: string; format?: FormatSpec };
+
+const TableDisplay: React.FC<FormattedDisplayProps & PagedDisplayProps> = ({
+  data,
+  formats,
+  paging,
+  pageSize,
+}) => {
+  const format = useFormatter();
+  const pagination = usePagination();
+  let columns: TableColumn[] | null = null;
   let rows: any[] = [];
 
   if (data?.columns && data?.rows) {
@@ -171,38 +234,166 @@ const TableDisplay: React.FC<{ data: any }> = ({ data }) => {
     // Array of objects
     columns = Object.keys(data[0]);
     rows = data;
-  } else {
+  }
+
+  const pages = usePagedRows(rows, pageSize, paging === 'pages' ? pagination : null);
+
+  if (!columns) {
     return <Typography>No table data available</Typography>;
   }
 
   return (
-    <TableContainer component={Paper} variant="outlined">
-      <Table size="small">
-        <TableHead>
-          <TableRow>
-            {columns.map((column) => (
-              <TableCell key={typeof column === 'object' ? column.key : column}>
-                {typeof column === 'object' ? column.label : column}
-              </TableCell>
-            ))}
-          </TableRow>
-        </TableHead>
-        <TableBody>
-          {rows.map((row, index) => (
-            <TableRow key={index}>
-              {columns.map((column) => {
-                const key = typeof column === 'object' ? column.key : column;
-                return <TableCell key={key}>{formatCellValue(row[key])}</TableCell>;
-              })}
+    <>
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              {columns.map((column) => (
+                <TableCell key={typeof column === 'object' ? column.key : column}>
+                  {typeof column === 'object' ? column.label : column}
+                </TableCell>
+              ))}
             </TableRow>
-          ))}
-        </TableBody>
-      </Table>
-    </TableContainer>
+          </TableHead>
+          <TableBody>
+            {pages.rows.map((row, index) => (
+              <TableRow key={index}>
+                {columns.map((column) => {
+                  const key = typeof column === 'object' ? column.key : column;
+                  const override =
+                    formats?.[key] ?? (typeof column === 'object' ? column.format : undefined);
+                  return (
+                    <TableCell key={key}>
+                      {formatCellValue(row[key], format, key, override)}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      {pagination && <PagingFooter pagination={pagination} paging={paging} pages={pages} />}
+    </>
+  );
+};
+
+interface PagedRows<T> {
+  rows: T[];
+  page: number;
+  pageSize: number;
+  setPage: (page: number) => void;
+  // Number of rows overall; -1 while more pages remain and the total is unknown
+  count: number;
+}
+
+/**
+ * Show `pageSize` rows at a time. With pagination, pages of the source are
+ * fetched until the current page is filled.
+ */
+function usePagedRows<T>(
+  rows: T[],
+  pageSize: number,
+  pagination: PaginationControls | null
+): PagedRows<T> {
+  const [requestedPage, setPage] = useState(0);
+  const {
+    hasNextPage = false,
+    isFetchingNextPage = false,
+    nextPageError = null,
+    fetchNextPage,
+    total,
+  } = pagination ?? {};
+  const count = total ?? (hasNextPage ? -1 : rows.length);
+
+  // Data can shrink on refetch, so stay within the pages that exist
+  const lastPage = count < 0 ? requestedPage : Math.max(0, Math.ceil(count / pageSize) - 1);
+  const page = Math.min(requestedPage, lastPage);
+  const needed = (page + 1) * pageSize;
+
+  // A failed page waits for the user to retry it
+  useEffect(() => {
+    if (
+      fetchNextPage &&
+      rows.length < needed &&
+      hasNextPage &&
+      !isFetchingNextPage &&
+      !nextPageError
+    ) {
+      void fetchNextPage();
+    }
+  }, [fetchNextPage, rows.length, needed, hasNextPage, isFetchingNextPage, nextPageError]);
+
+  return {
+    rows: pagination ? rows.slice(page * pageSize, needed) : rows,
+    page,
+    pageSize,
+    setPage,
+    count,
+  };
+}
+
+interface PagingFooterProps {
+  pagination: PaginationControls;
+  paging: PagingMode;
+  pages: PagedRows<unknown>;
+}
+
+const PagingFooter: React.FC<PagingFooterProps> = ({ pagination, paging, pages }) => {
+  const { hasNextPage, isFetchingNextPage, nextPageError, fetchNextPage } = pagination;
+  const sentinel = useInfiniteScroll<HTMLDivElement>(
+    () => void fetchNextPage(),
+    paging === 'infinite' && hasNextPage && !isFetchingNextPage && !nextPageError
+  );
+
+  // Retrying loads the failed page again, keeping the pages before it
+  if (nextPageError && !isFetchingNextPage) {
+    return (
+      <Alert
+        severity="error"
+        action={
+          <Button color="inherit" size="small" onClick={() => void fetchNextPage()}>
+            Retry
+          </Button>
+        }
+      >
+        Could not load more: {nextPageError.message}
+      </Alert>
+    );
+  }
+
+  if (paging === 'pages') {
+    return (
+      <TablePagination
+        component="div"
+        count={pages.count}
+        page={pages.page}
+        onPageChange={(_, page) => pages.setPage(page)}
+        rowsPerPage={pages.pageSize}
+        rowsPerPageOptions={[]}
+      />
+    );
+  }
+
+  if (!hasNextPage) {
+    return null;
+  }
+
+  return (
+    <Box ref={sentinel} display="flex" justifyContent="center" py={1}>
+      {isFetchingNextPage ? (
+        <CircularProgress size={24} />
+      ) : (
+        <Button size="small" onClick={() => void fetchNextPage()}>
+          Load more
+        </Button>
+      )}
+    </Box>
   );
 };
 
-const CardsDisplay: React.FC<{ data: any }> = ({ data }) => {
+const CardsDisplay: React.FC<FormattedDisplayProps> = ({ data, formats }) => {
+  const format = useFormatter();
   const items = Array.isArray(data) ? data : [data];
 
   return (
@@ -212,16 +403,16 @@ const CardsDisplay: React.FC<{ data: any }> = ({ data }) => {
           <Card variant="outlined">
             <CardContent>
               <Typography variant="h6" gutterBottom>
-                {item.title || item.name}
+                {formatFirstField(item, ['title', 'name'], format, formats)}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                {item.description || item.subtitle}
+                {formatFirstField(item, ['description', 'subtitle'], format, formats)}
               </Typography>
               {item.metadata && (
                 <Box mt={2}>
                   {Object.entries(item.metadata).map(([key, value]) => (
                     <Typography key={key} variant="caption" display="block">
-                      <strong>{key}:</strong> {String(value)}
+                      <strong>{key}:</strong> {formatCellValue(value, format, key, formats?.[key])}
                     </Typography>
                   ))}
                 </Box>
@@ -294,7 +485,12 @@ function getStatusColor(status: string): 'success' | 'error' | 'warning' | 'info
   }
 }
 
-function formatCellValue(value: any): React.ReactNode {
+function formatCellValue(
+  value: any,
+  format: FieldFormatter,
+  key: string,
+  override?: FormatSpec
+): React.ReactNode {
   if (value === null || value === undefined) {
     return '-';
   }
@@ -303,15 +499,23 @@ function formatCellValue(value: any): React.ReactNode {
     return value ? '✓' : '✗';
   }
 
-  if (value instanceof Date) {
-    return value.toLocaleDateString();
-  }
-
-  if (typeof value === 'object') {
+  if (typeof value === 'object' && !(value instanceof Date)) {
     return JSON.stringify(value);
   }
 
-  return String(value);
+  return format(value, key, override);
+}
+
+// Format the first of `keys` that `item` has a value for, as that field
+function formatFirstField(
+  item: unknown,
+  keys: string[],
+  format: FieldFormatter,
+  formats?: Record<string, FormatSpec>
+): string | undefined {
+  const record = item as Record<string, unknown>;
+  const key = keys.find((candidate) => record[candidate]);
+  return key === undefined ? undefined : format(record[key], key, formats?.[key]);
 }
 
 // Component schema
@@ -351,6 +555,27 @@ export const SchemaDataDisplaySchema: ComponentSchema = {
       default: true,
       description: 'Show card header',
     },
+    {
+      name: 'formats',
+      type: 'object',
+      description: 'Format per column, e.g. { "price": "currency" }; overrides the data shape',
+    },
+    {
+      name: 'paging',
+      type: 'enum',
+      options: [
+        { label: 'Pages', value: 'pages' },
+        { label: 'Infinite scroll', value: 'infinite' },
+      ],
+      default: 'pages',
+      description: 'How tables and lists show data from paginated sources',
+    },
+    {
+      name: 'pageSize',
+      type: 'number',
+      default: 10,
+      description: 'Rows per page when paging by pages',
+    },
   ],
   // Accepts any data shape
   dataShape: {
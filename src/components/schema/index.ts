@@ -5,8 +5,17 @@
 export { ConfigurableComponent, withSchemaConfig } from './ConfigurableComponent';
 export type { ConfigurableComponentProps } from './ConfigurableComponent';
 
+export { BindingErrorAlert } from './BindingErrorAlert';
+export type { BindingErrorAlertProps } from './BindingErrorAlert';
+
 export { SchemaDataDisplay, SchemaDataDisplaySchema } from './SchemaDataDisplay';
 
+export { PageRenderer } from './PageRenderer';
+export type { PageRendererProps } from './PageRenderer';
+
+export { ApplicationRenderer } from './ApplicationRenderer';
+export type { ApplicationRendererProps } from './ApplicationRenderer';
+
 // Re-export schema types for convenience
 export type {
   ComponentSchema,
@@ -0,0 +1,51 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { ActionRuntimeProvider, useActionRuntime } from './ActionRuntimeContext';
+import { ActionHandlers } from '../schemas/actions';
+
+const renderRuntime = (wrap: boolean): ActionHandlers => {
+  let handlers: ActionHandlers | undefined;
+  const Capture: React.FC = () => {
+    handlers = useActionRuntime();
+    return null;
+  };
+  render(
+    wrap ? (
+      <ActionRuntimeProvider>
+        <Capture />
+      </ActionRuntimeProvider>
+    ) : (
+      <Capture />
+    )
+  );
+  return handlers!;
+};
+
+describe('ActionRuntimeProvider', () => {
+  it('should cancel a dialog that another dialog replaces', async () => {
+    const handlers = renderRuntime(true);
+
+    let first!: Promise<boolean>;
+    let second!: Promise<boolean>;
+    act(() => {
+      first = handlers.openDialog({ title: 'Delete draft?' });
+    });
+    act(() => {
+      second = handlers.openDialog({ title: 'Publish?' });
+    });
+
+    await expect(first).resolves.toBe(false);
+    expect(screen.queryByText('Delete draft?')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'OK' }));
+    await expect(second).resolves.toBe(true);
+  });
+
+  it('should reject dialogs without a provider', async () => {
+    const handlers = renderRuntime(false);
+
+    await expect(handlers.openDialog({ title: 'Delete draft?' })).rejects.toThrow(
+      'Cannot open dialog "Delete draft?" without an ActionRuntimeProvider'
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Snackbar,
+} from '@mui/material';
+import { ActionHandlers, DialogRequest, SnackbarSeverity } from '../schemas/actions';
+import { DataSourceSchema } from '../schemas/types';
+import { refetchEvent, sendMutation } from '../hooks/useSchemaData';
+import { useDataStore } from '../stores/dataStore';
+import { logInfo, logWarn } from '../services/logger';
+import { ExpressionScopeProvider, useExpressionScope } from './ExpressionScopeContext';
+
+type Navigate = ActionHandlers['navigate'];
+
+// Push a history entry and let the router pick it up like a back/forward move
+const navigateWithHistory: Navigate = (to, { replace }) => {
+  if (replace) {
+    window.history.replaceState(null, '', to);
+  } else {
+    window.history.pushState(null, '', to);
+  }
+  window.dispatchEvent(new PopStateEvent('popstate'));
+};
+
+const refetch = (dataSource: string): void => {
+  useDataStore.getState().emit(refetchEvent(dataSource));
+};
+
+// Used outside an ActionRuntimeProvider, e.g. in isolated previews
+const fallbackHandlers: ActionHandlers = {
+  navigate: navigateWithHistory,
+  openDialog: (dialog) =>
+    Promise.reject(
+      new Error(`Cannot open dialog "${dialog.title}" without an ActionRuntimeProvider`)
+    ),
+  setState: (key) => {
+    logWarn(`Cannot set app state "${key}" without an ActionRuntimeProvider`, 'actions');
+  },
+  refetch,
+  mutate: (dataSource) =>
+    Promise.reject(
+      new Error(`Cannot run mutation "${dataSource}" without an ActionRuntimeProvider`)
+    ),
+  notify: (message, severity) => {
+    logInfo(`[${severity}] ${message}`, 'actions');
+  },
+};
+
+const ActionRuntimeContext = createContext<ActionHandlers>(fallbackHandlers);
+
+interface OpenDialog extends DialogRequest {
+  resolve: (confirmed: boolean) => void;
+}
+
+interface SnackbarMessage {
+  key: number;
+  message: string;
+  severity: SnackbarSeverity;
+}
+
+interface ActionRuntimeProviderProps {
+  children: ReactNode;
+  // Route changes, e.g. a router's `navigate`; defaults to the history API
+  navigate?: Navigate;
+  // Sources that `mutate` actions can target
+  dataSources?: DataSourceSchema[];
+  initialState?: Record<string, unknown>;
+}
+
+/**
+ * Runs actions bound to function props: owns the app state they set and
+ * the dialogs and snackbars they show
+ */
+export const ActionRuntimeProvider: React.FC<ActionRuntimeProviderProps> = ({
+  children,
+  navigate = navigateWithHistory,
+  dataSources,
+  initialState,
+}) => {
+  const [state, setState] = useState<Record<string, unknown>>(() => ({ ...initialState }));
+  const [dialog, setDialog] = useState<OpenDialog | null>(null);
+  // The dialog whose caller is still waiting, kept outside render state so a
+  // second dialog can settle the first one
+  const pendingDialog = useRef<OpenDialog | null>(null);
+  const [snackbar, setSnackbar] = useState<SnackbarMessage | null>(null);
+  const { params } = useExpressionScope();
+
+  const handlers = useMemo<ActionHandlers>(
+    () => ({
+      navigate,
+      openDialog: (request) =>
+        new Promise<boolean>((resolve) => {
+          // A dialog that is replaced counts as cancelled
+          pendingDialog.current?.resolve(false);
+          pendingDialog.current = { ...request, resolve };
+          setDialog(pendingDialog.current);
+        }),
+      setState: (key, value) => setState((prev) => ({ ...prev, [key]: value })),
+      refetch,
+      mutate: (id, request) => {
+        const dataSource = dataSources?.find((source) => source.id === id);
+        if (!dataSource) {
+          return Promise.reject(new Error(`Data source "${id}" not found`));
+        }
+        return sendMutation(dataSource, request).then((result) => {
+          const store = useDataStore.getState();
+          dataSource.emits?.forEach((event) => store.emit(event));
+          return result;
+        });
+      },
+      notify: (message, severity) => setSnackbar({ key: Date.now(), message, severity }),
+    }),
+    [navigate, dataSources]
+  );
+
+  const closeDialog = useCallback((confirmed: boolean) => {
+    pendingDialog.current?.resolve(confirmed);
+    pendingDialog.current = null;
+    setDialog(null);
+  }, []);
+
+  return (
+    <ActionRuntimeContext.Provider value={handlers}>
+      <ExpressionScopeProvider params={params} state={state}>
+        {children}
+      </ExpressionScopeProvider>
+
+      {dialog && (
+        <Dialog open onClose={() => closeDialog(false)} maxWidth="xs" fullWidth>
+          <DialogTitle>{dialog.title}</DialogTitle>
+          {dialog.message && (
+            <DialogContent>
+              <DialogContentText>{dialog.message}</DialogContentText>
+            </DialogContent>
+          )}
+          <DialogActions>
+            <Button onClick={() => closeDialog(false)}>{dialog.cancelLabel ?? 'Cancel'}</Button>
+            <Button variant="contained" onClick={() => closeDialog(true)}>
+              {dialog.confirmLabel ?? 'OK'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      )}
+
+      {snackbar && (
+        <Snackbar
+          key={snackbar.key}
+          open
+          autoHideDuration={4000}
+          onClose={() => setSnackbar(null)}
+          anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        >
+          <Alert severity={snackbar.severity} onClose={() => setSnackbar(null)}>
+            {snackbar.message}
+          </Alert>
+        </Snackbar>
+      )}
+    </ActionRuntimeContext.Provider>
+  );
+};
+
+export const useActionRuntime = (): ActionHandlers => useContext(ActionRuntimeContext);
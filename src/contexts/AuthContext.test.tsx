@@ -0,0 +1,66 @@
+import { act, cleanup, render, waitFor } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuthContextProvider } from './AuthContext';
+import { MockAuthProvider } from '../services/auth';
+import { useDataStore } from '../stores/dataStore';
+import { createMemoryPersistence } from '../stores/cachePersistence';
+
+const signIn = async (username: string): Promise<MockAuthProvider> => {
+  const provider = new MockAuthProvider({ initialUser: username });
+  render(
+    <AuthContextProvider provider={provider}>
+      <div />
+    </AuthContextProvider>
+  );
+  await waitFor(() => expect(useDataStore.getState().owner).toBe(username));
+  await act(() => useDataStore.getState().ready);
+  return provider;
+};
+
+// A new page load: nothing in memory and no user known yet
+const reload = (): Promise<void> => {
+  cleanup();
+  useDataStore.setState({ cache: new Map(), owner: null });
+  return useDataStore.getState().hydrate();
+};
+
+describe('AuthContextProvider', () => {
+  beforeEach(async () => {
+    useDataStore.getState().invalidateAll();
+    useDataStore.setState({ owner: null });
+    await useDataStore.getState().configureCache({ persistence: createMemoryPersistence() });
+  });
+
+  it('should clear cached data when the user signs out or changes', async () => {
+    const provider = await signIn('admin');
+    const store = useDataStore.getState();
+
+    store.setCached('orders', ['admin order'], undefined, { persist: true });
+    await act(() => provider.login({ username: 'admin' }));
+    expect(store.getCached('orders')).toEqual(['admin order']);
+
+    await act(() => provider.logout());
+    await waitFor(() => expect(store.getCached('orders')).toBeNull());
+    expect(await useDataStore.getState().persistence.load()).toEqual([]);
+
+    await act(() => provider.login({ username: 'admin' }));
+    store.setCached('orders', ['admin order'], undefined, { persist: true });
+    await act(() => provider.login({ username: 'user' }));
+    expect(store.getCached('orders')).toBeNull();
+  });
+
+  it('should serve persisted data only to the user it was cached for', async () => {
+    await signIn('admin');
+    useDataStore.getState().setCached('orders', ['admin order'], undefined, { persist: true });
+
+    await reload();
+    expect(useDataStore.getState().getCached('orders')).toBeNull();
+    await signIn('admin');
+    expect(useDataStore.getState().getCached('orders')).toEqual(['admin order']);
+
+    await reload();
+    await signIn('user');
+    expect(useDataStore.getState().getCached('orders')).toBeNull();
+    await waitFor(async () => expect(await useDataStore.getState().persistence.load()).toEqual([]));
+  });
+});
@@ -0,0 +1,88 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { AuthCredentials, AuthProvider, AuthUser } from '../services/auth';
+import { useDataStore } from '../stores/dataStore';
+
+interface AuthContextType {
+  user: AuthUser | null;
+  // True until the provider has reported the initial user
+  loading: boolean;
+  login: (credentials: AuthCredentials) => Promise<AuthUser>;
+  logout: () => Promise<void>;
+  hasRole: (role: string) => boolean;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+interface AuthContextProviderProps {
+  provider: AuthProvider;
+  children: React.ReactNode;
+}
+
+export const AuthContextProvider: React.FC<AuthContextProviderProps> = ({ provider, children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+
+    const unsubscribe = provider.subscribe((nextUser) => {
+      if (active) {
+        setUser(nextUser);
+      }
+    });
+
+    provider
+      .getCurrentUser()
+      .then((currentUser) => {
+        if (active) {
+          setUser(currentUser);
+        }
+      })
+      .catch(() => {
+        if (active) {
+          setUser(null);
+        }
+      })
+      .finally(() => {
+        if (active) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [provider]);
+
+  // Cached responses, persisted ones included, belong to the signed-in user
+  // and are only served to that user, after reloads too
+  useEffect(() => {
+    if (!loading) {
+      void useDataStore.getState().setCacheOwner(user?.id ?? null);
+    }
+  }, [user, loading]);
+
+  const login = useCallback(
+    (credentials: AuthCredentials) => provider.login(credentials),
+    [provider]
+  );
+  const logout = useCallback(() => provider.logout(), [provider]);
+  const hasRole = useCallback((role: string) => user?.roles.includes(role) ?? false, [user]);
+
+  const value = useMemo<AuthContextType>(
+    () => ({ user, loading, login, logout, hasRole }),
+    [user, loading, login, logout, hasRole]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthContextProvider');
+  }
+  return context;
+};
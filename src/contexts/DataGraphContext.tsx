@@ -0,0 +1,317 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from 'react';
+import { DataSourceSchema } from '../schemas/types';
+import {
+  DependencyCycleError,
+  DependencyGraph,
+  SourceNode,
+  buildDependencyGraph,
+  computeSource,
+  cycleOf,
+  resolveInputs,
+  upstreamSources,
+} from '../schemas/computedSources';
+import { UseSchemaDataResult, refetchEvent, useSchemaData } from '../hooks/useSchemaData';
+import { useDataStore } from '../stores/dataStore';
+import { logWarn } from '../services/logger';
+import { SharedExpressionScope, useExpressionScope } from './ExpressionScopeContext';
+
+export interface SourceState {
+  data: unknown;
+  loading: boolean;
+  error: Error | null;
+}
+
+export interface DataGraphValue {
+  graph: DependencyGraph;
+  // Loaded inputs and computed sources by ID
+  states: Record<string, SourceState>;
+  // Times each computed source has been derived
+  computeCounts: Record<string, number>;
+  // Sources the graph loads, by ID; `useSchemaData` reads these rather than
+  // fetching the source again
+  results: Record<string, UseSchemaDataResult<unknown>>;
+  // Refetch the sources a computed source reads
+  refetch: (id: string) => void;
+}
+
+// A computed source's last derivation and what it was derived from
+interface Derivation {
+  deps: unknown[];
+  state: SourceState;
+  count: number;
+}
+
+const loadingState: SourceState = { data: null, loading: true, error: null };
+const noResults: Record<string, UseSchemaDataResult<unknown>> = {};
+// Shown for a source until its loader reports, so nothing else fetches it
+const pendingResult: UseSchemaDataResult<unknown> = {
+  data: null,
+  loading: true,
+  error: null,
+  refetch: () => Promise.resolve(),
+  retry: () => undefined,
+  invalidate: () => undefined,
+  fetchNextPage: () => Promise.resolve(),
+  hasNextPage: false,
+  isFetchingNextPage: false,
+  nextPageError: null,
+  pageCount: 0,
+};
+
+const DataGraphContext = createContext<DataGraphValue | null>(null);
+
+interface SourceLoaderProps {
+  source: DataSourceSchema;
+  onChange: (id: string, state: SourceState) => void;
+  onResult: (id: string, result: UseSchemaDataResult<unknown>) => void;
+}
+
+/**
+ * Load a source that computed or joining sources read; renders nothing
+ */
+const SourceLoader: React.FC<SourceLoaderProps> = ({ source, onChange, onResult }) => {
+  const result = useSchemaData<unknown>(source, source.responseShape);
+  const { data, loading, error, streamStatus } = result;
+  const { hasNextPage, isFetchingNextPage, nextPageError, pageCount, total } = result;
+
+  useEffect(() => {
+    onChange(source.id, { data, loading, error });
+  }, [source.id, data, loading, error, onChange]);
+
+  // Functions of the shared result call the latest ones, so they stay the
+  // same while the source loads
+  const latest = useRef(result);
+  latest.current = result;
+  const actions = useMemo(
+    () => ({
+      refetch: () => latest.current.refetch(),
+      retry: () => latest.current.retry(),
+      invalidate: () => latest.current.invalidate(),
+      fetchNextPage: () => latest.current.fetchNextPage(),
+    }),
+    []
+  );
+  useEffect(() => {
+    onResult(source.id, {
+      data,
+      loading,
+      error,
+      hasNextPage,
+      isFetchingNextPage,
+      nextPageError,
+      pageCount,
+      total,
+      streamStatus,
+      ...actions,
+    });
+  }, [
+    source.id,
+    data,
+    loading,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    nextPageError,
+    pageCount,
+    total,
+    streamStatus,
+    actions,
+    onResult,
+  ]);
+
+  return null;
+};
+
+function sameDeps(a: unknown[], b: unknown[]): boolean {
+  return a.length === b.length && a.every((value, index) => Object.is(value, b[index]));
+}
+
+function derive(
+  id: string,
+  node: SourceNode,
+  states: Record<string, SourceState>,
+  scope: SharedExpressionScope
+): SourceState {
+  if (node.missing.length > 0) {
+    return {
+      data: null,
+      loading: false,
+      error: new Error(`Data source "${id}" reads unknown data source "${node.missing[0]}"`),
+    };
+  }
+
+  const failed = node.dependsOn.find((input) => states[input]?.error);
+  if (failed) {
+    return {
+      data: null,
+      loading: false,
+      error: new Error(
+        `Input "${failed}" of data source "${id}" failed: ${states[failed].error?.message}`
+      ),
+    };
+  }
+  if (node.dependsOn.some((input) => !states[input] || states[input].loading)) {
+    return loadingState;
+  }
+
+  const sourceData = Object.fromEntries(node.dependsOn.map((input) => [input, states[input].data]));
+  try {
+    const data = computeSource(
+      node.source,
+      resolveInputs(node.source, sourceData, scope),
+      sourceData
+    );
+    return { data, loading: false, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      loading: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+}
+
+interface DataGraphProviderProps {
+  children: ReactNode;
+  // Sources computed sources may read or other sources join with; earlier
+  // sources shadow later ones with the same ID
+  sources: DataSourceSchema[];
+}
+
+/**
+ * Load the sources that computed sources read or other sources join with,
+ * and derive the computed ones. When an input changes, only the sources that
+ * read it, directly or through other computed sources, are derived again.
+ * Each loaded source is fetched once, however many placements show it.
+ */
+export const DataGraphProvider: React.FC<DataGraphProviderProps> = ({ children, sources }) => {
+  const { params, state } = useExpressionScope();
+  const graph = useMemo(() => buildDependencyGraph(sources), [sources]);
+
+  // Sources that are loaded rather than computed, and read by computed or
+  // joining ones
+  const inputs = useMemo(() => {
+    const ids = new Set<string>();
+    for (const [id, node] of graph.nodes) {
+      if (node.source.type === 'computed' || node.dependsOn.length > 0) {
+        upstreamSources(graph, id)
+          .filter((input) => graph.nodes.get(input)?.source.type !== 'computed')
+          .forEach((input) => ids.add(input));
+      }
+    }
+    return [...ids].map((id) => (graph.nodes.get(id) as SourceNode).source);
+  }, [graph]);
+
+  useEffect(() => {
+    for (const cycle of graph.cycles) {
+      logWarn(new DependencyCycleError(cycle).message, 'DataGraph', { cycle });
+    }
+  }, [graph]);
+
+  const [loaded, setLoaded] = useState<Record<string, SourceState>>({});
+  const handleLoaded = useCallback((id: string, loadedState: SourceState) => {
+    setLoaded((prev) => ({ ...prev, [id]: loadedState }));
+  }, []);
+  const [results, setResults] = useState(noResults);
+  const handleResult = useCallback((id: string, result: UseSchemaDataResult<unknown>) => {
+    setResults((prev) => ({ ...prev, [id]: result }));
+  }, []);
+
+  // Derivations are reused while the inputs they were made from are the same
+  // objects, so a change reaches only the sources downstream of it
+  const derivationsRef = useRef(new Map<string, Derivation>());
+  const { states, computeCounts } = useMemo(() => {
+    const scope = { params, state };
+    const derivations = derivationsRef.current;
+    const states: Record<string, SourceState> = {};
+    const computeCounts: Record<string, number> = {};
+    inputs.forEach((source) => {
+      states[source.id] = loaded[source.id] ?? loadingState;
+    });
+
+    for (const id of graph.order) {
+      const node = graph.nodes.get(id) as SourceNode;
+      if (node.source.type !== 'computed') {
+        continue;
+      }
+      const deps = [
+        node.source,
+        ...node.dependsOn.map((input) => states[input]),
+        ...Object.values(resolveInputs(node.source, {}, scope)),
+      ];
+      const previous = derivations.get(id);
+      const derivation =
+        previous && sameDeps(previous.deps, deps)
+          ? previous
+          : { deps, state: derive(id, node, states, scope), count: (previous?.count ?? 0) + 1 };
+      derivations.set(id, derivation);
+      states[id] = derivation.state;
+      computeCounts[id] = derivation.count;
+    }
+
+    // Whatever is left is on or behind a cycle
+    for (const [id, node] of graph.nodes) {
+      if (node.source.type === 'computed' && !states[id]) {
+        const cycle = cycleOf(graph, id) ?? [id];
+        states[id] = { data: null, loading: false, error: new DependencyCycleError(cycle) };
+      }
+    }
+    return { states, computeCounts };
+  }, [graph, inputs, loaded, params, state]);
+
+  const refetch = useCallback(
+    (id: string) => {
+      const store = useDataStore.getState();
+      upstreamSources(graph, id)
+        .filter((input) => graph.nodes.get(input)?.source.type !== 'computed')
+        .forEach((input) => store.emit(refetchEvent(input)));
+    },
+    [graph]
+  );
+
+  const value = useMemo(
+    () => ({
+      graph,
+      states,
+      computeCounts,
+      refetch,
+      results: Object.fromEntries(
+        inputs.map((source) => [source.id, results[source.id] ?? pendingResult])
+      ),
+    }),
+    [graph, states, computeCounts, refetch, inputs, results]
+  );
+  // Loaders fetch their sources themselves rather than reading their own results
+  const loaderValue = useMemo(
+    () => ({ graph, states, computeCounts, refetch, results: noResults }),
+    [graph, states, computeCounts, refetch]
+  );
+
+  return (
+    <>
+      <DataGraphContext.Provider value={loaderValue}>
+        {inputs.map((source) => (
+          <SourceLoader
+            key={source.id}
+            source={source}
+            onChange={handleLoaded}
+            onResult={handleResult}
+          />
+        ))}
+      </DataGraphContext.Provider>
+      <DataGraphContext.Provider value={value}>{children}</DataGraphContext.Provider>
+    </>
+  );
+};
+
+// Null outside a DataGraphProvider
+export const useDataGraph = (): DataGraphValue | null => useContext(DataGraphContext);
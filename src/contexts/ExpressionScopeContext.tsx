@@ -0,0 +1,30 @@
+import React, { createContext, useContext, useMemo, ReactNode } from 'react';
+import { ExpressionScope } from '../schemas/expressions';
+
+// Scope shared by every component below a provider; data is per instance
+export type SharedExpressionScope = Omit<ExpressionScope, 'data'>;
+
+const ExpressionScopeContext = createContext<SharedExpressionScope>({});
+
+interface ExpressionScopeProviderProps {
+  children: ReactNode;
+  params?: Record<string, unknown>;
+  state?: Record<string, unknown>;
+}
+
+/**
+ * Provide page parameters and app state to prop bindings
+ */
+export const ExpressionScopeProvider: React.FC<ExpressionScopeProviderProps> = ({
+  children,
+  params,
+  state,
+}) => {
+  const value = useMemo(() => ({ params, state }), [params, state]);
+
+  return (
+    <ExpressionScopeContext.Provider value={value}>{children}</ExpressionScopeContext.Provider>
+  );
+};
+
+export const useExpressionScope = (): SharedExpressionScope => useContext(ExpressionScopeContext);
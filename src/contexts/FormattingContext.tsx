@@ -0,0 +1,68 @@
+import React, { createContext, useCallback, useContext, useMemo, ReactNode } from 'react';
+import { DataShape, RuntimeConfig } from '../schemas/types';
+import { FormatOptions, FormatSpec, fieldFormats, formatValue } from '../schemas/formatting';
+
+interface FormattingContextValue {
+  options: FormatOptions;
+  // Formats declared by the current data shape, keyed by field name
+  fields: Record<string, FormatSpec>;
+}
+
+const FormattingContext = createContext<FormattingContextValue>({ options: {}, fields: {} });
+
+interface FormattingProviderProps {
+  children: ReactNode;
+  // Locale, currency and time zone; unset keys are inherited
+  config?: RuntimeConfig;
+  // Shape of the data rendered below; replaces the inherited field formats
+  shape?: DataShape;
+}
+
+/**
+ * Provide formatting options and the field formats of the data being shown
+ */
+export const FormattingProvider: React.FC<FormattingProviderProps> = ({
+  children,
+  config,
+  shape,
+}) => {
+  const parent = useContext(FormattingContext);
+  const locale = config?.locale;
+  const currency = config?.currency;
+  const timeZone = config?.timeZone;
+
+  const value = useMemo<FormattingContextValue>(
+    () => ({
+      options: {
+        locale: locale ?? parent.options.locale,
+        currency: currency ?? parent.options.currency,
+        timeZone: timeZone ?? parent.options.timeZone,
+      },
+      fields: shape ? fieldFormats(shape) : parent.fields,
+    }),
+    [parent, locale, currency, timeZone, shape]
+  );
+
+  return <FormattingContext.Provider value={value}>{children}</FormattingContext.Provider>;
+};
+
+/**
+ * Format `value` as the field named `field`. An `override` takes precedence
+ * over the format the field's schema declares.
+ */
+export type FieldFormatter = (value: unknown, field?: string, override?: FormatSpec) => string;
+
+export const useFormatter = (): FieldFormatter => {
+  const { options, fields } = useContext(FormattingContext);
+
+  return useCallback(
+    (value, field, override) => {
+      const declared =
+        field !== undefined && Object.prototype.hasOwnProperty.call(fields, field)
+          ? fields[field]
+          : undefined;
+      return formatValue(value, override ?? declared, options);
+    },
+    [options, fields]
+  );
+};
@@ -0,0 +1,43 @@
+import React, { createContext, useContext, useMemo, ReactNode } from 'react';
+import { UseSchemaDataResult } from '../hooks/useSchemaData';
+
+export type PaginationControls = Pick<
+  UseSchemaDataResult,
+  'fetchNextPage' | 'hasNextPage' | 'isFetchingNextPage' | 'nextPageError' | 'pageCount' | 'total'
+>;
+
+const PaginationContext = createContext<PaginationControls | null>(null);
+
+interface PaginationProviderProps {
+  children: ReactNode;
+  // Paging state of the data rendered below; omit when it is not paginated
+  pagination?: PaginationControls;
+}
+
+/**
+ * Let displays page through, or keep loading, the data they are given
+ */
+export const PaginationProvider: React.FC<PaginationProviderProps> = ({ children, pagination }) => {
+  const { fetchNextPage, hasNextPage, isFetchingNextPage, nextPageError, pageCount, total } =
+    pagination ?? {};
+
+  const value = useMemo<PaginationControls | null>(
+    () =>
+      fetchNextPage
+        ? {
+            fetchNextPage,
+            hasNextPage: hasNextPage ?? false,
+            isFetchingNextPage: isFetchingNextPage ?? false,
+            nextPageError: nextPageError ?? null,
+            pageCount: pageCount ?? 0,
+            total,
+          }
+        : null,
+    [fetchNextPage, hasNextPage, isFetchingNextPage, nextPageError, pageCount, total]
+  );
+
+  return <PaginationContext.Provider value={value}>{children}</PaginationContext.Provider>;
+};
+
+// Null when the data being displayed is not paginated
+export const usePagination = (): PaginationControls | null => useContext(PaginationContext);
@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import { BindingIssue, ExpressionScope, resolveBindings } from '../schemas/expressions';
+import { isActionSchema, runAction } from '../schemas/actions';
+import { ActionSchema, ComponentSchema } from '../schemas/types';
+import { useExpressionScope } from '../contexts/ExpressionScopeContext';
+import { useActionRuntime } from '../contexts/ActionRuntimeContext';
+
+export interface UseBoundPropsResult {
+  props: Record<string, unknown>;
+  issues: BindingIssue[];
+}
+
+/**
+ * Evaluate `{{ }}` bindings in props against fetched data and the shared
+ * expression scope. With a schema, actions stored in its `function` props
+ * become handlers that run them; failures are reported as error snackbars.
+ */
+export function useBoundProps(
+  props: Record<string, unknown>,
+  data: unknown,
+  schema?: ComponentSchema
+): UseBoundPropsResult {
+  const { params, state } = useExpressionScope();
+  const handlers = useActionRuntime();
+
+  return useMemo(() => {
+    const scope: ExpressionScope = { data, params, state };
+    const functionProps = new Set(
+      schema?.props.filter((prop) => prop.type === 'function').map((prop) => prop.name)
+    );
+
+    const values: Record<string, unknown> = {};
+    const actions: Record<string, ActionSchema> = {};
+    for (const [name, value] of Object.entries(props)) {
+      if (functionProps.has(name) && isActionSchema(value)) {
+        actions[name] = value;
+      } else {
+        values[name] = value;
+      }
+    }
+
+    const result = resolveBindings(values, scope);
+    for (const [name, action] of Object.entries(actions)) {
+      result.props[name] = (event?: unknown): Promise<void> =>
+        runAction(action, handlers, { ...scope, event }).catch((error: unknown) => {
+          handlers.notify(error instanceof Error ? error.message : String(error), 'error');
+        });
+    }
+    return result;
+  }, [props, data, params, state, schema, handlers]);
+}
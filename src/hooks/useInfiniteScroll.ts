@@ -0,0 +1,35 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Call `onLoadMore` when the element given to the returned ref scrolls into
+ * view while `enabled`. The element is observed afresh each time `enabled`
+ * turns on, so a sentinel that stays visible keeps loading. Does nothing
+ * where IntersectionObserver is unavailable.
+ */
+export function useInfiniteScroll<T extends Element>(
+  onLoadMore: () => void,
+  enabled: boolean
+): (node: T | null) => void {
+  const [node, setNode] = useState<T | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    if (!node || !enabled || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [node, enabled]);
+
+  return setNode;
+}
@@ -0,0 +1,16 @@
+import { useMediaQuery, useTheme } from '@mui/material';
+import { LayoutBreakpoint } from '../schemas/pageLayout';
+
+/**
+ * Map the MUI breakpoints onto the mobile/tablet/desktop keys used by page schemas
+ */
+export function useLayoutBreakpoint(): LayoutBreakpoint {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const isTablet = useMediaQuery(theme.breakpoints.down('md'));
+
+  if (isMobile) {
+    return 'mobile';
+  }
+  return isTablet ? 'tablet' : 'desktop';
+}
@@ -1,7 +1,27 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { DataSourceSchema, DataShape } from '../schemas/types';
-import { parseData } from '../schemas/validation';
-import { useDataStore } from '../stores/dataStore';
+import { DataSourceSchema, DataShape, PaginationSchema } from '../schemas/types';
+import { compileShape } from '../schemas/compiledValidation';
+import { runScriptTransform, runTransform } from '../schemas/transforms';
+import { MutationRequest } from '../schemas/actions';
+import { evaluateExpression, isBinding, parseTemplate, toText } from '../schemas/expressions';
+import { fetchMockData } from '../schemas/mockSource';
+import {
+  StreamStatus,
+  connectStream,
+  createAccumulator,
+  isStreamSource,
+} from '../schemas/streamSource';
+import {
+  PageParam,
+  PageResult,
+  firstPageParam,
+  pageParams,
+  pageUrl,
+  readPage,
+} from '../schemas/pagination';
+import { CacheEntryOptions, useDataStore } from '../stores/dataStore';
+import { DataGraphValue, SourceState, useDataGraph } from '../contexts/DataGraphContext';
+import { DependencyCycleError, cycleOf, sourceDependencies } from '../schemas/computedSources';
 
 export interface UseSchemaDataOptions {
   onSuccess?: (data: any) => void;
@@ -9,6 +29,11 @@ export interface UseSchemaDataOptions {
   enabled?: boolean;
   refetchInterval?: number;
   initialData?: any;
+  // Data of other sources by ID, for `join` transform steps; by default it
+  // comes from the nearest DataGraphProvider
+  sources?: Record<string, unknown>;
+  // Run deprecated string transforms, which evaluate code from the schema
+  allowScriptTransform?: boolean;
 }
 
 export interface UseSchemaDataResult<T = any> {
@@ -18,6 +43,239 @@ export interface UseSchemaDataResult<T = any> {
   refetch: () => Promise<void>;
   retry: () => void;
   invalidate: () => void;
+  // Load the next page of a paginated source and append its items
+  fetchNextPage: () => Promise<void>;
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  // Why the last next page failed; the pages already loaded stay in `data`
+  nextPageError: Error | null;
+  // Pages loaded so far; 0 for sources without pagination
+  pageCount: number;
+  // Total number of items, when a paginated source reports it
+  total?: number;
+  // Connection state of websocket and sse sources
+  streamStatus?: StreamStatus;
+}
+
+type PageState = Pick<
+  UseSchemaDataResult,
+  'hasNextPage' | 'isFetchingNextPage' | 'nextPageError' | 'pageCount' | 'total'
+>;
+
+// Items of the pages loaded so far and where the next page starts
+interface LoadedPages {
+  items: unknown[];
+  next?: PageParam;
+  total?: number;
+  count: number;
+}
+
+const noPages: PageState = {
+  hasNextPage: false,
+  isFetchingNextPage: false,
+  nextPageError: null,
+  pageCount: 0,
+};
+
+/**
+ * Data store event that makes every `useSchemaData` for a source refetch,
+ * bypassing its cache
+ */
+export function refetchEvent(dataSourceId: string): string {
+  return `refetch:${dataSourceId}`;
+}
+
+/**
+ * Data store event carrying an {@link OptimisticChange} for every
+ * `useSchemaData` showing a source
+ */
+export function optimisticEvent(dataSourceId: string): string {
+  return `optimistic:${dataSourceId}`;
+}
+
+// A mutation's optimistic update of a source's data, and its outcome
+export type OptimisticChange =
+  | { type: 'apply'; mutation: number; update: (data: unknown) => unknown }
+  | { type: 'commit' | 'rollback'; mutation: number };
+
+// Data without the optimistic updates still pending, and those updates in the
+// order they were applied
+export interface OptimisticLayers {
+  base: unknown;
+  pending: Map<number, (data: unknown) => unknown>;
+}
+
+/**
+ * Apply a mutation's optimistic change to `layers`. Returns the data to show,
+ * or undefined when it stays the same: a committed update becomes part of the
+ * base data, and a rolled back one is dropped while the updates of other
+ * mutations stay applied.
+ */
+export function applyOptimisticChange(
+  layers: OptimisticLayers,
+  change: OptimisticChange,
+  current: unknown
+): { data: unknown } | undefined {
+  if (change.type === 'apply') {
+    if (layers.pending.size === 0) {
+      layers.base = current;
+    }
+    layers.pending.set(change.mutation, change.update);
+    return { data: change.update(current) };
+  }
+
+  const update = layers.pending.get(change.mutation);
+  if (!update) {
+    return undefined;
+  }
+  layers.pending.delete(change.mutation);
+  if (change.type === 'commit') {
+    layers.base = update(layers.base);
+    return undefined;
+  }
+  return { data: [...layers.pending.values()].reduce((data, next) => next(data), layers.base) };
+}
+
+function sourceCacheKey(dataSource: DataSourceSchema): string {
+  return JSON.stringify({
+    id: dataSource.id,
+    endpoint: dataSource.endpoint,
+    method: dataSource.method,
+    query: dataSource.query,
+    pagination: dataSource.pagination,
+  });
+}
+
+// Changes whenever the data a source caches would change shape, so entries
+// cached by an earlier schema are not used
+function cacheVersion(dataSource: DataSourceSchema): string {
+  const schema = JSON.stringify([
+    dataSource.cache?.version,
+    dataSource.transform,
+    dataSource.responseShape,
+  ]);
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < schema.length; i++) {
+    hash = Math.imul(hash ^ schema.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function cacheOptions(dataSource: DataSourceSchema): CacheEntryOptions {
+  return {
+    events: dataSource.refresh?.events,
+    staleWhileRevalidate: dataSource.cache?.staleWhileRevalidate,
+    version: cacheVersion(dataSource),
+    persist: dataSource.cache?.persist,
+  };
+}
+
+// Pages are cached separately, under keys sharing the source's cache key
+function pageCachePrefix(cacheKey: string): string {
+  return `${cacheKey}#page:`;
+}
+
+/**
+ * True for the key under which data of the source with this ID is cached,
+ * whatever its other settings; false for keys of single pages
+ */
+export function isSourceCacheKey(key: string, dataSourceId: string): boolean {
+  const prefix = JSON.stringify({ id: dataSourceId }).slice(0, -1);
+  return (key === `${prefix}}` || key.startsWith(`${prefix},`)) && !key.includes('#page:');
+}
+
+// Data of the sources a source joins with, or why it is not there yet
+interface JoinedSources {
+  sources?: Record<string, unknown>;
+  pending: boolean;
+  error: Error | null;
+}
+
+/**
+ * Data of the sources the `join` steps of a source read, from the nearest
+ * DataGraphProvider. Data passed as `sources` is used as it is.
+ */
+function useJoinedSources(
+  dataSource: DataSourceSchema | undefined,
+  dataGraph: DataGraphValue | null,
+  sources: Record<string, unknown> | undefined
+): JoinedSources {
+  const joined = useMemo(
+    () =>
+      dataSource && dataSource.type !== 'computed' && !sources
+        ? sourceDependencies(dataSource)
+        : [],
+    [dataSource, sources]
+  );
+
+  // Kept while the states of the joined sources are the same objects, so
+  // the source is not fetched again for every graph change
+  const deps: unknown[] = [
+    sources,
+    joined,
+    dataGraph?.graph,
+    ...joined.map((id) => dataGraph?.states[id]),
+  ];
+  const memo = useRef<{ deps: unknown[]; result: JoinedSources }>();
+  if (!memo.current || !sameDeps(memo.current.deps, deps)) {
+    memo.current = { deps, result: joinSources(dataSource, joined, dataGraph, sources) };
+  }
+  return memo.current.result;
+}
+
+function sameDeps(a: unknown[], b: unknown[]): boolean {
+  return a.length === b.length && a.every((value, index) => Object.is(value, b[index]));
+}
+
+function joinSources(
+  dataSource: DataSourceSchema | undefined,
+  joined: string[],
+  dataGraph: DataGraphValue | null,
+  sources: Record<string, unknown> | undefined
+): JoinedSources {
+  if (!dataSource || joined.length === 0) {
+    return { sources, pending: false, error: null };
+  }
+  const id = dataSource.id;
+  if (!dataGraph) {
+    return {
+      pending: false,
+      error: new Error(
+        `Data source "${id}" joins with other sources and needs a DataGraphProvider`
+      ),
+    };
+  }
+  const cycle = cycleOf(dataGraph.graph, id);
+  if (cycle) {
+    return { pending: false, error: new DependencyCycleError(cycle) };
+  }
+
+  const states: Record<string, SourceState> = {};
+  for (const input of joined) {
+    const state = dataGraph.states[input];
+    if (!state) {
+      return {
+        pending: false,
+        error: new Error(`Data source "${id}" reads unknown data source "${input}"`),
+      };
+    }
+    if (state.error) {
+      return {
+        pending: false,
+        error: new Error(`Input "${input}" of data source "${id}" failed: ${state.error.message}`),
+      };
+    }
+    states[input] = state;
+  }
+  if (Object.values(states).some((state) => state.loading)) {
+    return { pending: true, error: null };
+  }
+  return {
+    sources: Object.fromEntries(joined.map((input) => [input, states[input].data])),
+    pending: false,
+    error: null,
+  };
 }
 
 /**
@@ -28,7 +286,20 @@ export function useSchemaData<T = any>(
   dataShape: DataShape | undefined,
   options: UseSchemaDataOptions = {}
 ): UseSchemaDataResult<T> {
-  const { onSuccess, onError, enabled = true, refetchInterval, initialData = null } = options;
+  const {
+    onSuccess,
+    onError,
+    enabled: enabledOption = true,
+    refetchInterval,
+    initialData = null,
+    allowScriptTransform = false,
+  } = options;
+
+  // Computed sources are derived by the nearest DataGraphProvider, and the
+  // sources it loads are read from it rather than fetched again
+  const dataGraph = useDataGraph();
+  const shared = enabledOption && dataSource ? dataGraph?.results[dataSource.id] : undefined;
+  const enabled = enabledOption && !shared;
 
   const [state, setState] = useState<{
     data: T | null;
@@ -40,24 +311,47 @@ export function useSchemaData<T = any>(
     error: null,
   });
 
-  const dataStore = useDataStore();
+  const [pageState, setPageState] = useState<PageState>(noPages);
+
+  const computed = dataSource?.type === 'computed' ? dataSource : undefined;
+
+  // Sources a source joins with are loaded by the graph too; the source is
+  // fetched once their data is there
+  const joins = useJoinedSources(dataSource, dataGraph, options.sources);
+  const { sources } = joins;
+  const joinsReady = !joins.pending && !joins.error;
+
+  // Streaming sources reconnect when `connection` changes
+  const stream = dataSource && isStreamSource(dataSource) ? dataSource : undefined;
+  const [connection, setConnection] = useState(0);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>();
+
+  // Latest callbacks, for data that arrives outside of fetchData
+  const callbacksRef = useRef({ onSuccess, onError });
+  callbacksRef.current = { onSuccess, onError };
+
   const abortControllerRef = useRef<AbortController | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const pagesRef = useRef<LoadedPages>({ items: [], count: 0 });
+  const fetchingNextPageRef = useRef(false);
 
   // Generate cache key
   const cacheKey = useMemo(() => {
     if (!dataSource) {return null;}
-    return JSON.stringify({
-      id: dataSource.id,
-      endpoint: dataSource.endpoint,
-      method: dataSource.method,
-      query: dataSource.query,
-    });
+    return sourceCacheKey(dataSource);
   }, [dataSource]);
 
   // Fetch data function
   const fetchData = useCallback(async () => {
-    if (!dataSource || !enabled) {return;}
+    if (
+      !dataSource ||
+      !enabled ||
+      !joinsReady ||
+      dataSource.type === 'computed' ||
+      isStreamSource(dataSource)
+    ) {
+      return;
+    }
 
     // Cancel previous request
     if (abortControllerRef.current) {
@@ -66,98 +360,96 @@ export function useSchemaData<T = any>(
 
     // Create new abort controller
     abortControllerRef.current = new AbortController();
+    const { signal } = abortControllerRef.current;
 
     setState((prev) => ({ ...prev, loading: true, error: null }));
+    const store = useDataStore.getState();
 
     try {
       let rawData: any;
+      let revalidate = false;
 
-      // Check cache first
-      if (cacheKey && dataSource.cache?.enabled) {
-        const cached = dataStore.getCached(cacheKey);
+      if (dataSource.pagination) {
+        // Start over from the first page; fetchNextPage appends the others
+        const page = await loadPage(
+          dataSource,
+          dataSource.pagination,
+          cacheKey,
+          firstPageParam(dataSource.pagination),
+          signal
+        );
+        pagesRef.current = { items: page.items, next: page.next, total: page.total, count: 1 };
+        rawData = transformData(dataSource, page.items, sources, allowScriptTransform);
+      } else if (cacheKey && dataSource.cache?.enabled) {
+        // Check cache first, once persisted entries are loaded
+        await useDataStore.getState().ready;
+        const cached = store.getCacheEntry(cacheKey, cacheVersion(dataSource));
         if (cached) {
-          rawData = cached;
+          rawData = cached.data;
+          // Stale data is shown while it is refetched below
+          revalidate = cached.stale;
         }
       }
 
       // Fetch if not cached
-      if (!rawData) {
-        switch (dataSource.type) {
-          case 'rest':
-            rawData = await fetchRestData(dataSource, abortControllerRef.current.signal);
-            break;
-          case 'graphql':
-            rawData = await fetchGraphQLData(dataSource, abortControllerRef.current.signal);
-            break;
-          case 'static':
-            // For static data, the endpoint contains the data itself
-            if (dataSource.endpoint) {
-              try {
-                // Try to parse as JSON first
-                rawData = JSON.parse(dataSource.endpoint);
-              } catch {
-                // If not JSON, try to import as module
-                if (dataSource.endpoint.startsWith('/') || dataSource.endpoint.startsWith('.')) {
-                  rawData = await import(dataSource.endpoint).then((m) => m.default);
-                } else {
-                  // Otherwise use as-is
-                  rawData = dataSource.endpoint;
-                }
-              }
-            } else {
-              rawData = {};
-            }
-            break;
-          case 'computed':
-            // Computed data sources are handled by parent components
-            rawData = {};
-            break;
-          default:
-            throw new Error(`Unknown data source type: ${dataSource.type}`);
-        }
+      if (!rawData && !dataSource.pagination) {
+        rawData = await fetchSourceData(dataSource, signal);
 
         // Apply transform if provided
-        if (dataSource.transform) {
-          try {
-            // Create a safe transform function
-            const transformFn = new Function(
-              'data',
-              `
-              try {
-                ${dataSource.transform}
-              } catch (e) {
-                console.error('Transform error:', e);
-                return data;
-              }
-            `
-            );
-            rawData = transformFn(rawData);
-          } catch (error) {
-            console.error('Failed to create transform function:', error);
-          }
-        }
+        rawData = transformData(dataSource, rawData, sources, allowScriptTransform);
 
         // Cache the data
         if (cacheKey && dataSource.cache?.enabled) {
-          dataStore.setCached(cacheKey, rawData, dataSource.cache.ttl);
+          store.setCached(cacheKey, rawData, dataSource.cache.ttl, cacheOptions(dataSource));
         }
       }
 
-      // Validate and parse data if shape is provided
-      let parsedData: T;
-      if (dataShape) {
-        parsedData = parseData<T>(rawData, dataShape);
-      } else {
-        parsedData = rawData as T;
-      }
+      // Validate and parse data if shape is provided; compiled validators are cached per shape
+      const parsedData = parseData<T>(rawData, dataShape);
 
       setState({
         data: parsedData,
         loading: false,
         error: null,
       });
+      setPageState(
+        dataSource.pagination
+          ? {
+              hasNextPage: pagesRef.current.next !== undefined,
+              isFetchingNextPage: false,
+              nextPageError: null,
+              pageCount: 1,
+              total: pagesRef.current.total,
+            }
+          : noPages
+      );
 
       onSuccess?.(parsedData);
+
+      if (revalidate && cacheKey) {
+        try {
+          const freshData = transformData(
+            dataSource,
+            await fetchSourceData(dataSource, signal),
+            sources,
+            allowScriptTransform
+          );
+          store.setCached(cacheKey, freshData, dataSource.cache?.ttl, cacheOptions(dataSource));
+
+          const parsedFresh = parseData<T>(freshData, dataShape);
+          setState({ data: parsedFresh, loading: false, error: null });
+          onSuccess?.(parsedFresh);
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') {
+            return;
+          }
+
+          // Keep the stale data shown
+          const errorObj = error instanceof Error ? error : new Error(String(error));
+          setState((prev) => ({ ...prev, error: errorObj }));
+          onError?.(errorObj);
+        }
+      }
     } catch (error) {
       if (error.name === 'AbortError') {
         // Request was cancelled
@@ -170,10 +462,21 @@ export function useSchemaData<T = any>(
         loading: false,
         error: errorObj,
       });
+      setPageState(noPages);
 
       onError?.(errorObj);
     }
-  }, [dataSource, dataShape, enabled, cacheKey, dataStore, onSuccess, onError]);
+  }, [
+    dataSource,
+    dataShape,
+    enabled,
+    cacheKey,
+    onSuccess,
+    onError,
+    joinsReady,
+    sources,
+    allowScriptTransform,
+  ]);
 
   // Set up effect for initial fetch and refetch interval
   useEffect(() => {
@@ -199,28 +502,156 @@ export function useSchemaData<T = any>(
     };
   }, [fetchData, dataSource, enabled, refetchInterval]);
 
-  // Subscribe to cache invalidation events
+  // Fold every message of a streaming source into its data, from scratch on
+  // each connection
   useEffect(() => {
-    if (!cacheKey || !dataSource?.refresh?.events) {return;}
+    if (!stream || !enabled || !joinsReady) {return;}
 
-    const unsubscribers = dataSource.refresh.events.map((event) =>
-      dataStore.subscribe(event, () => {
-        fetchData();
-      })
-    );
-
-    return () => {
-      unsubscribers.forEach((unsub) => unsub());
+    const accumulator = createAccumulator(stream.stream?.reducer);
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    const fail = (error: unknown): void => {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      setState((prev) => ({ ...prev, loading: false, error: errorObj }));
+      callbacksRef.current.onError?.(errorObj);
     };
-  }, [cacheKey, dataSource, fetchData, dataStore]);
+
+    return connectStream(stream, {
+      onMessage: (message) => {
+        try {
+          const parsedData = parseData<T>(
+            transformData(stream, accumulator.add(message), sources, allowScriptTransform),
+            dataShape
+          );
+          setState({ data: parsedData, loading: false, error: null });
+          callbacksRef.current.onSuccess?.(parsedData);
+        } catch (error) {
+          fail(error);
+        }
+      },
+      onStatus: setStreamStatus,
+      onError: fail,
+    });
+  }, [stream, enabled, joinsReady, connection, sources, allowScriptTransform, dataShape]);
+
+  // Load the page after the last one loaded and append its items
+  const fetchNextPage = useCallback(async () => {
+    const loaded = pagesRef.current;
+    if (
+      !dataSource?.pagination ||
+      !enabled ||
+      loaded.next === undefined ||
+      fetchingNextPageRef.current
+    ) {
+      return;
+    }
+
+    // A refetch aborts this page along with its own request
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    fetchingNextPageRef.current = true;
+    setPageState((prev) => ({ ...prev, isFetchingNextPage: true, nextPageError: null }));
+
+    try {
+      const page = await loadPage(
+        dataSource,
+        dataSource.pagination,
+        cacheKey,
+        loaded.next,
+        controller.signal
+      );
+      const pages: LoadedPages = {
+        items: [...loaded.items, ...page.items],
+        next: page.next,
+        total: page.total ?? loaded.total,
+        count: loaded.count + 1,
+      };
+      const parsedData = parseData<T>(
+        transformData(dataSource, pages.items, sources, allowScriptTransform),
+        dataShape
+      );
+
+      pagesRef.current = pages;
+      setState({ data: parsedData, loading: false, error: null });
+      setPageState({
+        hasNextPage: pages.next !== undefined,
+        isFetchingNextPage: false,
+        nextPageError: null,
+        pageCount: pages.count,
+        total: pages.total,
+      });
+      onSuccess?.(parsedData);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        return;
+      }
+
+      // Keep the pages already shown; only the paging controls report it
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      setPageState((prev) => ({ ...prev, isFetchingNextPage: false, nextPageError: errorObj }));
+      onError?.(errorObj);
+    } finally {
+      fetchingNextPageRef.current = false;
+    }
+  }, [dataSource, enabled, cacheKey, sources, allowScriptTransform, dataShape, onSuccess, onError]);
 
   // Refetch function
   const refetch = useCallback(async () => {
+    if (computed) {
+      // Refetch what it reads; the graph derives it again
+      dataGraph?.refetch(computed.id);
+      return;
+    }
+    if (stream) {
+      setConnection((count) => count + 1);
+      return;
+    }
     if (cacheKey) {
-      dataStore.invalidate(cacheKey);
+      const store = useDataStore.getState();
+      store.invalidate(cacheKey);
+      store.invalidatePrefix(pageCachePrefix(cacheKey));
     }
     await fetchData();
-  }, [cacheKey, dataStore, fetchData]);
+  }, [computed, dataGraph, stream, cacheKey, fetchData]);
+
+  // Refetch when an action asks for this source or one of its refresh events
+  // is emitted. Subscribing updates the store, which changes `refetch`, so the
+  // handler is read through a ref.
+  const refetchRef = useRef(refetch);
+  refetchRef.current = refetch;
+  const dataSourceId = dataSource?.id;
+  // Compared by value; schemas may be rebuilt on every render
+  const refreshEvents = JSON.stringify(dataSource?.refresh?.events ?? []);
+  useEffect(() => {
+    if (!dataSourceId || !enabled) {return;}
+
+    const events = [refetchEvent(dataSourceId), ...(JSON.parse(refreshEvents) as string[])];
+    const unsubscribers = events.map((event) =>
+      useDataStore.getState().subscribe(event, () => {
+        void refetchRef.current();
+      })
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [dataSourceId, enabled, refreshEvents]);
+
+  // Show optimistic updates from mutations until they are committed or
+  // rolled back
+  const dataRef = useRef(state.data);
+  dataRef.current = state.data;
+  const layersRef = useRef<OptimisticLayers>({ base: null, pending: new Map() });
+  useEffect(() => {
+    if (!dataSourceId) {return;}
+
+    const layers = layersRef.current;
+    return useDataStore.getState().subscribe(optimisticEvent(dataSourceId), (payload) => {
+      const next = applyOptimisticChange(layers, payload as OptimisticChange, dataRef.current);
+      if (next) {
+        const data = next.data as T | null;
+        // Later updates build on this one even before it renders
+        dataRef.current = data;
+        setState((prev) => ({ ...prev, data }));
+      }
+    });
+  }, [dataSourceId]);
 
   // Retry function (alias for refetch)
   const retry = useCallback(() => {
@@ -230,20 +661,193 @@ export function useSchemaData<T = any>(
   // Invalidate function
   const invalidate = useCallback(() => {
     if (cacheKey) {
-      dataStore.invalidate(cacheKey);
+      const store = useDataStore.getState();
+      store.invalidate(cacheKey);
+      store.invalidatePrefix(pageCachePrefix(cacheKey));
+    }
+  }, [cacheKey]);
+
+  const computedState = useMemo(() => {
+    if (!computed || !enabled) {
+      return null;
+    }
+    const derived = dataGraph?.states[computed.id];
+    if (!derived) {
+      return {
+        data: null,
+        loading: false,
+        error: new Error(
+          dataGraph
+            ? `Computed data source "${computed.id}" is not in the data graph`
+            : `Computed data source "${computed.id}" needs a DataGraphProvider`
+        ),
+      };
+    }
+    if (derived.loading || derived.error) {
+      return { ...derived, data: null };
+    }
+    try {
+      return { data: parseData<T>(derived.data, dataShape), loading: false, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        loading: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
     }
-  }, [cacheKey, dataStore]);
+  }, [computed, enabled, dataGraph, dataShape]);
+
+  // Report derived data as fetched data is reported
+  useEffect(() => {
+    if (!computedState || computedState.loading) {return;}
+    if (computedState.error) {
+      callbacksRef.current.onError?.(computedState.error);
+    } else {
+      callbacksRef.current.onSuccess?.(computedState.data);
+    }
+  }, [computedState]);
+
+  const joinState = useMemo(() => {
+    if (!enabled || joinsReady) {
+      return null;
+    }
+    return { data: null, loading: joins.pending, error: joins.error };
+  }, [enabled, joinsReady, joins]);
+
+  const sharedState = useMemo((): UseSchemaDataResult<T> | null => {
+    if (!shared) {
+      return null;
+    }
+    try {
+      const data = shared.data === null ? null : parseData<T>(shared.data, dataShape);
+      return { ...shared, data };
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      return { ...shared, data: null, error: errorObj };
+    }
+  }, [shared, dataShape]);
+
+  // Report shared data as fetched data is reported, once per load
+  const sharedData = sharedState?.data;
+  const sharedLoading = sharedState?.loading ?? true;
+  const sharedError = sharedState?.error;
+  useEffect(() => {
+    if (sharedLoading) {
+      return;
+    }
+    if (sharedError) {
+      callbacksRef.current.onError?.(sharedError);
+    } else {
+      callbacksRef.current.onSuccess?.(sharedData);
+    }
+  }, [sharedData, sharedLoading, sharedError]);
+
+  if (sharedState) {
+    return sharedState;
+  }
+
+  const current = computedState ?? joinState ?? state;
 
   return {
-    data: state.data,
-    loading: state.loading,
-    error: state.error,
+    data: current.data,
+    loading: current.loading,
+    error: current.error,
     refetch,
     retry,
     invalidate,
+    fetchNextPage,
+    ...pageState,
+    streamStatus,
   };
 }
 
+function transformData(
+  dataSource: DataSourceSchema,
+  rawData: unknown,
+  sources: Record<string, unknown> | undefined,
+  allowScriptTransform: boolean
+): unknown {
+  if (typeof dataSource.transform === 'string') {
+    if (!allowScriptTransform) {
+      throw new Error(
+        `Data source "${dataSource.id}" uses a script transform; convert it to transform steps or pass allowScriptTransform`
+      );
+    }
+    return runScriptTransform(rawData, dataSource.transform);
+  }
+  if (dataSource.transform) {
+    return runTransform(rawData, dataSource.transform, { sources });
+  }
+  return rawData;
+}
+
+function parseData<T>(rawData: unknown, dataShape: DataShape | undefined): T {
+  return dataShape ? compileShape(dataShape).parse<T>(rawData) : (rawData as T);
+}
+
+// Fetch one page of a paginated source, through the per-page cache
+async function loadPage(
+  dataSource: DataSourceSchema,
+  pagination: PaginationSchema,
+  cacheKey: string | null,
+  param: PageParam,
+  signal: AbortSignal
+): Promise<PageResult> {
+  const store = useDataStore.getState();
+  const key =
+    cacheKey && dataSource.cache?.enabled
+      ? `${pageCachePrefix(cacheKey)}${JSON.stringify(param)}`
+      : null;
+  const cached = key ? (store.getCached(key, cacheVersion(dataSource)) as PageResult | null) : null;
+  if (cached) {
+    return cached;
+  }
+
+  const page = await fetchPage(dataSource, pagination, param, signal);
+  if (key) {
+    store.setCached(key, page, dataSource.cache?.ttl, cacheOptions(dataSource));
+  }
+  return page;
+}
+
+// Fetch a source's data as it is before transform steps
+async function fetchSourceData(
+  dataSource: DataSourceSchema,
+  signal: AbortSignal
+): Promise<unknown> {
+  switch (dataSource.type) {
+    case 'rest':
+      return fetchRestData(dataSource, signal);
+    case 'graphql':
+      return fetchGraphQLData(dataSource, signal);
+    case 'static':
+      // For static data, the endpoint contains the data itself
+      if (dataSource.endpoint) {
+        try {
+          // Try to parse as JSON first
+          return JSON.parse(dataSource.endpoint) as unknown;
+        } catch {
+          // If not JSON, try to import as module
+          if (dataSource.endpoint.startsWith('/') || dataSource.endpoint.startsWith('.')) {
+            return import(dataSource.endpoint).then((m: { default: unknown }) => m.default);
+          }
+          // Otherwise use as-is
+          return dataSource.endpoint;
+        }
+      }
+      return {};
+    case 'mock':
+      return fetchMockData(dataSource, { signal });
+    case 'computed':
+      throw new Error(`Computed data source "${dataSource.id}" is derived, not fetched`);
+    case 'websocket':
+    case 'sse':
+      throw new Error(`Data source "${dataSource.id}" streams its data and cannot be fetched`);
+    default:
+      throw new Error(`Unknown data source type: ${dataSource.type}`);
+  }
+}
+
 // Helper functions for different data source types
 
 async function fetchRestData(dataSource: DataSourceSchema, signal: AbortSignal): Promise<any> {
@@ -264,7 +868,11 @@ async function fetchRestData(dataSource: DataSourceSchema, signal: AbortSignal):
   return response.json();
 }
 
-async function fetchGraphQLData(dataSource: DataSourceSchema, signal: AbortSignal): Promise<any> {
+async function fetchGraphQLData(
+  dataSource: DataSourceSchema,
+  signal: AbortSignal,
+  variables?: Record<string, unknown>
+): Promise<any> {
   if (!dataSource.endpoint || !dataSource.query) {
     throw new Error('GraphQL data source requires endpoint and query');
   }
@@ -277,6 +885,7 @@ async function fetchGraphQLData(dataSource: DataSourceSchema, signal: AbortSigna
     },
     body: JSON.stringify({
       query: dataSource.query,
+      variables,
     }),
     signal,
   });
@@ -294,6 +903,107 @@ async function fetchGraphQLData(dataSource: DataSourceSchema, signal: AbortSigna
   return result.data;
 }
 
+async function fetchPage(
+  dataSource: DataSourceSchema,
+  pagination: PaginationSchema,
+  param: PageParam,
+  signal: AbortSignal
+): Promise<PageResult> {
+  if (dataSource.type === 'graphql') {
+    const data: unknown = await fetchGraphQLData(dataSource, signal, pageParams(pagination, param));
+    return readPage(pagination, data, param);
+  }
+  if (dataSource.type !== 'rest') {
+    throw new Error(
+      `Data source "${dataSource.id}" of type ${dataSource.type} cannot be paginated`
+    );
+  }
+  if (!dataSource.endpoint) {
+    throw new Error('REST data source requires an endpoint');
+  }
+
+  const url = pageUrl(dataSource.endpoint, pagination, param);
+  const response = await fetch(url, {
+    method: dataSource.method ?? 'GET',
+    headers: dataSource.headers,
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const body: unknown = await response.json();
+  return readPage(pagination, body, param, {
+    link: pagination.type === 'link' ? response.headers.get('Link') : null,
+    url,
+  });
+}
+
+// Fill `{{ }}` bindings in an endpoint from the request body, encoding each value
+function resolveEndpoint(endpoint: string, body: unknown): string {
+  if (!isBinding(endpoint)) {
+    return endpoint;
+  }
+  return parseTemplate(endpoint)
+    .map((part) =>
+      'text' in part
+        ? part.text
+        : encodeURIComponent(toText(evaluateExpression(part.expression, { data: body })))
+    )
+    .join('');
+}
+
+/**
+ * Send a mutation to a REST or GraphQL source. REST sources use the
+ * request's method, then their own unless it is GET, then POST; GraphQL
+ * sources send the body as variables of their query. Endpoints may contain
+ * `{{ }}` bindings filled from the body, e.g. `/api/users/{{ id }}`. Mock
+ * sources answer with the body, with their latency and failures.
+ */
+export async function sendMutation(
+  dataSource: DataSourceSchema,
+  request: MutationRequest = {}
+): Promise<unknown> {
+  if (dataSource.type === 'mock') {
+    return fetchMockData(dataSource, { body: request.body });
+  }
+  if (dataSource.type !== 'rest' && dataSource.type !== 'graphql') {
+    throw new Error(`Data source "${dataSource.id}" cannot be mutated`);
+  }
+  if (!dataSource.endpoint) {
+    throw new Error(`Data source "${dataSource.id}" has no endpoint`);
+  }
+
+  const graphql = dataSource.type === 'graphql';
+  const body = graphql ? { query: dataSource.query, variables: request.body } : request.body;
+  const response = await fetch(resolveEndpoint(dataSource.endpoint, request.body), {
+    method: graphql
+      ? 'POST'
+      : (request.method ?? (dataSource.method === 'GET' ? undefined : dataSource.method) ?? 'POST'),
+    headers: {
+      'Content-Type': 'application/json',
+      ...dataSource.headers,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  // Servers may answer 200 or 201 without a body, not only 204
+  const text = await response.text();
+  if (!text) {
+    return null;
+  }
+
+  const result = JSON.parse(text) as { data?: unknown; errors?: Array<{ message: string }> };
+  if (graphql && result.errors) {
+    throw new Error(result.errors[0].message);
+  }
+  return graphql ? result.data : result;
+}
+
 /**
  * Hook for computed data that depends on other data sources
  */
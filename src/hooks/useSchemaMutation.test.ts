@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useSchemaData } from './useSchemaData';
+import { useSchemaMutation } from './useSchemaMutation';
+import { useDataStore } from '../stores/dataStore';
+import { createMemoryPersistence } from '../stores/cachePersistence';
+import { DataSourceSchema } from '../schemas/types';
+
+interface Todo {
+  id: number;
+  title: string;
+}
+
+const todos: DataSourceSchema = {
+  id: 'todos',
+  type: 'rest',
+  endpoint: '/api/todos',
+  cache: { enabled: true },
+  refresh: { events: ['todos:changed'] },
+};
+
+const addTodo: DataSourceSchema = {
+  id: 'addTodo',
+  type: 'rest',
+  endpoint: '/api/todos',
+  method: 'POST',
+  emits: ['todos:changed'],
+};
+
+const renameTodo: DataSourceSchema = {
+  id: 'renameTodo',
+  type: 'rest',
+  endpoint: '/api/todos/{{ id }}',
+  method: 'PUT',
+};
+
+const deleteTodo: DataSourceSchema = {
+  id: 'deleteTodo',
+  type: 'rest',
+  endpoint: '/api/todos/{{ id }}',
+  method: 'DELETE',
+};
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('useSchemaMutation', () => {
+  let list: Todo[];
+  let fetchMock: ReturnType<typeof vi.fn<[string, RequestInit?], Promise<Response>>>;
+
+  beforeEach(() => {
+    useDataStore.getState().invalidateAll();
+    list = [{ id: 1, title: 'Write docs' }];
+    fetchMock = vi.fn((url: string, init?: RequestInit) => {
+      if (init?.method === 'POST') {
+        const todo = { id: list.length + 1, ...(JSON.parse(String(init.body)) as object) } as Todo;
+        list = [...list, todo];
+        return Promise.resolve(json(todo, 201));
+      }
+      if (init?.method === 'DELETE') {
+        return Promise.resolve(new Response(null, { status: 200 }));
+      }
+      if (init?.method === 'PUT') {
+        return Promise.resolve(json({ message: 'Conflict' }, 409));
+      }
+      return Promise.resolve(json(url === '/api/todos' ? list : null));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('refetches sources listening to the emitted events', async () => {
+    const { result } = renderHook(() => ({
+      query: useSchemaData<Todo[]>(todos, undefined),
+      mutation: useSchemaMutation<Todo>(addTodo),
+    }));
+    await waitFor(() => expect(result.current.query.data).toHaveLength(1));
+
+    let created: Todo | undefined;
+    await act(async () => {
+      created = await result.current.mutation.mutate({ title: 'Ship it' });
+    });
+
+    expect(created).toEqual({ id: 2, title: 'Ship it' });
+    expect(result.current.mutation.data).toEqual(created);
+    await waitFor(() => expect(result.current.query.data).toHaveLength(2));
+  });
+
+  it('drops cached data of sources that are not shown', async () => {
+    const { result, unmount } = renderHook(() => useSchemaData<Todo[]>(todos, undefined));
+    await waitFor(() => expect(result.current.data).toHaveLength(1));
+    unmount();
+
+    const isCached = (): boolean =>
+      [...useDataStore.getState().cache.keys()].some((key) => key.includes('"todos"'));
+    expect(isCached()).toBe(true);
+
+    const { result: mutation } = renderHook(() => useSchemaMutation(addTodo));
+    await act(async () => {
+      await mutation.current.mutate({ title: 'Ship it' });
+    });
+    expect(isCached()).toBe(false);
+  });
+
+  it('applies optimistic updates and rolls them back on failure', async () => {
+    const onError = vi.fn();
+    const { result } = renderHook(() => ({
+      query: useSchemaData<Todo[]>(todos, undefined),
+      mutation: useSchemaMutation<Todo, Todo>(renameTodo, {
+        onError,
+        optimistic: [
+          {
+            dataSource: 'todos',
+            update: (data: Todo[], todo) => data.map((item) => (item.id === todo.id ? todo : item)),
+          },
+        ],
+      }),
+    }));
+    await waitFor(() => expect(result.current.query.data).toHaveLength(1));
+
+    let resolved: Todo | undefined = { id: 0, title: '' };
+    let settled!: Promise<void>;
+    act(() => {
+      settled = result.current.mutation
+        .mutate({ id: 1, title: 'Write better docs' })
+        .then((data) => {
+          resolved = data;
+        });
+    });
+    expect(result.current.query.data?.[0].title).toBe('Write better docs');
+    expect(result.current.mutation.loading).toBe(true);
+
+    await act(() => settled);
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/todos/1',
+      expect.objectContaining({ method: 'PUT' })
+    );
+    expect(resolved).toBeUndefined();
+    expect(result.current.query.data?.[0].title).toBe('Write docs');
+    expect(result.current.mutation.error?.message).toBe('HTTP error! status: 409');
+    expect(onError).toHaveBeenCalledWith(result.current.mutation.error, {
+      id: 1,
+      title: 'Write better docs',
+    });
+  });
+
+  it('rolls back only the failed mutation and persists confirmed data', async () => {
+    const persistence = createMemoryPersistence();
+    await useDataStore.getState().configureCache({ persistence });
+    const persisted = { ...todos, cache: { enabled: true, persist: true } };
+    let conflict!: () => void;
+    const respond = fetchMock.getMockImplementation() as typeof fetch;
+    fetchMock.mockImplementation((url, init) =>
+      init?.method === 'PUT'
+        ? new Promise((resolve) => (conflict = () => resolve(json({ message: 'Conflict' }, 409))))
+        : respond(url, init)
+    );
+
+    const { result } = renderHook(() => ({
+      query: useSchemaData<Todo[]>(persisted, undefined),
+      rename: useSchemaMutation<Todo, Todo>(renameTodo, {
+        optimistic: [
+          {
+            dataSource: 'todos',
+            update: (data: Todo[], todo) => data.map((item) => (item.id === todo.id ? todo : item)),
+          },
+        ],
+      }),
+      add: useSchemaMutation<Todo, Omit<Todo, 'id'>>(
+        { ...addTodo, emits: [] },
+        {
+          optimistic: [
+            { dataSource: 'todos', update: (data: Todo[], todo) => [...data, { id: 2, ...todo }] },
+          ],
+        }
+      ),
+    }));
+    await waitFor(() => expect(result.current.query.data).toHaveLength(1));
+    const key = [...useDataStore.getState().cache.keys()].find((cacheKey) =>
+      cacheKey.includes('"todos"')
+    ) as string;
+    const { timestamp } = useDataStore.getState().cache.get(key) ?? {};
+
+    let renamed!: Promise<unknown>;
+    act(() => {
+      renamed = result.current.rename.mutate({ id: 1, title: 'Write better docs' });
+    });
+    await act(() => result.current.add.mutate({ title: 'Ship it' }));
+    expect(result.current.query.data?.map((todo) => todo.title)).toEqual([
+      'Write better docs',
+      'Ship it',
+    ]);
+    // Unconfirmed data stays in memory, as fresh as the fetched data was
+    expect(useDataStore.getState().cache.get(key)?.timestamp).toBe(timestamp);
+    expect((await persistence.load()).map((entry) => entry.data)).toEqual([
+      [{ id: 1, title: 'Write docs' }],
+    ]);
+
+    await act(async () => {
+      conflict();
+      await renamed;
+    });
+    const expected = [
+      { id: 1, title: 'Write docs' },
+      { id: 2, title: 'Ship it' },
+    ];
+    expect(result.current.query.data).toEqual(expected);
+    expect(useDataStore.getState().cache.get(key)?.data).toEqual(expected);
+    expect((await persistence.load()).map((entry) => entry.data)).toEqual([expected]);
+  });
+
+  it('resolves with null when the response has no body', async () => {
+    const { result } = renderHook(() => useSchemaMutation(deleteTodo));
+
+    let deleted: unknown = 'pending';
+    await act(async () => {
+      deleted = await result.current.mutate({ id: 1 });
+    });
+
+    expect(deleted).toBeNull();
+    expect(result.current.error).toBeNull();
+  });
+});
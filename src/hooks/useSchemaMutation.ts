@@ -0,0 +1,178 @@
+import { useCallback, useRef, useState } from 'react';
+import { DataSourceSchema } from '../schemas/types';
+import { MutationRequest } from '../schemas/actions';
+import { useDataStore } from '../stores/dataStore';
+import {
+  OptimisticChange,
+  OptimisticLayers,
+  applyOptimisticChange,
+  isSourceCacheKey,
+  optimisticEvent,
+  sendMutation,
+} from './useSchemaData';
+
+export interface OptimisticUpdate<V = unknown> {
+  // ID of the source whose data changes
+  dataSource: string;
+  // Data as the source would show it once the mutation succeeds
+  update(data: unknown, variables: V): unknown;
+}
+
+export interface UseSchemaMutationOptions<TData = unknown, V = unknown> {
+  method?: MutationRequest['method'];
+  // Applied right away, to shown and cached data, and undone on failure;
+  // cached data is only persisted once no update of it is pending
+  optimistic?: OptimisticUpdate<V>[];
+  // Emitted after success, with the source's own `emits`
+  events?: string[];
+  onSuccess?: (data: TData, variables: V) => void;
+  onError?: (error: Error, variables: V) => void;
+}
+
+export interface UseSchemaMutationResult<TData = unknown, V = unknown> {
+  // Resolves to the response, or undefined when the mutation failed
+  mutate: (variables?: V) => Promise<TData | undefined>;
+  data: TData | null;
+  loading: boolean;
+  error: Error | null;
+  reset: () => void;
+}
+
+// Mutations are numbered so sources can tell their optimistic updates apart
+let lastMutation = 0;
+
+interface PendingUpdate {
+  commit: () => void;
+  rollback: () => void;
+}
+
+// Cached entries with optimistic updates pending, by cache key
+const cachedLayers = new Map<string, OptimisticLayers>();
+
+/**
+ * Apply a mutation's optimistic change to a source's cached entries. Updates
+ * change the entries in memory only and keep how fresh they are; an entry is
+ * persisted again once none of its updates is pending.
+ */
+function changeCachedEntries(dataSourceId: string, change: OptimisticChange): void {
+  const store = useDataStore.getState();
+  cachedLayers.forEach((_layers, key) => {
+    // Entries dropped meanwhile have nothing left to settle
+    if (isSourceCacheKey(key, dataSourceId) && !store.cache.has(key)) {
+      cachedLayers.delete(key);
+    }
+  });
+
+  store.cache.forEach((cached, key) => {
+    if (!isSourceCacheKey(key, dataSourceId)) {
+      return;
+    }
+    const layers = cachedLayers.get(key) ?? { base: cached.data, pending: new Map() };
+    const settled = change.type !== 'apply' && layers.pending.has(change.mutation);
+    const next = applyOptimisticChange(layers, change, cached.data);
+    if (layers.pending.size > 0) {
+      cachedLayers.set(key, layers);
+      if (next) {
+        store.replaceCachedData(key, next.data);
+      }
+    } else {
+      cachedLayers.delete(key);
+      if (settled) {
+        store.replaceCachedData(key, next ? next.data : cached.data, { persist: true });
+      }
+    }
+  });
+}
+
+/**
+ * Update a source's cached entries and every `useSchemaData` showing it
+ */
+function applyOptimisticUpdate(
+  dataSourceId: string,
+  mutation: number,
+  update: (data: unknown) => unknown
+): PendingUpdate {
+  const change = (optimisticChange: OptimisticChange): void => {
+    changeCachedEntries(dataSourceId, optimisticChange);
+    useDataStore.getState().emit(optimisticEvent(dataSourceId), optimisticChange);
+  };
+
+  change({ type: 'apply', mutation, update });
+  return {
+    commit: () => change({ type: 'commit', mutation }),
+    rollback: () => change({ type: 'rollback', mutation }),
+  };
+}
+
+/**
+ * Send data to a write source (POST, PUT, PATCH or DELETE; GraphQL sources
+ * run their query as a mutation). Optimistic updates show the expected
+ * result at once and are rolled back if the request fails. On success the
+ * source's `emits` and the `events` option are emitted, so every source
+ * listing them in `refresh.events` refetches, or drops its cached data when
+ * it is not shown.
+ */
+export function useSchemaMutation<TData = unknown, V = unknown>(
+  dataSource: DataSourceSchema | undefined,
+  options: UseSchemaMutationOptions<TData, V> = {}
+): UseSchemaMutationResult<TData, V> {
+  const [state, setState] = useState<{
+    data: TData | null;
+    loading: boolean;
+    error: Error | null;
+  }>({ data: null, loading: false, error: null });
+
+  // Callers usually pass a new options object on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const mutate = useCallback(
+    async (variables?: V): Promise<TData | undefined> => {
+      if (!dataSource) {
+        return undefined;
+      }
+
+      const { method, optimistic = [], events = [], onSuccess, onError } = optionsRef.current;
+      const mutation = ++lastMutation;
+      setState((prev) => ({ ...prev, loading: true, error: null }));
+
+      const pending = optimistic.map((optimisticUpdate) =>
+        applyOptimisticUpdate(optimisticUpdate.dataSource, mutation, (data) =>
+          optimisticUpdate.update(data, variables as V)
+        )
+      );
+
+      try {
+        const data = (await sendMutation(dataSource, { method, body: variables })) as TData;
+
+        pending.forEach((update) => update.commit());
+        setState({ data, loading: false, error: null });
+        const store = useDataStore.getState();
+        [...(dataSource.emits ?? []), ...events].forEach((event) => store.emit(event));
+        onSuccess?.(data, variables as V);
+        return data;
+      } catch (error) {
+        // Updates of other mutations still pending stay applied
+        pending.forEach((update) => update.rollback());
+
+        const errorObj = error instanceof Error ? error : new Error(String(error));
+        setState((prev) => ({ ...prev, loading: false, error: errorObj }));
+        onError?.(errorObj, variables as V);
+        return undefined;
+      }
+    },
+    [dataSource]
+  );
+
+  const reset = useCallback(() => {
+    setState({ data: null, loading: false, error: null });
+  }, []);
+
+  return {
+    mutate,
+    data: state.data,
+    loading: state.loading,
+    error: state.error,
+    reset,
+  };
+}
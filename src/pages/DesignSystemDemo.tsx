@@ -9,9 +9,13 @@ import {
   Stack,
   Alert,
   Drawer,
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
-import { Add } from '@mui/icons-material';
-import { SchemaComponent, DesignPanel, useDesignStore } from '../components/design';
+import { Add, Undo, Redo } from '@mui/icons-material';
+import { SchemaComponent, DesignPanel, CodePanel, useDesignStore } from '../components/design';
+import { selectRedoLabel, selectUndoLabel } from '../stores/designStore';
 import { registerComponent, componentRegistry } from '../schemas/registry';
 
 // Simple test component
@@ -34,6 +38,9 @@ registerComponent('TestComponent', TestComponent);
 export const DesignSystemDemo: React.FC = () => {
   const { instances, selectedId, registerSchema, createInstance, selectInstance } =
     useDesignStore();
+  const { canUndo, canRedo, undo, redo, mode, setMode, schemas } = useDesignStore();
+  const undoLabel = useDesignStore(selectUndoLabel);
+  const redoLabel = useDesignStore(selectRedoLabel);
 
   // Register schemas on mount
   useEffect(() => {
@@ -75,9 +82,19 @@ export const DesignSystemDemo: React.FC = () => {
   return (
     <Container maxWidth="xl">
       <Box py={4}>
-        <Typography variant="h4" gutterBottom>
-          Schema-First Design System
-        </Typography>
+        <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+          <Typography variant="h4">Schema-First Design System</Typography>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={mode}
+            onChange={(_, value: typeof mode | null) => value && setMode(value)}
+          >
+            <ToggleButton value="design">Design</ToggleButton>
+            <ToggleButton value="preview">Preview</ToggleButton>
+            <ToggleButton value="code">Code</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
 
         <Alert severity="info" sx={{ mb: 3 }}>
           This demo shows the new unified design system. All components are schema-based, with a
@@ -101,6 +118,22 @@ export const DesignSystemDemo: React.FC = () => {
                 >
                   Add Test Component
                 </Button>
+                <Stack direction="row" spacing={1}>
+                  <Tooltip title={undoLabel ? `Undo ${undoLabel}` : 'Nothing to undo'}>
+                    <span>
+                      <Button size="small" startIcon={<Undo />} onClick={undo} disabled={!canUndo}>
+                        Undo
+                      </Button>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title={redoLabel ? `Redo ${redoLabel}` : 'Nothing to redo'}>
+                    <span>
+                      <Button size="small" startIcon={<Redo />} onClick={redo} disabled={!canRedo}>
+                        Redo
+                      </Button>
+                    </span>
+                  </Tooltip>
+                </Stack>
               </Stack>
             </Paper>
           </Grid>
@@ -115,7 +148,9 @@ export const DesignSystemDemo: React.FC = () => {
                 position: 'relative',
               }}
             >
-              {Array.from(instances.values()).length === 0 ? (
+              {mode === 'code' ? (
+                <CodePanel instances={instances} schemas={schemas} />
+              ) : Array.from(instances.values()).length === 0 ? (
                 <Box display="flex" alignItems="center" justifyContent="center" height="100%">
                   <Typography color="text.secondary">Click a button to add components</Typography>
                 </Box>
@@ -123,7 +158,7 @@ export const DesignSystemDemo: React.FC = () => {
                 <Stack spacing={3}>
                   {Array.from(instances.values()).map((instance) => (
                     <Box key={instance.id}>
-                      <SchemaComponent instanceId={instance.id} />
+                      <SchemaComponent instanceId={instance.id} isEditing={mode === 'design'} />
                     </Box>
                   ))}
                 </Stack>
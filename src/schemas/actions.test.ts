@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ActionHandlers, isActionSchema, runAction, validateAction } from './actions';
+import { ActionSchema } from './types';
+
+function createHandlers(confirm = true): ActionHandlers & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    navigate: vi.fn((to: string) => {
+      calls.push(`navigate ${to}`);
+    }),
+    openDialog: vi.fn((dialog) => {
+      calls.push(`dialog ${dialog.title}`);
+      return Promise.resolve(confirm);
+    }),
+    setState: vi.fn((key: string, value: unknown) => {
+      calls.push(`state ${key}=${JSON.stringify(value)}`);
+    }),
+    refetch: vi.fn((dataSource: string) => {
+      calls.push(`refetch ${dataSource}`);
+    }),
+    mutate: vi.fn((dataSource: string, request) => {
+      calls.push(`mutate ${dataSource} ${JSON.stringify(request)}`);
+      return Promise.resolve(null);
+    }),
+    notify: vi.fn((message: string, severity) => {
+      calls.push(`${severity} ${message}`);
+    }),
+  };
+}
+
+const deleteOrder: ActionSchema = {
+  type: 'openDialog',
+  title: 'Delete order {{ event.id }}?',
+  onConfirm: {
+    type: 'chain',
+    actions: [
+      {
+        type: 'mutate',
+        dataSource: 'deleteOrder',
+        method: 'DELETE',
+        body: { id: '{{ event.id }}', by: '{{ state.user }}' },
+        refetch: ['orders'],
+      },
+      { type: 'setState', key: 'selected', value: '{{ null }}' },
+      { type: 'showSnackbar', message: 'Deleted {{ event.id }}', severity: 'success' },
+      { type: 'navigate', to: '/orders' },
+    ],
+  },
+  onCancel: { type: 'showSnackbar', message: 'Kept {{ event.id }}' },
+};
+
+describe('runAction', () => {
+  it('should run a confirmed chain in order with event bindings', async () => {
+    const handlers = createHandlers(true);
+
+    await runAction(deleteOrder, handlers, { event: { id: 7 }, state: { user: 'ada' } });
+
+    expect(handlers.calls).toEqual([
+      'dialog Delete order 7?',
+      'mutate deleteOrder {"method":"DELETE","body":{"id":7,"by":"ada"}}',
+      'refetch orders',
+      'state selected=null',
+      'success Deleted 7',
+      'navigate /orders',
+    ]);
+  });
+
+  it('should run the cancel branch', async () => {
+    const handlers = createHandlers(false);
+
+    await runAction(deleteOrder, handlers, { event: { id: 7 } });
+
+    expect(handlers.calls).toEqual(['dialog Delete order 7?', 'info Kept 7']);
+  });
+
+  it('should stop a chain at the first failure', async () => {
+    const handlers = createHandlers();
+    handlers.mutate = vi.fn(() => Promise.reject(new Error('HTTP error! status: 500')));
+
+    await expect(
+      runAction(
+        {
+          type: 'chain',
+          actions: [
+            { type: 'mutate', dataSource: 'save' },
+            { type: 'showSnackbar', message: 'Saved' },
+          ],
+        },
+        handlers
+      )
+    ).rejects.toThrow('status: 500');
+    expect(handlers.notify).not.toHaveBeenCalled();
+
+    await expect(
+      runAction({ type: 'navigate', to: '/orders/{{ event.id }}' }, handlers)
+    ).rejects.toThrow('Cannot read "id" of undefined');
+  });
+});
+
+describe('validateAction', () => {
+  it('should accept a well-formed action', () => {
+    expect(isActionSchema(deleteOrder)).toBe(true);
+    expect(validateAction(deleteOrder, 'onDelete', ['deleteOrder', 'orders'])).toEqual([]);
+  });
+
+  it('should report missing fields, bad bindings and unknown sources', () => {
+    expect(
+      validateAction(
+        {
+          type: 'chain',
+          actions: [
+            { type: 'navigate', to: '' },
+            { type: 'refetch', dataSource: 'ordrs' },
+            { type: 'showSnackbar', message: 'Hi {{ user. }}' },
+            { type: 'teleport' },
+          ],
+        },
+        'onClick',
+        ['orders']
+      )
+    ).toEqual([
+      { path: 'onClick.actions[0].to', message: '"to" is required' },
+      { path: 'onClick.actions[1].dataSource', message: 'Unknown data source "ordrs"' },
+      {
+        path: 'onClick.actions[2].message',
+        message: 'Expected a property name but found end of expression',
+      },
+      {
+        path: 'onClick.actions[3].type',
+        message:
+          'Unknown action; expected one of: navigate, openDialog, setState, refetch, mutate, showSnackbar, chain',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Actions for `function` props
+ *
+ * A function prop holds an {@link ActionSchema}: plain JSON describing what
+ * happens when the component calls it. `runAction` interprets it against a
+ * set of {@link ActionHandlers} supplied by the runtime (router, dialogs,
+ * app state, data sources), so the same schema works in the designer, in
+ * previews and in generated apps.
+ */
+
+import {
+  ExpressionError,
+  ExpressionScope,
+  checkTemplate,
+  evaluateTemplate,
+  isBinding,
+  resolveBindings,
+  toText,
+} from './expressions';
+import { ActionSchema, ActionType, ValidationResult } from './types';
+
+type ValidationIssue = NonNullable<ValidationResult['errors']>[number];
+
+export type SnackbarSeverity = NonNullable<
+  Extract<ActionSchema, { type: 'showSnackbar' }>['severity']
+>;
+
+export interface DialogRequest {
+  title: string;
+  message?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+}
+
+export interface MutationRequest {
+  method?: Extract<ActionSchema, { type: 'mutate' }>['method'];
+  body?: unknown;
+}
+
+/**
+ * Effects an action can have; the runtime decides how each is carried out
+ */
+export interface ActionHandlers {
+  navigate: (to: string, options: { replace?: boolean }) => void;
+  // Resolves true when the dialog was confirmed
+  openDialog: (dialog: DialogRequest) => Promise<boolean>;
+  setState: (key: string, value: unknown) => void;
+  refetch: (dataSource: string) => void | Promise<void>;
+  mutate: (dataSource: string, request: MutationRequest) => Promise<unknown>;
+  notify: (message: string, severity: SnackbarSeverity) => void;
+}
+
+export const actionTypes: ActionType[] = [
+  'navigate',
+  'openDialog',
+  'setState',
+  'refetch',
+  'mutate',
+  'showSnackbar',
+  'chain',
+];
+
+/**
+ * A blank action of the given type
+ */
+export function createAction(type: ActionType): ActionSchema {
+  switch (type) {
+    case 'navigate':
+      return { type, to: '/' };
+    case 'openDialog':
+      return { type, title: 'Are you sure?' };
+    case 'setState':
+      return { type, key: '', value: '' };
+    case 'refetch':
+    case 'mutate':
+      return { type, dataSource: '' };
+    case 'showSnackbar':
+      return { type, message: '' };
+    case 'chain':
+      return { type, actions: [] };
+  }
+}
+
+/**
+ * True for values that look like an action, as stored in a function prop
+ */
+export function isActionSchema(value: unknown): value is ActionSchema {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    actionTypes.includes((value as { type?: unknown }).type as ActionType)
+  );
+}
+
+function text(value: string, scope: ExpressionScope): string {
+  return isBinding(value) ? toText(evaluateTemplate(value, scope)) : value;
+}
+
+function optionalText(value: string | undefined, scope: ExpressionScope): string | undefined {
+  return value === undefined ? undefined : text(value, scope);
+}
+
+// Evaluate bindings anywhere inside a value, failing on the first error
+function resolveValue(value: unknown, scope: ExpressionScope): unknown {
+  const { props, issues } = resolveBindings({ value }, scope);
+  if (issues.length > 0) {
+    throw new ExpressionError(`${issues[0].message} in "${issues[0].template}"`);
+  }
+  return props.value;
+}
+
+/**
+ * Run an action. Chained actions run in order and stop at the first
+ * failure, which rejects the returned promise.
+ */
+export async function runAction(
+  action: ActionSchema,
+  handlers: ActionHandlers,
+  scope: ExpressionScope = {}
+): Promise<void> {
+  switch (action.type) {
+    case 'navigate':
+      handlers.navigate(text(action.to, scope), { replace: action.replace });
+      return;
+
+    case 'openDialog': {
+      const confirmed = await handlers.openDialog({
+        title: text(action.title, scope),
+        message: optionalText(action.message, scope),
+        confirmLabel: optionalText(action.confirmLabel, scope),
+        cancelLabel: optionalText(action.cancelLabel, scope),
+      });
+      const next = confirmed ? action.onConfirm : action.onCancel;
+      if (next) {
+        await runAction(next, handlers, scope);
+      }
+      return;
+    }
+
+    case 'setState':
+      handlers.setState(action.key, resolveValue(action.value, scope));
+      return;
+
+    case 'refetch':
+      await handlers.refetch(action.dataSource);
+      return;
+
+    case 'mutate':
+      await handlers.mutate(action.dataSource, {
+        method: action.method,
+        body: resolveValue(action.body, scope),
+      });
+      for (const dataSource of action.refetch ?? []) {
+        await handlers.refetch(dataSource);
+      }
+      return;
+
+    case 'showSnackbar':
+      handlers.notify(text(action.message, scope), action.severity ?? 'info');
+      return;
+
+    case 'chain':
+      for (const step of action.actions) {
+        await runAction(step, handlers, scope);
+      }
+      return;
+  }
+}
+
+function requireText(
+  action: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: ValidationIssue[]
+): void {
+  const value = action[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push({ path: `${path}.${key}`, message: `"${key}" is required` });
+    return;
+  }
+  checkText(value, `${path}.${key}`, errors);
+}
+
+function checkText(value: unknown, path: string, errors: ValidationIssue[]): void {
+  const syntaxError = typeof value === 'string' && isBinding(value) ? checkTemplate(value) : null;
+  if (syntaxError) {
+    errors.push({ path, message: syntaxError.message });
+  }
+}
+
+function checkSource(
+  dataSource: unknown,
+  path: string,
+  dataSourceIds: string[] | undefined,
+  errors: ValidationIssue[]
+): void {
+  if (
+    typeof dataSource === 'string' &&
+    dataSource !== '' &&
+    dataSourceIds &&
+    !dataSourceIds.includes(dataSource)
+  ) {
+    errors.push({ path, message: `Unknown data source "${dataSource}"` });
+  }
+}
+
+/**
+ * Check an action's structure and the syntax of its bindings. With
+ * `dataSourceIds`, references to other sources must be in the list.
+ */
+export function validateAction(
+  action: unknown,
+  path = 'action',
+  dataSourceIds?: string[]
+): ValidationIssue[] {
+  const errors: ValidationIssue[] = [];
+
+  if (!isActionSchema(action)) {
+    errors.push({
+      path: `${path}.type`,
+      message: `Unknown action; expected one of: ${actionTypes.join(', ')}`,
+    });
+    return errors;
+  }
+
+  const fields = action as unknown as Record<string, unknown>;
+  switch (action.type) {
+    case 'navigate':
+      requireText(fields, 'to', path, errors);
+      break;
+    case 'openDialog':
+      requireText(fields, 'title', path, errors);
+      checkText(action.message, `${path}.message`, errors);
+      for (const key of ['onConfirm', 'onCancel'] as const) {
+        if (action[key] !== undefined) {
+          errors.push(...validateAction(action[key], `${path}.${key}`, dataSourceIds));
+        }
+      }
+      break;
+    case 'setState':
+      requireText(fields, 'key', path, errors);
+      break;
+    case 'refetch':
+      requireText(fields, 'dataSource', path, errors);
+      checkSource(action.dataSource, `${path}.dataSource`, dataSourceIds, errors);
+      break;
+    case 'mutate':
+      requireText(fields, 'dataSource', path, errors);
+      checkSource(action.dataSource, `${path}.dataSource`, dataSourceIds, errors);
+      (action.refetch ?? []).forEach((id, index) =>
+        checkSource(id, `${path}.refetch[${index}]`, dataSourceIds, errors)
+      );
+      break;
+    case 'showSnackbar':
+      requireText(fields, 'message', path, errors);
+      break;
+    case 'chain':
+      if (!Array.isArray(action.actions)) {
+        errors.push({ path: `${path}.actions`, message: 'Expected an array' });
+        break;
+      }
+      action.actions.forEach((step, index) =>
+        errors.push(...validateAction(step, `${path}.actions[${index}]`, dataSourceIds))
+      );
+      break;
+  }
+
+  return errors;
+}
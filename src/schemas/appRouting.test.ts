@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildNavigation, getPageAccess, toRoutePath } from './appRouting';
+import { PageSchema } from './types';
+import { AuthUser } from '../services/auth';
+
+const page = (id: string, route: string, meta?: PageSchema['meta']): PageSchema => ({
+  id,
+  name: id,
+  route,
+  layout: { type: 'flex' },
+  dataSources: [],
+  components: [],
+  meta,
+});
+
+const viewer: AuthUser = { id: 'u1', name: 'Viewer', roles: ['viewer'] };
+
+describe('appRouting', () => {
+  it('should classify page access by auth and roles', () => {
+    const reports = page('reports', '/reports', { requiresAuth: true });
+    const admin = page('admin', '/admin', { roles: ['admin'] });
+
+    expect(getPageAccess(page('home', '/'), null)).toBe('allowed');
+    expect(getPageAccess(reports, null)).toBe('unauthenticated');
+    expect(getPageAccess(reports, viewer)).toBe('allowed');
+    expect(getPageAccess(admin, null)).toBe('unauthenticated');
+    expect(getPageAccess(admin, viewer)).toBe('forbidden');
+    expect(getPageAccess(admin, { ...viewer, roles: ['admin'] })).toBe('allowed');
+    expect(getPageAccess(admin, null, false)).toBe('allowed');
+  });
+
+  it('should normalize routes into child paths', () => {
+    expect(toRoutePath('/')).toBe('');
+    expect(toRoutePath('/users/:id/')).toBe('users/:id');
+  });
+
+  it('should generate navigation for reachable static pages', () => {
+    const pages = [
+      { ...page('home', '/'), title: 'Welcome' },
+      page('detail', '/users/:id'),
+      page('secret', '/secret', { tags: ['hidden'] }),
+      page('reports', '/reports', { requiresAuth: true }),
+      page('admin', '/admin', { roles: ['admin'] }),
+    ];
+    const features = { authentication: true };
+
+    expect(buildNavigation({ pages, features }, null)).toEqual([
+      { pageId: 'home', label: 'Welcome', path: '/' },
+    ]);
+    expect(buildNavigation({ pages, features }, viewer).map((entry) => entry.pageId)).toEqual([
+      'home',
+      'reports',
+    ]);
+    expect(buildNavigation({ pages }, null).map((entry) => entry.pageId)).toEqual([
+      'home',
+      'reports',
+      'admin',
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Routing and access rules for application schemas
+ *
+ * Pure helpers shared by `ApplicationRenderer`: page access checks against
+ * `PageSchema.meta` and navigation generated from the page list.
+ */
+
+import { ApplicationSchema, PageSchema } from './types';
+import { AuthUser } from '../services/auth';
+
+export type PageAccess = 'allowed' | 'unauthenticated' | 'forbidden';
+
+export interface NavigationEntry {
+  pageId: string;
+  label: string;
+  path: string;
+}
+
+// Pages tagged with this are routable but left out of generated navigation
+export const HIDDEN_NAV_TAG = 'hidden';
+
+/**
+ * Check whether a user may view a page. When authentication is disabled for
+ * the application every page is allowed.
+ */
+export function getPageAccess(
+  page: PageSchema,
+  user: AuthUser | null,
+  authEnabled = true
+): PageAccess {
+  if (!authEnabled) {
+    return 'allowed';
+  }
+
+  const roles = page.meta?.roles ?? [];
+  const requiresAuth = page.meta?.requiresAuth === true || roles.length > 0;
+
+  if (!requiresAuth) {
+    return 'allowed';
+  }
+  if (!user) {
+    return 'unauthenticated';
+  }
+  if (roles.length > 0 && !roles.some((role) => user.roles.includes(role))) {
+    return 'forbidden';
+  }
+  return 'allowed';
+}
+
+/**
+ * Convert a page route into a react-router child path
+ */
+export function toRoutePath(route: string): string {
+  return route.replace(/^\/+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Routes with params or wildcards cannot be linked to directly
+ */
+export function isStaticRoute(route: string): boolean {
+  return !/[:*]/.test(route);
+}
+
+/**
+ * Navigation entries for the pages the user can open
+ */
+export function buildNavigation(
+  app: Pick<ApplicationSchema, 'pages' | 'features'>,
+  user: AuthUser | null
+): NavigationEntry[] {
+  const authEnabled = app.features?.authentication === true;
+
+  return app.pages
+    .filter(
+      (page) =>
+        isStaticRoute(page.route) &&
+        !page.meta?.tags?.includes(HIDDEN_NAV_TAG) &&
+        getPageAccess(page, user, authEnabled) === 'allowed'
+    )
+    .map((page) => ({
+      pageId: page.id,
+      label: page.title ?? page.name,
+      path: `/${toRoutePath(page.route)}`,
+    }));
+}
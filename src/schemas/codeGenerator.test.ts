@@ -0,0 +1,253 @@
+import * as ts from 'typescript';
+import { describe, it, expect } from 'vitest';
+import {
+  CodegenInstance,
+  GeneratedFile,
+  formatValue,
+  generateCode,
+  getComponentTag,
+  parseImport,
+  toComponentName,
+} from './codeGenerator';
+import { ComponentSchema } from './types';
+
+const schemas = new Map<string, ComponentSchema>([
+  [
+    'Stack',
+    {
+      id: 'Stack',
+      name: 'Stack',
+      type: 'layout',
+      imports: ["import { Stack } from '@mui/material';"],
+      props: [
+        { name: 'direction', type: 'enum', default: 'column' },
+        { name: 'spacing', type: 'number', default: 2 },
+      ],
+    },
+  ],
+  [
+    'MuiButton',
+    {
+      id: 'MuiButton',
+      name: 'Button',
+      type: 'display',
+      imports: ["import { MuiButtonComponent } from '../components/design/MuiComponents';"],
+      dependencies: ['@mui/material'],
+      props: [
+        { name: 'label', type: 'string', default: 'Button' },
+        { name: 'disabled', type: 'boolean', default: false },
+        { name: 'onClick', type: 'function' },
+      ],
+    },
+  ],
+  [
+    'Divider',
+    {
+      id: 'Divider',
+      name: 'Divider',
+      type: 'layout',
+      imports: ["import { Divider } from '@mui/material';"],
+      props: [],
+    },
+  ],
+]);
+
+const instances: CodegenInstance[] = [
+  { id: 'root', schemaId: 'Stack', props: { direction: 'row', spacing: 2 }, children: ['a', 'b'] },
+  {
+    id: 'a',
+    schemaId: 'MuiButton',
+    parentId: 'root',
+    props: { label: 'Save "draft"', disabled: true, onClick: 'noop' },
+  },
+  { id: 'b', schemaId: 'Divider', parentId: 'root', props: {} },
+];
+
+// Type-check generated files as if they were saved under src/pages
+function typeErrors(files: GeneratedFile[]): string[] {
+  const dir = ts.sys.resolvePath('src/pages');
+  const sources = new Map(files.map((file) => [`${dir}/${file.fileName}`, file.code]));
+  const options: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    strict: true,
+    skipLibCheck: true,
+    noEmit: true,
+  };
+  const base = ts.createCompilerHost(options);
+  const host: ts.CompilerHost = {
+    ...base,
+    fileExists: (fileName) => sources.has(fileName) || base.fileExists(fileName),
+    readFile: (fileName) => sources.get(fileName) ?? base.readFile(fileName),
+    getSourceFile: (fileName, languageVersion, ...rest) => {
+      const code = sources.get(fileName);
+      return code === undefined
+        ? base.getSourceFile(fileName, languageVersion, ...rest)
+        : ts.createSourceFile(fileName, code, languageVersion, true);
+    },
+  };
+
+  const program = ts.createProgram([...sources.keys()], options, host);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+describe('codeGenerator', () => {
+  it('should parse named, aliased and default imports', () => {
+    expect(parseImport("import { Box, Stack } from '@mui/material';")).toEqual({
+      source: '@mui/material',
+      defaultBinding: undefined,
+      named: ['Box', 'Stack'],
+    });
+    expect(parseImport("import Card, { CardProps } from './Card'")?.defaultBinding).toBe('Card');
+    expect(parseImport('const x = 1;')).toBeNull();
+  });
+
+  it('should derive the JSX tag from the first import binding', () => {
+    expect(
+      getComponentTag({
+        id: 'DataDisplayCard',
+        name: 'Data Display Card',
+        type: 'display',
+        props: [],
+        imports: ["import { PureDataDisplayCard as DataDisplayCard } from './Card';"],
+      })
+    ).toBe('DataDisplayCard');
+    expect(getComponentTag({ id: 'my-widget', name: 'Widget', type: 'display', props: [] })).toBe(
+      'MyWidget'
+    );
+  });
+
+  it('should convert names to PascalCase identifiers', () => {
+    expect(toComponentName('analytics dashboard')).toBe('AnalyticsDashboard');
+    expect(toComponentName('2024 report')).toBe('Generated2024Report');
+  });
+
+  it('should format nested values as TypeScript literals', () => {
+    expect(formatValue({ a: 1, 'b-c': ['x', true], d: undefined })).toBe(
+      "{ a: 1, 'b-c': ['x', true] }"
+    );
+    expect(formatValue("it's")).toBe("'it\\'s'");
+  });
+
+  it('should generate a page component with merged imports', () => {
+    const { files, warnings, dependencies } = generateCode(instances, schemas);
+
+    expect(files).toHaveLength(1);
+    expect(files[0].code).toBe(
+      [
+        "import React from 'react';",
+        "import { Divider, Stack } from '@mui/material';",
+        "import { MuiButtonComponent } from '../components/design/MuiComponents';",
+        '',
+        'export const GeneratedPage: React.FC = () => {',
+        '  return (',
+        '    <Stack direction="row">',
+        '      <MuiButtonComponent label={\'Save "draft"\'} disabled />',
+        '      <Divider />',
+        '    </Stack>',
+        '  );',
+        '};',
+        '',
+        'export default GeneratedPage;',
+        '',
+      ].join('\n')
+    );
+    expect(dependencies).toEqual(['@mui/material', 'react']);
+    expect(warnings).toEqual([
+      'Prop "onClick" on instance "a" is a function and was not generated',
+    ]);
+  });
+
+  it('should wrap multiple roots in a fragment', () => {
+    const { files } = generateCode(
+      [
+        { id: 'x', schemaId: 'Divider', props: {} },
+        { id: 'y', schemaId: 'Divider', props: {} },
+      ],
+      schemas
+    );
+
+    expect(files[0].code).toContain('    <>\n      <Divider />\n      <Divider />\n    </>');
+  });
+
+  it('should not name a page after a component it imports', () => {
+    const { files } = generateCode([{ id: 'x', schemaId: 'Divider', props: {} }], schemas, {
+      componentName: 'divider',
+    });
+
+    expect(files[0].fileName).toBe('DividerExample.tsx');
+    expect(files[0].code).toContain('export default DividerExample;');
+    expect(typeErrors(files)).toEqual([]);
+  }, 30000);
+
+  it('should generate one file per root with unique names', () => {
+    const { files } = generateCode(
+      [
+        { id: 'x', schemaId: 'Divider', props: {} },
+        { id: 'y', schemaId: 'Divider', props: {} },
+        { id: 'z', schemaId: 'Stack', props: {}, metadata: { name: 'toolbar' } },
+      ],
+      schemas,
+      { mode: 'roots' }
+    );
+
+    expect(files.map((file) => file.fileName)).toEqual([
+      'DividerExample.tsx',
+      'DividerExample2.tsx',
+      'Toolbar.tsx',
+    ]);
+  });
+
+  it('should generate roots that type-check next to the components they import', () => {
+    const { files } = generateCode(
+      [
+        { id: 'x', schemaId: 'Divider', props: {} },
+        { id: 'y', schemaId: 'Stack', props: { direction: 'row' }, children: ['z'] },
+        { id: 'z', schemaId: 'Divider', parentId: 'y', props: {} },
+      ],
+      schemas,
+      { mode: 'roots' }
+    );
+
+    expect(files[0].code).toContain('export const DividerExample: React.FC = () => {');
+    expect(typeErrors(files)).toEqual([]);
+  }, 30000);
+
+  it('should leave out bound props with a warning', () => {
+    const { files, warnings } = generateCode(
+      [
+        {
+          id: 'a',
+          schemaId: 'MuiButton',
+          props: { label: 'Hi {{ user.name }}', sx: { color: "{{ state.color ?? 'red' }}" } },
+        },
+      ],
+      schemas
+    );
+
+    expect(files[0].code).toContain('<MuiButtonComponent />');
+    expect(warnings).toEqual([
+      'Prop "label" on instance "a" is bound to "Hi {{ user.name }}" and was not generated; pass its value in code',
+      'Prop "sx" on instance "a" is bound to "{{ state.color ?? \'red\' }}" and was not generated; pass its value in code',
+    ]);
+  });
+
+  it('should warn about unknown schemas and missing imports', () => {
+    const { warnings } = generateCode(
+      [
+        { id: 'x', schemaId: 'Unknown', props: {} },
+        { id: 'y', schemaId: 'Bare', props: {} },
+      ],
+      new Map([['Bare', { id: 'Bare', name: 'Bare', type: 'display', props: [] }]])
+    );
+
+    expect(warnings).toEqual([
+      'Schema "Unknown" for instance "x" is not registered',
+      'Schema "Bare" declares no imports; add an import for <Bare> manually',
+    ]);
+  });
+});
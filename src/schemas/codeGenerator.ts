@@ -0,0 +1,512 @@
+/**
+ * TSX code generation from component instance trees
+ *
+ * Each `ComponentSchema.imports` entry is an import statement emitted
+ * verbatim (after merging); the first binding of the first import is used as
+ * the JSX tag for the component. Built-in schemas assume the generated files
+ * live in `src/generated/`. Props bound with `{{ }}` expressions read data
+ * and state that only exist at runtime, so they are left out with a warning.
+ */
+
+import { ComponentSchema } from './types';
+import { isBinding } from './expressions';
+import { deepEqual } from '../utils/deepEqual';
+
+/**
+ * Minimal instance shape needed for code generation.
+ * Compatible with both the design store and the design system context.
+ */
+export interface CodegenInstance {
+  id: string;
+  schemaId: string;
+  props: Record<string, unknown>;
+  parentId?: string;
+  children?: string[];
+  metadata?: {
+    name?: string;
+  };
+}
+
+export interface CodeGenerationOptions {
+  // 'page' emits a single component for all roots, 'roots' one component per root instance
+  mode?: 'page' | 'roots';
+  // Component name for page mode
+  componentName?: string;
+  // Restrict generation to these root instance IDs
+  rootIds?: string[];
+  // Maximum line width before JSX attributes wrap
+  printWidth?: number;
+}
+
+export interface GeneratedFile {
+  fileName: string;
+  componentName: string;
+  code: string;
+}
+
+export interface CodeGenerationResult {
+  files: GeneratedFile[];
+  dependencies: string[];
+  warnings: string[];
+}
+
+interface ParsedImport {
+  source: string;
+  defaultBinding?: string;
+  named: string[];
+}
+
+const INDENT = '  ';
+const DEFAULT_PRINT_WIDTH = 100;
+const IMPORT_PATTERN =
+  /^import\s+(?:([A-Za-z_$][\w$]*)\s*,?\s*)?(?:\{([^}]*)\})?\s*from\s*['"]([^'"]+)['"];?$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+const JSX_ATTRIBUTE_PATTERN = /^[A-Za-z_$][\w$-]*$/;
+
+/**
+ * Parse a single import statement, returning null for unsupported forms
+ */
+export function parseImport(statement: string): ParsedImport | null {
+  const match = statement.trim().match(IMPORT_PATTERN);
+  if (!match || (!match[1] && match[2] === undefined)) {
+    return null;
+  }
+
+  const named = (match[2] ?? '')
+    .split(',')
+    .map((part) => part.trim().replace(/\s+/g, ' '))
+    .filter(Boolean);
+
+  return { source: match[3], defaultBinding: match[1], named };
+}
+
+/**
+ * Resolve the JSX tag name for a schema
+ */
+export function getComponentTag(schema: ComponentSchema): string {
+  const parsed = schema.imports?.length ? parseImport(schema.imports[0]) : null;
+
+  if (parsed?.defaultBinding) {
+    return parsed.defaultBinding;
+  }
+  if (parsed?.named.length) {
+    // `Foo as Bar` binds `Bar`
+    const binding = parsed.named[0].split(' as ');
+    return binding[binding.length - 1];
+  }
+
+  return toComponentName(schema.id);
+}
+
+/**
+ * Convert an arbitrary string to a PascalCase component name
+ */
+export function toComponentName(value: string, fallback = 'Generated'): string {
+  const name = value
+    .replace(/[^A-Za-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+
+  if (!name) {
+    return fallback;
+  }
+  return /^[0-9]/.test(name) ? `${fallback}${name}` : name;
+}
+
+/**
+ * Format a value as a TypeScript expression
+ */
+export function formatValue(value: unknown, depth = 0, printWidth = DEFAULT_PRINT_WIDTH): string {
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return `new Date('${value.toISOString()}')`;
+  }
+
+  const padding = INDENT.repeat(depth + 1);
+  const closing = INDENT.repeat(depth);
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => formatValue(item, depth + 1, printWidth));
+    const inline = `[${items.join(', ')}]`;
+    if (inline.length + padding.length <= printWidth && !inline.includes('\n')) {
+      return inline;
+    }
+    return `[\n${items.map((item) => `${padding}${item},`).join('\n')}\n${closing}]`;
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined && typeof entryValue !== 'function')
+      .map(([key, entryValue]) => {
+        const formattedKey = IDENTIFIER_PATTERN.test(key) ? key : formatValue(key);
+        return `${formattedKey}: ${formatValue(entryValue, depth + 1, printWidth)}`;
+      });
+
+    if (entries.length === 0) {
+      return '{}';
+    }
+
+    const inline = `{ ${entries.join(', ')} }`;
+    if (inline.length + padding.length <= printWidth && !inline.includes('\n')) {
+      return inline;
+    }
+    return `{\n${entries.map((entry) => `${padding}${entry},`).join('\n')}\n${closing}}`;
+  }
+
+  return 'undefined';
+}
+
+/**
+ * Format a JSX attribute, using the shorthand form for `true`
+ */
+function formatAttribute(name: string, value: unknown, depth: number, printWidth: number): string {
+  if (value === true) {
+    return name;
+  }
+  if (typeof value === 'string' && !/["\\\n&{}<>]/.test(value)) {
+    return `${name}="${value}"`;
+  }
+  return `${name}={${formatValue(value, depth, printWidth)}}`;
+}
+
+/**
+ * Collect defaults declared on a schema, with `defaultProps` taking precedence
+ */
+function getSchemaDefaults(schema: ComponentSchema): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+
+  schema.props.forEach((prop) => {
+    if (prop.default !== undefined) {
+      defaults[prop.name] = prop.default;
+    }
+  });
+
+  return { ...defaults, ...schema.defaultProps };
+}
+
+/**
+ * First `{{ }}` binding in a prop value, including inside arrays and objects
+ */
+function findBinding(value: unknown): string | undefined {
+  if (isBinding(value)) {
+    return value;
+  }
+  if (typeof value === 'object' && value !== null) {
+    for (const item of Object.values(value)) {
+      const binding = findBinding(item);
+      if (binding) {
+        return binding;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Stateful generator for a single output file
+ */
+class FileGenerator {
+  private imports: ParsedImport[] = [];
+  private verbatimImports = new Set<string>();
+  private dependencies = new Set<string>();
+
+  constructor(
+    private instances: Map<string, CodegenInstance>,
+    private schemas: Map<string, ComponentSchema>,
+    private warnings: string[],
+    private printWidth: number
+  ) {}
+
+  renderInstance(id: string, depth: number, visited: Set<string>): string[] {
+    const pad = INDENT.repeat(depth);
+    const instance = this.instances.get(id);
+
+    if (!instance) {
+      this.warnings.push(`Instance "${id}" is referenced but does not exist`);
+      return [];
+    }
+    if (visited.has(id)) {
+      this.warnings.push(`Instance "${id}" is part of a cycle and was skipped`);
+      return [];
+    }
+    visited.add(id);
+
+    const schema = this.schemas.get(instance.schemaId);
+    if (!schema) {
+      this.warnings.push(`Schema "${instance.schemaId}" for instance "${id}" is not registered`);
+      return [];
+    }
+
+    const tag = this.useSchema(schema);
+    const attributes = this.getAttributes(instance, schema, depth + 1);
+    const children = (instance.children ?? []).flatMap((childId) =>
+      this.renderInstance(childId, depth + 1, visited)
+    );
+
+    const lines: string[] = [];
+    const inlineOpen = `${pad}<${[tag, ...attributes].join(' ')}`;
+    const wrap =
+      attributes.some((attribute) => attribute.includes('\n')) ||
+      inlineOpen.length + 3 > this.printWidth;
+
+    if (wrap) {
+      lines.push(`${pad}<${tag}`);
+      attributes.forEach((attribute) => {
+        lines.push(`${pad}${INDENT}${attribute}`);
+      });
+      lines.push(children.length > 0 ? `${pad}>` : `${pad}/>`);
+    } else {
+      lines.push(children.length > 0 ? `${inlineOpen}>` : `${inlineOpen} />`);
+    }
+
+    if (children.length > 0) {
+      lines.push(...children);
+      lines.push(`${pad}</${tag}>`);
+    }
+
+    return lines;
+  }
+
+  renderImports(): string {
+    // React is always needed for the `React.FC` annotation
+    const bySource = new Map<string, ParsedImport>([
+      ['react', { source: 'react', defaultBinding: 'React', named: [] }],
+    ]);
+
+    this.imports.forEach((parsed) => {
+      const existing = bySource.get(parsed.source);
+      if (!existing) {
+        bySource.set(parsed.source, { ...parsed, named: [...parsed.named] });
+        return;
+      }
+      existing.defaultBinding = existing.defaultBinding ?? parsed.defaultBinding;
+      parsed.named.forEach((binding) => {
+        if (!existing.named.includes(binding)) {
+          existing.named.push(binding);
+        }
+      });
+    });
+
+    // React first, then packages, then relative paths
+    const rank = (source: string): number =>
+      source === 'react' ? 0 : source.startsWith('.') ? 2 : 1;
+    const sources = Array.from(bySource.keys()).sort(
+      (a, b) => rank(a) - rank(b) || a.localeCompare(b)
+    );
+
+    const statements = sources.map((source) => {
+      const parsed = bySource.get(source)!;
+      const named = [...parsed.named].sort((a, b) => a.localeCompare(b));
+      const bindings = [
+        parsed.defaultBinding,
+        named.length > 0 ? `{ ${named.join(', ')} }` : undefined,
+      ].filter(Boolean);
+      return `import ${bindings.join(', ')} from '${source}';`;
+    });
+
+    return [...statements, ...this.verbatimImports].join('\n');
+  }
+
+  getDependencies(): string[] {
+    return Array.from(this.dependencies);
+  }
+
+  // Local names the imports bind, which the generated component must not reuse
+  getImportedNames(): string[] {
+    return this.imports.flatMap((parsed) => [
+      ...(parsed.defaultBinding ? [parsed.defaultBinding] : []),
+      ...parsed.named.map((binding) => binding.split(' as ').pop()!),
+    ]);
+  }
+
+  private useSchema(schema: ComponentSchema): string {
+    const tag = getComponentTag(schema);
+
+    if (!schema.imports?.length) {
+      this.warnings.push(
+        `Schema "${schema.id}" declares no imports; add an import for <${tag}> manually`
+      );
+    }
+
+    schema.imports?.forEach((statement) => {
+      const parsed = parseImport(statement);
+      if (parsed) {
+        this.imports.push(parsed);
+      } else {
+        this.verbatimImports.add(statement.trim().replace(/;?$/, ';'));
+      }
+    });
+    schema.dependencies?.forEach((dependency) => this.dependencies.add(dependency));
+
+    return tag;
+  }
+
+  private getAttributes(
+    instance: CodegenInstance,
+    schema: ComponentSchema,
+    depth: number
+  ): string[] {
+    const defaults = getSchemaDefaults(schema);
+    const propTypes = new Map(schema.props.map((prop) => [prop.name, prop.type]));
+
+    return Object.entries(instance.props)
+      .filter(([name, value]) => {
+        if (value === undefined || value === null || deepEqual(value, defaults[name])) {
+          return false;
+        }
+        if (typeof value === 'function' || propTypes.get(name) === 'function') {
+          this.warnings.push(
+            `Prop "${name}" on instance "${instance.id}" is a function and was not generated`
+          );
+          return false;
+        }
+        const binding = findBinding(value);
+        if (binding) {
+          this.warnings.push(
+            `Prop "${name}" on instance "${instance.id}" is bound to "${binding}" and was not generated; pass its value in code`
+          );
+          return false;
+        }
+        if (!JSX_ATTRIBUTE_PATTERN.test(name)) {
+          this.warnings.push(
+            `Prop "${name}" on instance "${instance.id}" is not a valid attribute`
+          );
+          return false;
+        }
+        return true;
+      })
+      .map(([name, value]) => formatAttribute(name, value, depth, this.printWidth));
+  }
+}
+
+/**
+ * Render a complete component module
+ */
+function renderModule(componentName: string, imports: string, body: string[]): string {
+  const jsx = body.length > 0 ? body : [`${INDENT.repeat(2)}<></>`];
+
+  return [
+    imports,
+    '',
+    `export const ${componentName}: React.FC = () => {`,
+    `${INDENT}return (`,
+    ...jsx,
+    `${INDENT});`,
+    '};',
+    '',
+    `export default ${componentName};`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Pick a component name that shadows none of the module's imports, e.g.
+ * `DividerExample` for a component that renders a `Divider`, and that no
+ * other generated component uses
+ */
+function uniqueComponentName(
+  baseName: string,
+  imported: Set<string>,
+  usedNames: Set<string> = new Set()
+): string {
+  const base = imported.has(baseName) ? `${baseName}Example` : baseName;
+  let name = base;
+  for (let suffix = 2; usedNames.has(name) || imported.has(name); suffix++) {
+    name = `${base}${suffix}`;
+  }
+  usedNames.add(name);
+  return name;
+}
+
+/**
+ * Generate TSX source for a tree of component instances
+ */
+export function generateCode(
+  instances: Map<string, CodegenInstance> | CodegenInstance[],
+  schemas: Map<string, ComponentSchema>,
+  options: CodeGenerationOptions = {}
+): CodeGenerationResult {
+  const {
+    mode = 'page',
+    componentName = 'GeneratedPage',
+    printWidth = DEFAULT_PRINT_WIDTH,
+  } = options;
+  const instanceMap = Array.isArray(instances)
+    ? new Map(instances.map((instance) => [instance.id, instance]))
+    : instances;
+
+  const warnings: string[] = [];
+  const dependencies = new Set<string>(['react', '@mui/material']);
+  const rootIds =
+    options.rootIds ??
+    Array.from(instanceMap.values())
+      .filter((instance) => !instance.parentId || !instanceMap.has(instance.parentId))
+      .map((instance) => instance.id);
+
+  const files: GeneratedFile[] = [];
+
+  if (mode === 'page') {
+    const generator = new FileGenerator(instanceMap, schemas, warnings, printWidth);
+    const visited = new Set<string>();
+    const wrapInFragment = rootIds.length > 1;
+    const depth = wrapInFragment ? 3 : 2;
+    const body = rootIds.flatMap((id) => generator.renderInstance(id, depth, visited));
+    const name = uniqueComponentName(
+      toComponentName(componentName),
+      new Set(generator.getImportedNames())
+    );
+
+    files.push({
+      fileName: `${name}.tsx`,
+      componentName: name,
+      code: renderModule(
+        name,
+        generator.renderImports(),
+        wrapInFragment ? [`${INDENT.repeat(2)}<>`, ...body, `${INDENT.repeat(2)}</>`] : body
+      ),
+    });
+    generator.getDependencies().forEach((dependency) => dependencies.add(dependency));
+  } else {
+    const usedNames = new Set<string>();
+
+    rootIds.forEach((id) => {
+      const instance = instanceMap.get(id);
+      if (!instance) {
+        warnings.push(`Root instance "${id}" does not exist`);
+        return;
+      }
+
+      const generator = new FileGenerator(instanceMap, schemas, warnings, printWidth);
+      const body = generator.renderInstance(id, 2, new Set());
+      const name = uniqueComponentName(
+        toComponentName(instance.metadata?.name ?? instance.schemaId),
+        new Set(generator.getImportedNames()),
+        usedNames
+      );
+
+      files.push({
+        fileName: `${name}.tsx`,
+        componentName: name,
+        code: renderModule(name, generator.renderImports(), body),
+      });
+      generator.getDependencies().forEach((dependency) => dependencies.add(dependency));
+    });
+  }
+
+  return {
+    files,
+    dependencies: Array.from(dependencies).sort(),
+    warnings: Array.from(new Set(warnings)),
+  };
+}
@@ -0,0 +1,78 @@
+import { bench, describe } from 'vitest';
+import { compileShape } from './compiledValidation';
+import { SchemaValidator } from './validation';
+import { DataShape } from './types';
+
+const rowShape: DataShape = {
+  type: 'array',
+  itemShape: {
+    type: 'object',
+    fields: {
+      id: { type: 'string', required: true, pattern: '^row_\\d+$' },
+      name: { type: 'string', required: true, minLength: 1, maxLength: 80 },
+      email: { type: 'string', format: 'email' },
+      amount: { type: 'number', min: 0, max: 1_000_000 },
+      status: { type: 'string', enum: ['active', 'pending', 'closed'] },
+      createdAt: { type: 'date' },
+      tags: { type: 'array', itemType: { type: 'string' } },
+    },
+    required: ['id', 'name'],
+  },
+};
+
+const statuses = ['active', 'pending', 'closed'];
+
+function createRows(count: number): unknown[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `row_${index}`,
+    name: `Customer ${index}`,
+    email: `customer${index}@example.com`,
+    amount: (index * 37) % 10_000,
+    status: statuses[index % statuses.length],
+    createdAt: new Date(Date.UTC(2024, 0, 1 + (index % 365))).toISOString(),
+    tags: index % 2 === 0 ? ['vip'] : [],
+  }));
+}
+
+// Rows where every tenth row breaks the amount range
+function createInvalidRows(count: number): unknown[] {
+  return createRows(count).map((row, index) =>
+    index % 10 === 0 ? { ...(row as Record<string, unknown>), amount: -1 } : row
+  );
+}
+
+for (const count of [10_000, 100_000]) {
+  const rows = createRows(count);
+  const invalidRows = createInvalidRows(count);
+  const compiled = compileShape(rowShape);
+
+  describe(`validate ${count.toLocaleString('en-US')} rows`, () => {
+    bench('interpreter', () => {
+      SchemaValidator.validateData(rows, rowShape);
+    });
+    bench('compiled', () => {
+      compiled.validate(rows);
+    });
+  });
+
+  describe(`parse ${count.toLocaleString('en-US')} rows`, () => {
+    bench('interpreter', () => {
+      SchemaValidator.parseData(rows, rowShape);
+    });
+    bench('compiled', () => {
+      compiled.parse(rows);
+    });
+  });
+
+  describe(`reject ${count.toLocaleString('en-US')} invalid rows`, () => {
+    bench('interpreter', () => {
+      SchemaValidator.validateData(invalidRows, rowShape);
+    });
+    bench('compiled', () => {
+      compiled.validate(invalidRows);
+    });
+    bench('compiled, maxErrors: 1', () => {
+      compiled.validate(invalidRows, { maxErrors: 1 });
+    });
+  });
+}
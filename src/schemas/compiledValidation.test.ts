@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { compileShape } from './compiledValidation';
+import { SchemaValidator } from './validation';
+import { commonDataShapes } from './registry';
+import { DataShape } from './types';
+
+const orderShape: DataShape = {
+  type: 'array',
+  itemShape: {
+    type: 'object',
+    fields: {
+      id: { type: 'string', required: true, pattern: '^ord_' },
+      email: { type: 'string', format: 'email' },
+      total: { type: 'number', min: 0, max: 1000 },
+      status: { type: 'string', enum: ['open', 'paid'] },
+      paid: { type: 'boolean' },
+      placedAt: { type: 'date' },
+      note: { type: 'string', minLength: 2, maxLength: 5 },
+      tags: { type: 'array', minItems: 1, maxItems: 2, itemType: { type: 'string' } },
+      customer: {
+        type: 'object',
+        properties: { name: { type: 'string' }, age: { type: 'number', min: 18 } },
+      },
+      discount: { type: 'number', default: 0 },
+    },
+    required: ['id', 'total'],
+  },
+};
+
+const orders: unknown[] = [
+  { id: 'ord_1', email: 'a@b.co', total: 20, status: 'open', paid: false, tags: ['x'] },
+  {
+    id: 'x2',
+    email: 'nope',
+    total: 2000,
+    status: 'lost',
+    paid: 'yes',
+    placedAt: 'not a date',
+    note: 'a',
+    tags: [],
+    customer: { name: 3, age: 12 },
+    extra: true,
+  },
+  { email: 'c@d.io', total: '15', note: 'too long', tags: ['a', 'b', 'c'] },
+  'not an object',
+  null,
+];
+
+describe('compileShape', () => {
+  it('should produce the same result as the interpreter', () => {
+    const cases: Array<[unknown, DataShape]> = [
+      [orders, orderShape],
+      [{ not: 'an array' }, orderShape],
+      [[], orderShape],
+      [{ id: 1, name: 'x', email: 'bad', role: 'owner' }, commonDataShapes.user],
+      [{ columns: [{ key: 1 }], rows: 'x' }, commonDataShapes.tableData],
+      [[{ label: 'a', value: 'NaN' }], commonDataShapes.stats],
+      ['anything', { type: 'primitive' }],
+    ];
+
+    for (const [data, shape] of cases) {
+      expect(compileShape(shape).validate(data)).toEqual(SchemaValidator.validateData(data, shape));
+    }
+  });
+
+  it('should match the interpreter for nullable and union fields', () => {
+    const shape: DataShape = {
+      type: 'array',
+      itemShape: {
+        type: 'object',
+        fields: {
+          note: { type: 'string', nullable: true, required: true },
+          amount: {
+            type: 'union',
+            nullable: true,
+            oneOf: [{ type: 'number' }, { type: 'boolean' }],
+          },
+          label: { type: 'union', anyOf: [{ type: 'string' }, { type: 'number', min: 0 }] },
+          stat: {
+            type: 'union',
+            discriminator: 'kind',
+            oneOf: [
+              {
+                type: 'object',
+                properties: { kind: { type: 'string', enum: ['count'] }, n: { type: 'number' } },
+              },
+              {
+                type: 'object',
+                properties: { kind: { type: 'string', enum: ['text'] }, text: { type: 'string' } },
+              },
+            ],
+          },
+        },
+      },
+    };
+    const rows = [
+      { note: null, amount: null, label: -1, stat: { kind: 'count', n: '3' } },
+      { note: 1, amount: '2', label: 'x', stat: { kind: 'other' } },
+      { amount: 'true', stat: { text: 'x' } },
+      { note: 'ok', amount: 1, label: 2, stat: { kind: 'text', text: 5 } },
+    ];
+    const compiled = compileShape(shape);
+
+    expect(compiled.validate(rows)).toEqual(SchemaValidator.validateData(rows, shape));
+    expect(compiled.transform(rows)).toEqual(SchemaValidator.transformData(rows, shape));
+    expect(compiled.validate(rows, { maxErrors: 2 }).errors).toEqual(
+      SchemaValidator.validateData(rows, shape).errors?.slice(0, 2)
+    );
+  });
+
+  it('should match the interpreter for recursive shapes and cyclic data', () => {
+    const loop: Record<string, unknown> = { id: 'loop', label: 'Loop' };
+    loop.children = [loop];
+    const navigation = [
+      { id: 'a', label: 'A', children: [{ id: 'b', label: 2, children: 'none' }] },
+      loop,
+    ];
+    const shape: DataShape = {
+      type: 'object',
+      fields: { menu: { type: 'array', $ref: 'navigation' }, owner: { type: 'object', $ref: 'x' } },
+    };
+    const cases: Array<[unknown, DataShape]> = [
+      [navigation, commonDataShapes.navigation],
+      [{ menu: navigation, owner: {} }, shape],
+      [[{ id: 'c', author: 'a', body: 'b', replies: [{ id: 1 }] }], commonDataShapes.comments],
+    ];
+
+    for (const [data, dataShape] of cases) {
+      const compiled = compileShape(dataShape);
+      expect(compiled.validate(data)).toEqual(SchemaValidator.validateData(data, dataShape));
+      expect(compiled.transform(data)).toEqual(SchemaValidator.transformData(data, dataShape));
+    }
+  });
+
+  it('should transform and parse like the interpreter', () => {
+    const rows = [{ id: 'ord_1', total: '12.5', paid: '1', tags: 'solo', placedAt: '2024-01-01' }];
+    const compiled = compileShape(orderShape);
+
+    expect(compiled.transform(rows)).toEqual(SchemaValidator.transformData(rows, orderShape));
+    expect(compiled.parse(rows)).toEqual(SchemaValidator.parseData(rows, orderShape));
+    expect(() => compiled.parse([{ total: -1 }])).toThrow(
+      'Data validation failed: Expected string but got object, Value -1 is less than minimum 0'
+    );
+    expect(() => {
+      SchemaValidator.parseData([{ total: -1 }], orderShape);
+    }).toThrow(
+      'Data validation failed: Expected string but got object, Value -1 is less than minimum 0'
+    );
+  });
+
+  it('should report invalid patterns the same way', () => {
+    const shape: DataShape = {
+      type: 'object',
+      fields: { code: { type: 'string', pattern: '(' }, n: { type: 'number' } },
+    };
+    const data = { n: 'x', code: 'abc' };
+
+    expect(compileShape(shape).validate(data)).toEqual(SchemaValidator.validateData(data, shape));
+  });
+
+  it('should stop after maxErrors', () => {
+    const result = compileShape(orderShape).validate(orders, { maxErrors: 3 });
+
+    expect(result.errors).toEqual(
+      SchemaValidator.validateData(orders, orderShape).errors?.slice(0, 3)
+    );
+    expect(compileShape(orderShape).validate(orders, { maxErrors: 0 }).errors).toHaveLength(1);
+  });
+
+  it('should cache compiled validators by shape identity', () => {
+    expect(compileShape(orderShape)).toBe(compileShape(orderShape));
+    expect(compileShape({ ...orderShape })).not.toBe(compileShape(orderShape));
+  });
+});
@@ -0,0 +1,642 @@
+/**
+ * Compiled validators for DataShape
+ *
+ * `compileShape` walks a shape once and builds a tree of specialized closures
+ * for validation and transformation: only the constraints a field declares
+ * are checked, patterns are compiled up front and no `Object.entries` runs
+ * per row. Output matches `SchemaValidator` exactly; tests compare the two.
+ * Compiled shapes are cached by shape identity, so mutate a shape only
+ * before its first use. `$ref` pointers are resolved when first reached,
+ * which keeps recursive shapes from compiling forever.
+ */
+
+import { DataShape, FieldSchema, FieldType, ValidationResult } from './types';
+import {
+  findDiscriminatedVariant,
+  formatPatterns,
+  getDiscriminatorValues,
+  getUnionVariants,
+  resolveShapeRef,
+  visitRef,
+} from './validation';
+import { collectAsyncRules, evaluateRules } from './validationRules';
+
+type ValidationIssue = NonNullable<ValidationResult['errors']>[number];
+type ValidationWarning = NonNullable<ValidationResult['warnings']>[number];
+
+export interface CompiledValidationOptions {
+  // Stop after this many errors; warnings are not collected past that point
+  maxErrors?: number;
+}
+
+export interface CompiledShape {
+  shape: DataShape;
+  validate(data: unknown, options?: CompiledValidationOptions): ValidationResult;
+  // Also waits for async custom rule validators
+  validateAsync(data: unknown, options?: CompiledValidationOptions): Promise<ValidationResult>;
+  transform(data: unknown): unknown;
+  parse<T = unknown>(data: unknown): T;
+}
+
+interface ValidationContext {
+  errors: ValidationIssue[];
+  warnings: ValidationWarning[];
+  maxErrors: number;
+}
+
+type Check = (value: unknown, path: string, context: ValidationContext) => void;
+type Transform = (value: unknown) => unknown;
+
+/**
+ * Thrown to unwind the validator tree once `maxErrors` is reached
+ */
+class ErrorLimitReached extends Error {}
+
+const errorLimitReached = new ErrorLimitReached('Error limit reached');
+
+function report(context: ValidationContext, issue: ValidationIssue): void {
+  context.errors.push(issue);
+  if (context.errors.length >= context.maxErrors) {
+    throw errorLimitReached;
+  }
+}
+
+type ConcreteType = Exclude<FieldType, 'union'>;
+
+const typeChecks: Record<ConcreteType, (value: unknown) => boolean> = {
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number' && !isNaN(value),
+  boolean: (value) => typeof value === 'boolean',
+  date: (value) => value instanceof Date || !isNaN(Date.parse(value as string)),
+  array: (value) => Array.isArray(value),
+  object: (value) => typeof value === 'object' && value !== null && !Array.isArray(value),
+};
+
+/**
+ * Compile a pattern once. Invalid patterns throw when first used, as they
+ * do in the interpreter.
+ */
+function compilePattern(pattern: string): RegExp | Error {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
+
+function createContext(maxErrors = Infinity): ValidationContext {
+  return { errors: [], warnings: [], maxErrors };
+}
+
+function compileFieldCheck(schema: FieldSchema): Check {
+  const check = schema.$ref
+    ? compileRefCheck(schema.$ref)
+    : schema.type === 'union'
+      ? compileUnionCheck(schema)
+      : compileTypedCheck(schema);
+  if (!schema.nullable) {
+    return check;
+  }
+  return (value, path, context) => {
+    if (value !== null) {
+      check(value, path, context);
+    }
+  };
+}
+
+function compileRefCheck(ref: string): Check {
+  return (value, path, context) => {
+    let shape: DataShape;
+    try {
+      shape = resolveShapeRef(ref);
+    } catch (error) {
+      report(context, { path, message: (error as Error).message, value });
+      return;
+    }
+
+    const { check } = getCompiledParts(shape);
+    if (!visitRef(value, shape, () => check(value, path, context))) {
+      report(context, { path, message: `Circular data for shape "${ref}"`, value });
+    }
+  };
+}
+
+/**
+ * Union branches are checked against their own context so a failing variant
+ * does not count towards `maxErrors` until the union as a whole fails
+ */
+function compileUnionCheck(schema: FieldSchema): Check {
+  const { keyword, variants } = getUnionVariants(schema);
+  const checks = variants.map((variant) => compileFieldCheck(variant));
+  const tag = schema.discriminator;
+
+  if (tag) {
+    const expected = getDiscriminatorValues(variants, tag).join(', ');
+    return (value, path, context) => {
+      if (!typeChecks.object(value)) {
+        report(context, { path, message: `Expected object but got ${typeof value}`, value });
+        return;
+      }
+
+      const tagValue = (value as Record<string, unknown>)[tag];
+      if (tagValue === undefined) {
+        report(context, {
+          path: `${path}.${tag}`,
+          message: `Discriminator "${tag}" missing`,
+          value: undefined,
+        });
+        return;
+      }
+
+      const index = findDiscriminatedVariant(variants, tag, tagValue);
+      if (index === -1) {
+        report(context, {
+          path: `${path}.${tag}`,
+          message: `Unknown ${tag} "${String(tagValue)}"; expected one of: ${expected}`,
+          value: tagValue,
+        });
+        return;
+      }
+
+      const branch = createContext();
+      checks[index](value, path, branch);
+      context.warnings.push(...branch.warnings);
+      const label = `${keyword}[${index}] (${tag} "${String(tagValue)}")`;
+      for (const error of branch.errors) {
+        report(context, { ...error, message: `${label}: ${error.message}` });
+      }
+    };
+  }
+
+  return (value, path, context) => {
+    const matches: number[] = [];
+    const branchErrors: ValidationIssue[] = [];
+    for (let index = 0; index < checks.length; index++) {
+      const branch = createContext();
+      checks[index](value, path, branch);
+      if (branch.errors.length === 0) {
+        matches.push(index);
+      } else {
+        for (const error of branch.errors) {
+          branchErrors.push({ ...error, message: `${keyword}[${index}]: ${error.message}` });
+        }
+      }
+    }
+
+    if (matches.length === 0) {
+      report(context, { path, message: `Value does not match any ${keyword} variant`, value });
+      for (const error of branchErrors) {
+        report(context, error);
+      }
+    } else if (keyword === 'oneOf' && matches.length > 1) {
+      report(context, {
+        path,
+        message: `Value matches ${matches.map((index) => `oneOf[${index}]`).join(' and ')}; expected exactly one`,
+        value,
+      });
+    }
+  };
+}
+
+function compileTypedCheck(schema: FieldSchema): Check {
+  const typeCheck = typeChecks[schema.type as ConcreteType] ?? ((): boolean => false);
+  const constraints: Check[] = [];
+
+  if (schema.type === 'string') {
+    const { minLength, maxLength, pattern, format } = schema;
+    if (minLength) {
+      constraints.push((value, path, context) => {
+        const length = (value as string).length;
+        if (length < minLength) {
+          report(context, {
+            path,
+            message: `String length ${length} is less than minimum ${minLength}`,
+            value,
+          });
+        }
+      });
+    }
+    if (maxLength) {
+      constraints.push((value, path, context) => {
+        const length = (value as string).length;
+        if (length > maxLength) {
+          report(context, {
+            path,
+            message: `String length ${length} exceeds maximum ${maxLength}`,
+            value,
+          });
+        }
+      });
+    }
+    if (pattern) {
+      const regex = compilePattern(pattern);
+      constraints.push((value, path, context) => {
+        if (regex instanceof Error) {
+          throw regex;
+        }
+        if (!regex.test(value as string)) {
+          report(context, { path, message: `String does not match pattern ${pattern}`, value });
+        }
+      });
+    }
+    const formatPattern = format ? formatPatterns[format] : undefined;
+    if (formatPattern) {
+      constraints.push((value, path, context) => {
+        if (!formatPattern.test(value as string)) {
+          report(context, { path, message: `Invalid ${format} format`, value });
+        }
+      });
+    }
+  }
+
+  if (schema.type === 'number') {
+    const { min, max } = schema;
+    if (min !== undefined) {
+      constraints.push((value, path, context) => {
+        if ((value as number) < min) {
+          report(context, {
+            path,
+            message: `Value ${String(value)} is less than minimum ${min}`,
+            value,
+          });
+        }
+      });
+    }
+    if (max !== undefined) {
+      constraints.push((value, path, context) => {
+        if ((value as number) > max) {
+          report(context, {
+            path,
+            message: `Value ${String(value)} exceeds maximum ${max}`,
+            value,
+          });
+        }
+      });
+    }
+  }
+
+  if (schema.enum) {
+    const allowed = new Set<unknown>(schema.enum);
+    const message = `Value must be one of: ${schema.enum.join(', ')}`;
+    constraints.push((value, path, context) => {
+      if (!allowed.has(value)) {
+        report(context, { path, message, value });
+      }
+    });
+  }
+
+  if (schema.type === 'array') {
+    const { minItems, maxItems } = schema;
+    if (minItems) {
+      constraints.push((value, path, context) => {
+        const length = (value as unknown[]).length;
+        if (length < minItems) {
+          report(context, {
+            path,
+            message: `Array length ${length} is less than minimum ${minItems}`,
+            value,
+          });
+        }
+      });
+    }
+    if (maxItems) {
+      constraints.push((value, path, context) => {
+        const length = (value as unknown[]).length;
+        if (length > maxItems) {
+          report(context, {
+            path,
+            message: `Array length ${length} exceeds maximum ${maxItems}`,
+            value,
+          });
+        }
+      });
+    }
+    if (schema.itemType) {
+      const itemCheck = compileFieldCheck(schema.itemType);
+      constraints.push((value, path, context) => {
+        const items = value as unknown[];
+        for (let index = 0; index < items.length; index++) {
+          itemCheck(items[index], `${path}[${index}]`, context);
+        }
+      });
+    }
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const properties = Object.entries(schema.properties).map(
+      ([key, property]) => [key, compileFieldCheck(property)] as const
+    );
+    constraints.push((value, path, context) => {
+      const object = value as Record<string, unknown>;
+      for (const [key, check] of properties) {
+        if (object[key] !== undefined) {
+          check(object[key], `${path}.${key}`, context);
+        }
+      }
+    });
+  }
+
+  const expected = schema.nullable ? `${schema.type} or null` : schema.type;
+  return (value, path, context) => {
+    if (!typeCheck(value)) {
+      report(context, { path, message: `Expected ${expected} but got ${typeof value}`, value });
+      return;
+    }
+    for (let index = 0; index < constraints.length; index++) {
+      constraints[index](value, path, context);
+    }
+  };
+}
+
+function compileShapeCheck(shape: DataShape): Check {
+  if (shape.$ref) {
+    return compileRefCheck(shape.$ref);
+  }
+
+  if (shape.type === 'array') {
+    const itemCheck = shape.itemShape ? compileShapeCheck(shape.itemShape) : null;
+    return (data, path, context) => {
+      if (!Array.isArray(data)) {
+        report(context, { path, message: `Expected array but got ${typeof data}`, value: data });
+        return;
+      }
+      if (itemCheck) {
+        for (let index = 0; index < data.length; index++) {
+          itemCheck(data[index], `${path}[${index}]`, context);
+        }
+      }
+    };
+  }
+
+  if (shape.type === 'object') {
+    const fields = shape.fields;
+    const rules = shape.rules;
+    const required = shape.required ?? [];
+    const fieldChecks = Object.entries(fields ?? {}).map(([key, field]) => ({
+      key,
+      check: compileFieldCheck(field),
+      required: field.required,
+    }));
+
+    return (data, path, context) => {
+      if (typeof data !== 'object' || data === null) {
+        report(context, { path, message: `Expected object but got ${typeof data}`, value: data });
+        return;
+      }
+
+      const object = data as Record<string, unknown>;
+      if (fields) {
+        for (const field of required) {
+          if (!(field in object)) {
+            report(context, {
+              path: `${path}.${field}`,
+              message: 'Required field missing',
+              value: undefined,
+            });
+          }
+        }
+
+        for (const { key, check, required: isRequired } of fieldChecks) {
+          const fieldPath = path ? `${path}.${key}` : key;
+          const value = object[key];
+          if (value !== undefined) {
+            check(value, fieldPath, context);
+          } else if (isRequired) {
+            report(context, {
+              path: fieldPath,
+              message: 'Required field missing',
+              value: undefined,
+            });
+          }
+        }
+
+        for (const key of Object.keys(object)) {
+          if (!(key in fields)) {
+            context.warnings.push({ path: `${path}.${key}`, message: 'Unknown field in data' });
+          }
+        }
+      }
+
+      if (rules) {
+        evaluateRules(object, shape, path, {
+          error: (issue) => report(context, issue),
+          warning: (warning) => context.warnings.push(warning),
+        });
+      }
+    };
+  }
+
+  return () => undefined;
+}
+
+function compileFieldTransform(schema: FieldSchema): Transform | null {
+  const transform = schema.$ref
+    ? compileRefTransform(schema.$ref)
+    : schema.type === 'union'
+      ? compileUnionTransform(schema)
+      : compileTypedTransform(schema);
+  if (!transform || !schema.nullable) {
+    return transform;
+  }
+  return (value) => (value === null ? null : transform(value));
+}
+
+function compileRefTransform(ref: string): Transform {
+  return (value) => {
+    let shape: DataShape;
+    try {
+      shape = resolveShapeRef(ref);
+    } catch {
+      return value;
+    }
+
+    const { transform } = getCompiledParts(shape);
+    let transformed = value;
+    visitRef(value, shape, () => {
+      transformed = transform(value);
+    });
+    return transformed;
+  };
+}
+
+function compileUnionTransform(schema: FieldSchema): Transform {
+  const { variants } = getUnionVariants(schema);
+  const compiled = variants.map((variant) => ({
+    check: compileFieldCheck(variant),
+    transform: compileFieldTransform(variant) ?? ((value: unknown): unknown => value),
+  }));
+  const matches = (check: Check, value: unknown): boolean => {
+    const context = createContext(1);
+    try {
+      check(value, '', context);
+    } catch (error) {
+      if (!(error instanceof ErrorLimitReached)) {
+        throw error;
+      }
+    }
+    return context.errors.length === 0;
+  };
+  const tag = schema.discriminator;
+
+  if (tag) {
+    return (value) => {
+      const tagValue = (value as Record<string, unknown> | null | undefined)?.[tag];
+      const index = findDiscriminatedVariant(variants, tag, tagValue);
+      return index === -1 ? value : compiled[index].transform(value);
+    };
+  }
+
+  return (value) => {
+    if (compiled.some(({ check }) => matches(check, value))) {
+      return value;
+    }
+    for (const { check, transform } of compiled) {
+      const transformed = transform(value);
+      if (matches(check, transformed)) {
+        return transformed;
+      }
+    }
+    return value;
+  };
+}
+
+function compileTypedTransform(schema: FieldSchema): Transform | null {
+  switch (schema.type) {
+    case 'number':
+      return (value) => {
+        if (typeof value !== 'string') {
+          return value;
+        }
+        const parsed = parseFloat(value);
+        return isNaN(parsed) ? value : parsed;
+      };
+    case 'boolean':
+      return (value) => (typeof value === 'string' ? value === 'true' || value === '1' : value);
+    case 'date':
+      return (value) => (typeof value === 'string' ? new Date(value) : value);
+    case 'array':
+      return (value): unknown[] => (Array.isArray(value) ? (value as unknown[]) : [value]);
+    default:
+      return null;
+  }
+}
+
+function compileShapeTransform(shape: DataShape): Transform {
+  if (shape.$ref) {
+    return compileRefTransform(shape.$ref);
+  }
+
+  if (shape.type === 'array') {
+    const itemTransform = shape.itemShape ? compileShapeTransform(shape.itemShape) : null;
+    return (data) => {
+      if (!Array.isArray(data)) {
+        return [];
+      }
+      const items = data as unknown[];
+      return itemTransform ? items.map((item) => itemTransform(item)) : items.slice();
+    };
+  }
+
+  if (shape.type === 'object' && shape.fields) {
+    const fields = Object.entries(shape.fields).map(([key, field]) => ({
+      key,
+      transform: compileFieldTransform(field),
+      defaultValue: field.default as unknown,
+      // Null would pass a nullable field, so leave it missing for validation
+      fillNull: field.required === true && !field.nullable,
+    }));
+
+    return (data) => {
+      const source = data as Record<string, unknown> | null | undefined;
+      const transformed: Record<string, unknown> = {};
+
+      for (const { key, transform, defaultValue, fillNull } of fields) {
+        const value = source?.[key];
+        if (value !== undefined) {
+          transformed[key] = transform ? transform(value) : value;
+        } else if (defaultValue !== undefined) {
+          transformed[key] = defaultValue;
+        } else if (fillNull) {
+          // Will be caught by validation
+          transformed[key] = null;
+        }
+      }
+
+      return transformed;
+    };
+  }
+
+  return (data) => data;
+}
+
+const compiledParts = new WeakMap<DataShape, { check: Check; transform: Transform }>();
+const compiledShapes = new WeakMap<DataShape, CompiledShape>();
+
+function getCompiledParts(shape: DataShape): { check: Check; transform: Transform } {
+  let parts = compiledParts.get(shape);
+  if (!parts) {
+    parts = { check: compileShapeCheck(shape), transform: compileShapeTransform(shape) };
+    compiledParts.set(shape, parts);
+  }
+  return parts;
+}
+
+/**
+ * Compile a DataShape into a reusable validator and transformer
+ */
+export function compileShape(shape: DataShape): CompiledShape {
+  const cached = compiledShapes.get(shape);
+  if (cached) {
+    return cached;
+  }
+
+  const { check, transform } = getCompiledParts(shape);
+
+  const validate = (data: unknown, options: CompiledValidationOptions = {}): ValidationResult => {
+    const context: ValidationContext = {
+      errors: [],
+      warnings: [],
+      maxErrors: Math.max(1, options.maxErrors ?? Infinity),
+    };
+
+    try {
+      check(data, '', context);
+    } catch (error) {
+      if (!(error instanceof ErrorLimitReached)) {
+        context.errors.push({
+          path: '',
+          message: `Validation error: ${error instanceof Error ? error.message : String(error)}`,
+          value: data,
+        });
+      }
+    }
+
+    return {
+      valid: context.errors.length === 0,
+      errors: context.errors.length > 0 ? context.errors : undefined,
+      warnings: context.warnings.length > 0 ? context.warnings : undefined,
+    };
+  };
+
+  const compiled: CompiledShape = {
+    shape,
+    validate,
+    validateAsync: (data, options) => collectAsyncRules(() => validate(data, options)),
+    transform,
+    parse<T = unknown>(data: unknown): T {
+      const transformed = transform(data);
+      const validation = validate(transformed);
+
+      if (!validation.valid) {
+        throw new Error(
+          `Data validation failed: ${validation.errors?.map((e) => e.message).join(', ')}`
+        );
+      }
+
+      return transformed as T;
+    },
+  };
+
+  compiledShapes.set(shape, compiled);
+  return compiled;
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DependencyCycleError,
+  affectedSources,
+  buildDependencyGraph,
+  computeSource,
+  cycleOf,
+  resolveInputs,
+  validateComputedSource,
+  validateDependencies,
+} from './computedSources';
+import { DataSourceSchema } from './types';
+
+const orders: DataSourceSchema = { id: 'orders', type: 'rest', endpoint: '/api/orders' };
+const customers: DataSourceSchema = { id: 'customers', type: 'rest', endpoint: '/api/customers' };
+const open: DataSourceSchema = {
+  id: 'open',
+  type: 'computed',
+  compute: { inputs: { orders: { source: 'orders' } } },
+  transform: [
+    { op: 'filter', where: [{ field: 'status', value: 'open' }] },
+    { op: 'join', source: 'customers', on: { local: 'customerId', foreign: 'id' }, as: 'customer' },
+  ],
+};
+const summary: DataSourceSchema = {
+  id: 'summary',
+  type: 'computed',
+  compute: {
+    inputs: { open: { source: 'open' }, user: { state: 'user' }, region: { param: 'region' } },
+    value: { count: '{{ open.length }}', title: '{{ user.name }} in {{ region }}' },
+  },
+};
+
+describe('computed sources', () => {
+  it('orders sources after the sources they read', () => {
+    const graph = buildDependencyGraph([summary, open, orders, customers]);
+
+    expect(graph.order).toEqual(['orders', 'customers', 'open', 'summary']);
+    expect(graph.nodes.get('open')).toMatchObject({
+      dependsOn: ['orders', 'customers'],
+      dependents: ['summary'],
+    });
+    expect(graph.cycles).toEqual([]);
+
+    expect(affectedSources(graph, ['customers'])).toEqual(['open', 'summary']);
+    expect(affectedSources(graph, ['open'])).toEqual(['summary']);
+    expect(affectedSources(graph, ['summary'])).toEqual([]);
+
+    // Loaded sources read the sources they join with
+    const joining = { ...orders, transform: open.transform };
+    expect(buildDependencyGraph([joining, customers]).nodes.get('orders')?.dependsOn).toEqual([
+      'customers',
+    ]);
+  });
+
+  it('derives data from source, param and state inputs', () => {
+    const sourceData = {
+      orders: [
+        { id: 1, status: 'open', customerId: 7 },
+        { id: 2, status: 'closed', customerId: 7 },
+      ],
+      customers: [{ id: 7, name: 'Ada' }],
+    };
+
+    const openOrders = computeSource(open, resolveInputs(open, sourceData), sourceData);
+    expect(openOrders).toEqual([
+      { id: 1, status: 'open', customerId: 7, customer: { id: 7, name: 'Ada' } },
+    ]);
+
+    const inputs = resolveInputs(
+      summary,
+      { open: openOrders },
+      { params: { region: 'EU' }, state: { user: { name: 'Grace' } } }
+    );
+    expect(computeSource(summary, inputs)).toEqual({ count: 1, title: 'Grace in EU' });
+
+    expect(() => computeSource(summary, { ...inputs, user: undefined })).toThrow(
+      'Data source "summary" failed at value.title: Cannot read "name" of undefined'
+    );
+  });
+
+  it('reports cycles and the sources behind them', () => {
+    const reads = (id: string, input: string): DataSourceSchema => ({
+      id,
+      type: 'computed',
+      compute: { inputs: { input: { source: input } } },
+    });
+    const graph = buildDependencyGraph([
+      reads('a', 'b'),
+      reads('b', 'c'),
+      reads('c', 'a'),
+      reads('d', 'a'),
+      reads('self', 'self'),
+    ]);
+
+    expect(graph.order).toEqual([]);
+    expect(graph.cycles).toEqual([['a', 'b', 'c'], ['self']]);
+    expect(cycleOf(graph, 'd')).toEqual(['a', 'b', 'c']);
+    expect(new DependencyCycleError(['a', 'b', 'c']).message).toBe(
+      'Data sources depend on each other: a → b → c → a'
+    );
+    expect(new DependencyCycleError(['self']).message).toBe(
+      'Data sources depend on each other: self → self'
+    );
+  });
+
+  it('validates compute settings and dependencies', () => {
+    expect(validateComputedSource(summary.compute, 'computed')).toEqual([]);
+    expect(validateComputedSource(undefined, 'computed')).toEqual([
+      { path: 'compute', message: 'Computed sources need inputs and a derivation' },
+    ]);
+    expect(
+      validateComputedSource(
+        { inputs: { a: { source: 'x', param: 'y' }, b: 'x' }, value: ['{{ a +'] },
+        'rest'
+      )
+    ).toEqual([
+      { path: 'compute', message: 'Compute settings only apply to computed sources' },
+      {
+        path: 'compute.inputs.a',
+        message: 'An input reads one of { source }, { param } or { state }',
+      },
+      {
+        path: 'compute.inputs.b',
+        message: 'An input reads one of { source }, { param } or { state }',
+      },
+      { path: 'compute.value[0]', message: 'Missing "}}" after "{{"' },
+    ]);
+
+    const cyclic: DataSourceSchema = {
+      id: 'cyclic',
+      type: 'computed',
+      compute: { inputs: { self: { source: 'cyclic' }, gone: { source: 'gone' } } },
+    };
+    const paths: Record<string, string> = { open: 'dataSources[0]', cyclic: 'dataSources[1]' };
+    expect(validateDependencies([open, cyclic, orders], (id) => paths[id])).toEqual([
+      {
+        path: 'dataSources[0]',
+        message: 'Data source "open" reads unknown data source "customers"',
+      },
+      {
+        path: 'dataSources[1]',
+        message: 'Data source "cyclic" reads unknown data source "gone"',
+      },
+      { path: 'dataSources[1]', message: 'Data sources depend on each other: cyclic → cyclic' },
+    ]);
+  });
+});
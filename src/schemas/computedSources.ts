@@ -0,0 +1,339 @@
+/**
+ * Dependency graph of `computed` data sources
+ *
+ * A computed source names its inputs: other sources, page route parameters
+ * and app state keys. Bindings in its `value` see them by name and its
+ * transform steps run on the result, so the derivation stays declarative.
+ * Sources that depend on each other form a graph; it is ordered so every
+ * source comes after its inputs, and sources that depend on themselves
+ * through other sources are reported as cycles. Loading the inputs is left
+ * to `DataGraphProvider`; everything here is pure.
+ */
+
+import { checkTemplate, ExpressionScope, isBinding, resolveBindings } from './expressions';
+import { runTransform } from './transforms';
+import { ComputedInput, DataSourceSchema, ValidationResult } from './types';
+
+type ValidationIssue = NonNullable<ValidationResult['errors']>[number];
+
+export interface SourceNode {
+  source: DataSourceSchema;
+  // IDs of the sources this one reads, including sources it joins with
+  dependsOn: string[];
+  // IDs of the sources that read this one
+  dependents: string[];
+  // Inputs naming sources that do not exist
+  missing: string[];
+}
+
+export interface DependencyGraph {
+  nodes: Map<string, SourceNode>;
+  // Sources ordered so each comes after the sources it reads; sources on or
+  // behind a cycle are left out
+  order: string[];
+  // Each cycle once, as the IDs along it
+  cycles: string[][];
+}
+
+/**
+ * Sources depend on each other in a cycle, so none of them can be computed
+ */
+export class DependencyCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Data sources depend on each other: ${[...cycle, cycle[0]].join(' → ')}`);
+    this.name = 'DependencyCycleError';
+  }
+}
+
+/**
+ * IDs of the sources a source reads: the source inputs of a computed source
+ * and the sources any source joins with
+ */
+export function sourceDependencies(source: DataSourceSchema): string[] {
+  const ids = new Set<string>();
+  if (source.type === 'computed') {
+    // Schemas being validated may hold anything here
+    for (const input of Object.values(source.compute?.inputs ?? {}) as unknown[]) {
+      if (typeof input === 'object' && input !== null && 'source' in input) {
+        ids.add(String(input.source));
+      }
+    }
+  }
+  if (Array.isArray(source.transform)) {
+    for (const step of source.transform) {
+      if (step?.op === 'join') {
+        ids.add(step.source);
+      }
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Build the dependency graph of a set of sources. When IDs repeat, the first
+ * source wins, so page sources can be listed before the global ones they
+ * shadow.
+ */
+export function buildDependencyGraph(sources: DataSourceSchema[]): DependencyGraph {
+  const nodes = new Map<string, SourceNode>();
+  for (const source of sources) {
+    if (!nodes.has(source.id)) {
+      nodes.set(source.id, { source, dependsOn: [], dependents: [], missing: [] });
+    }
+  }
+  for (const [id, node] of nodes) {
+    for (const dependency of sourceDependencies(node.source)) {
+      const input = nodes.get(dependency);
+      if (input) {
+        node.dependsOn.push(dependency);
+        input.dependents.push(id);
+      } else {
+        node.missing.push(dependency);
+      }
+    }
+  }
+
+  return { nodes, order: topologicalOrder(nodes), cycles: findCycles(nodes) };
+}
+
+// Kahn's algorithm; sources whose inputs never resolve stay out
+function topologicalOrder(nodes: Map<string, SourceNode>): string[] {
+  const waiting = new Map([...nodes].map(([id, node]) => [id, node.dependsOn.length]));
+  const ready = [...waiting].filter(([, count]) => count === 0).map(([id]) => id);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    const id = ready.shift() as string;
+    order.push(id);
+    for (const dependent of nodes.get(id)?.dependents ?? []) {
+      const count = (waiting.get(dependent) ?? 0) - 1;
+      waiting.set(dependent, count);
+      if (count === 0) {
+        ready.push(dependent);
+      }
+    }
+  }
+  return order;
+}
+
+function findCycles(nodes: Map<string, SourceNode>): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): void => {
+    seen.add(id);
+    path.push(id);
+    for (const dependency of nodes.get(id)?.dependsOn ?? []) {
+      if (!seen.has(dependency)) {
+        visit(dependency);
+      } else if (!done.has(dependency)) {
+        // Back edge: the path from the dependency to here is a cycle
+        cycles.push(path.slice(path.indexOf(dependency)));
+      }
+    }
+    path.pop();
+    done.add(id);
+  };
+
+  for (const id of nodes.keys()) {
+    if (!seen.has(id)) {
+      visit(id);
+    }
+  }
+  return cycles;
+}
+
+/**
+ * The cycle a source is on, or the first cycle it depends on
+ */
+export function cycleOf(graph: DependencyGraph, id: string): string[] | undefined {
+  const upstream = new Set([id, ...upstreamSources(graph, id)]);
+  return (
+    graph.cycles.find((cycle) => cycle.includes(id)) ??
+    graph.cycles.find((cycle) => cycle.some((member) => upstream.has(member)))
+  );
+}
+
+/**
+ * IDs of every source a source reads, directly or through other sources
+ */
+export function upstreamSources(graph: DependencyGraph, id: string): string[] {
+  return walk(graph, id, (node) => node.dependsOn);
+}
+
+/**
+ * IDs of the sources to recompute when the given sources change, in the
+ * order they can be computed
+ */
+export function affectedSources(graph: DependencyGraph, changed: string[]): string[] {
+  const affected = new Set(changed.flatMap((id) => walk(graph, id, (node) => node.dependents)));
+  return graph.order.filter((id) => affected.has(id));
+}
+
+function walk(
+  graph: DependencyGraph,
+  start: string,
+  next: (node: SourceNode) => string[]
+): string[] {
+  const visited = new Set<string>();
+  const first = graph.nodes.get(start);
+  const stack = first ? [...next(first)] : [];
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    const node = graph.nodes.get(id);
+    if (id !== start && !visited.has(id) && node) {
+      visited.add(id);
+      stack.push(...next(node));
+    }
+  }
+  return [...visited];
+}
+
+/**
+ * Values of a computed source's inputs by name, from the data of the
+ * sources it reads and the shared expression scope
+ */
+export function resolveInputs(
+  source: DataSourceSchema,
+  sourceData: Record<string, unknown>,
+  scope: Omit<ExpressionScope, 'data'> = {}
+): Record<string, unknown> {
+  const inputs: Record<string, unknown> = {};
+  for (const [name, input] of Object.entries(source.compute?.inputs ?? {})) {
+    inputs[name] = inputValue(input, sourceData, scope);
+  }
+  return inputs;
+}
+
+function inputValue(
+  input: ComputedInput,
+  sourceData: Record<string, unknown>,
+  scope: Omit<ExpressionScope, 'data'>
+): unknown {
+  if ('source' in input) {
+    return sourceData[input.source];
+  }
+  if ('param' in input) {
+    return scope.params?.[input.param];
+  }
+  return scope.state?.[input.state];
+}
+
+/**
+ * Derive a computed source's data from its inputs. Without a `value` the
+ * data is the only input, or an object of all inputs; transform steps then
+ * run on it, joining with the data of the sources it reads.
+ */
+export function computeSource(
+  source: DataSourceSchema,
+  inputs: Record<string, unknown>,
+  sourceData: Record<string, unknown> = {}
+): unknown {
+  const names = Object.keys(inputs);
+  let value: unknown = names.length === 1 ? inputs[names[0]] : inputs;
+  if (source.compute?.value !== undefined) {
+    const resolved = resolveBindings({ value: source.compute.value }, { data: inputs });
+    const [issue] = resolved.issues;
+    if (issue) {
+      throw new Error(`Data source "${source.id}" failed at ${issue.path}: ${issue.message}`);
+    }
+    value = resolved.props.value;
+  }
+
+  if (typeof source.transform === 'string') {
+    throw new Error(`Computed data source "${source.id}" cannot use a script transform`);
+  }
+  return source.transform ? runTransform(value, source.transform, { sources: sourceData }) : value;
+}
+
+/**
+ * Check a source's compute settings
+ */
+export function validateComputedSource(
+  compute: unknown,
+  sourceType: DataSourceSchema['type'],
+  path = 'compute'
+): ValidationIssue[] {
+  const errors: ValidationIssue[] = [];
+  if (compute === undefined) {
+    if (sourceType === 'computed') {
+      errors.push({ path, message: 'Computed sources need inputs and a derivation' });
+    }
+    return errors;
+  }
+  if (typeof compute !== 'object' || compute === null) {
+    errors.push({ path, message: 'Compute settings must be an object' });
+    return errors;
+  }
+  if (sourceType !== 'computed') {
+    errors.push({ path, message: 'Compute settings only apply to computed sources' });
+  }
+
+  const { inputs, value } = compute as Record<string, unknown>;
+  if (typeof inputs !== 'object' || inputs === null || Array.isArray(inputs)) {
+    errors.push({ path: `${path}.inputs`, message: 'Inputs must be an object of named inputs' });
+  } else {
+    for (const [name, input] of Object.entries(inputs as Record<string, unknown>)) {
+      const keys = typeof input === 'object' && input !== null ? Object.keys(input) : [];
+      const kind = keys[0] as keyof ComputedInput;
+      if (
+        keys.length !== 1 ||
+        !['source', 'param', 'state'].includes(kind) ||
+        typeof (input as Record<string, unknown>)[kind] !== 'string'
+      ) {
+        errors.push({
+          path: `${path}.inputs.${name}`,
+          message: 'An input reads one of { source }, { param } or { state }',
+        });
+      }
+    }
+  }
+
+  const checkBindings = (item: unknown, at: string): void => {
+    if (isBinding(item)) {
+      const syntaxError = checkTemplate(item);
+      if (syntaxError) {
+        errors.push({ path: at, message: syntaxError.message });
+      }
+    } else if (Array.isArray(item)) {
+      item.forEach((entry, index) => checkBindings(entry, `${at}[${index}]`));
+    } else if (typeof item === 'object' && item !== null) {
+      Object.entries(item).forEach(([key, entry]) => checkBindings(entry, `${at}.${key}`));
+    }
+  };
+  checkBindings(value, `${path}.value`);
+
+  return errors;
+}
+
+/**
+ * Report sources that read missing sources or depend on themselves. Only
+ * sources with a path are reported, so shared sources can take part in the
+ * graph without being reported for every page.
+ */
+export function validateDependencies(
+  sources: DataSourceSchema[],
+  pathOf: (id: string) => string | undefined
+): ValidationIssue[] {
+  const errors: ValidationIssue[] = [];
+  const graph = buildDependencyGraph(sources);
+
+  for (const [id, node] of graph.nodes) {
+    const path = pathOf(id);
+    if (path === undefined) {
+      continue;
+    }
+    for (const missing of node.missing) {
+      errors.push({ path, message: `Data source "${id}" reads unknown data source "${missing}"` });
+    }
+  }
+  for (const cycle of graph.cycles) {
+    const id = cycle.find((member) => pathOf(member) !== undefined);
+    if (id !== undefined) {
+      errors.push({ path: pathOf(id) as string, message: new DependencyCycleError(cycle).message });
+    }
+  }
+  return errors;
+}
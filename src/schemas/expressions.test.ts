@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExpressionError,
+  PARSE_CACHE_SIZE,
+  checkTemplate,
+  evaluateExpression,
+  evaluateTemplate,
+  getExpressionCompletions,
+  parseExpression,
+  resolveBindings,
+} from './expressions';
+import { DataShape } from './types';
+
+const scope = {
+  data: {
+    user: { name: 'Ada', roles: ['admin', 'editor'] },
+    orders: [{ total: 12.5 }, { total: 30 }],
+    trend: -4.25,
+    note: null,
+  },
+  params: { region: 'EU' },
+  state: { currency: 'EUR' },
+};
+
+describe('evaluateExpression', () => {
+  it('should read data fields, params and state', () => {
+    expect(evaluateExpression('user.name', scope)).toBe('Ada');
+    expect(evaluateExpression('data.user.roles[1]', scope)).toBe('editor');
+    expect(evaluateExpression("params.region + '/' + state.currency", scope)).toBe('EU/EUR');
+    expect(evaluateExpression('orders.length', scope)).toBe(2);
+  });
+
+  it('should apply operators with the usual precedence', () => {
+    expect(evaluateExpression('1 + 2 * 3 - 4 / 2', scope)).toBe(5);
+    expect(evaluateExpression("trend > 0 ? 'success' : 'error'", scope)).toBe('error');
+    expect(evaluateExpression('!(trend >= 0) && user.name === "Ada"', scope)).toBe(true);
+    expect(evaluateExpression("note ?? 'none'", scope)).toBe('none');
+    expect(evaluateExpression('note?.text', scope)).toBeUndefined();
+    expect(evaluateExpression('note?.text.length', scope)).toBeUndefined();
+  });
+
+  it('should call the built-in functions', () => {
+    expect(evaluateExpression('round(abs(trend), 1)', scope)).toBe(4.3);
+    expect(evaluateExpression("join(user.roles, ' & ')", scope)).toBe('admin & editor');
+    expect(evaluateExpression("includes(user.roles, 'admin')", scope)).toBe(true);
+    expect(evaluateExpression('upper(params.region)', scope)).toBe('EU');
+  });
+
+  it('should not reach outside the scope', () => {
+    expect(() => evaluateExpression('window', scope)).toThrow('"window" is not defined');
+    expect(evaluateExpression('user.constructor', scope)).toBeUndefined();
+    expect(evaluateExpression("user['__proto__']", scope)).toBeUndefined();
+    expect(() => parseExpression('constructor(1)')).toThrow('Unknown function "constructor"');
+    expect(() => parseExpression('user.name = 1')).toThrow(ExpressionError);
+  });
+
+  it('should explain failures', () => {
+    expect(() => evaluateExpression('user.address.city', scope)).toThrow(
+      'Cannot read "city" of undefined'
+    );
+    expect(() => parseExpression('user.')).toThrow(
+      'Expected a property name but found end of expression'
+    );
+    expect(() => parseExpression("'open")).toThrow('Unterminated string');
+  });
+
+  it('should keep only recently used expressions parsed', () => {
+    const first = parseExpression('first + 1');
+    const recent = parseExpression('recent + 1');
+    for (let index = 0; index < PARSE_CACHE_SIZE - 1; index++) {
+      parseExpression(`value + ${index}`);
+      parseExpression('recent + 1');
+    }
+
+    expect(parseExpression('recent + 1')).toBe(recent);
+    expect(parseExpression('first + 1')).not.toBe(first);
+    expect(parseExpression('first + 1')).toEqual(first);
+  });
+});
+
+describe('templates', () => {
+  it('should interpolate text and keep the type of a single binding', () => {
+    expect(evaluateTemplate("{{user.name}}'s orders", scope)).toBe("Ada's orders");
+    expect(evaluateTemplate('{{ orders.length }}', scope)).toBe(2);
+    expect(evaluateTemplate('Note: {{ note }}', scope)).toBe('Note: ');
+    expect(checkTemplate('Total {{ sum(orders[0].total, }}')).toMatchObject({
+      message: 'Unexpected end of expression',
+      position: 30,
+    });
+    expect(checkTemplate('Total {{ 1 + ')?.message).toBe('Missing "}}" after "{{"');
+  });
+
+  it('should resolve bindings in nested props and report failures', () => {
+    const props = {
+      title: "{{user.name}}'s orders",
+      color: "{{ trend >= 0 ? 'success' : 'error' }}",
+      stats: [{ label: 'Region', value: '{{ params.region }}' }, { value: '{{ missing }}' }],
+      size: 'small',
+    };
+
+    const result = resolveBindings(props, scope);
+
+    expect(result.props).toEqual({
+      title: "Ada's orders",
+      color: 'error',
+      stats: [{ label: 'Region', value: 'EU' }, { value: undefined }],
+      size: 'small',
+    });
+    expect(result.issues).toEqual([
+      { path: 'stats[1].value', template: '{{ missing }}', message: '"missing" is not defined' },
+    ]);
+
+    const plain = { title: 'Orders', stats: [{ value: 1 }] };
+    expect(resolveBindings(plain, scope).props).toBe(plain);
+  });
+});
+
+describe('getExpressionCompletions', () => {
+  const data: DataShape = {
+    type: 'object',
+    fields: {
+      title: { type: 'string' },
+      trend: { type: 'number' },
+      user: {
+        type: 'object',
+        properties: { name: { type: 'string' }, age: { type: 'number' } },
+      },
+    },
+  };
+
+  it('should offer names in scope for an open binding', () => {
+    expect(getExpressionCompletions('Hello {{ user.name }}', { data })).toBeNull();
+
+    const nested = getExpressionCompletions('Hello {{ user.n', { data });
+    expect(nested?.from).toBe(14);
+    expect(nested?.completions.map((completion) => completion.label)).toEqual(['name']);
+
+    const root = getExpressionCompletions('{{ t', { data }, 'number');
+    expect(root?.completions.map((completion) => completion.insert)).toEqual([
+      'trend',
+      'title',
+      'trim(',
+    ]);
+  });
+
+  it('should use params and state shapes', () => {
+    const result = getExpressionCompletions(
+      '{{ params.',
+      {
+        params: { type: 'object', fields: { region: { type: 'string' } } },
+      },
+      'string'
+    );
+    expect(result?.completions).toEqual([
+      { label: 'region', insert: 'region', type: 'string', matchesType: true },
+    ]);
+  });
+});
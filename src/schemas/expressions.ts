@@ -0,0 +1,892 @@
+/**
+ * Sandboxed expressions for binding component props
+ *
+ * A prop value such as `"{{user.name}}'s orders"` is a template: literal text
+ * with `{{ expression }}` parts evaluated against an {@link ExpressionScope}.
+ * Expressions are parsed into a small syntax tree and interpreted, never
+ * compiled to JavaScript, so they can only read own properties of scope values
+ * and call the functions in `expressionFunctions`.
+ */
+
+import { shapeToField } from './transforms';
+import { DataShape, FieldSchema, FieldType } from './types';
+
+export interface ExpressionScope {
+  // Data fetched for the instance; its fields can also be read unqualified
+  data?: unknown;
+  // Parameters of the current page route
+  params?: Record<string, unknown>;
+  // Application state shared between pages
+  state?: Record<string, unknown>;
+  // First argument of the handler running an action
+  event?: unknown;
+}
+
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '&&'
+  | '||'
+  | '??';
+
+export type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'name'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; optional: boolean }
+  | { type: 'call'; callee: string; args: ExpressionNode[] }
+  | { type: 'unary'; operator: '!' | '-'; argument: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | {
+      type: 'conditional';
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    }
+  | { type: 'array'; elements: ExpressionNode[] };
+
+/**
+ * An expression could not be parsed or evaluated; `position` is the offset
+ * in the expression source for syntax errors
+ */
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly position?: number
+  ) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+export interface ExpressionFunction {
+  signature: string;
+  returns: FieldType;
+  call: (...args: unknown[]) => unknown;
+}
+
+// Names that always refer to the scope rather than to a data field
+const scopeRoots = ['data', 'params', 'state', 'event'] as const;
+
+function hasOwn(value: object, key: PropertyKey): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' ? value : Number(value);
+}
+
+/**
+ * Text for a value interpolated into a template; missing values are empty
+ */
+export function toText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+function toList(values: unknown[]): unknown[] {
+  return values.flatMap((value) => (Array.isArray(value) ? (value as unknown[]) : [value]));
+}
+
+function numbers(values: unknown[]): number[] {
+  return toList(values)
+    .filter((value) => value !== undefined && value !== null && value !== '')
+    .map(toNumber)
+    .filter((value) => !Number.isNaN(value));
+}
+
+export const expressionFunctions: Record<string, ExpressionFunction> = {
+  upper: {
+    signature: 'upper(text)',
+    returns: 'string',
+    call: (value) => toText(value).toUpperCase(),
+  },
+  lower: {
+    signature: 'lower(text)',
+    returns: 'string',
+    call: (value) => toText(value).toLowerCase(),
+  },
+  trim: {
+    signature: 'trim(text)',
+    returns: 'string',
+    call: (value) => toText(value).trim(),
+  },
+  length: {
+    signature: 'length(list | text)',
+    returns: 'number',
+    call: (value) => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+  },
+  round: {
+    signature: 'round(number, digits?)',
+    returns: 'number',
+    call: (value, digits) => {
+      const factor = 10 ** (digits === undefined ? 0 : toNumber(digits));
+      return Math.round(toNumber(value) * factor) / factor;
+    },
+  },
+  floor: {
+    signature: 'floor(number)',
+    returns: 'number',
+    call: (value) => Math.floor(toNumber(value)),
+  },
+  ceil: {
+    signature: 'ceil(number)',
+    returns: 'number',
+    call: (value) => Math.ceil(toNumber(value)),
+  },
+  abs: {
+    signature: 'abs(number)',
+    returns: 'number',
+    call: (value) => Math.abs(toNumber(value)),
+  },
+  min: {
+    signature: 'min(...numbers)',
+    returns: 'number',
+    call: (...values) => {
+      const list = numbers(values);
+      return list.length > 0 ? Math.min(...list) : null;
+    },
+  },
+  max: {
+    signature: 'max(...numbers)',
+    returns: 'number',
+    call: (...values) => {
+      const list = numbers(values);
+      return list.length > 0 ? Math.max(...list) : null;
+    },
+  },
+  sum: {
+    signature: 'sum(...numbers)',
+    returns: 'number',
+    call: (...values) => numbers(values).reduce((total, value) => total + value, 0),
+  },
+  join: {
+    signature: 'join(list, separator?)',
+    returns: 'string',
+    call: (list, separator) =>
+      toList([list])
+        .map(toText)
+        .join(separator === undefined ? ', ' : toText(separator)),
+  },
+  includes: {
+    signature: 'includes(list | text, value)',
+    returns: 'boolean',
+    call: (list, value) =>
+      typeof list === 'string' ? list.includes(toText(value)) : toList([list]).includes(value),
+  },
+  string: {
+    signature: 'string(value)',
+    returns: 'string',
+    call: (value) => toText(value),
+  },
+  number: {
+    signature: 'number(value)',
+    returns: 'number',
+    call: (value) => toNumber(value),
+  },
+};
+
+// Parsing
+
+type Token =
+  | { type: 'number'; value: number; start: number }
+  | { type: 'string'; value: string; start: number }
+  | { type: 'name'; value: string; start: number }
+  | { type: 'punct'; value: string; start: number }
+  | { type: 'end'; start: number };
+
+// Longest first so `===` is not read as `==` followed by `=`
+const punctuators = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '??',
+  '?.',
+  '<',
+  '>',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '!',
+  '?',
+  ':',
+  '.',
+  ',',
+  '(',
+  ')',
+  '[',
+  ']',
+];
+
+const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const rest = source.slice(index);
+    const number = /^(\d+(\.\d+)?|\.\d+)/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), start: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_$][\w$]*/.exec(rest);
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], start: index });
+      index += name[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = index;
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          index++;
+          value += escapes[source[index]] ?? source[index];
+        } else {
+          value += source[index];
+        }
+        index++;
+      }
+      if (index >= source.length) {
+        throw new ExpressionError('Unterminated string', start);
+      }
+      index++;
+      tokens.push({ type: 'string', value, start });
+      continue;
+    }
+
+    const punct = punctuators.find((candidate) => rest.startsWith(candidate));
+    if (!punct) {
+      throw new ExpressionError(`Unexpected character "${char}"`, index);
+    }
+    tokens.push({ type: 'punct', value: punct, start: index });
+    index += punct.length;
+  }
+
+  tokens.push({ type: 'end', start: source.length });
+  return tokens;
+}
+
+const precedence: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4,
+  '!=': 4,
+  '===': 4,
+  '!==': 4,
+  '<': 5,
+  '<=': 5,
+  '>': 5,
+  '>=': 5,
+  '+': 6,
+  '-': 6,
+  '*': 7,
+  '/': 7,
+  '%': 7,
+};
+
+function describeToken(token: Token): string {
+  if (token.type === 'end') {
+    return 'end of expression';
+  }
+  return token.type === 'string' ? `"'${token.value}'"` : `"${String(token.value)}"`;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.conditional();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new ExpressionError(`Unexpected ${describeToken(token)}`, token.start);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.peek();
+    if (!this.isPunct(value)) {
+      throw new ExpressionError(
+        `Expected "${value}" but found ${describeToken(token)}`,
+        token.start
+      );
+    }
+    this.index++;
+  }
+
+  private conditional(): ExpressionNode {
+    const test = this.binary(1);
+    if (!this.isPunct('?')) {
+      return test;
+    }
+    this.index++;
+    const consequent = this.conditional();
+    this.expect(':');
+    const alternate = this.conditional();
+    return { type: 'conditional', test, consequent, alternate };
+  }
+
+  // Precedence climbing; every binary operator is left-associative
+  private binary(minPrecedence: number): ExpressionNode {
+    let left = this.unary();
+    for (;;) {
+      const token = this.peek();
+      const level = token.type === 'punct' ? precedence[token.value] : undefined;
+      if (token.type !== 'punct' || level === undefined || level < minPrecedence) {
+        return left;
+      }
+      this.index++;
+      const right = this.binary(level + 1);
+      const operator = token.value.replace(/^(==|!=)=$/, '$1') as BinaryOperator;
+      left = { type: 'binary', operator, left, right };
+    }
+  }
+
+  private unary(): ExpressionNode {
+    if (this.isPunct('!') || this.isPunct('-')) {
+      const operator = (this.peek() as { value: '!' | '-' }).value;
+      this.index++;
+      return { type: 'unary', operator, argument: this.unary() };
+    }
+    return this.postfix();
+  }
+
+  private postfix(): ExpressionNode {
+    let node = this.primary();
+    for (;;) {
+      const optional = this.isPunct('?.');
+      if (optional || this.isPunct('.')) {
+        this.index++;
+        if (optional && this.isPunct('[')) {
+          node = this.computedMember(node, true);
+          continue;
+        }
+        const token = this.peek();
+        if (token.type !== 'name') {
+          throw new ExpressionError(
+            `Expected a property name but found ${describeToken(token)}`,
+            token.start
+          );
+        }
+        this.index++;
+        node = {
+          type: 'member',
+          object: node,
+          property: { type: 'literal', value: token.value },
+          optional,
+        };
+      } else if (this.isPunct('[')) {
+        node = this.computedMember(node, false);
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private computedMember(object: ExpressionNode, optional: boolean): ExpressionNode {
+    this.expect('[');
+    const property = this.conditional();
+    this.expect(']');
+    return { type: 'member', object, property, optional };
+  }
+
+  private list(close: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    while (!this.isPunct(close)) {
+      items.push(this.conditional());
+      if (!this.isPunct(close)) {
+        this.expect(',');
+      }
+    }
+    this.index++;
+    return items;
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'name':
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'literal', value: token.value === 'true' };
+        }
+        if (token.value === 'null') {
+          return { type: 'literal', value: null };
+        }
+        if (this.isPunct('(')) {
+          if (!hasOwn(expressionFunctions, token.value)) {
+            throw new ExpressionError(`Unknown function "${token.value}"`, token.start);
+          }
+          this.index++;
+          return { type: 'call', callee: token.value, args: this.list(')') };
+        }
+        return { type: 'name', name: token.value };
+      case 'punct':
+        if (token.value === '(') {
+          const node = this.conditional();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { type: 'array', elements: this.list(']') };
+        }
+        break;
+      case 'end':
+        break;
+    }
+    throw new ExpressionError(`Unexpected ${describeToken(token)}`, token.start);
+  }
+}
+
+// Parsed expressions by source, least recently used first
+const parsed = new Map<string, ExpressionNode>();
+export const PARSE_CACHE_SIZE = 500;
+
+/**
+ * Parse an expression (the text between `{{` and `}}`); the most recently
+ * used results are cached
+ */
+export function parseExpression(source: string): ExpressionNode {
+  let node = parsed.get(source);
+  if (node) {
+    parsed.delete(source);
+  } else {
+    if (!source.trim()) {
+      throw new ExpressionError('Expression is empty', 0);
+    }
+    node = new Parser(tokenize(source)).parse();
+    if (parsed.size >= PARSE_CACHE_SIZE) {
+      parsed.delete(parsed.keys().next().value as string);
+    }
+  }
+  parsed.set(source, node);
+  return node;
+}
+
+// Evaluation
+
+// Result of an optional access on a missing value; ends the whole chain
+const skipped = Symbol('skipped');
+
+function readProperty(object: unknown, key: unknown): unknown {
+  if (typeof key !== 'string' && typeof key !== 'number') {
+    return undefined;
+  }
+  if (key === 'length' && (typeof object === 'string' || Array.isArray(object))) {
+    return object.length;
+  }
+  if (typeof object === 'object' && object !== null && hasOwn(object, key)) {
+    return (object as Record<string | number, unknown>)[key];
+  }
+  return undefined;
+}
+
+function readName(name: string, scope: ExpressionScope): unknown {
+  if ((scopeRoots as readonly string[]).includes(name)) {
+    return scope[name as (typeof scopeRoots)[number]];
+  }
+  const { data } = scope;
+  if (typeof data === 'object' && data !== null && !Array.isArray(data) && hasOwn(data, name)) {
+    return (data as Record<string, unknown>)[name];
+  }
+  throw new ExpressionError(`"${name}" is not defined`);
+}
+
+function compare(operator: '<' | '<=' | '>' | '>=', left: unknown, right: unknown): boolean {
+  const [a, b] =
+    typeof left === 'string' && typeof right === 'string'
+      ? [left, right]
+      : [toNumber(left), toNumber(right)];
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+function evaluateChain(node: ExpressionNode, scope: ExpressionScope): unknown {
+  if (node.type !== 'member') {
+    return evaluateNode(node, scope);
+  }
+  const object = evaluateChain(node.object, scope);
+  if (object === skipped) {
+    return skipped;
+  }
+  const key = evaluateNode(node.property, scope);
+  if (object === undefined || object === null) {
+    if (node.optional) {
+      return skipped;
+    }
+    throw new ExpressionError(`Cannot read "${toText(key)}" of ${String(object)}`);
+  }
+  return readProperty(object, key);
+}
+
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'name':
+      return readName(node.name, scope);
+    case 'member': {
+      const value = evaluateChain(node, scope);
+      return value === skipped ? undefined : value;
+    }
+    case 'call':
+      return expressionFunctions[node.callee].call(
+        ...node.args.map((arg) => evaluateNode(arg, scope))
+      );
+    case 'unary': {
+      const value = evaluateNode(node.argument, scope);
+      return node.operator === '!' ? !value : -toNumber(value);
+    }
+    case 'conditional':
+      return evaluateNode(node.test, scope)
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+    case 'array':
+      return node.elements.map((element) => evaluateNode(element, scope));
+    case 'binary':
+      break;
+  }
+
+  const left = evaluateNode(node.left, scope);
+  switch (node.operator) {
+    case '&&':
+      return left ? evaluateNode(node.right, scope) : left;
+    case '||':
+      return left ? left : evaluateNode(node.right, scope);
+    case '??':
+      return left ?? evaluateNode(node.right, scope);
+  }
+
+  const right = evaluateNode(node.right, scope);
+  switch (node.operator) {
+    case '+':
+      return typeof left === 'string' || typeof right === 'string'
+        ? toText(left) + toText(right)
+        : toNumber(left) + toNumber(right);
+    case '-':
+      return toNumber(left) - toNumber(right);
+    case '*':
+      return toNumber(left) * toNumber(right);
+    case '/':
+      return toNumber(left) / toNumber(right);
+    case '%':
+      return toNumber(left) % toNumber(right);
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    default:
+      return compare(node.operator, left, right);
+  }
+}
+
+/**
+ * Evaluate an expression against a scope
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): unknown {
+  return evaluateNode(parseExpression(source), scope);
+}
+
+// Templates
+
+export type TemplatePart = { text: string } | { expression: string; start: number };
+
+/**
+ * True for prop values that contain `{{ }}` bindings
+ */
+export function isBinding(value: unknown): value is string {
+  return typeof value === 'string' && value.includes('{{');
+}
+
+/**
+ * Split a template into literal text and expression sources
+ */
+export function parseTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let index = 0;
+  while (index < template.length) {
+    const open = template.indexOf('{{', index);
+    if (open === -1) {
+      parts.push({ text: template.slice(index) });
+      break;
+    }
+    if (open > index) {
+      parts.push({ text: template.slice(index, open) });
+    }
+    const close = template.indexOf('}}', open + 2);
+    if (close === -1) {
+      throw new ExpressionError('Missing "}}" after "{{"', open);
+    }
+    parts.push({ expression: template.slice(open + 2, close), start: open + 2 });
+    index = close + 2;
+  }
+  return parts;
+}
+
+/**
+ * Syntax error in a template, with its position in the template, or null
+ */
+export function checkTemplate(template: string): ExpressionError | null {
+  try {
+    for (const part of parseTemplate(template)) {
+      if ('expression' in part) {
+        try {
+          parseExpression(part.expression);
+        } catch (error) {
+          if (error instanceof ExpressionError) {
+            throw new ExpressionError(error.message, part.start + (error.position ?? 0));
+          }
+          throw error;
+        }
+      }
+    }
+    return null;
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Evaluate a template. A template that is a single `{{ }}` part keeps the
+ * type of its value, so `"{{ trend > 0 ? 'success' : 'error' }}"` or
+ * `"{{ items.length }}"` can feed non-string props; anything else is text.
+ */
+export function evaluateTemplate(template: string, scope: ExpressionScope): unknown {
+  const parts = parseTemplate(template);
+  if (parts.length === 1 && 'expression' in parts[0]) {
+    return evaluateExpression(parts[0].expression, scope);
+  }
+  return parts
+    .map((part) =>
+      'text' in part ? part.text : toText(evaluateExpression(part.expression, scope))
+    )
+    .join('');
+}
+
+export interface BindingIssue {
+  // Prop path, e.g. `title` or `stats[0].label`
+  path: string;
+  template: string;
+  message: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Evaluate every binding in a set of props, including inside arrays and plain
+ * objects. Failed bindings resolve to undefined and are listed in `issues`;
+ * values without bindings are returned as they are.
+ */
+export function resolveBindings<T extends Record<string, unknown>>(
+  props: T,
+  scope: ExpressionScope
+): { props: T; issues: BindingIssue[] } {
+  const issues: BindingIssue[] = [];
+
+  const resolve = (value: unknown, path: string): unknown => {
+    if (isBinding(value)) {
+      try {
+        return evaluateTemplate(value, scope);
+      } catch (error) {
+        issues.push({
+          path,
+          template: value,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        return undefined;
+      }
+    }
+    if (Array.isArray(value)) {
+      const items = value.map((item, index) => resolve(item, `${path}[${index}]`));
+      return items.every((item, index) => item === value[index]) ? value : items;
+    }
+    if (isPlainObject(value)) {
+      let changed = false;
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = resolve(item, path ? `${path}.${key}` : key);
+        changed = changed || result[key] !== item;
+      }
+      return changed ? result : value;
+    }
+    return value;
+  };
+
+  return { props: resolve(props, '') as T, issues };
+}
+
+// Autocomplete
+
+export interface ExpressionScopeShape {
+  data?: DataShape;
+  params?: DataShape;
+  state?: DataShape;
+}
+
+export interface ExpressionCompletion {
+  label: string;
+  // Replaces the partial name before the cursor
+  insert: string;
+  type: FieldType | 'function';
+  detail?: string;
+  // The value has the type the prop expects
+  matchesType: boolean;
+}
+
+function resolveField(field: FieldSchema | undefined): FieldSchema | undefined {
+  return field?.$ref
+    ? shapeToField({ type: field.type === 'array' ? 'array' : 'object', $ref: field.$ref })
+    : field;
+}
+
+function fieldsOf(field: FieldSchema | undefined): Record<string, FieldSchema> {
+  const resolved = resolveField(field);
+  if (resolved?.type === 'array') {
+    return { length: { type: 'number' } };
+  }
+  return resolved?.type === 'object' ? (resolved.properties ?? {}) : {};
+}
+
+/**
+ * Completions for the name being typed at the end of `text`, when it ends
+ * inside an open `{{`. Names come from the scope shapes; with `expectedType`
+ * the ones producing that type are listed first.
+ */
+export function getExpressionCompletions(
+  text: string,
+  shape: ExpressionScopeShape,
+  expectedType?: FieldType
+): { from: number; completions: ExpressionCompletion[] } | null {
+  const open = text.lastIndexOf('{{');
+  if (open === -1 || text.includes('}}', open)) {
+    return null;
+  }
+
+  const token = /(?:[A-Za-z_$][\w$]*\??\.)*[\w$]*$/.exec(text.slice(open + 2))?.[0] ?? '';
+  const dot = token.lastIndexOf('.');
+  const parentPath = dot === -1 ? [] : token.slice(0, dot).replace(/\?$/, '').split(/\??\./);
+  const partial = token.slice(dot + 1);
+
+  const roots: Record<string, FieldSchema> = {
+    data: shapeToField(shape.data),
+    params: shapeToField(shape.params),
+    state: shapeToField(shape.state),
+  };
+
+  const candidates: ExpressionCompletion[] = [];
+  const addFields = (fields: Record<string, FieldSchema>): void => {
+    for (const [name, field] of Object.entries(fields)) {
+      candidates.push({
+        label: name,
+        insert: name,
+        type: field.type,
+        detail: field.description,
+        matchesType: field.type === expectedType,
+      });
+    }
+  };
+
+  if (parentPath.length === 0) {
+    addFields(roots);
+    addFields(fieldsOf(roots.data));
+    for (const [name, fn] of Object.entries(expressionFunctions)) {
+      candidates.push({
+        label: fn.signature,
+        insert: `${name}(`,
+        type: 'function',
+        detail: `Returns ${fn.returns}`,
+        matchesType: fn.returns === expectedType,
+      });
+    }
+  } else {
+    const [root, ...rest] = parentPath;
+    let field: FieldSchema | undefined = hasOwn(roots, root)
+      ? roots[root]
+      : fieldsOf(roots.data)[root];
+    for (const key of rest) {
+      field = fieldsOf(field)[key];
+    }
+    addFields(fieldsOf(field));
+  }
+
+  const prefix = partial.toLowerCase();
+  const seen = new Set<string>();
+  const completions = candidates.filter((candidate) => {
+    const key = `${candidate.label}:${candidate.type}`;
+    if (seen.has(key) || !candidate.insert.toLowerCase().startsWith(prefix)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  completions.sort((a, b) => Number(b.matchesType) - Number(a.matchesType));
+
+  return { from: text.length - partial.length, completions };
+}
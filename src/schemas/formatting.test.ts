@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { fieldFormats, formatValue, registerFormat, unregisterFormat } from './formatting';
+import { DataShape } from './types';
+
+const us = { locale: 'en-US', timeZone: 'UTC' };
+
+// ICU versions differ in which spaces they use
+const plain = (text: string): string => text.replace(/\s/g, ' ');
+
+describe('formatValue', () => {
+  afterEach(() => {
+    unregisterFormat('shout');
+    unregisterFormat('phone');
+  });
+
+  it('formats currency and percentages with the configured locale', () => {
+    expect(formatValue(1234.5, 'currency', us)).toBe('$1,234.50');
+    expect(formatValue('99', 'currency', { ...us, currency: 'EUR' })).toBe('€99.00');
+    expect(plain(formatValue(1234.5, 'currency', { locale: 'de-DE', currency: 'EUR' }))).toBe(
+      '1.234,50 €'
+    );
+    expect(formatValue(0.256, 'percentage', us)).toBe('25.6%');
+  });
+
+  it('formats dates in the configured time zone', () => {
+    const date = '2024-03-05T23:30:00Z';
+    expect(plain(formatValue(date, 'datetime', us))).toBe('Mar 5, 2024, 11:30 PM');
+    expect(plain(formatValue(date, 'datetime', { ...us, timeZone: 'Asia/Tokyo' }))).toBe(
+      'Mar 6, 2024, 8:30 AM'
+    );
+    expect(plain(formatValue(new Date(date), undefined, us))).toBe('Mar 5, 2024, 11:30 PM');
+  });
+
+  it('formats phone numbers and leaves other values as written', () => {
+    expect(formatValue('5551234567', 'phone')).toBe('(555) 123-4567');
+    expect(formatValue('+1 555 123 4567', 'phone')).toBe('+1 (555) 123-4567');
+    expect(formatValue('+44 20 7946 0958', 'phone')).toBe('+44 20 7946 0958');
+    expect(formatValue('n/a', 'currency', us)).toBe('n/a');
+    expect(formatValue(42, 'unknown')).toBe('42');
+    expect(formatValue(null, 'currency')).toBe('');
+  });
+
+  it('shows values as written when the runtime options are invalid', () => {
+    expect(formatValue(1234.5, 'currency', { ...us, currency: 'DOLLARS' })).toBe('1234.5');
+    expect(formatValue(0.5, 'percentage', { locale: 'not a locale' })).toBe('0.5');
+    const date = '2024-03-05T23:30:00Z';
+    expect(formatValue(date, 'datetime', { ...us, timeZone: 'Mars/Olympus' })).toBe(date);
+  });
+
+  it('lets a spec override the runtime options', () => {
+    expect(formatValue(10, { format: 'currency', currency: 'JPY' }, us)).toBe('¥10');
+  });
+
+  it('uses registered formats, including replacements for built-ins', () => {
+    registerFormat('shout', (value) => `${String(value).toUpperCase()}!`);
+    registerFormat('phone', (value) => `tel:${String(value)}`);
+
+    expect(formatValue('hi', 'shout')).toBe('HI!');
+    expect(formatValue('5551234567', 'phone')).toBe('tel:5551234567');
+  });
+});
+
+describe('fieldFormats', () => {
+  it('collects formats from item shapes and nested rows', () => {
+    const shape: DataShape = {
+      type: 'object',
+      fields: {
+        total: { type: 'number', format: 'currency' },
+        rows: {
+          type: 'array',
+          itemType: {
+            type: 'object',
+            properties: {
+              rate: { type: 'number', format: 'percentage' },
+              total: { type: 'number', format: 'percentage' },
+            },
+          },
+        },
+      },
+    };
+
+    expect(fieldFormats(shape)).toEqual({ total: 'currency', rate: 'percentage' });
+    expect(
+      fieldFormats({
+        type: 'array',
+        itemShape: { type: 'object', fields: { at: { type: 'date', format: 'datetime' } } },
+      })
+    ).toEqual({ at: 'datetime' });
+  });
+});
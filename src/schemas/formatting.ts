@@ -0,0 +1,200 @@
+/**
+ * Locale-aware display formatting for field values
+ *
+ * Fields declare a {@link FieldFormat}; displays look up the formatter for it
+ * and render the value with `Intl`, using the locale, currency and time zone
+ * from the {@link RuntimeConfig}. Apps can register their own formats, or
+ * replace a built-in one, with `registerFormat`.
+ */
+
+import { DataShape, FieldFormat, RuntimeConfig } from './types';
+
+export type FormatOptions = Pick<RuntimeConfig, 'locale' | 'currency' | 'timeZone'>;
+
+// A built-in FieldFormat or the name of a registered custom format
+export type FormatName = string;
+
+// Format to use for a value, optionally overriding the runtime options
+export type FormatSpec = FormatName | ({ format: FormatName } & FormatOptions);
+
+export type Formatter = (value: unknown, options: FormatOptions) => string;
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Intl formatters are expensive to create, so share them per locale and options
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+function numberFormat(
+  locale: string | undefined,
+  options: Intl.NumberFormatOptions
+): Intl.NumberFormat {
+  const key = JSON.stringify([locale, options]);
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormats.set(key, format);
+  }
+  return format;
+}
+
+function dateFormat(
+  locale: string | undefined,
+  options: Intl.DateTimeFormatOptions
+): Intl.DateTimeFormat {
+  const key = JSON.stringify([locale, options]);
+  let format = dateFormats.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, options);
+    dateFormats.set(key, format);
+  }
+  return format;
+}
+
+// Intl throws a RangeError for a locale, currency or time zone it does not
+// know; a misconfigured app shows the value as written instead of crashing
+function withIntl(value: unknown, format: () => string): string {
+  try {
+    return format();
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return String(value);
+    }
+    throw error;
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+function toDate(value: unknown): Date | null {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === 'string' || typeof value === 'number'
+        ? new Date(value)
+        : null;
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+function formatPhone(value: unknown): string {
+  const text = String(value);
+  const digits = text.replace(/\D/g, '');
+  if (digits.length === 10) {
+    return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+  }
+  if (digits.length === 11 && digits.startsWith('1')) {
+    return `+1 (${digits.slice(1, 4)}) ${digits.slice(4, 7)}-${digits.slice(7)}`;
+  }
+  // Unknown numbering plan; leave it as written
+  return text;
+}
+
+// Values a formatter cannot interpret are shown as plain text
+const builtInFormats: Record<FieldFormat, Formatter> = {
+  email: (value) => String(value),
+  url: (value) => String(value),
+  phone: formatPhone,
+  currency: (value, { locale, currency }) => {
+    const number = toNumber(value);
+    return number === null
+      ? String(value)
+      : withIntl(value, () =>
+          numberFormat(locale, {
+            style: 'currency',
+            currency: currency ?? DEFAULT_CURRENCY,
+          }).format(number)
+        );
+  },
+  // Values are fractions, so 0.25 is shown as 25%
+  percentage: (value, { locale }) => {
+    const number = toNumber(value);
+    return number === null
+      ? String(value)
+      : withIntl(value, () =>
+          numberFormat(locale, { style: 'percent', maximumFractionDigits: 2 }).format(number)
+        );
+  },
+  datetime: (value, { locale, timeZone }) => {
+    const date = toDate(value);
+    return date === null
+      ? String(value)
+      : withIntl(value, () =>
+          dateFormat(locale, { dateStyle: 'medium', timeStyle: 'short', timeZone }).format(date)
+        );
+  },
+};
+
+const customFormats = new Map<FormatName, Formatter>();
+
+/**
+ * Register a formatter under a name usable wherever a format is accepted.
+ * Registering a built-in name replaces the built-in formatter.
+ */
+export function registerFormat(name: FormatName, formatter: Formatter): void {
+  customFormats.set(name, formatter);
+}
+
+export function unregisterFormat(name: FormatName): void {
+  customFormats.delete(name);
+}
+
+export function getFormatter(name: FormatName): Formatter | undefined {
+  const custom = customFormats.get(name);
+  if (custom) {
+    return custom;
+  }
+  return Object.prototype.hasOwnProperty.call(builtInFormats, name)
+    ? builtInFormats[name as FieldFormat]
+    : undefined;
+}
+
+/**
+ * Format a value for display. Without a format, dates use `datetime` and
+ * other values are converted to text as-is, as they are for unknown
+ * formats; null and undefined become ''.
+ */
+export function formatValue(
+  value: unknown,
+  spec?: FormatSpec,
+  options: FormatOptions = {}
+): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const { format = value instanceof Date ? 'datetime' : undefined, ...overrides } =
+    typeof spec === 'string' ? { format: spec } : (spec ?? {});
+  const formatter = format === undefined ? undefined : getFormatter(format);
+  if (!formatter) {
+    return String(value);
+  }
+  return formatter(value, { ...options, ...overrides });
+}
+
+/**
+ * Formats declared by a shape's fields, keyed by field name. Array shapes
+ * use their item shape, and the properties of array-of-object fields (e.g.
+ * the `rows` of table data) are included when their names are free.
+ */
+export function fieldFormats(shape: DataShape | undefined): Record<string, FieldFormat> {
+  const formats: Record<string, FieldFormat> = {};
+  const record = shape?.type === 'array' ? shape.itemShape : shape;
+  const nested: Record<string, FieldFormat> = {};
+
+  for (const [name, field] of Object.entries(record?.fields ?? {})) {
+    if (field.format) {
+      formats[name] = field.format;
+    }
+    const properties = field.type === 'array' ? field.itemType?.properties : field.properties;
+    for (const [property, child] of Object.entries(properties ?? {})) {
+      if (child.format) {
+        nested[property] = child.format;
+      }
+    }
+  }
+
+  return { ...nested, ...formats };
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+  JSON_SCHEMA_DIALECT,
+  JsonSchema,
+  componentPropsToJsonSchema,
+  fromJsonSchema,
+  toJsonSchema,
+} from './jsonSchema';
+import { commonDataShapes } from './registry';
+import { DataShape } from './types';
+import { validateData } from './validation';
+
+const userContract: JsonSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  title: 'User',
+  type: 'object',
+  required: ['id', 'email'],
+  properties: {
+    id: { type: 'string', pattern: '^u_' },
+    email: { type: 'string', format: 'email' },
+    site: { type: 'string', format: 'uri' },
+    birthday: { type: 'string', format: 'date' },
+    role: { enum: ['admin', 'user'] },
+    age: { type: 'number', minimum: 0, maximum: 150 },
+    tags: { type: 'array', items: { type: 'string', maxLength: 20 }, maxItems: 5 },
+  },
+};
+
+describe('jsonSchema', () => {
+  it('should import objects, arrays, enums, formats, ranges and required', () => {
+    const { shape, issues } = fromJsonSchema(userContract);
+
+    expect(issues).toEqual([]);
+    expect(shape).toEqual({
+      type: 'object',
+      required: ['id', 'email'],
+      fields: {
+        id: { type: 'string', pattern: '^u_', required: true },
+        email: { type: 'string', format: 'email', required: true },
+        site: { type: 'string', format: 'url' },
+        birthday: { type: 'date' },
+        role: { type: 'string', enum: ['admin', 'user'] },
+        age: { type: 'number', min: 0, max: 150 },
+        tags: { type: 'array', itemType: { type: 'string', maxLength: 20 }, maxItems: 5 },
+      },
+    });
+    expect(validateData({ id: 'u_1', email: 'a@b.co', age: 200 }, shape).errors).toEqual([
+      { path: 'age', message: 'Value 200 exceeds maximum 150', value: 200 },
+    ]);
+  });
+
+  it('should report constructs that cannot be mapped', () => {
+    const { shape, issues } = fromJsonSchema({
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          count: { type: ['integer', 'null'] },
+          kind: { allOf: [{ const: 'a' }, { const: 'b' }] },
+          code: { type: 'string', format: 'ipv4' },
+          owner: { $ref: '#/definitions/user' },
+        },
+      },
+    });
+
+    expect(shape.itemShape?.fields?.count).toEqual({ type: 'number', nullable: true });
+    expect(issues).toEqual([
+      {
+        path: 'items.additionalProperties',
+        message: 'Keyword "additionalProperties" is not supported',
+      },
+      { path: 'items.properties.count', message: 'Integer type imported as number' },
+      { path: 'items.properties.kind.allOf', message: 'Keyword "allOf" is not supported' },
+      { path: 'items.properties.kind', message: 'Schema has no type; imported as string' },
+      { path: 'items.properties.code.format', message: 'Format "ipv4" is not supported' },
+      {
+        path: 'items.properties.owner.$ref',
+        message: 'Only references into $defs are supported, not "#/definitions/user"',
+      },
+    ]);
+  });
+
+  it('should export a DataShape and round-trip it', () => {
+    const { schema, issues } = toJsonSchema(commonDataShapes.user, { title: 'User' });
+
+    expect(issues).toEqual([]);
+    expect(schema).toMatchObject({
+      $schema: JSON_SCHEMA_DIALECT,
+      title: 'User',
+      type: 'object',
+      required: ['id', 'name', 'email'],
+      properties: {
+        email: { type: 'string', format: 'email' },
+        avatar: { type: 'string', format: 'uri' },
+        createdAt: { type: 'string', format: 'date-time' },
+      },
+    });
+
+    const roundTrip = fromJsonSchema(toJsonSchema(commonDataShapes.stats).schema);
+    expect(roundTrip.issues).toEqual([]);
+    expect(roundTrip.shape).toEqual(commonDataShapes.stats);
+  });
+
+  it('should flag non-standard formats on export', () => {
+    const { schema, issues } = toJsonSchema({
+      type: 'object',
+      fields: { price: { type: 'string', format: 'currency' } },
+    });
+
+    expect(schema.properties?.price).toEqual({ type: 'string', format: 'currency' });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('fields.price.format');
+  });
+
+  it('should export nullable and union fields', () => {
+    const { schema, issues } = toJsonSchema({
+      type: 'object',
+      fields: {
+        status: { type: 'string', enum: ['on', 'off'], nullable: true },
+        value: { type: 'union', nullable: true, anyOf: [{ type: 'number' }, { type: 'date' }] },
+      },
+    });
+
+    expect(issues).toEqual([]);
+    expect(schema.properties).toEqual({
+      status: { type: ['string', 'null'], enum: ['on', 'off', null] },
+      value: {
+        anyOf: [{ type: 'number' }, { type: 'string', format: 'date-time' }, { type: 'null' }],
+      },
+    });
+  });
+
+  it('should import nullable, union and reference fields as they export', () => {
+    const shape: DataShape = {
+      type: 'object',
+      fields: {
+        status: { type: 'string', enum: ['on', 'off'], nullable: true },
+        due: { type: 'date', nullable: true },
+        value: { type: 'union', nullable: true, anyOf: [{ type: 'number' }, { type: 'date' }] },
+        event: {
+          type: 'union',
+          oneOf: [
+            { type: 'object', properties: { kind: { type: 'string', enum: ['click'] } } },
+            { type: 'object', properties: { kind: { type: 'string', enum: ['key'] } } },
+          ],
+        },
+        menu: { type: 'array', $ref: 'navigation', required: true },
+        author: { type: 'object', $ref: 'user', nullable: true },
+      },
+      required: ['menu'],
+    };
+
+    const roundTrip = fromJsonSchema(toJsonSchema(shape).schema);
+    expect(roundTrip.issues).toEqual([]);
+    expect(roundTrip.shape).toEqual(shape);
+    expect(roundTrip.definitions).toEqual({
+      navigation: commonDataShapes.navigation,
+      user: commonDataShapes.user,
+    });
+  });
+
+  it('should round-trip every common data shape', () => {
+    for (const [name, shape] of Object.entries(commonDataShapes)) {
+      const { shape: imported, definitions, issues } = fromJsonSchema(toJsonSchema(shape).schema);
+      expect(issues, name).toEqual([]);
+      expect(imported, name).toEqual(shape);
+      for (const [ref, definition] of Object.entries(definitions)) {
+        expect(definition, `${name} $defs.${ref}`).toEqual(commonDataShapes[ref]);
+      }
+    }
+  });
+
+  it('should export shape references into $defs', () => {
+    const { schema, issues } = toJsonSchema({
+      type: 'object',
+      fields: {
+        menu: { type: 'array', $ref: 'navigation' },
+        owner: { type: 'object', $ref: 'missing' },
+      },
+    });
+
+    expect(schema.properties).toEqual({
+      menu: { $ref: '#/$defs/navigation' },
+      owner: { $ref: '#/$defs/missing' },
+    });
+    expect(Object.keys(schema.$defs ?? {})).toEqual(['navigation', 'missing']);
+    expect(schema.$defs?.navigation.items?.properties?.children).toEqual({
+      $ref: '#/$defs/navigation',
+    });
+    expect(issues).toEqual([
+      { path: '$defs.missing', message: 'Unknown shape reference "missing"' },
+    ]);
+  });
+
+  it('should publish component props as a JSON Schema contract', () => {
+    const { schema, issues } = componentPropsToJsonSchema({
+      id: 'Card',
+      name: 'Card',
+      type: 'display',
+      props: [
+        { name: 'title', type: 'string', required: true, description: 'Heading' },
+        {
+          name: 'variant',
+          type: 'enum',
+          default: 'outlined',
+          options: [
+            { label: 'Outlined', value: 'outlined' },
+            { label: 'Filled', value: 'filled' },
+          ],
+        },
+        { name: 'onClick', type: 'function' },
+      ],
+    });
+
+    expect(schema).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      title: 'Card',
+      type: 'object',
+      required: ['title'],
+      properties: {
+        title: { type: 'string', description: 'Heading' },
+        variant: { type: 'string', enum: ['outlined', 'filled'], default: 'outlined' },
+      },
+    });
+    expect(issues).toEqual([
+      {
+        path: 'props.onClick',
+        message: 'Prop type "function" has no JSON Schema equivalent and was omitted',
+      },
+    ]);
+  });
+});
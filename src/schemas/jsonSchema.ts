@@ -0,0 +1,757 @@
+/**
+ * JSON Schema (draft 2020-12) import and export
+ *
+ * Converts between JSON Schema documents and our `DataShape`/`FieldSchema`
+ * model, and publishes `ComponentSchema.props` as a JSON Schema contract.
+ * Anything that cannot be represented on the other side is reported as an
+ * issue instead of being silently dropped.
+ */
+
+import { ComponentSchema, DataShape, FieldFormat, FieldSchema, PropSchema } from './types';
+import { getUnionVariants, resolveShapeRef } from './validation';
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * The subset of JSON Schema keywords we read and write. Other keywords are
+ * allowed through the index signature and reported on import.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  format?: string;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: unknown;
+}
+
+export interface JsonSchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface JsonSchemaImportResult {
+  shape: DataShape;
+  // Shapes from the document's `$defs`, for `$ref` fields to resolve against
+  // once registered
+  definitions: Record<string, DataShape>;
+  issues: JsonSchemaIssue[];
+}
+
+export interface JsonSchemaExportResult {
+  schema: JsonSchema;
+  issues: JsonSchemaIssue[];
+}
+
+export interface JsonSchemaExportOptions {
+  $id?: string;
+  title?: string;
+  description?: string;
+}
+
+// Keywords that carry no validation meaning and are dropped without an issue
+const annotationKeywords = new Set(['$schema', '$id', '$comment', 'title', 'examples']);
+
+// Keywords handled by the converters below
+const supportedKeywords = new Set([
+  '$ref',
+  '$defs',
+  'oneOf',
+  'anyOf',
+  'type',
+  'properties',
+  'required',
+  'items',
+  'enum',
+  'const',
+  'format',
+  'default',
+  'description',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minItems',
+  'maxItems',
+]);
+
+// JSON Schema format -> FieldFormat. Strings with `date-time` import as date
+// fields, which is how date fields export.
+const importFormats: Record<string, FieldFormat> = {
+  email: 'email',
+  uri: 'url',
+  url: 'url',
+  datetime: 'datetime',
+  phone: 'phone',
+  currency: 'currency',
+  percentage: 'percentage',
+};
+
+// FieldFormat -> JSON Schema format. Unlisted formats are exported as-is.
+const exportFormats: Partial<Record<FieldFormat, string>> = {
+  url: 'uri',
+  datetime: 'date-time',
+};
+
+const standardFormats = new Set(['email', 'uri', 'date-time', 'date']);
+
+// Shape references export as pointers into the document's `$defs`
+const DEFS_POINTER = '#/$defs/';
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Import helper that collects issues while walking a JSON Schema document
+ */
+class JsonSchemaImporter {
+  issues: JsonSchemaIssue[] = [];
+
+  constructor(private defs: Record<string, JsonSchema> = {}) {}
+
+  toShape(schema: JsonSchema, path: string): DataShape {
+    this.reportUnsupported(schema, path);
+
+    if (schema.$ref !== undefined) {
+      const name = this.resolveRef(schema.$ref, path);
+      const type = name === null ? undefined : this.defs[name]?.type;
+      return {
+        type: type === 'object' || type === 'array' ? type : 'primitive',
+        ...(name === null ? {} : { $ref: name }),
+      };
+    }
+    for (const keyword of ['oneOf', 'anyOf'] as const) {
+      if (schema[keyword] !== undefined) {
+        this.issues.push({
+          path: joinPath(path, keyword),
+          message: 'Unions are only supported on fields',
+        });
+      }
+    }
+
+    const { types, nullable } = this.declaredTypes(schema);
+    if (nullable) {
+      this.issues.push({ path: joinPath(path, 'type'), message: 'Null type is not supported' });
+    }
+    // Several scalar types describe a primitive shape, which is how those export
+    const type =
+      types.length > 1 && !types.includes('object') && !types.includes('array')
+        ? 'primitive'
+        : this.resolveType(schema, path);
+
+    if (type === 'object') {
+      const fields: Record<string, FieldSchema> = {};
+      const required = schema.required ?? [];
+
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        const field = this.toField(property, joinPath(path, `properties.${key}`));
+        if (required.includes(key)) {
+          field.required = true;
+        }
+        fields[key] = field;
+      }
+      this.reportMissingRequired(schema, path);
+
+      return required.length > 0
+        ? { type: 'object', fields, required }
+        : { type: 'object', fields };
+    }
+
+    if (type === 'array') {
+      return {
+        type: 'array',
+        itemShape: schema.items
+          ? this.toShape(schema.items, joinPath(path, 'items'))
+          : { type: 'primitive' },
+      };
+    }
+
+    if (this.hasConstraints(schema)) {
+      this.issues.push({
+        path,
+        message: `Constraints on a top-level ${type} cannot be represented by a primitive shape`,
+      });
+    }
+    return { type: 'primitive' };
+  }
+
+  toField(schema: JsonSchema, path: string): FieldSchema {
+    this.reportUnsupported(schema, path);
+
+    if (schema.$ref !== undefined) {
+      return this.toRefField(schema, path);
+    }
+    if (schema.oneOf !== undefined || schema.anyOf !== undefined) {
+      return this.toUnionField(schema, path);
+    }
+
+    const nullable = this.declaredTypes(schema).nullable;
+    const type = this.resolveType(schema, path);
+    const field: FieldSchema = { type: type === 'integer' ? 'number' : type };
+    if (nullable) {
+      field.nullable = true;
+    }
+
+    if (type === 'integer') {
+      this.issues.push({ path, message: 'Integer type imported as number' });
+    }
+
+    if (schema.format !== undefined) {
+      if (type === 'string' && (schema.format === 'date' || schema.format === 'date-time')) {
+        field.type = 'date';
+      } else if (importFormats[schema.format]) {
+        field.format = importFormats[schema.format];
+      } else {
+        this.issues.push({
+          path: joinPath(path, 'format'),
+          message: `Format "${schema.format}" is not supported`,
+        });
+      }
+    }
+
+    const listed = schema.const !== undefined ? [schema.const] : schema.enum;
+    // Nullable enums list null among their values
+    const enumValues = nullable ? listed?.filter((value) => value !== null) : listed;
+    if (enumValues) {
+      if (enumValues.every((value) => typeof value === 'string')) {
+        field.enum = enumValues;
+      } else if (enumValues.every((value) => typeof value === 'number')) {
+        field.enum = enumValues;
+      } else {
+        this.issues.push({
+          path: joinPath(path, schema.const !== undefined ? 'const' : 'enum'),
+          message: 'Only all-string or all-number enums are supported',
+        });
+      }
+    }
+
+    this.copyAnnotations(schema, field);
+    if (schema.minimum !== undefined) {
+      field.min = schema.minimum;
+    }
+    if (schema.maximum !== undefined) {
+      field.max = schema.maximum;
+    }
+    if (schema.minLength !== undefined) {
+      field.minLength = schema.minLength;
+    }
+    if (schema.maxLength !== undefined) {
+      field.maxLength = schema.maxLength;
+    }
+    if (schema.pattern !== undefined) {
+      field.pattern = schema.pattern;
+    }
+    if (schema.minItems !== undefined) {
+      field.minItems = schema.minItems;
+    }
+    if (schema.maxItems !== undefined) {
+      field.maxItems = schema.maxItems;
+    }
+
+    if (schema.items) {
+      field.itemType = this.toField(schema.items, joinPath(path, 'items'));
+    }
+
+    if (schema.properties) {
+      const required = schema.required ?? [];
+      field.properties = {};
+      for (const [key, property] of Object.entries(schema.properties)) {
+        const child = this.toField(property, joinPath(path, `properties.${key}`));
+        if (required.includes(key)) {
+          child.required = true;
+        }
+        field.properties[key] = child;
+      }
+      this.reportMissingRequired(schema, path);
+    }
+
+    return field;
+  }
+
+  /**
+   * Definitions become shapes of their own; `$ref` fields point at them by name
+   */
+  toDefinitions(): Record<string, DataShape> {
+    const definitions: Record<string, DataShape> = {};
+    for (const [name, schema] of Object.entries(this.defs)) {
+      definitions[name] = this.toShape(schema, `$defs.${name}`);
+    }
+    return definitions;
+  }
+
+  // A `$ref` field takes its array or object type from the definition
+  private toRefField(schema: JsonSchema, path: string): FieldSchema {
+    const name = this.resolveRef(schema.$ref as string, path);
+    const type = name === null ? undefined : this.defs[name]?.type;
+    const field: FieldSchema = { type: type === 'array' ? 'array' : 'object' };
+    if (name !== null) {
+      field.$ref = name;
+    }
+    this.copyAnnotations(schema, field);
+    return field;
+  }
+
+  // A `{ type: 'null' }` variant makes the union nullable, and a single other
+  // variant is a nullable field of its own, which is how nullable refs export
+  private toUnionField(schema: JsonSchema, path: string): FieldSchema {
+    const keyword = schema.oneOf !== undefined ? 'oneOf' : 'anyOf';
+    if (schema.oneOf !== undefined && schema.anyOf !== undefined) {
+      this.issues.push({
+        path: joinPath(path, 'anyOf'),
+        message: 'Only one of oneOf and anyOf is supported; using oneOf',
+      });
+    }
+
+    const variants: FieldSchema[] = [];
+    let nullable = false;
+    (schema[keyword] as JsonSchema[]).forEach((variant, index) => {
+      if (variant.type === 'null' && Object.keys(variant).length === 1) {
+        nullable = true;
+      } else {
+        variants.push(this.toField(variant, joinPath(path, `${keyword}[${index}]`)));
+      }
+    });
+
+    const field: FieldSchema =
+      variants.length === 1 ? variants[0] : { type: 'union', [keyword]: variants };
+    if (nullable) {
+      field.nullable = true;
+    }
+    this.copyAnnotations(schema, field);
+    return field;
+  }
+
+  // Name of the definition a `#/$defs/` pointer refers to, or null
+  private resolveRef(ref: string, path: string): string | null {
+    if (!ref.startsWith(DEFS_POINTER)) {
+      this.issues.push({
+        path: joinPath(path, '$ref'),
+        message: `Only references into $defs are supported, not "${ref}"`,
+      });
+      return null;
+    }
+    const name = ref.slice(DEFS_POINTER.length);
+    if (!this.defs[name]) {
+      this.issues.push({
+        path: joinPath(path, '$ref'),
+        message: `Reference "${ref}" has no definition`,
+      });
+    }
+    return name;
+  }
+
+  private copyAnnotations(schema: JsonSchema, field: FieldSchema): void {
+    if (schema.description !== undefined) {
+      field.description = schema.description;
+    }
+    if (schema.default !== undefined) {
+      field.default = schema.default;
+    }
+  }
+
+  private declaredTypes(schema: JsonSchema): {
+    types: Exclude<JsonSchemaType, 'null'>[];
+    nullable: boolean;
+  } {
+    const declared = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const types = declared.filter(
+      (type): type is Exclude<JsonSchemaType, 'null'> => type !== 'null'
+    );
+    return { types, nullable: types.length < declared.length };
+  }
+
+  /**
+   * Resolve a single type, inferring it from keywords when `type` is absent
+   */
+  private resolveType(schema: JsonSchema, path: string): Exclude<JsonSchemaType, 'null'> {
+    const { types } = this.declaredTypes(schema);
+
+    if (types.length > 1) {
+      this.issues.push({
+        path: joinPath(path, 'type'),
+        message: `Multiple types are not supported; using "${types[0]}"`,
+      });
+    }
+    if (types.length > 0) {
+      return types[0];
+    }
+
+    if (schema.properties) {
+      return 'object';
+    }
+    if (schema.items) {
+      return 'array';
+    }
+    const sample = schema.const ?? schema.enum?.[0];
+    if (typeof sample === 'number' || typeof sample === 'boolean') {
+      return typeof sample === 'number' ? 'number' : 'boolean';
+    }
+    if (typeof sample !== 'string') {
+      this.issues.push({ path, message: 'Schema has no type; imported as string' });
+    }
+    return 'string';
+  }
+
+  private reportUnsupported(schema: JsonSchema, path: string): void {
+    for (const keyword of Object.keys(schema)) {
+      if (keyword === '$defs' && path !== '') {
+        this.issues.push({
+          path: joinPath(path, keyword),
+          message: 'Definitions are only read from the document root',
+        });
+      } else if (!supportedKeywords.has(keyword) && !annotationKeywords.has(keyword)) {
+        this.issues.push({
+          path: joinPath(path, keyword),
+          message: `Keyword "${keyword}" is not supported`,
+        });
+      }
+    }
+  }
+
+  private reportMissingRequired(schema: JsonSchema, path: string): void {
+    for (const key of schema.required ?? []) {
+      if (!schema.properties?.[key]) {
+        this.issues.push({
+          path: joinPath(path, 'required'),
+          message: `Required property "${key}" has no definition`,
+        });
+      }
+    }
+  }
+
+  private hasConstraints(schema: JsonSchema): boolean {
+    return Object.keys(schema).some(
+      (keyword) => keyword !== 'type' && keyword !== '$defs' && supportedKeywords.has(keyword)
+    );
+  }
+}
+
+/**
+ * Convert a JSON Schema document into a DataShape
+ */
+export function fromJsonSchema(schema: JsonSchema): JsonSchemaImportResult {
+  const importer = new JsonSchemaImporter(schema.$defs);
+  const shape = importer.toShape(schema, '');
+  return { shape, definitions: importer.toDefinitions(), issues: importer.issues };
+}
+
+function fieldToJsonSchema(
+  field: FieldSchema,
+  path: string,
+  issues: JsonSchemaIssue[]
+): JsonSchema {
+  if (field.$ref) {
+    const pointer: JsonSchema = { $ref: `${DEFS_POINTER}${field.$ref}` };
+    return field.nullable ? { anyOf: [pointer, { type: 'null' }] } : pointer;
+  }
+
+  if (field.type === 'union') {
+    return unionToJsonSchema(field, path, issues);
+  }
+
+  const schema: JsonSchema =
+    field.type === 'date' ? { type: 'string', format: 'date-time' } : { type: field.type };
+  if (field.nullable) {
+    schema.type = [field.type === 'date' ? 'string' : field.type, 'null'];
+  }
+
+  if (field.description !== undefined) {
+    schema.description = field.description;
+  }
+  if (field.format) {
+    schema.format = exportFormats[field.format] ?? field.format;
+    if (!standardFormats.has(schema.format)) {
+      issues.push({
+        path: joinPath(path, 'format'),
+        message: `Format "${field.format}" has no JSON Schema equivalent; exported as a custom format`,
+      });
+    }
+  }
+  if (field.enum) {
+    schema.enum = field.nullable ? [...field.enum, null] : [...field.enum];
+  }
+  if (field.default !== undefined) {
+    schema.default = field.default;
+  }
+  if (field.min !== undefined) {
+    schema.minimum = field.min;
+  }
+  if (field.max !== undefined) {
+    schema.maximum = field.max;
+  }
+  if (field.minLength !== undefined) {
+    schema.minLength = field.minLength;
+  }
+  if (field.maxLength !== undefined) {
+    schema.maxLength = field.maxLength;
+  }
+  if (field.pattern !== undefined) {
+    schema.pattern = field.pattern;
+  }
+  if (field.minItems !== undefined) {
+    schema.minItems = field.minItems;
+  }
+  if (field.maxItems !== undefined) {
+    schema.maxItems = field.maxItems;
+  }
+  if (field.itemType) {
+    schema.items = fieldToJsonSchema(field.itemType, joinPath(path, 'itemType'), issues);
+  }
+  if (field.properties) {
+    schema.properties = {};
+    const required: string[] = [];
+    for (const [key, property] of Object.entries(field.properties)) {
+      schema.properties[key] = fieldToJsonSchema(
+        property,
+        joinPath(path, `properties.${key}`),
+        issues
+      );
+      if (property.required) {
+        required.push(key);
+      }
+    }
+    if (required.length > 0) {
+      schema.required = required;
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Unions export as `oneOf`/`anyOf`. Discriminated variants already pin their
+ * tag with `enum`, so no discriminator keyword is needed.
+ */
+function unionToJsonSchema(
+  field: FieldSchema,
+  path: string,
+  issues: JsonSchemaIssue[]
+): JsonSchema {
+  const { keyword, variants } = getUnionVariants(field);
+  const schemas = variants.map((variant, index) =>
+    fieldToJsonSchema(variant, joinPath(path, `${keyword}[${index}]`), issues)
+  );
+  if (field.nullable) {
+    schemas.push({ type: 'null' });
+  }
+
+  const schema: JsonSchema = { [keyword]: schemas };
+  if (field.description !== undefined) {
+    schema.description = field.description;
+  }
+  if (field.default !== undefined) {
+    schema.default = field.default;
+  }
+  return schema;
+}
+
+function shapeToJsonSchema(shape: DataShape, path: string, issues: JsonSchemaIssue[]): JsonSchema {
+  if (shape.$ref) {
+    return { $ref: `${DEFS_POINTER}${shape.$ref}` };
+  }
+
+  switch (shape.type) {
+    case 'object': {
+      const properties: Record<string, JsonSchema> = {};
+      const required = new Set(shape.required ?? []);
+
+      for (const [key, field] of Object.entries(shape.fields ?? {})) {
+        properties[key] = fieldToJsonSchema(field, joinPath(path, `fields.${key}`), issues);
+        if (field.required) {
+          required.add(key);
+        }
+      }
+
+      const schema: JsonSchema = { type: 'object', properties };
+      if (required.size > 0) {
+        schema.required = [...required];
+      }
+      if (shape.rules && shape.rules.length > 0) {
+        issues.push({
+          path: joinPath(path, 'rules'),
+          message: 'Cross-field rules have no JSON Schema equivalent and were omitted',
+        });
+      }
+      return schema;
+    }
+
+    case 'array':
+      return shape.itemShape
+        ? {
+            type: 'array',
+            items: shapeToJsonSchema(shape.itemShape, joinPath(path, 'itemShape'), issues),
+          }
+        : { type: 'array' };
+
+    default:
+      return { type: ['string', 'number', 'boolean'] };
+  }
+}
+
+/**
+ * Names referenced through `$defs` pointers anywhere in `schema`
+ */
+function collectRefs(schema: unknown, refs: Set<string>): void {
+  if (Array.isArray(schema)) {
+    schema.forEach((item) => collectRefs(item, refs));
+    return;
+  }
+  if (typeof schema !== 'object' || schema === null) {
+    return;
+  }
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$ref' && typeof value === 'string' && value.startsWith(DEFS_POINTER)) {
+      refs.add(value.slice(DEFS_POINTER.length));
+    } else {
+      collectRefs(value, refs);
+    }
+  }
+}
+
+/**
+ * Export every shape reachable through references into `$defs`
+ */
+function addDefinitions(schema: JsonSchema, issues: JsonSchemaIssue[]): void {
+  const defs: Record<string, JsonSchema> = {};
+  const pending = new Set<string>();
+  collectRefs(schema, pending);
+
+  // Names added while iterating are visited too
+  for (const name of pending) {
+    const path = `$defs.${name}`;
+    try {
+      defs[name] = shapeToJsonSchema(resolveShapeRef(name), path, issues);
+      collectRefs(defs[name], pending);
+    } catch (error) {
+      defs[name] = {};
+      issues.push({ path, message: (error as Error).message });
+    }
+  }
+
+  if (Object.keys(defs).length > 0) {
+    schema.$defs = defs;
+  }
+}
+
+function withHeader(schema: JsonSchema, options: JsonSchemaExportOptions): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...(options.$id ? { $id: options.$id } : {}),
+    ...(options.title ? { title: options.title } : {}),
+    ...(options.description ? { description: options.description } : {}),
+    ...schema,
+  };
+}
+
+/**
+ * Convert a DataShape into a JSON Schema document
+ */
+export function toJsonSchema(
+  shape: DataShape,
+  options: JsonSchemaExportOptions = {}
+): JsonSchemaExportResult {
+  const issues: JsonSchemaIssue[] = [];
+  const schema = shapeToJsonSchema(shape, '', issues);
+  addDefinitions(schema, issues);
+  return { schema: withHeader(schema, options), issues };
+}
+
+function propToJsonSchema(prop: PropSchema): JsonSchema | null {
+  const schema: JsonSchema = {};
+
+  switch (prop.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'object':
+      schema.type = prop.type;
+      break;
+    case 'enum': {
+      const values = (prop.options ?? []).map((option) => option.value as unknown);
+      schema.enum = values;
+      if (values.length > 0 && values.every((value) => typeof value === 'string')) {
+        schema.type = 'string';
+      }
+      break;
+    }
+    default:
+      return null;
+  }
+
+  if (prop.description !== undefined) {
+    schema.description = prop.description;
+  }
+  if (prop.default !== undefined) {
+    schema.default = prop.default;
+  }
+  return schema;
+}
+
+/**
+ * Publish a component's props as a JSON Schema object. Function props have
+ * no JSON representation and are reported.
+ */
+export function componentPropsToJsonSchema(
+  component: ComponentSchema,
+  options: JsonSchemaExportOptions = {}
+): JsonSchemaExportResult {
+  const issues: JsonSchemaIssue[] = [];
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const prop of component.props) {
+    const schema = propToJsonSchema(prop);
+    if (!schema) {
+      issues.push({
+        path: `props.${prop.name}`,
+        message: `Prop type "${prop.type}" has no JSON Schema equivalent and was omitted`,
+      });
+      continue;
+    }
+    properties[prop.name] = schema;
+    if (prop.required) {
+      required.push(prop.name);
+    }
+  }
+
+  const schema: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) {
+    schema.required = required;
+  }
+
+  return {
+    schema: withHeader(schema, {
+      title: component.name,
+      description: component.description,
+      ...options,
+    }),
+    issues,
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * In-memory stand-in for a WebSocket and Server-Sent Events backend
+ *
+ * `createLocalStreamServer` returns WebSocket and EventSource classes that
+ * connect to the server instead of the network, and controls to push
+ * messages, read what clients sent, drop connections and refuse new ones.
+ * Pass the classes to `connectStream`, or `install` them in place of the
+ * browser's, to try `websocket` and `sse` sources without a backend.
+ * Connections open and close on a timer like real ones; messages are
+ * delivered at once.
+ */
+
+import {
+  EventSourceConstructor,
+  EventSourceLike,
+  WebSocketConstructor,
+  WebSocketLike,
+} from './streamSource';
+
+export type ReceiveHandler = (message: unknown, reply: (message: unknown) => void) => void;
+
+export interface LocalStreamServer {
+  readonly WebSocket: WebSocketConstructor;
+  readonly EventSource: EventSourceConstructor;
+  // Send a message to every open connection to a URL; anything but a string
+  // is sent as JSON. `event` is the Server-Sent Event type.
+  send(url: string, message: unknown, event?: string): void;
+  // Messages WebSocket clients sent to a URL, parsed as JSON when they are JSON
+  received(url: string): unknown[];
+  // Answer messages WebSocket clients send to a URL; returns a function that
+  // stops answering
+  onReceive(url: string, handler: ReceiveHandler): () => void;
+  // Number of open connections to a URL
+  connections(url: string): number;
+  // Drop every connection to a URL, as a server restart would
+  drop(url: string): void;
+  // Refuse connections to a URL while it is down
+  setDown(url: string, down: boolean): void;
+  // Replace `globalThis.WebSocket` and `EventSource`; returns a function that
+  // restores them
+  install(): () => void;
+}
+
+// An open connection as the server sees it
+interface Connection {
+  url: string;
+  deliver(data: string, event: string): void;
+  // Close from the server's side
+  drop(): void;
+}
+
+function encode(message: unknown): string {
+  return typeof message === 'string' ? message : JSON.stringify(message);
+}
+
+function decode(data: string): unknown {
+  try {
+    return JSON.parse(data) as unknown;
+  } catch {
+    return data;
+  }
+}
+
+export function createLocalStreamServer(): LocalStreamServer {
+  const open = new Set<Connection>();
+  const down = new Set<string>();
+  const received = new Map<string, unknown[]>();
+  const receivers = new Map<string, Set<ReceiveHandler>>();
+
+  const connectionsTo = (url: string): Connection[] =>
+    [...open].filter((connection) => connection.url === url);
+
+  class LocalWebSocket implements WebSocketLike {
+    onopen: ((event: Event) => void) | null = null;
+    onmessage: ((event: MessageEvent) => void) | null = null;
+    onclose: ((event: CloseEvent) => void) | null = null;
+    onerror: ((event: Event) => void) | null = null;
+    private connection: Connection | null = null;
+    private closed = false;
+
+    constructor(private readonly url: string) {
+      setTimeout(() => {
+        if (this.closed) {
+          return;
+        }
+        if (down.has(url)) {
+          this.onerror?.({ type: 'error' } as Event);
+          this.finish(1006);
+          return;
+        }
+        this.connection = {
+          url,
+          deliver: (data) => this.onmessage?.({ data } as MessageEvent),
+          drop: () => this.finish(1012),
+        };
+        open.add(this.connection);
+        this.onopen?.({ type: 'open' } as Event);
+      }, 0);
+    }
+
+    send(data: string): void {
+      if (!this.connection) {
+        throw new Error('WebSocket is not open');
+      }
+      const message = decode(data);
+      received.set(this.url, [...(received.get(this.url) ?? []), message]);
+      for (const handler of receivers.get(this.url) ?? []) {
+        handler(message, (reply) => this.connection?.deliver(encode(reply), 'message'));
+      }
+    }
+
+    close(): void {
+      if (!this.closed) {
+        setTimeout(() => this.finish(1000), 0);
+      }
+      this.closed = true;
+    }
+
+    private finish(code: number): void {
+      if (this.connection) {
+        open.delete(this.connection);
+        this.connection = null;
+      }
+      this.closed = true;
+      this.onclose?.({ type: 'close', code, reason: '', wasClean: code === 1000 } as CloseEvent);
+    }
+  }
+
+  class LocalEventSource implements EventSourceLike {
+    onopen: ((event: Event) => void) | null = null;
+    onerror: ((event: Event) => void) | null = null;
+    private listeners = new Map<string, Array<(event: MessageEvent) => void>>();
+    private connection: Connection | null = null;
+    private closed = false;
+
+    constructor(url: string) {
+      setTimeout(() => {
+        if (this.closed) {
+          return;
+        }
+        if (down.has(url)) {
+          this.onerror?.({ type: 'error' } as Event);
+          return;
+        }
+        this.connection = {
+          url,
+          deliver: (data, event) =>
+            this.listeners.get(event)?.forEach((listener) => listener({ data } as MessageEvent)),
+          drop: () => {
+            this.release();
+            this.onerror?.({ type: 'error' } as Event);
+          },
+        };
+        open.add(this.connection);
+        this.onopen?.({ type: 'open' } as Event);
+      }, 0);
+    }
+
+    addEventListener(type: string, listener: (event: MessageEvent) => void): void {
+      this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+    }
+
+    close(): void {
+      this.closed = true;
+      this.release();
+    }
+
+    private release(): void {
+      if (this.connection) {
+        open.delete(this.connection);
+        this.connection = null;
+      }
+    }
+  }
+
+  return {
+    WebSocket: LocalWebSocket,
+    EventSource: LocalEventSource,
+
+    send(url, message, event = 'message') {
+      connectionsTo(url).forEach((connection) => connection.deliver(encode(message), event));
+    },
+
+    received(url) {
+      return received.get(url) ?? [];
+    },
+
+    onReceive(url, handler) {
+      const handlers = receivers.get(url) ?? new Set<ReceiveHandler>();
+      handlers.add(handler);
+      receivers.set(url, handlers);
+      return () => handlers.delete(handler);
+    },
+
+    connections(url) {
+      return connectionsTo(url).length;
+    },
+
+    drop(url) {
+      connectionsTo(url).forEach((connection) => connection.drop());
+    },
+
+    setDown(url, isDown) {
+      if (isDown) {
+        down.add(url);
+      } else {
+        down.delete(url);
+      }
+    },
+
+    install() {
+      const globals = globalThis as unknown as Record<string, unknown>;
+      const previous = { WebSocket: globals.WebSocket, EventSource: globals.EventSource };
+      globals.WebSocket = LocalWebSocket;
+      globals.EventSource = LocalEventSource;
+      return () => {
+        globals.WebSocket = previous.WebSocket;
+        globals.EventSource = previous.EventSource;
+      };
+    },
+  };
+}
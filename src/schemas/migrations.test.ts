@@ -0,0 +1,103 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  migrateInstances,
+  migrateProps,
+  propsMigrations,
+  registerMigration,
+  renameProps,
+} from './migrations';
+import { ComponentSchema } from './types';
+
+const card: ComponentSchema = {
+  id: 'Card',
+  name: 'Card',
+  type: 'display',
+  version: 3,
+  props: [{ name: 'titleStyle', type: 'string' }],
+};
+
+describe('props migrations', () => {
+  afterEach(() => {
+    propsMigrations.clear();
+  });
+
+  it('should chain migrations up to the target version', () => {
+    registerMigration({
+      schemaId: 'Card',
+      from: 1,
+      to: 2,
+      migrate: renameProps({ titleVariant: 'titleStyle' }),
+    });
+    registerMigration({
+      schemaId: 'Card',
+      from: 2,
+      to: 3,
+      migrate: (props) => ({ ...props, elevation: Number(props.elevation ?? 1) }),
+    });
+
+    expect(migrateProps('Card', { titleVariant: 'h6', elevation: '2' }, 1, 3)).toEqual({
+      ok: true,
+      props: { titleStyle: 'h6', elevation: 2 },
+    });
+  });
+
+  it('should explain why props could not be migrated', () => {
+    registerMigration({
+      schemaId: 'Card',
+      from: 2,
+      to: 3,
+      migrate: () => {
+        throw new Error('bad props');
+      },
+    });
+
+    expect(migrateProps('Card', {}, 1, 3)).toEqual({
+      ok: false,
+      reason: 'No migration from version 1',
+    });
+    expect(migrateProps('Card', {}, 2, 3)).toEqual({
+      ok: false,
+      reason: 'Migration 2 -> 3 failed: bad props',
+    });
+    expect(migrateProps('Card', {}, 4, 3)).toEqual({
+      ok: false,
+      reason: 'Saved version 4 is newer than schema version 3',
+    });
+    expect(() =>
+      registerMigration({ schemaId: 'Card', from: 2, to: 2, migrate: (props) => props })
+    ).toThrow('must move forward');
+  });
+
+  it('should migrate instances and report failures', () => {
+    registerMigration({
+      schemaId: 'Card',
+      from: 1,
+      to: 3,
+      migrate: renameProps({ titleVariant: 'titleStyle' }),
+    });
+    const schemas = new Map([[card.id, card]]);
+
+    const { instances, report } = migrateInstances(
+      [
+        { id: 'a', schemaId: 'Card', props: { titleVariant: 'h5' } },
+        { id: 'b', schemaId: 'Card', props: {}, schemaVersion: 2 },
+        { id: 'c', schemaId: 'Card', props: { titleStyle: 'h4' }, schemaVersion: 3 },
+        { id: 'd', schemaId: 'Unknown', props: { x: 1 } },
+      ],
+      schemas
+    );
+
+    expect(instances.map((instance) => [instance.props, instance.schemaVersion])).toEqual([
+      [{ titleStyle: 'h5' }, 3],
+      [{}, 2],
+      [{ titleStyle: 'h4' }, 3],
+      [{ x: 1 }, undefined],
+    ]);
+    expect(report).toEqual({
+      migrated: [{ id: 'a', schemaId: 'Card', from: 1, to: 3 }],
+      failed: [
+        { id: 'b', schemaId: 'Card', from: 2, to: 3, reason: 'No migration from version 2' },
+      ],
+    });
+  });
+});
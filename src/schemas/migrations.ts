@@ -0,0 +1,173 @@
+/**
+ * Props migrations between component schema versions
+ *
+ * Saved instances record the schema version their props were written for.
+ * When a schema's `version` moves ahead, registered migrations upgrade those
+ * props one step at a time. Instances that cannot be upgraded are left as
+ * they are and listed in the migration report.
+ */
+
+import { ComponentSchema } from './types';
+
+export type PropsMigrationFn = (props: Record<string, unknown>) => Record<string, unknown>;
+
+export interface PropsMigration {
+  schemaId: string;
+  from: number;
+  to: number;
+  migrate: PropsMigrationFn;
+  description?: string;
+}
+
+/**
+ * Minimal instance shape the migration helpers need
+ */
+export interface MigratableInstance {
+  id: string;
+  schemaId: string;
+  props: Record<string, unknown>;
+  // Schema version the props were saved with; missing means version 1
+  schemaVersion?: number;
+}
+
+export interface MigrationFailure {
+  id: string;
+  schemaId: string;
+  from: number;
+  to: number;
+  reason: string;
+}
+
+export interface MigrationReport {
+  migrated: Array<{ id: string; schemaId: string; from: number; to: number }>;
+  failed: MigrationFailure[];
+}
+
+export type PropsMigrationResult =
+  | { ok: true; props: Record<string, unknown> }
+  | { ok: false; reason: string };
+
+/**
+ * Registered migrations by schema ID
+ */
+export const propsMigrations = new Map<string, PropsMigration[]>();
+
+/**
+ * Register a props migration for a component schema
+ */
+export function registerMigration(migration: PropsMigration): void {
+  if (migration.to <= migration.from) {
+    throw new Error(
+      `Migration for "${migration.schemaId}" must move forward (got ${migration.from} -> ${migration.to})`
+    );
+  }
+  const migrations = propsMigrations.get(migration.schemaId) ?? [];
+  propsMigrations.set(migration.schemaId, [
+    ...migrations.filter((existing) => existing.from !== migration.from),
+    migration,
+  ]);
+}
+
+/**
+ * Version of a schema; schemas without one are at version 1
+ */
+export function getSchemaVersion(schema: Pick<ComponentSchema, 'version'>): number {
+  return schema.version ?? 1;
+}
+
+/**
+ * Migration that renames props, e.g. `renameProps({ titleVariant: 'titleStyle' })`.
+ * Existing values under the new name are kept.
+ */
+export function renameProps(renames: Record<string, string>): PropsMigrationFn {
+  return (props) => {
+    const next = { ...props };
+    for (const [from, to] of Object.entries(renames)) {
+      if (from in next) {
+        if (!(to in next)) {
+          next[to] = next[from];
+        }
+        delete next[from];
+      }
+    }
+    return next;
+  };
+}
+
+/**
+ * Upgrade props from one schema version to another by chaining migrations
+ */
+export function migrateProps(
+  schemaId: string,
+  props: Record<string, unknown>,
+  from: number,
+  to: number
+): PropsMigrationResult {
+  if (from > to) {
+    return { ok: false, reason: `Saved version ${from} is newer than schema version ${to}` };
+  }
+
+  const migrations = propsMigrations.get(schemaId) ?? [];
+  let version = from;
+  let current = props;
+
+  while (version < to) {
+    const step = migrations.find((migration) => migration.from === version && migration.to <= to);
+    if (!step) {
+      return { ok: false, reason: `No migration from version ${version}` };
+    }
+    try {
+      current = step.migrate(current);
+    } catch (error) {
+      return {
+        ok: false,
+        reason: `Migration ${step.from} -> ${step.to} failed: ${(error as Error).message}`,
+      };
+    }
+    version = step.to;
+  }
+
+  return { ok: true, props: current };
+}
+
+/**
+ * Bring instances up to the version of their registered schema. Instances
+ * whose schema is unknown are returned unchanged and not reported; they are
+ * migrated once their schema is registered.
+ */
+export function migrateInstances<T extends MigratableInstance>(
+  instances: T[],
+  schemas: Map<string, ComponentSchema>
+): { instances: T[]; report: MigrationReport } {
+  const report: MigrationReport = { migrated: [], failed: [] };
+
+  const migrated = instances.map((instance) => {
+    const schema = schemas.get(instance.schemaId);
+    if (!schema) {
+      return instance;
+    }
+
+    const from = instance.schemaVersion ?? 1;
+    const to = getSchemaVersion(schema);
+    if (from === to) {
+      return instance;
+    }
+
+    const result = migrateProps(instance.schemaId, instance.props, from, to);
+    if (!result.ok) {
+      report.failed.push({
+        id: instance.id,
+        schemaId: instance.schemaId,
+        from,
+        to,
+        reason: result.reason,
+      });
+      return instance;
+    }
+
+    report.migrated.push({ id: instance.id, schemaId: instance.schemaId, from, to });
+    return { ...instance, props: result.props, schemaVersion: to };
+  });
+
+  return { instances: migrated, report };
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRandom,
+  generateMockData,
+  generateMockField,
+  generateVariantFixtures,
+} from './mockData';
+import { commonDataShapes } from './registry';
+import { muiComponentSchemas } from './patternSchemas';
+import { subComponentSchemas } from './subComponentSchemas';
+import { DataDisplayCardSchema } from '../patterns/pending/DataDisplayCard.schema';
+import { formatPatterns, validateData } from './validation';
+import { ComponentSchema, DataShape, FieldFormat } from './types';
+
+describe('mock data', () => {
+  it('should produce the same data for the same seed', () => {
+    const first = generateMockData(commonDataShapes.listItems, { seed: 'demo' });
+    expect(generateMockData(commonDataShapes.listItems, { seed: 'demo' })).toEqual(first);
+    expect(generateMockData(commonDataShapes.listItems, { seed: 'other' })).not.toEqual(first);
+    expect(createRandom(7).next()).toBe(createRandom(7).next());
+  });
+
+  it('should generate valid data for every registered shape and schema', () => {
+    for (const [name, shape] of Object.entries(commonDataShapes)) {
+      for (const seed of [1, 2, 3]) {
+        const result = validateData(generateMockData(shape, { seed }), shape);
+        expect(result.errors, `${name} with seed ${seed}`).toBeUndefined();
+      }
+    }
+
+    const schemas = [DataDisplayCardSchema, ...muiComponentSchemas, ...subComponentSchemas].filter(
+      (schema) => schema.dataShape
+    );
+    for (const schema of schemas) {
+      const shape = schema.dataShape as DataShape;
+      for (const [variant, data] of Object.entries(generateVariantFixtures(schema))) {
+        expect(validateData(data, shape).errors, `${schema.id} ${variant}`).toBeUndefined();
+      }
+    }
+  });
+
+  it('should honor formats, enums and numeric bounds', () => {
+    const formats: FieldFormat[] = ['email', 'url', 'phone', 'currency', 'percentage', 'datetime'];
+    for (const format of formats) {
+      const value = generateMockField({ type: 'string', format }, 'value', { seed: format });
+      expect(formatPatterns[format].test(value as string), `${format}: ${String(value)}`).toBe(
+        true
+      );
+    }
+
+    for (let seed = 0; seed < 20; seed++) {
+      expect(['a', 'b']).toContain(
+        generateMockField({ type: 'string', enum: ['a', 'b'] }, '', { seed })
+      );
+      const price = generateMockField({ type: 'number', min: 5, max: 10 }, 'price', { seed });
+      expect(price).toBeGreaterThanOrEqual(5);
+      expect(price).toBeLessThanOrEqual(10);
+      const tags = generateMockField(
+        { type: 'array', minItems: 3, maxItems: 4, itemType: { type: 'string' } },
+        'tags',
+        { seed }
+      ) as string[];
+      expect(tags.length).toBeGreaterThanOrEqual(3);
+      expect(tags.length).toBeLessThanOrEqual(4);
+    }
+
+    expect(generateMockField({ type: 'string', maxLength: 4 }, 'description')).toHaveLength(4);
+  });
+
+  it('should use field names as content hints', () => {
+    const shape: DataShape = {
+      type: 'object',
+      fields: {
+        avatar: { type: 'string' },
+        email: { type: 'string' },
+        title: { type: 'string' },
+        createdAt: { type: 'string' },
+        rating: { type: 'number' },
+      },
+      required: ['avatar', 'email', 'title', 'createdAt', 'rating'],
+    };
+    const data = generateMockData<Record<string, unknown>>(shape, { seed: 3 });
+
+    expect(data.avatar).toMatch(/^https:\/\/i\.pravatar\.cc\//);
+    expect(data.email).toMatch(formatPatterns.email);
+    expect(data.title).toMatch(/^[A-Z][a-z]+( [A-Z][a-z]+)+$/);
+    expect(Date.parse(data.createdAt as string)).not.toBeNaN();
+    expect(data.rating).toBeGreaterThanOrEqual(1);
+    expect(data.rating).toBeLessThanOrEqual(5);
+  });
+
+  it('should stop recursive shapes and key fixtures by variant', () => {
+    const navigation = generateMockData<Array<{ children?: unknown[] }>>(
+      commonDataShapes.navigation,
+      { seed: 1, arrayLength: 2, includeOptional: true, maxDepth: 1 }
+    );
+    expect(navigation).toHaveLength(2);
+    navigation.forEach((item) => {
+      (item.children as Array<{ children?: unknown[] }> | undefined)?.forEach((child) => {
+        expect(child.children ?? []).toEqual([]);
+      });
+    });
+
+    const schema: ComponentSchema = {
+      id: 'Card',
+      name: 'Card',
+      type: 'display',
+      props: [],
+      dataShape: commonDataShapes.user,
+      variants: [
+        { name: 'compact', label: 'Compact' },
+        { name: 'detailed', label: 'Detailed' },
+      ],
+    };
+    const fixtures = generateVariantFixtures(schema);
+    expect(Object.keys(fixtures)).toEqual(['default', 'compact', 'detailed']);
+    expect(fixtures.compact).not.toEqual(fixtures.detailed);
+    expect(generateVariantFixtures({ ...schema, variants: [] }).default).toEqual(fixtures.default);
+  });
+});
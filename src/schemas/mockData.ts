@@ -0,0 +1,399 @@
+/**
+ * Seeded mock data generation from DataShape
+ *
+ * Produces realistic, reproducible fixtures for any `DataShape`: the same seed
+ * always yields the same data. Values honor `enum`, `format`, min/max, length
+ * and item-count limits, and field names such as `avatar` or `title` pick
+ * fitting content. Cross-field rules and `pattern` are not enforced.
+ */
+
+import { ComponentSchema, DataShape, FieldFormat, FieldSchema } from './types';
+import { getUnionVariants, resolveShapeRef } from './validation';
+
+export interface MockDataOptions {
+  // Same seed, same data; defaults to 1
+  seed?: number | string;
+  // Array length when `minItems`/`maxItems` allow it; random 2-5 by default
+  arrayLength?: number;
+  // Generate optional fields as well as required ones
+  includeOptional?: boolean;
+  // How many `$ref` levels to follow into recursive shapes
+  maxDepth?: number;
+}
+
+export interface MockRandom {
+  // Float in [0, 1)
+  next(): number;
+  // Integer in [min, max]
+  int(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+  bool(probability?: number): boolean;
+}
+
+type ResolvedOptions = MockDataOptions & Required<Omit<MockDataOptions, 'arrayLength'>>;
+
+const defaultOptions: ResolvedOptions = {
+  seed: 1,
+  includeOptional: true,
+  maxDepth: 2,
+};
+
+// Base for generated dates so fixtures do not depend on the current time
+const BASE_DATE = Date.UTC(2024, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+const firstNames = ['Ada', 'Grace', 'Alan', 'Linus', 'Margaret', 'Ken', 'Barbara', 'Dennis'];
+const lastNames = ['Lovelace', 'Hopper', 'Turing', 'Torvalds', 'Hamilton', 'Thompson', 'Liskov'];
+const companies = ['Acme', 'Globex', 'Initech', 'Umbrella', 'Hooli', 'Vandelay'];
+const cities = ['Berlin', 'Lisbon', 'Toronto', 'Osaka', 'Nairobi', 'Austin', 'Oslo'];
+const streets = ['Main St', 'Oak Ave', 'Maple Rd', 'Park Ln', 'River Way'];
+const domains = ['example.com', 'example.org', 'example.net'];
+const icons = ['Home', 'Dashboard', 'Settings', 'People', 'Inbox', 'BarChart', 'Folder'];
+const colors = ['primary', 'secondary', 'success', 'warning', 'error', 'info'];
+const words = [
+  'revenue',
+  'growth',
+  'project',
+  'report',
+  'quarterly',
+  'team',
+  'review',
+  'launch',
+  'customer',
+  'pipeline',
+  'design',
+  'roadmap',
+  'metrics',
+  'release',
+  'budget',
+  'support',
+];
+
+/**
+ * Deterministic PRNG (mulberry32). String seeds are hashed with FNV-1a.
+ */
+export function createRandom(seed: number | string = defaultOptions.seed): MockRandom {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    bool: (probability = 0.5) => next() < probability,
+  };
+}
+
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Generator state for one fixture
+ */
+class MockGenerator {
+  private random: MockRandom;
+
+  constructor(private options: ResolvedOptions) {
+    this.random = createRandom(options.seed);
+  }
+
+  shape(shape: DataShape, depth: number): unknown {
+    if (shape.$ref) {
+      return this.ref(shape.$ref, depth);
+    }
+
+    switch (shape.type) {
+      case 'object': {
+        const required = new Set(shape.required ?? []);
+        const result: Record<string, unknown> = {};
+        for (const [name, field] of Object.entries(shape.fields ?? {})) {
+          if (this.shouldInclude(field.required === true || required.has(name))) {
+            result[name] = this.field(field, name, depth);
+          }
+        }
+        return result;
+      }
+      case 'array': {
+        const itemShape = shape.itemShape;
+        return this.items(undefined, undefined, () =>
+          itemShape ? this.shape(itemShape, depth) : this.words(2)
+        );
+      }
+      default:
+        return this.words(2);
+    }
+  }
+
+  field(field: FieldSchema, name: string, depth: number): unknown {
+    if (field.$ref) {
+      return this.ref(field.$ref, depth);
+    }
+
+    if (field.enum && field.enum.length > 0) {
+      return this.random.pick(field.enum as Array<string | number>);
+    }
+
+    switch (field.type) {
+      case 'string':
+        return this.string(field, name);
+      case 'number':
+        return this.number(field, name);
+      case 'boolean':
+        return this.random.bool();
+      case 'date':
+        return this.date();
+      case 'array': {
+        const itemType = field.itemType;
+        return this.items(field.minItems, field.maxItems, () =>
+          itemType ? this.field(itemType, singular(name), depth) : this.words(1)
+        );
+      }
+      case 'object': {
+        const result: Record<string, unknown> = {};
+        for (const [key, property] of Object.entries(field.properties ?? {})) {
+          if (this.shouldInclude(property.required === true)) {
+            result[key] = this.field(property, key, depth);
+          }
+        }
+        return result;
+      }
+      case 'union': {
+        const { variants } = getUnionVariants(field);
+        return variants.length > 0 ? this.field(this.random.pick(variants), name, depth) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private ref(ref: string, depth: number): unknown {
+    const shape = resolveShapeRef(ref);
+    // Stop recursive shapes with the smallest value that still validates
+    if (depth >= this.options.maxDepth) {
+      return shape.type === 'array' ? [] : {};
+    }
+    return this.shape(shape, depth + 1);
+  }
+
+  private shouldInclude(required: boolean): boolean {
+    return required || (this.options.includeOptional && this.random.bool(0.8));
+  }
+
+  private items(
+    minItems: number | undefined,
+    maxItems: number | undefined,
+    item: () => unknown
+  ): unknown[] {
+    const min = minItems ?? 0;
+    const max = maxItems ?? Math.max(min, 5);
+    const target = this.options.arrayLength ?? this.random.int(Math.min(2, max), 5);
+    const length = Math.min(max, Math.max(min, target));
+    return Array.from({ length }, item);
+  }
+
+  private string(field: FieldSchema, name: string): string {
+    const value = field.format ? this.formatted(field.format, name) : this.hinted(name);
+    return this.fitLength(value, field.minLength, field.maxLength);
+  }
+
+  private formatted(format: FieldFormat, name: string): string {
+    switch (format) {
+      case 'email':
+        return this.email();
+      case 'url':
+        return this.url(name);
+      case 'phone':
+        return `+1 555-${this.random.int(100, 999)}-${this.random.int(1000, 9999)}`;
+      case 'currency':
+        return `$${this.random.int(10, 9999).toLocaleString('en-US')}.${String(this.random.int(0, 99)).padStart(2, '0')}`;
+      case 'percentage':
+        return `${this.random.int(0, 100)}%`;
+      case 'datetime':
+        return this.date();
+    }
+  }
+
+  /**
+   * Pick content from the field name, e.g. `avatar` -> image URL
+   */
+  private hinted(name: string): string {
+    const key = name.toLowerCase();
+    const first = this.random.pick(firstNames);
+    const last = this.random.pick(lastNames);
+
+    if (key === 'id' || /(Id|_id)$/.test(name)) {
+      return `${key === 'id' ? 'id' : key.replace(/_?id$/, '')}-${this.random.int(1000, 9999)}`;
+    }
+    if (/avatar|image|photo|picture|thumbnail/.test(key)) {
+      return this.url(key);
+    }
+    if (/email/.test(key)) {
+      return this.email();
+    }
+    if (/url|link|href|website/.test(key)) {
+      return this.url(key);
+    }
+    if (/phone|mobile/.test(key)) {
+      return this.formatted('phone', key);
+    }
+    if (/^(first_?name|given_?name)$/.test(key)) {
+      return first;
+    }
+    if (/^(last_?name|family_?name|surname)$/.test(key)) {
+      return last;
+    }
+    if (/name|author|owner|assignee|user/.test(key)) {
+      return `${first} ${last}`;
+    }
+    if (/company|organization|org/.test(key)) {
+      return `${this.random.pick(companies)} Inc.`;
+    }
+    if (/city/.test(key)) {
+      return this.random.pick(cities);
+    }
+    if (/address|street/.test(key)) {
+      return `${this.random.int(1, 999)} ${this.random.pick(streets)}`;
+    }
+    if (/path|route/.test(key)) {
+      return `/${this.random.pick(words)}`;
+    }
+    if (/icon/.test(key)) {
+      return this.random.pick(icons);
+    }
+    if (/color/.test(key)) {
+      return this.random.pick(colors);
+    }
+    if (/date|time/.test(key) || /[a-z]At$/.test(name)) {
+      return this.date();
+    }
+    if (/title|heading|label|subject/.test(key)) {
+      return this.words(this.random.int(2, 3)).split(' ').map(capitalize).join(' ');
+    }
+    if (/description|body|content|text|message|summary|comment|subtitle|caption/.test(key)) {
+      return `${capitalize(this.words(this.random.int(6, 12)))}.`;
+    }
+    return this.words(this.random.int(1, 2));
+  }
+
+  private number(field: FieldSchema, name: string): number {
+    const key = name.toLowerCase();
+    let [min, max, decimals] = [0, 1000, 0];
+    if (/price|amount|revenue|cost|total|balance|salary/.test(key)) {
+      [min, max, decimals] = [10, 10000, 2];
+    } else if (/percent|progress|ratio|rate/.test(key)) {
+      [min, max] = [0, 100];
+    } else if (/rating|score|stars/.test(key)) {
+      [min, max] = [1, 5];
+    } else if (/age/.test(key)) {
+      [min, max] = [18, 80];
+    } else if (/year/.test(key)) {
+      [min, max] = [2000, 2024];
+    }
+
+    // Explicit bounds win; hints only fill in what the schema leaves open
+    const low = field.min ?? (field.max !== undefined ? Math.min(min, field.max) : min);
+    const high = field.max ?? Math.max(max, low);
+    const value = low + this.random.next() * (high - low);
+    const factor = 10 ** decimals;
+    return Math.min(high, Math.max(low, Math.round(value * factor) / factor));
+  }
+
+  private date(): string {
+    return new Date(BASE_DATE + this.random.int(-365, 365) * DAY).toISOString();
+  }
+
+  private email(): string {
+    const first = this.random.pick(firstNames).toLowerCase();
+    const last = this.random.pick(lastNames).toLowerCase();
+    return `${first}.${last}@${this.random.pick(domains)}`;
+  }
+
+  private url(name: string): string {
+    if (/avatar|image|photo|picture|thumbnail/i.test(name)) {
+      return `https://i.pravatar.cc/150?u=${this.random.int(1, 9999)}`;
+    }
+    return `https://${this.random.pick(domains)}/${this.random.pick(words)}`;
+  }
+
+  private words(count: number): string {
+    return Array.from({ length: count }, () => this.random.pick(words)).join(' ');
+  }
+
+  private fitLength(value: string, minLength?: number, maxLength?: number): string {
+    let result = value;
+    while (minLength !== undefined && result.length < minLength) {
+      result = `${result} ${this.random.pick(words)}`;
+    }
+    return maxLength !== undefined ? result.slice(0, maxLength) : result;
+  }
+}
+
+/**
+ * Singular form of a collection name, used as the hint for array items
+ */
+function singular(name: string): string {
+  return name.endsWith('s') ? name.slice(0, -1) : name;
+}
+
+function resolveOptions(options: MockDataOptions): ResolvedOptions {
+  return { ...defaultOptions, ...options };
+}
+
+/**
+ * Generate data matching `shape`
+ */
+export function generateMockData<T = unknown>(shape: DataShape, options: MockDataOptions = {}): T {
+  return new MockGenerator(resolveOptions(options)).shape(shape, 0) as T;
+}
+
+/**
+ * Generate a value for a single field. `name` drives content hints.
+ */
+export function generateMockField(
+  field: FieldSchema,
+  name = '',
+  options: MockDataOptions = {}
+): unknown {
+  return new MockGenerator(resolveOptions(options)).field(field, name, 0);
+}
+
+/**
+ * Fixtures for a component's data shape: one under `default` and one per
+ * variant, each seeded from the variant name so they stay stable as variants
+ * are added or removed. Returns an empty object when there is no data shape.
+ */
+export function generateVariantFixtures(
+  schema: ComponentSchema,
+  options: MockDataOptions = {}
+): Record<string, unknown> {
+  const { dataShape } = schema;
+  if (!dataShape) {
+    return {};
+  }
+
+  const seed = options.seed ?? defaultOptions.seed;
+  const names = ['default', ...(schema.variants ?? []).map((variant) => variant.name)];
+  return Object.fromEntries(
+    names.map((name) => [
+      name,
+      generateMockData(dataShape, { ...options, seed: `${seed}:${schema.id}:${name}` }),
+    ])
+  );
+}
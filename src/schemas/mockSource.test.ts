@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MockHttpError, fetchMockData, mockResponse, validateMockSource } from './mockSource';
+import { DataSourceSchema } from './types';
+
+const users: DataSourceSchema = {
+  id: 'users',
+  type: 'mock',
+  responseShape: {
+    type: 'array',
+    itemShape: { type: 'object', fields: { name: { type: 'string', required: true } } },
+  },
+};
+
+describe('mock sources', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers from the fixture or generates data from the response shape', () => {
+    expect(mockResponse({ ...users, mock: { fixture: [{ name: 'Ada' }] } })).toEqual([
+      { name: 'Ada' },
+    ]);
+
+    const generated = mockResponse({ ...users, mock: { count: 3 } }) as Array<{ name: string }>;
+    expect(generated).toHaveLength(3);
+    expect(mockResponse({ ...users, mock: { count: 3 } })).toEqual(generated);
+
+    expect(mockResponse({ ...users, mock: { empty: true } })).toEqual([]);
+
+    const table: DataSourceSchema = {
+      id: 'table',
+      type: 'mock',
+      mock: { empty: true },
+      responseShape: {
+        type: 'object',
+        fields: {
+          total: { type: 'number', required: true },
+          rows: { type: 'array', required: true, itemType: { type: 'string' } },
+        },
+      },
+    };
+    const empty = mockResponse(table) as { total: unknown; rows: unknown[] };
+    expect(typeof empty.total).toBe('number');
+    expect(empty.rows).toEqual([]);
+    expect(
+      mockResponse({ ...table, mock: { empty: true, fixture: { total: 0, rows: ['a'] } } })
+    ).toEqual({ total: 0, rows: [] });
+    expect(() => mockResponse({ id: 'bare', type: 'mock' })).toThrow(
+      'Mock data source "bare" needs a fixture or a responseShape'
+    );
+  });
+
+  it('answers after its latency and can be aborted', async () => {
+    vi.useFakeTimers();
+    const source: DataSourceSchema = { ...users, mock: { fixture: [], latency: 500 } };
+
+    const answer = vi.fn();
+    void fetchMockData(source).then(answer);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(answer).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(answer).toHaveBeenCalledWith([]);
+
+    const controller = new AbortController();
+    const aborted = fetchMockData(source, { signal: controller.signal });
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('fails with the configured status or error rate', async () => {
+    const failing = fetchMockData({ ...users, mock: { status: 503 } });
+    await expect(failing).rejects.toThrow(MockHttpError);
+    await expect(failing).rejects.toMatchObject({
+      status: 503,
+      message: 'HTTP error! status: 503',
+    });
+
+    const flaky: DataSourceSchema = { ...users, mock: { fixture: [], errorRate: 0.3 } };
+    await expect(fetchMockData(flaky, { random: () => 0.2 })).rejects.toMatchObject({
+      status: 500,
+    });
+    await expect(fetchMockData(flaky, { random: () => 0.5 })).resolves.toEqual([]);
+
+    await expect(fetchMockData({ ...users, mock: { status: 204 } })).resolves.toBeNull();
+  });
+
+  it('validates mock settings', () => {
+    expect(validateMockSource({ latency: { min: 100, max: 300 }, errorRate: 0.5 }, 'mock')).toEqual(
+      []
+    );
+    expect(
+      validateMockSource({ latency: -1, errorRate: 2, status: 700, count: 1.5 }, 'rest')
+    ).toEqual([
+      { path: 'mock', message: 'Mock settings only apply to mock sources' },
+      { path: 'mock.latency', message: 'Latency must be milliseconds or a { min, max } range' },
+      { path: 'mock.errorRate', message: 'Error rate must be between 0 and 1' },
+      { path: 'mock.status', message: 'Status must be an HTTP status from 200 to 599' },
+      { path: 'mock.count', message: 'Count must be a non-negative integer' },
+    ]);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Simulated responses for `mock` data sources
+ *
+ * A mock source answers from its fixture, or with data generated from its
+ * `responseShape`, after a configurable delay. It can fail at a given rate
+ * or with a fixed HTTP status, or answer with no items, so loading, error
+ * and empty states can be tried without a backend.
+ */
+
+import { DataSourceSchema, MockSourceSchema, ValidationResult } from './types';
+import { generateMockData } from './mockData';
+
+type ValidationIssue = NonNullable<ValidationResult['errors']>[number];
+
+/**
+ * A simulated request failed; carries the HTTP status it failed with
+ */
+export class MockHttpError extends Error {
+  constructor(public readonly status: number) {
+    super(`HTTP error! status: ${status}`);
+    this.name = 'MockHttpError';
+  }
+}
+
+export interface MockRequestOptions {
+  signal?: AbortSignal;
+  // Decides random failures and latency; Math.random by default
+  random?: () => number;
+  // Answer with this instead of the fixture, e.g. a mutation's body
+  body?: unknown;
+}
+
+// Status of requests failed by `errorRate`
+const RANDOM_FAILURE_STATUS = 500;
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function latencyOf(mock: MockSourceSchema, random: () => number): number {
+  const { latency = 0 } = mock;
+  return typeof latency === 'number'
+    ? latency
+    : latency.min + Math.round(random() * (latency.max - latency.min));
+}
+
+// No items: an empty list, or an object whose lists, e.g. `rows`, are empty
+function emptyResponse(dataSource: DataSourceSchema): unknown {
+  const { fixture, seed } = dataSource.mock ?? {};
+  const shape = dataSource.responseShape;
+
+  if (Array.isArray(fixture) || (fixture === undefined && shape?.type === 'array')) {
+    return [];
+  }
+  if (typeof fixture === 'object' && fixture !== null) {
+    return Object.fromEntries(
+      Object.entries(fixture).map(([key, value]) => [key, Array.isArray(value) ? [] : value])
+    );
+  }
+  if (fixture === undefined && shape?.type === 'object') {
+    return generateMockData(shape, { seed: seed ?? dataSource.id, arrayLength: 0 });
+  }
+  return null;
+}
+
+/**
+ * The data a mock source answers with when it succeeds
+ */
+export function mockResponse(dataSource: DataSourceSchema, body?: unknown): unknown {
+  const mock = dataSource.mock ?? {};
+  const shape = dataSource.responseShape;
+
+  if (mock.empty) {
+    return emptyResponse(dataSource);
+  }
+  if (body !== undefined) {
+    return body;
+  }
+  if (mock.fixture !== undefined) {
+    return mock.fixture;
+  }
+  if (!shape) {
+    throw new Error(`Mock data source "${dataSource.id}" needs a fixture or a responseShape`);
+  }
+  return generateMockData(shape, { seed: mock.seed ?? dataSource.id, arrayLength: mock.count });
+}
+
+/**
+ * Answer a request to a mock source after its latency, failing as configured
+ */
+export async function fetchMockData(
+  dataSource: DataSourceSchema,
+  options: MockRequestOptions = {}
+): Promise<unknown> {
+  const { signal, random = Math.random, body } = options;
+  const mock = dataSource.mock ?? {};
+
+  await delay(latencyOf(mock, random), signal);
+
+  if (mock.status !== undefined && mock.status >= 400) {
+    throw new MockHttpError(mock.status);
+  }
+  if (mock.errorRate && random() < mock.errorRate) {
+    throw new MockHttpError(RANDOM_FAILURE_STATUS);
+  }
+  if (mock.status === 204) {
+    return null;
+  }
+  return mockResponse(dataSource, body);
+}
+
+/**
+ * Check a source's mock settings
+ */
+export function validateMockSource(
+  mock: unknown,
+  sourceType: DataSourceSchema['type'],
+  path = 'mock'
+): ValidationIssue[] {
+  const errors: ValidationIssue[] = [];
+  if (typeof mock !== 'object' || mock === null) {
+    errors.push({ path, message: 'Mock settings must be an object' });
+    return errors;
+  }
+  if (sourceType !== 'mock') {
+    errors.push({ path, message: 'Mock settings only apply to mock sources' });
+  }
+
+  const settings = mock as Record<string, unknown>;
+  const isDuration = (value: unknown): boolean => typeof value === 'number' && value >= 0;
+  const latency = settings.latency as { min?: unknown; max?: unknown } | undefined;
+  if (
+    latency !== undefined &&
+    !isDuration(latency) &&
+    !(
+      typeof latency === 'object' &&
+      latency !== null &&
+      isDuration(latency.min) &&
+      isDuration(latency.max) &&
+      (latency.min as number) <= (latency.max as number)
+    )
+  ) {
+    errors.push({
+      path: `${path}.latency`,
+      message: 'Latency must be milliseconds or a { min, max } range',
+    });
+  }
+
+  const { errorRate, status, count } = settings;
+  if (
+    errorRate !== undefined &&
+    !(typeof errorRate === 'number' && errorRate >= 0 && errorRate <= 1)
+  ) {
+    errors.push({ path: `${path}.errorRate`, message: 'Error rate must be between 0 and 1' });
+  }
+  if (
+    status !== undefined &&
+    !(typeof status === 'number' && Number.isInteger(status) && status >= 200 && status <= 599)
+  ) {
+    errors.push({
+      path: `${path}.status`,
+      message: 'Status must be an HTTP status from 200 to 599',
+    });
+  }
+  if (
+    count !== undefined &&
+    !(typeof count === 'number' && Number.isInteger(count) && count >= 0)
+  ) {
+    errors.push({ path: `${path}.count`, message: 'Count must be a non-negative integer' });
+  }
+
+  return errors;
+}
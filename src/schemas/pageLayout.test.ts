@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDataSource,
+  getLayoutStyles,
+  getPlacementStyles,
+  resolvePlacement,
+  resolvePlacements,
+} from './pageLayout';
+import { ComponentPlacement } from './types';
+
+describe('pageLayout', () => {
+  const placement: ComponentPlacement = {
+    id: 'stats',
+    component: 'StatsCard',
+    props: { title: 'Stats', dense: false },
+    gridArea: 'main',
+    responsive: {
+      mobile: { gridArea: 'stack', props: { dense: true } },
+    },
+  };
+
+  it('should merge breakpoint overrides including props', () => {
+    expect(resolvePlacement(placement, 'desktop')).toBe(placement);
+
+    const mobile = resolvePlacement(placement, 'mobile');
+    expect(mobile.gridArea).toBe('stack');
+    expect(mobile.props).toEqual({ title: 'Stats', dense: true });
+    expect(mobile.id).toBe('stats');
+  });
+
+  it('should sort placements by order and keep declaration order otherwise', () => {
+    const resolved = resolvePlacements(
+      [
+        { id: 'a', component: 'X' },
+        { id: 'b', component: 'X', order: 2 },
+        { id: 'c', component: 'X' },
+        { id: 'd', component: 'X', order: 1, responsive: { tablet: { order: 3 } } },
+      ],
+      'tablet'
+    );
+
+    expect(resolved.map((p) => p.id)).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('should build grid template styles', () => {
+    expect(
+      getLayoutStyles('grid', { columns: 3, areas: ['header header header', 'main main side'] })
+    ).toEqual({
+      display: 'grid',
+      gap: 2,
+      gridTemplateAreas: '"header header header" "main main side"',
+      gridTemplateColumns: 'repeat(3, minmax(0, 1fr))',
+      gridTemplateRows: undefined,
+    });
+    expect(getPlacementStyles('grid', placement)).toEqual({ gridArea: 'main', minWidth: 0 });
+  });
+
+  it('should pick responsive column counts per breakpoint', () => {
+    const config = { breakpointColumns: { desktop: 4 } };
+
+    expect(getLayoutStyles('responsive', config, 'mobile').gridTemplateColumns).toBe(
+      'repeat(1, minmax(0, 1fr))'
+    );
+    expect(getLayoutStyles('responsive', config, 'desktop').gridTemplateColumns).toBe(
+      'repeat(4, minmax(0, 1fr))'
+    );
+  });
+
+  it('should position absolute placements from the layout config', () => {
+    const config = { positions: { stats: { x: 10, y: 20, width: 300 } } };
+
+    expect(getLayoutStyles('absolute', config)).toMatchObject({ position: 'relative' });
+    expect(getPlacementStyles('absolute', placement, config)).toEqual({
+      position: 'absolute',
+      left: 10,
+      top: 20,
+      width: 300,
+      height: undefined,
+    });
+  });
+
+  it('should find page data sources before global ones', () => {
+    const page = { dataSources: [{ id: 'users', type: 'rest' as const, endpoint: '/page' }] };
+    const global = [
+      { id: 'users', type: 'rest' as const, endpoint: '/global' },
+      { id: 'stats', type: 'static' as const },
+    ];
+
+    expect(findDataSource('users', page, global)?.endpoint).toBe('/page');
+    expect(findDataSource('stats', page, global)?.type).toBe('static');
+    expect(findDataSource('missing', page, global)).toBeUndefined();
+    expect(findDataSource(undefined, page, global)).toBeUndefined();
+  });
+});
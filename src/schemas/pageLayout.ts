@@ -0,0 +1,207 @@
+/**
+ * Layout resolution for page schemas
+ *
+ * Pure helpers that turn a `PageSchema` layout and its component placements
+ * into style objects for the current breakpoint. Rendering lives in
+ * `PageRenderer`.
+ */
+
+import { ComponentPlacement, DataSourceSchema, LayoutType, PageSchema } from './types';
+
+export type LayoutBreakpoint = keyof NonNullable<ComponentPlacement['responsive']>;
+
+export type LayoutStyles = Record<string, string | number | undefined>;
+
+/**
+ * Position of a placement in an absolute layout
+ */
+export interface AbsolutePosition {
+  x: number;
+  y: number;
+  width?: number | string;
+  height?: number | string;
+}
+
+/**
+ * Supported `layout.config` keys, all optional
+ */
+export interface PageLayoutConfig {
+  // Spacing between placements in theme spacing units
+  gap?: number;
+  // grid: number of columns or a grid-template-columns value
+  columns?: number | string;
+  // grid: grid-template-areas rows, e.g. ['header header', 'main side']
+  areas?: string[] | string;
+  rows?: string;
+  // flex
+  direction?: 'row' | 'column';
+  wrap?: boolean;
+  alignItems?: string;
+  justifyContent?: string;
+  itemMinWidth?: number;
+  // absolute: position per placement ID
+  height?: number | string;
+  positions?: Record<string, AbsolutePosition>;
+  // responsive: column count per breakpoint
+  breakpointColumns?: Partial<Record<LayoutBreakpoint, number>>;
+}
+
+const defaultBreakpointColumns: Record<LayoutBreakpoint, number> = {
+  mobile: 1,
+  tablet: 2,
+  desktop: 3,
+};
+
+/**
+ * Apply the breakpoint override of a placement on top of its base values
+ */
+export function resolvePlacement(
+  placement: ComponentPlacement,
+  breakpoint: LayoutBreakpoint
+): ComponentPlacement {
+  const override = placement.responsive?.[breakpoint];
+  if (!override) {
+    return placement;
+  }
+
+  return {
+    ...placement,
+    ...override,
+    id: placement.id,
+    props: { ...placement.props, ...override.props },
+    responsive: placement.responsive,
+  };
+}
+
+/**
+ * Resolve all placements for a breakpoint and sort them by `order`.
+ * Placements without an order keep their declaration order after ordered ones.
+ */
+export function resolvePlacements(
+  placements: ComponentPlacement[],
+  breakpoint: LayoutBreakpoint
+): ComponentPlacement[] {
+  return placements
+    .map((placement, index) => ({ placement: resolvePlacement(placement, breakpoint), index }))
+    .sort((a, b) => {
+      const orderA = a.placement.order ?? Number.MAX_SAFE_INTEGER;
+      const orderB = b.placement.order ?? Number.MAX_SAFE_INTEGER;
+      return orderA - orderB || a.index - b.index;
+    })
+    .map(({ placement }) => placement);
+}
+
+/**
+ * Container styles for a page layout
+ */
+export function getLayoutStyles(
+  type: LayoutType,
+  config: PageLayoutConfig = {},
+  breakpoint: LayoutBreakpoint = 'desktop'
+): LayoutStyles {
+  const gap = config.gap ?? 2;
+
+  switch (type) {
+    case 'grid': {
+      const areas = Array.isArray(config.areas)
+        ? config.areas.map((row) => `"${row}"`).join(' ')
+        : config.areas;
+      const columns =
+        typeof config.columns === 'number'
+          ? `repeat(${config.columns}, minmax(0, 1fr))`
+          : config.columns;
+      return {
+        display: 'grid',
+        gap,
+        gridTemplateAreas: areas,
+        gridTemplateColumns: columns,
+        gridTemplateRows: config.rows,
+      };
+    }
+
+    case 'flex':
+      return {
+        display: 'flex',
+        flexDirection: config.direction ?? 'row',
+        flexWrap: config.wrap === false ? 'nowrap' : 'wrap',
+        alignItems: config.alignItems ?? 'stretch',
+        justifyContent: config.justifyContent,
+        gap,
+      };
+
+    case 'absolute':
+      return {
+        position: 'relative',
+        width: '100%',
+        minHeight: config.height ?? 600,
+      };
+
+    case 'responsive': {
+      const columns = { ...defaultBreakpointColumns, ...config.breakpointColumns }[breakpoint];
+      return {
+        display: 'grid',
+        gap,
+        gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+      };
+    }
+
+    default:
+      return {};
+  }
+}
+
+/**
+ * Item styles for a resolved placement
+ */
+export function getPlacementStyles(
+  type: LayoutType,
+  placement: ComponentPlacement,
+  config: PageLayoutConfig = {}
+): LayoutStyles {
+  switch (type) {
+    case 'grid':
+    case 'responsive':
+      return { gridArea: placement.gridArea, minWidth: 0 };
+
+    case 'flex': {
+      const direction = config.direction ?? 'row';
+      return direction === 'row'
+        ? { flex: `1 1 ${config.itemMinWidth ?? 280}px`, minWidth: 0 }
+        : { width: '100%' };
+    }
+
+    case 'absolute': {
+      const position = config.positions?.[placement.id];
+      if (!position) {
+        return { position: 'relative' };
+      }
+      return {
+        position: 'absolute',
+        left: position.x,
+        top: position.y,
+        width: position.width,
+        height: position.height,
+      };
+    }
+
+    default:
+      return {};
+  }
+}
+
+/**
+ * Look up a data source by ID in the page first, then in global sources
+ */
+export function findDataSource(
+  id: string | undefined,
+  page: Pick<PageSchema, 'dataSources'>,
+  globalDataSources: DataSourceSchema[] = []
+): DataSourceSchema | undefined {
+  if (!id) {
+    return undefined;
+  }
+  return (
+    page.dataSources.find((source) => source.id === id) ??
+    globalDataSources.find((source) => source.id === id)
+  );
+}
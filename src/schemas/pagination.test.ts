@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  firstPageParam,
+  pageParams,
+  pageUrl,
+  parseLinkHeader,
+  readPage,
+  validatePagination,
+} from './pagination';
+import { PaginationSchema } from './types';
+
+describe('pagination', () => {
+  it('builds page requests for each strategy', () => {
+    const offset: PaginationSchema = { type: 'offset', pageSize: 20 };
+    expect(pageUrl('/api/users?active=1', offset, 40)).toBe(
+      '/api/users?active=1&offset=40&limit=20'
+    );
+
+    const page: PaginationSchema = { type: 'page', pageSize: 10, pageParam: 'p', firstPage: 0 };
+    expect(firstPageParam(page)).toBe(0);
+    expect(pageParams(page, 3)).toEqual({ p: 3, pageSize: 10 });
+
+    const cursor: PaginationSchema = { type: 'cursor', cursorPath: 'next', cursorParam: 'after' };
+    expect(pageParams(cursor, null)).toEqual({});
+    expect(pageParams(cursor, 'abc')).toEqual({ after: 'abc' });
+
+    expect(pageUrl('/api/users', { type: 'link' }, null)).toBe('/api/users');
+    expect(pageUrl('/api/users', { type: 'link' }, 'https://api.test/users?page=2')).toBe(
+      'https://api.test/users?page=2'
+    );
+  });
+
+  it('reads items, totals and the next page', () => {
+    const offset: PaginationSchema = { type: 'offset', pageSize: 2, itemsPath: 'data' };
+    expect(readPage(offset, { data: [1, 2] }, 0)).toEqual({ items: [1, 2], next: 2 });
+    expect(readPage(offset, { data: [3] }, 2).next).toBeUndefined();
+
+    const page: PaginationSchema = { type: 'page', pageSize: 2, totalPath: 'meta.total' };
+    const body = (items: number[]): unknown => ({ items, meta: { total: 4 } });
+    expect(readPage({ ...page, itemsPath: 'items' }, body([1, 2]), 1)).toEqual({
+      items: [1, 2],
+      next: 2,
+      total: 4,
+    });
+    expect(readPage({ ...page, itemsPath: 'items' }, body([3, 4]), 2).next).toBeUndefined();
+
+    const cursor: PaginationSchema = {
+      type: 'cursor',
+      cursorPath: 'pageInfo.endCursor',
+      itemsPath: 'nodes',
+    };
+    expect(readPage(cursor, { nodes: [1], pageInfo: { endCursor: 'c1' } }, null).next).toBe('c1');
+    expect(readPage(cursor, { nodes: [], pageInfo: { endCursor: null } }, 'c1').next).toBe(
+      undefined
+    );
+
+    expect(() => readPage(offset, { data: null }, 0)).toThrow(
+      'Expected an array of items at "data"'
+    );
+  });
+
+  it('follows Link headers', () => {
+    const header =
+      '<https://api.test/users?page=1>; rel="prev first", <https://api.test/users?page=3>; rel="next"';
+    expect(parseLinkHeader(header)).toEqual({
+      prev: 'https://api.test/users?page=1',
+      first: 'https://api.test/users?page=1',
+      next: 'https://api.test/users?page=3',
+    });
+    expect(parseLinkHeader('</users?page=2>; rel=next', 'https://api.test/users').next).toBe(
+      'https://api.test/users?page=2'
+    );
+
+    const link: PaginationSchema = { type: 'link' };
+    expect(readPage(link, [1], null, { link: header }).next).toBe('https://api.test/users?page=3');
+    expect(readPage(link, [1], null, { link: null }).next).toBeUndefined();
+  });
+
+  it('validates settings against the source type', () => {
+    expect(validatePagination({ type: 'offset', pageSize: 10 }, 'rest')).toEqual([]);
+    expect(validatePagination({ type: 'link' }, 'graphql')).toEqual([
+      { path: 'pagination.type', message: 'Link header pagination needs a REST source' },
+    ]);
+    expect(validatePagination({ type: 'cursor', pageSize: 0 }, 'static')).toEqual([
+      { path: 'pagination', message: 'Only REST and GraphQL sources can be paginated' },
+      { path: 'pagination.pageSize', message: 'Page size must be a positive integer' },
+      { path: 'pagination.cursorPath', message: '"cursorPath" is required' },
+    ]);
+    expect(validatePagination({ type: 'seek' }, 'rest')[0].message).toMatch(
+      /^Unknown pagination type/
+    );
+  });
+});
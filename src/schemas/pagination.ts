@@ -0,0 +1,225 @@
+/**
+ * Pagination strategies for data sources
+ *
+ * A source's {@link PaginationSchema} says how to ask for a page (offset and
+ * limit, page number, cursor or the Link header's next URL) and how to read
+ * the items and the next page's parameter from the response. Fetching is
+ * left to `useSchemaData`; everything here is pure.
+ */
+
+import { DataSourceSchema, PaginationSchema, PaginationType, ValidationResult } from './types';
+import { getPath } from './transforms';
+
+type ValidationIssue = NonNullable<ValidationResult['errors']>[number];
+
+// Identifies a page: an offset, page number, cursor or URL. Cursor and link
+// pagination start from null, which requests the source's first page.
+export type PageParam = number | string | null;
+
+export interface PageResult {
+  items: unknown[];
+  // Parameter of the following page; undefined after the last page
+  next?: PageParam;
+  total?: number;
+}
+
+export const paginationTypes: PaginationType[] = ['offset', 'page', 'cursor', 'link'];
+
+export function firstPageParam(pagination: PaginationSchema): PageParam {
+  switch (pagination.type) {
+    case 'offset':
+      return 0;
+    case 'page':
+      return pagination.firstPage ?? 1;
+    case 'cursor':
+    case 'link':
+      return null;
+  }
+}
+
+/**
+ * Parameters identifying a page, as sent in the query string or as GraphQL
+ * variables
+ */
+export function pageParams(
+  pagination: PaginationSchema,
+  param: PageParam
+): Record<string, string | number> {
+  switch (pagination.type) {
+    case 'offset':
+      return {
+        [pagination.offsetParam ?? 'offset']: param ?? 0,
+        [pagination.limitParam ?? 'limit']: pagination.pageSize,
+      };
+    case 'page':
+      return {
+        [pagination.pageParam ?? 'page']: param ?? pagination.firstPage ?? 1,
+        [pagination.sizeParam ?? 'pageSize']: pagination.pageSize,
+      };
+    case 'cursor': {
+      const params: Record<string, string | number> = {};
+      if (param !== null) {
+        params[pagination.cursorParam ?? 'cursor'] = param;
+      }
+      if (pagination.pageSize !== undefined) {
+        params[pagination.sizeParam ?? 'limit'] = pagination.pageSize;
+      }
+      return params;
+    }
+    case 'link':
+      return {};
+  }
+}
+
+/**
+ * Append query parameters to a URL, which may be relative
+ */
+export function withQueryParams(url: string, params: Record<string, string | number>): string {
+  const query = Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  if (!query) {
+    return url;
+  }
+  const [path, hash] = url.split('#', 2);
+  const separator = path.includes('?') ? (/[?&]$/.test(path) ? '' : '&') : '?';
+  return `${path}${separator}${query}${hash === undefined ? '' : `#${hash}`}`;
+}
+
+/**
+ * URL of a page of a REST source
+ */
+export function pageUrl(endpoint: string, pagination: PaginationSchema, param: PageParam): string {
+  if (pagination.type === 'link') {
+    return typeof param === 'string' ? param : endpoint;
+  }
+  return withQueryParams(endpoint, pageParams(pagination, param));
+}
+
+/**
+ * Parse an RFC 8288 Link header into URLs keyed by relation. Relative URLs
+ * are resolved against `base` when it is absolute.
+ */
+export function parseLinkHeader(
+  header: string | null | undefined,
+  base?: string
+): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const part of (header ?? '').split(/,\s*(?=<)/)) {
+    const match = /^\s*<([^>]*)>(.*)$/.exec(part);
+    const rel = match && /;\s*rel="?([^";]+)"?/i.exec(match[2]);
+    if (!match || !rel) {
+      continue;
+    }
+    let url = match[1];
+    try {
+      url = new URL(url, base).toString();
+    } catch {
+      // Relative to a relative base; keep it as given
+    }
+    for (const name of rel[1].trim().split(/\s+/)) {
+      links[name.toLowerCase()] ??= url;
+    }
+  }
+  return links;
+}
+
+function isCursor(value: unknown): value is string | number {
+  return (typeof value === 'string' && value !== '') || typeof value === 'number';
+}
+
+/**
+ * Read a page's items, the total and the next page's parameter from a
+ * response body. `link` is the response's Link header and `url` the URL it
+ * was fetched from.
+ */
+export function readPage(
+  pagination: PaginationSchema,
+  body: unknown,
+  param: PageParam,
+  response: { link?: string | null; url?: string } = {}
+): PageResult {
+  const items = getPath(body, pagination.itemsPath ?? '');
+  if (!Array.isArray(items)) {
+    throw new Error(
+      pagination.itemsPath
+        ? `Expected an array of items at "${pagination.itemsPath}"`
+        : 'Expected an array of items; set pagination.itemsPath to where the response holds them'
+    );
+  }
+
+  const totalValue = pagination.totalPath ? getPath(body, pagination.totalPath) : undefined;
+  const total = typeof totalValue === 'number' ? totalValue : undefined;
+  const result: PageResult = { items, total };
+
+  switch (pagination.type) {
+    case 'offset': {
+      const next = (typeof param === 'number' ? param : 0) + items.length;
+      const more = total !== undefined ? next < total : items.length >= pagination.pageSize;
+      result.next = more && items.length > 0 ? next : undefined;
+      break;
+    }
+    case 'page': {
+      const firstPage = pagination.firstPage ?? 1;
+      const page = typeof param === 'number' ? param : firstPage;
+      const loaded = (page - firstPage + 1) * pagination.pageSize;
+      const more = total !== undefined ? loaded < total : items.length >= pagination.pageSize;
+      result.next = more && items.length > 0 ? page + 1 : undefined;
+      break;
+    }
+    case 'cursor': {
+      const cursor = getPath(body, pagination.cursorPath);
+      result.next = isCursor(cursor) ? cursor : undefined;
+      break;
+    }
+    case 'link':
+      result.next = parseLinkHeader(response.link, response.url).next;
+      break;
+  }
+
+  return result;
+}
+
+/**
+ * Check a source's pagination settings
+ */
+export function validatePagination(
+  pagination: unknown,
+  sourceType: DataSourceSchema['type'],
+  path = 'pagination'
+): ValidationIssue[] {
+  const errors: ValidationIssue[] = [];
+  if (typeof pagination !== 'object' || pagination === null) {
+    errors.push({ path, message: 'Pagination must be an object' });
+    return errors;
+  }
+
+  const settings = pagination as Record<string, unknown>;
+  const type = settings.type;
+  if (!paginationTypes.includes(type as PaginationType)) {
+    errors.push({
+      path: `${path}.type`,
+      message: `Unknown pagination type; expected one of: ${paginationTypes.join(', ')}`,
+    });
+    return errors;
+  }
+  if (sourceType !== 'rest' && sourceType !== 'graphql') {
+    errors.push({ path, message: 'Only REST and GraphQL sources can be paginated' });
+  } else if (type === 'link' && sourceType !== 'rest') {
+    errors.push({ path: `${path}.type`, message: 'Link header pagination needs a REST source' });
+  }
+
+  const pageSize = settings.pageSize;
+  if (
+    (type === 'offset' || type === 'page' || pageSize !== undefined) &&
+    type !== 'link' &&
+    !(typeof pageSize === 'number' && Number.isInteger(pageSize) && pageSize > 0)
+  ) {
+    errors.push({ path: `${path}.pageSize`, message: 'Page size must be a positive integer' });
+  }
+  if (type === 'cursor' && (typeof settings.cursorPath !== 'string' || !settings.cursorPath)) {
+    errors.push({ path: `${path}.cursorPath`, message: '"cursorPath" is required' });
+  }
+
+  return errors;
+}
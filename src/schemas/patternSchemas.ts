@@ -102,6 +102,7 @@ export const muiComponentSchemas: ComponentSchema[] = [
     type: 'display',
     category: 'forms',
     description: 'Material-UI Button component',
+    imports: ["import { MuiButtonComponent } from '../components/design/MuiComponents';"],
     props: [
       { name: 'label', type: 'string', label: 'Label', default: 'Button', group: 'General' },
       {
@@ -153,6 +154,7 @@ export const muiComponentSchemas: ComponentSchema[] = [
     type: 'display',
     category: 'cards',
     description: 'Material-UI Card component',
+    imports: ["import { MuiCardComponent } from '../components/design/MuiComponents';"],
     props: [
       { name: 'title', type: 'string', label: 'Title', default: 'Card Title', group: 'Content' },
       { name: 'subtitle', type: 'string', label: 'Subtitle', default: '', group: 'Content' },
@@ -188,6 +190,7 @@ export const muiComponentSchemas: ComponentSchema[] = [
     type: 'form',
     category: 'forms',
     description: 'Material-UI TextField component',
+    imports: ["import { MuiTextFieldComponent } from '../components/design/MuiComponents';"],
     props: [
       { name: 'label', type: 'string', label: 'Label', default: 'Text Field', group: 'General' },
       { name: 'placeholder', type: 'string', label: 'Placeholder', default: '', group: 'General' },
@@ -235,6 +238,7 @@ export const muiComponentSchemas: ComponentSchema[] = [
     type: 'display',
     category: 'utility',
     description: 'Material-UI Alert component',
+    imports: ["import { MuiAlertComponent } from '../components/design/MuiComponents';"],
     props: [
       {
         name: 'message',
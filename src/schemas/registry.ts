@@ -1,5 +1,5 @@
 import React from 'react';
-import { ComponentSchema, DataShape, FieldSchema } from './types';
+import { ComponentSchema, DataShape } from './types';
 
 /**
  * Component registry for mapping schema IDs to React components
@@ -65,6 +65,8 @@ export const commonDataShapes: Record<string, DataShape> = {
         trend: { type: 'string', enum: ['up', 'down', 'flat'] },
         trendValue: { type: 'string' },
         color: { type: 'string' },
+        // Display format for `value`, e.g. 'currency'
+        format: { type: 'string' },
       },
       required: ['label', 'value'],
     },
@@ -84,6 +86,8 @@ export const commonDataShapes: Record<string, DataShape> = {
             label: { type: 'string', required: true },
             type: { type: 'string', enum: ['text', 'number', 'date', 'boolean'] },
             sortable: { type: 'boolean' },
+            // Display format for the column's cells, e.g. 'percentage'
+            format: { type: 'string' },
           },
         },
       },
@@ -156,7 +160,7 @@ export const commonDataShapes: Record<string, DataShape> = {
         label: { type: 'string', required: true },
         path: { type: 'string' },
         icon: { type: 'string' },
-        children: { type: 'array' },
+        children: { type: 'array', $ref: 'navigation' },
         badge: { type: 'string' },
         disabled: { type: 'boolean' },
       },
@@ -185,8 +189,68 @@ export const commonDataShapes: Record<string, DataShape> = {
       required: ['id', 'title', 'timestamp', 'status'],
     },
   },
+
+  // Threaded comments data shape
+  comments: {
+    type: 'array',
+    itemShape: {
+      type: 'object',
+      fields: {
+        id: { type: 'string', required: true },
+        author: { type: 'string', required: true },
+        body: { type: 'string', required: true },
+        createdAt: { type: 'date' },
+        replies: { type: 'array', $ref: 'comments' },
+      },
+      required: ['id', 'author', 'body'],
+    },
+  },
 };
 
+/**
+ * Named shape registry that `$ref` pointers resolve against
+ */
+export const shapeRegistry = new Map<string, DataShape>(Object.entries(commonDataShapes));
+
+/**
+ * Register a named shape for `$ref` pointers
+ */
+export function registerShape(name: string, shape: DataShape): void {
+  shapeRegistry.set(name, shape);
+}
+
+/**
+ * Get a registered shape by name
+ */
+export function getShape(name: string): DataShape | undefined {
+  return shapeRegistry.get(name);
+}
+
+export interface RuleValidatorInput {
+  // The rule's field value, or the whole object when the rule has no field
+  value: unknown;
+  data: Record<string, unknown>;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Custom rule validator. Return an error message, or null when valid.
+ * Validators returning a promise only run in `validateDataAsync`.
+ */
+export type RuleValidator = (input: RuleValidatorInput) => string | null | Promise<string | null>;
+
+/**
+ * Named validators that `{ type: 'custom' }` rules resolve against
+ */
+export const validatorRegistry = new Map<string, RuleValidator>();
+
+/**
+ * Register a named validator for custom shape rules
+ */
+export function registerValidator(name: string, validator: RuleValidator): void {
+  validatorRegistry.set(name, validator);
+}
+
 /**
  * Component schema templates for common patterns
  */
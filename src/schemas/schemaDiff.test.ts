@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { SchemaChange, diffComponentSchemas, diffDataShapes, diffSchemaSets } from './schemaDiff';
+import { ComponentSchema, DataShape } from './types';
+
+const card: ComponentSchema = {
+  id: 'Card',
+  name: 'Card',
+  type: 'display',
+  props: [
+    { name: 'title', type: 'string', required: true },
+    {
+      name: 'variant',
+      type: 'enum',
+      default: 'outlined',
+      options: [
+        { label: 'Outlined', value: 'outlined' },
+        { label: 'Elevated', value: 'elevated' },
+      ],
+    },
+    { name: 'dense', type: 'boolean' },
+  ],
+};
+
+const summarize = (changes: SchemaChange[]): string[] =>
+  changes.map((change) => `${change.severity} ${change.kind} ${change.path}`);
+
+describe('diffComponentSchemas', () => {
+  it('should report no changes for identical schemas', () => {
+    expect(diffComponentSchemas(card, structuredClone(card))).toEqual([]);
+  });
+
+  it('should classify prop changes', () => {
+    const next: ComponentSchema = {
+      ...card,
+      props: [
+        { name: 'title', type: 'string', required: true },
+        {
+          name: 'variant',
+          type: 'enum',
+          default: 'elevated',
+          options: [
+            { label: 'Elevated', value: 'elevated' },
+            { label: 'Flat', value: 'flat' },
+          ],
+        },
+        { name: 'elevation', type: 'number', required: true },
+        { name: 'size', type: 'enum', required: true, default: 'md' },
+      ],
+    };
+
+    expect(summarize(diffComponentSchemas(card, next))).toEqual([
+      'breaking enum-narrowed props.variant',
+      'non-breaking enum-widened props.variant',
+      'non-breaking default-changed props.variant',
+      'breaking removed props.dense',
+      'breaking added props.elevation',
+      'non-breaking added props.size',
+    ]);
+    expect(diffComponentSchemas(card, next)[0].message).toBe(
+      'props.variant no longer allows "outlined"'
+    );
+  });
+
+  it('should treat newly required props without a default as breaking', () => {
+    const next: ComponentSchema = {
+      ...card,
+      props: card.props.map((prop) => ({ ...prop, required: true })),
+    };
+
+    expect(summarize(diffComponentSchemas(card, next))).toEqual([
+      'non-breaking required-added props.variant',
+      'breaking required-added props.dense',
+    ]);
+  });
+});
+
+describe('diffDataShapes', () => {
+  const user: DataShape = {
+    type: 'object',
+    fields: {
+      name: { type: 'string', required: true },
+      age: { type: 'number', min: 0 },
+      role: { type: 'string', enum: ['admin', 'user'] },
+      nickname: { type: 'string' },
+      tags: { type: 'array', itemType: { type: 'string' } },
+    },
+  };
+
+  it('should classify field changes', () => {
+    const next: DataShape = {
+      type: 'object',
+      required: ['age'],
+      fields: {
+        name: { type: 'string', required: true, nullable: true },
+        age: { type: 'number', min: 18 },
+        role: { type: 'string', enum: ['admin', 'user', 'guest'] },
+        tags: { type: 'array', itemType: { type: 'number' } },
+        email: { type: 'string', format: 'email' },
+      },
+    };
+
+    expect(summarize(diffDataShapes('data', user, next))).toEqual([
+      'non-breaking constraint-relaxed data.name',
+      'breaking required-added data.age',
+      'breaking constraint-tightened data.age',
+      'non-breaking enum-widened data.role',
+      'non-breaking removed data.nickname',
+      'breaking type-changed data.tags[]',
+      'non-breaking added data.email',
+    ]);
+  });
+
+  it('should flag newly required fields and changed shape types', () => {
+    expect(
+      summarize(
+        diffDataShapes('data', user, {
+          ...user,
+          fields: { ...user.fields, id: { type: 'string', required: true } },
+        })
+      )
+    ).toEqual(['breaking added data.id']);
+    expect(summarize(diffDataShapes('data', user, { type: 'array', itemShape: user }))).toEqual([
+      'breaking type-changed data',
+    ]);
+  });
+});
+
+describe('diffSchemaSets', () => {
+  it('should report added and removed schemas', () => {
+    const button: ComponentSchema = { id: 'Button', name: 'Button', type: 'form', props: [] };
+    const diff = diffSchemaSets([card], [button]);
+
+    expect(diff.breaking).toBe(true);
+    expect(Object.keys(diff.changes)).toEqual(['Card', 'Button']);
+    expect(diff.changes.Button[0]).toMatchObject({ kind: 'added', severity: 'non-breaking' });
+    expect(diffSchemaSets([card], [card])).toEqual({ changes: {}, breaking: false });
+  });
+});
@@ -0,0 +1,500 @@
+/**
+ * Schema diffing with breaking-change classification
+ *
+ * Compares two versions of a `ComponentSchema` (props and data shape) or of a
+ * `DataShape`. A change is breaking when props or data that were valid against
+ * the old schema can be rejected, or silently dropped, by the new one.
+ */
+
+import { ComponentSchema, DataShape, FieldSchema, PropSchema } from './types';
+
+export type SchemaChangeKind =
+  | 'added'
+  | 'removed'
+  | 'type-changed'
+  | 'default-changed'
+  | 'enum-narrowed'
+  | 'enum-widened'
+  | 'required-added'
+  | 'required-removed'
+  | 'constraint-tightened'
+  | 'constraint-relaxed';
+
+export type SchemaChangeSeverity = 'breaking' | 'non-breaking';
+
+export interface SchemaChange {
+  // Dotted location, e.g. `props.variant` or `dataShape.items[].status`
+  path: string;
+  kind: SchemaChangeKind;
+  severity: SchemaChangeSeverity;
+  message: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface SchemaSetDiff {
+  // Schema ID -> changes; schemas without changes are omitted
+  changes: Record<string, SchemaChange[]>;
+  breaking: boolean;
+}
+
+function change(
+  path: string,
+  kind: SchemaChangeKind,
+  severity: SchemaChangeSeverity,
+  message: string,
+  values: { before?: unknown; after?: unknown } = {}
+): SchemaChange {
+  return { path, kind, severity, message, ...values };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compare allowed values. Removing a value breaks usages that pass it;
+ * constraining a previously open value is treated the same way.
+ */
+function diffAllowedValues(
+  path: string,
+  before: unknown[] | undefined,
+  after: unknown[] | undefined
+): SchemaChange[] {
+  if (!after || after.length === 0) {
+    return before && before.length > 0
+      ? [
+          change(path, 'enum-widened', 'non-breaking', `${path} no longer restricts its values`, {
+            before,
+          }),
+        ]
+      : [];
+  }
+  if (!before || before.length === 0) {
+    return [
+      change(path, 'enum-narrowed', 'breaking', `${path} is now restricted to listed values`, {
+        after,
+      }),
+    ];
+  }
+
+  const removed = before.filter((value) => !after.some((other) => isEqual(value, other)));
+  const added = after.filter((value) => !before.some((other) => isEqual(value, other)));
+  const changes: SchemaChange[] = [];
+  if (removed.length > 0) {
+    changes.push(
+      change(
+        path,
+        'enum-narrowed',
+        'breaking',
+        `${path} no longer allows ${removed.map((value) => JSON.stringify(value)).join(', ')}`,
+        { before, after }
+      )
+    );
+  }
+  if (added.length > 0) {
+    changes.push(
+      change(
+        path,
+        'enum-widened',
+        'non-breaking',
+        `${path} now also allows ${added.map((value) => JSON.stringify(value)).join(', ')}`,
+        { before, after }
+      )
+    );
+  }
+  return changes;
+}
+
+/**
+ * Compare an optional lower or upper bound
+ */
+function diffBound(
+  path: string,
+  name: string,
+  before: number | undefined,
+  after: number | undefined,
+  direction: 'min' | 'max'
+): SchemaChange[] {
+  if (before === after) {
+    return [];
+  }
+  const tightened =
+    before === undefined ||
+    (after !== undefined && (direction === 'min' ? after > before : after < before));
+  return [
+    change(
+      path,
+      tightened ? 'constraint-tightened' : 'constraint-relaxed',
+      tightened ? 'breaking' : 'non-breaking',
+      after === undefined
+        ? `${path} no longer has ${name}`
+        : `${path} ${name} changed from ${before ?? 'none'} to ${after}`,
+      { before, after }
+    ),
+  ];
+}
+
+/**
+ * Compare a constraint that either applies or not, such as a pattern
+ */
+function diffConstraint(
+  path: string,
+  name: string,
+  before: unknown,
+  after: unknown
+): SchemaChange[] {
+  if (isEqual(before, after)) {
+    return [];
+  }
+  const relaxed = after === undefined;
+  return [
+    change(
+      path,
+      relaxed ? 'constraint-relaxed' : 'constraint-tightened',
+      relaxed ? 'non-breaking' : 'breaking',
+      relaxed ? `${path} no longer has ${name}` : `${path} ${name} changed`,
+      { before, after }
+    ),
+  ];
+}
+
+function diffPresence(
+  path: string,
+  beforeRequired: boolean,
+  afterRequired: boolean,
+  hasDefault: boolean
+): SchemaChange[] {
+  if (beforeRequired === afterRequired) {
+    return [];
+  }
+  if (afterRequired) {
+    // Defaults are filled in for props, so usages that omitted it keep working
+    return [
+      change(
+        path,
+        'required-added',
+        hasDefault ? 'non-breaking' : 'breaking',
+        `${path} is now required`
+      ),
+    ];
+  }
+  return [change(path, 'required-removed', 'non-breaking', `${path} is now optional`)];
+}
+
+/**
+ * Compare the members of two named collections
+ */
+function diffMembers<T>(
+  path: string,
+  before: Record<string, T>,
+  after: Record<string, T>,
+  handlers: {
+    changed: (memberPath: string, name: string, before: T, after: T) => SchemaChange[];
+    added: (memberPath: string, name: string, member: T) => SchemaChange;
+    removed: (memberPath: string, name: string, member: T) => SchemaChange;
+  }
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  for (const [name, member] of Object.entries(before)) {
+    const memberPath = `${path}.${name}`;
+    changes.push(
+      ...(name in after
+        ? handlers.changed(memberPath, name, member, after[name])
+        : [handlers.removed(memberPath, name, member)])
+    );
+  }
+  for (const [name, member] of Object.entries(after)) {
+    if (!(name in before)) {
+      changes.push(handlers.added(`${path}.${name}`, name, member));
+    }
+  }
+  return changes;
+}
+
+function fieldTypeLabel(field: FieldSchema): string {
+  return field.$ref ? `$ref ${field.$ref}` : field.type;
+}
+
+/**
+ * Compare two field schemas at `path`
+ */
+export function diffFields(path: string, before: FieldSchema, after: FieldSchema): SchemaChange[] {
+  if (fieldTypeLabel(before) !== fieldTypeLabel(after)) {
+    return [
+      change(
+        path,
+        'type-changed',
+        'breaking',
+        `${path} changed from ${fieldTypeLabel(before)} to ${fieldTypeLabel(after)}`,
+        { before: fieldTypeLabel(before), after: fieldTypeLabel(after) }
+      ),
+    ];
+  }
+
+  const changes: SchemaChange[] = [];
+
+  if (before.nullable && !after.nullable) {
+    changes.push(
+      change(path, 'constraint-tightened', 'breaking', `${path} no longer accepts null`)
+    );
+  } else if (!before.nullable && after.nullable) {
+    changes.push(change(path, 'constraint-relaxed', 'non-breaking', `${path} now accepts null`));
+  }
+
+  changes.push(...diffAllowedValues(path, before.enum, after.enum));
+  changes.push(...diffConstraint(path, 'format', before.format, after.format));
+  changes.push(...diffConstraint(path, 'pattern', before.pattern, after.pattern));
+  changes.push(...diffBound(path, 'min', before.min, after.min, 'min'));
+  changes.push(...diffBound(path, 'max', before.max, after.max, 'max'));
+  changes.push(...diffBound(path, 'minLength', before.minLength, after.minLength, 'min'));
+  changes.push(...diffBound(path, 'maxLength', before.maxLength, after.maxLength, 'max'));
+  changes.push(...diffBound(path, 'minItems', before.minItems, after.minItems, 'min'));
+  changes.push(...diffBound(path, 'maxItems', before.maxItems, after.maxItems, 'max'));
+
+  if (!isEqual(before.default, after.default)) {
+    changes.push(
+      change(path, 'default-changed', 'non-breaking', `${path} default changed`, {
+        before: before.default,
+        after: after.default,
+      })
+    );
+  }
+
+  if (before.itemType && after.itemType) {
+    changes.push(...diffFields(`${path}[]`, before.itemType, after.itemType));
+  } else {
+    changes.push(...diffConstraint(`${path}[]`, 'item type', before.itemType, after.itemType));
+  }
+
+  changes.push(
+    ...diffFieldMaps(path, before.properties ?? {}, after.properties ?? {}, {
+      before: propertyRequired(before.properties),
+      after: propertyRequired(after.properties),
+    })
+  );
+
+  // Union variants are compared as a whole; any change may reject old values
+  for (const key of ['oneOf', 'anyOf', 'discriminator'] as const) {
+    if (!isEqual(before[key], after[key])) {
+      changes.push(
+        change(path, 'type-changed', 'breaking', `${path} ${key} changed`, {
+          before: before[key],
+          after: after[key],
+        })
+      );
+    }
+  }
+
+  return changes;
+}
+
+function diffFieldMaps(
+  path: string,
+  before: Record<string, FieldSchema>,
+  after: Record<string, FieldSchema>,
+  required: { before: (name: string) => boolean; after: (name: string) => boolean }
+): SchemaChange[] {
+  return diffMembers(path, before, after, {
+    changed: (fieldPath, name, oldField, newField) => [
+      ...diffPresence(fieldPath, required.before(name), required.after(name), false),
+      ...diffFields(fieldPath, oldField, newField),
+    ],
+    added: (fieldPath, name, field) => {
+      const isRequired = required.after(name);
+      return change(
+        fieldPath,
+        'added',
+        isRequired ? 'breaking' : 'non-breaking',
+        `${fieldPath} was added${isRequired ? ' as required' : ''}`,
+        { after: field }
+      );
+    },
+    // Extra data fields only produce an "Unknown field" warning
+    removed: (fieldPath, _name, field) =>
+      change(fieldPath, 'removed', 'non-breaking', `${fieldPath} was removed`, { before: field }),
+  });
+}
+
+function propertyRequired(properties: Record<string, FieldSchema> = {}): (name: string) => boolean {
+  return (name: string) => properties[name]?.required === true;
+}
+
+function shapeRequired(shape: DataShape): (name: string) => boolean {
+  const required = new Set(shape.required ?? []);
+  return (name: string) => shape.fields?.[name]?.required === true || required.has(name);
+}
+
+/**
+ * Compare two data shapes. Paths start at `path`, e.g. `dataShape`.
+ */
+export function diffDataShapes(path: string, before: DataShape, after: DataShape): SchemaChange[] {
+  const beforeType = before.$ref ? `$ref ${before.$ref}` : before.type;
+  const afterType = after.$ref ? `$ref ${after.$ref}` : after.type;
+  if (beforeType !== afterType) {
+    return [
+      change(
+        path,
+        'type-changed',
+        'breaking',
+        `${path} changed from ${beforeType} to ${afterType}`,
+        {
+          before: beforeType,
+          after: afterType,
+        }
+      ),
+    ];
+  }
+
+  const changes: SchemaChange[] = [];
+
+  if (before.itemShape && after.itemShape) {
+    changes.push(...diffDataShapes(`${path}[]`, before.itemShape, after.itemShape));
+  }
+
+  changes.push(
+    ...diffFieldMaps(path, before.fields ?? {}, after.fields ?? {}, {
+      before: shapeRequired(before),
+      after: shapeRequired(after),
+    })
+  );
+
+  if (!isEqual(before.rules ?? [], after.rules ?? [])) {
+    const added = (after.rules?.length ?? 0) > (before.rules?.length ?? 0);
+    changes.push(
+      change(
+        `${path}.rules`,
+        added ? 'constraint-tightened' : 'constraint-relaxed',
+        added ? 'breaking' : 'non-breaking',
+        `${path} rules changed`,
+        { before: before.rules, after: after.rules }
+      )
+    );
+  }
+
+  return changes;
+}
+
+function diffProps(path: string, before: PropSchema, after: PropSchema): SchemaChange[] {
+  if (before.type !== after.type) {
+    return [
+      change(
+        path,
+        'type-changed',
+        'breaking',
+        `${path} changed from ${before.type} to ${after.type}`,
+        {
+          before: before.type,
+          after: after.type,
+        }
+      ),
+    ];
+  }
+
+  const changes = diffPresence(
+    path,
+    before.required === true,
+    after.required === true,
+    after.default !== undefined
+  );
+
+  if (before.type === 'enum') {
+    changes.push(
+      ...diffAllowedValues(
+        path,
+        before.options?.map((option) => option.value as unknown),
+        after.options?.map((option) => option.value as unknown)
+      )
+    );
+  }
+
+  if (!isEqual(before.default, after.default)) {
+    changes.push(
+      change(path, 'default-changed', 'non-breaking', `${path} default changed`, {
+        before: before.default as unknown,
+        after: after.default as unknown,
+      })
+    );
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two versions of a component schema
+ */
+export function diffComponentSchemas(
+  before: ComponentSchema,
+  after: ComponentSchema
+): SchemaChange[] {
+  const byName = (props: PropSchema[]): Record<string, PropSchema> =>
+    Object.fromEntries(props.map((prop) => [prop.name, prop]));
+
+  const changes = diffMembers('props', byName(before.props), byName(after.props), {
+    changed: (path, _name, oldProp, newProp) => diffProps(path, oldProp, newProp),
+    added: (path, _name, prop) => {
+      const breaking = prop.required === true && prop.default === undefined;
+      return change(
+        path,
+        'added',
+        breaking ? 'breaking' : 'non-breaking',
+        `${path} was added${breaking ? ' as required without a default' : ''}`,
+        { after: prop }
+      );
+    },
+    // Saved instances that set the prop would lose it
+    removed: (path, _name, prop) =>
+      change(path, 'removed', 'breaking', `${path} was removed`, { before: prop }),
+  });
+
+  if (before.dataShape && after.dataShape) {
+    changes.push(...diffDataShapes('dataShape', before.dataShape, after.dataShape));
+  } else if (before.dataShape !== after.dataShape) {
+    changes.push(
+      before.dataShape
+        ? change('dataShape', 'removed', 'breaking', 'dataShape was removed')
+        : change('dataShape', 'added', 'breaking', 'dataShape was added')
+    );
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two sets of component schemas by ID, e.g. a saved baseline against
+ * the current tree. Removing a schema is breaking; adding one is not.
+ */
+export function diffSchemaSets(before: ComponentSchema[], after: ComponentSchema[]): SchemaSetDiff {
+  const afterById = new Map(after.map((schema) => [schema.id, schema]));
+  const beforeIds = new Set(before.map((schema) => schema.id));
+  const changes: Record<string, SchemaChange[]> = {};
+
+  for (const schema of before) {
+    const current = afterById.get(schema.id);
+    const schemaChanges = current
+      ? diffComponentSchemas(schema, current)
+      : [change(schema.id, 'removed', 'breaking', `Schema ${schema.id} was removed`)];
+    if (schemaChanges.length > 0) {
+      changes[schema.id] = schemaChanges;
+    }
+  }
+  for (const schema of after) {
+    if (!beforeIds.has(schema.id)) {
+      changes[schema.id] = [
+        change(schema.id, 'added', 'non-breaking', `Schema ${schema.id} was added`),
+      ];
+    }
+  }
+
+  return {
+    changes,
+    breaking: Object.values(changes).some(hasBreakingChanges),
+  };
+}
+
+/**
+ * True when any change is breaking
+ */
+export function hasBreakingChanges(changes: SchemaChange[]): boolean {
+  return changes.some((item) => item.severity === 'breaking');
+}
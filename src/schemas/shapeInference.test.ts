@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { inferField, inferShape, mergeShapes } from './shapeInference';
+import { DataShape } from './types';
+
+const users = [
+  {
+    id: 1,
+    email: 'ada@example.com',
+    site: 'https://ada.dev',
+    role: 'admin',
+    joined: '2024-01-05T10:00:00Z',
+  },
+  { id: 2, email: 'bob@example.com', role: 'user', joined: '2024-02-11' },
+  { id: 7, email: 'cy@example.com', role: 'user', joined: '2024-03-20T08:30:00.000Z' },
+  { id: 9, email: 'di@example.com', role: 'admin', joined: '2024-04-01', nickname: null },
+];
+
+describe('shapeInference', () => {
+  it('should infer an array shape with formats, enums, ranges and required', () => {
+    expect(inferShape([users])).toEqual({
+      type: 'array',
+      itemShape: {
+        type: 'object',
+        fields: {
+          id: { type: 'number', min: 1, max: 9, required: true },
+          email: { type: 'string', format: 'email', required: true },
+          site: { type: 'string', format: 'url' },
+          role: { type: 'string', enum: ['admin', 'user'], required: true },
+          joined: { type: 'string', format: 'datetime', required: true },
+          nickname: { type: 'string' },
+        },
+        required: ['id', 'email', 'role', 'joined'],
+      },
+    });
+  });
+
+  it('should derive required from presence across samples', () => {
+    const shape = inferShape([
+      { total: '$1,200.50', growth: '12.5%' },
+      { total: '$80', growth: '3%', note: 'first month' },
+    ]);
+
+    expect(shape.required).toEqual(['total', 'growth']);
+    expect(shape.fields?.total.format).toBe('currency');
+    expect(shape.fields?.growth.format).toBe('percentage');
+    expect(shape.fields?.note).toEqual({ type: 'string' });
+  });
+
+  it('should infer nested arrays and objects', () => {
+    expect(
+      inferField([
+        { tags: ['a', 'b'], owner: { name: 'x' } },
+        { tags: ['c'], owner: { name: 'y', team: 'core' } },
+      ])
+    ).toEqual({
+      type: 'object',
+      properties: {
+        tags: { type: 'array', itemType: { type: 'string' }, required: true },
+        owner: {
+          type: 'object',
+          properties: { name: { type: 'string', required: true }, team: { type: 'string' } },
+          required: true,
+        },
+      },
+    });
+  });
+
+  it('should widen mixed numbers and strings and respect options', () => {
+    expect(inferField([1, 'two', 3])).toEqual({ type: 'string' });
+    expect(inferField([1, 5], { inferRanges: false })).toEqual({ type: 'number' });
+    expect(inferField(['a@b.co'], { detectFormats: false })).toEqual({ type: 'string' });
+    expect(inferField(['x', 'x', 'y', 'y'], { maxEnumValues: 1 })).toEqual({ type: 'string' });
+  });
+
+  it('should infer ranges over payloads too large to spread', () => {
+    const values = Array.from({ length: 500000 }, (_, index) => index - 5);
+    expect(inferField(values)).toEqual({ type: 'number', min: -5, max: 499994 });
+  });
+
+  it('should merge inferred details without overriding existing declarations', () => {
+    const existing: DataShape = {
+      type: 'object',
+      fields: {
+        id: { type: 'string', required: true, description: 'Primary key' },
+        score: { type: 'number' },
+      },
+      required: ['id'],
+    };
+    const inferred = inferShape([
+      { id: 1, score: 4, label: 'a' },
+      { id: 2, score: 9, label: 'b' },
+    ]);
+
+    expect(mergeShapes(existing, inferred)).toEqual({
+      type: 'object',
+      fields: {
+        id: { type: 'string', required: true, description: 'Primary key' },
+        score: { type: 'number', min: 4, max: 9 },
+        label: { type: 'string' },
+      },
+      required: ['id'],
+    });
+    expect(mergeShapes(existing, { type: 'array' })).toBe(existing);
+  });
+});
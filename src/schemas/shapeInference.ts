@@ -0,0 +1,297 @@
+/**
+ * DataShape inference from sample payloads
+ *
+ * Builds a `DataShape`/`FieldSchema` tree from one or more captured responses:
+ * field types, formats, enum candidates, presence-based `required` and value
+ * ranges. `mergeShapes` folds an inferred shape into a hand-written one.
+ */
+
+import { DataShape, FieldFormat, FieldSchema, FieldType } from './types';
+
+export interface ShapeInferenceOptions {
+  // Detect email, url, datetime, currency and percentage strings
+  detectFormats?: boolean;
+  // Maximum distinct values for a string field to become an enum
+  maxEnumValues?: number;
+  // Each enum value must be seen this many times on average
+  minEnumOccurrences?: number;
+  // Record min/max for numbers
+  inferRanges?: boolean;
+}
+
+const defaultOptions: Required<ShapeInferenceOptions> = {
+  detectFormats: true,
+  maxEnumValues: 10,
+  minEnumOccurrences: 2,
+  inferRanges: true,
+};
+
+// Stricter than the validation patterns so plain strings are not misclassified
+const formatPatterns: Array<[FieldFormat, RegExp]> = [
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['url', /^https?:\/\/[^\s]+$/],
+  ['datetime', /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/],
+  ['currency', /^\$-?(\d{1,3}(,\d{3})+|\d+)(\.\d{1,2})?$/],
+  ['percentage', /^\d+(\.\d+)?%$/],
+];
+
+// Long free text is never an enum candidate
+const MAX_ENUM_VALUE_LENGTH = 40;
+
+type ValueKind = FieldType | 'null';
+
+function getKind(value: unknown): ValueKind {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (value instanceof Date) {
+    return 'date';
+  }
+  switch (typeof value) {
+    case 'string':
+      return 'string';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'object';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return getKind(value) === 'object';
+}
+
+/**
+ * Pick the field type for a set of observed values. Mixed numbers and strings
+ * widen to string; otherwise the most common kind wins.
+ */
+function pickType(values: unknown[]): FieldType {
+  const counts = new Map<FieldType, number>();
+  for (const value of values) {
+    const kind = getKind(value);
+    if (kind !== 'null') {
+      counts.set(kind, (counts.get(kind) ?? 0) + 1);
+    }
+  }
+
+  if (counts.size === 0) {
+    return 'string';
+  }
+  if (counts.size === 2 && counts.has('string') && counts.has('number')) {
+    return 'string';
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Collect the values of each key across objects, with presence counts
+ */
+function collectKeys(objects: Array<Record<string, unknown>>): Map<string, unknown[]> {
+  const keys = new Map<string, unknown[]>();
+  for (const object of objects) {
+    for (const [key, value] of Object.entries(object)) {
+      if (value === undefined) {
+        continue;
+      }
+      const values = keys.get(key) ?? [];
+      values.push(value);
+      keys.set(key, values);
+    }
+  }
+  return keys;
+}
+
+function inferStringDetails(
+  values: string[],
+  options: Required<ShapeInferenceOptions>
+): Partial<FieldSchema> {
+  if (values.length === 0) {
+    return {};
+  }
+
+  if (options.detectFormats) {
+    const match = formatPatterns.find(([, pattern]) =>
+      values.every((value) => pattern.test(value))
+    );
+    if (match) {
+      return { format: match[0] };
+    }
+  }
+
+  const distinct = [...new Set(values)];
+  if (
+    distinct.length <= options.maxEnumValues &&
+    values.length >= distinct.length * options.minEnumOccurrences &&
+    distinct.every((value) => value.length > 0 && value.length <= MAX_ENUM_VALUE_LENGTH)
+  ) {
+    return { enum: distinct.sort() };
+  }
+
+  return {};
+}
+
+/**
+ * Infer a field schema from every value observed at one position
+ */
+export function inferField(values: unknown[], options: ShapeInferenceOptions = {}): FieldSchema {
+  const resolved = { ...defaultOptions, ...options };
+  const type = pickType(values);
+  const field: FieldSchema = { type };
+
+  switch (type) {
+    case 'string': {
+      const strings = values.filter((value): value is string => typeof value === 'string');
+      Object.assign(field, inferStringDetails(strings, resolved));
+      break;
+    }
+
+    case 'number': {
+      const numbers = values.filter(
+        (value): value is number => typeof value === 'number' && !isNaN(value)
+      );
+      if (resolved.inferRanges && numbers.length > 0) {
+        // Spreading a large payload into Math.min/max would overflow the stack
+        field.min = numbers.reduce((min, value) => Math.min(min, value));
+        field.max = numbers.reduce((max, value) => Math.max(max, value));
+      }
+      break;
+    }
+
+    case 'array': {
+      const items = values.filter(Array.isArray).flat() as unknown[];
+      if (items.length > 0) {
+        field.itemType = inferField(items, resolved);
+      }
+      break;
+    }
+
+    case 'object': {
+      const objects = values.filter(isRecord);
+      field.properties = {};
+      for (const [key, keyValues] of collectKeys(objects)) {
+        const property = inferField(keyValues, resolved);
+        if (keyValues.length === objects.length) {
+          property.required = true;
+        }
+        field.properties[key] = property;
+      }
+      break;
+    }
+  }
+
+  return field;
+}
+
+/**
+ * Infer a data shape from one or more sample payloads. Pass each captured
+ * response as a separate sample; array payloads are treated as item lists.
+ */
+export function inferShape(samples: unknown[], options: ShapeInferenceOptions = {}): DataShape {
+  const resolved = { ...defaultOptions, ...options };
+  const present = samples.filter((sample) => sample !== undefined && sample !== null);
+  const type = pickType(present);
+
+  if (type === 'array') {
+    const items = present.filter(Array.isArray).flat() as unknown[];
+    return {
+      type: 'array',
+      itemShape: items.length > 0 ? inferShape(items, resolved) : { type: 'primitive' },
+    };
+  }
+
+  if (type !== 'object') {
+    return { type: 'primitive' };
+  }
+
+  const objects = present.filter(isRecord);
+  const fields: Record<string, FieldSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, values] of collectKeys(objects)) {
+    const field = inferField(values, resolved);
+    if (values.length === objects.length) {
+      field.required = true;
+      required.push(key);
+    }
+    fields[key] = field;
+  }
+
+  return required.length > 0 ? { type: 'object', fields, required } : { type: 'object', fields };
+}
+
+function makeOptional(field: FieldSchema): FieldSchema {
+  const optional = { ...field };
+  delete optional.required;
+  return optional;
+}
+
+/**
+ * Fold an inferred field into an existing one. Existing settings always win;
+ * inferred details only fill gaps. Conflicting types keep the existing field.
+ */
+function mergeFields(existing: FieldSchema, inferred: FieldSchema): FieldSchema {
+  if (existing.type !== inferred.type) {
+    return existing;
+  }
+
+  const merged: FieldSchema = { ...inferred, ...existing };
+  // Presence in samples is not a reason to tighten an existing contract
+  if (existing.required === undefined) {
+    delete merged.required;
+  }
+
+  if (existing.itemType && inferred.itemType) {
+    merged.itemType = mergeFields(existing.itemType, inferred.itemType);
+  }
+
+  if (existing.properties && inferred.properties) {
+    merged.properties = { ...existing.properties };
+    for (const [key, property] of Object.entries(inferred.properties)) {
+      merged.properties[key] = existing.properties[key]
+        ? mergeFields(existing.properties[key], property)
+        : makeOptional(property);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge an inferred shape into an existing one. Fields only present in the
+ * inferred shape are added as optional; existing declarations are kept.
+ */
+export function mergeShapes(existing: DataShape, inferred: DataShape): DataShape {
+  if (existing.type !== inferred.type) {
+    return existing;
+  }
+
+  if (existing.type === 'array') {
+    return {
+      ...existing,
+      itemShape:
+        existing.itemShape && inferred.itemShape
+          ? mergeShapes(existing.itemShape, inferred.itemShape)
+          : (existing.itemShape ?? inferred.itemShape),
+    };
+  }
+
+  if (existing.type === 'object') {
+    const fields: Record<string, FieldSchema> = { ...existing.fields };
+    for (const [key, field] of Object.entries(inferred.fields ?? {})) {
+      const current = existing.fields?.[key];
+      if (current) {
+        fields[key] = mergeFields(current, field);
+      } else {
+        fields[key] = makeOptional(field);
+      }
+    }
+    return { ...existing, fields };
+  }
+
+  return existing;
+}
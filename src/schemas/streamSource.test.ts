@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  StreamConnectionError,
+  StreamStatus,
+  connectStream,
+  createAccumulator,
+  nextMessage,
+  reconnectDelay,
+  validateStream,
+} from './streamSource';
+import { createLocalStreamServer } from './localStreamServer';
+import { DataSourceSchema } from './types';
+
+const prices: DataSourceSchema = {
+  id: 'prices',
+  type: 'websocket',
+  endpoint: 'ws://local/prices',
+  stream: {
+    subscribe: [{ type: 'subscribe', channel: 'prices' }],
+    unsubscribe: [{ type: 'unsubscribe', channel: 'prices' }],
+    messagePath: 'payload',
+    reducer: { type: 'upsert', key: 'symbol' },
+    reconnect: { initialDelay: 100, maxDelay: 1000, jitter: false, maxAttempts: 2 },
+  },
+};
+
+describe('stream sources', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('folds messages with each reducer', () => {
+    const replace = createAccumulator();
+    replace.add({ value: 1 });
+    expect(replace.add({ value: 2 })).toEqual({ value: 2 });
+
+    const append = createAccumulator({ type: 'append', max: 3 });
+    append.add(1);
+    append.add([2, 3]);
+    expect(append.add(4)).toEqual([2, 3, 4]);
+
+    const upsert = createAccumulator({ type: 'upsert', key: 'meta.id' });
+    upsert.add([
+      { meta: { id: 'a' }, value: 1 },
+      { meta: { id: 'b' }, value: 2 },
+    ]);
+    const before = upsert.data;
+    expect(upsert.add({ meta: { id: 'a' }, value: 3 })).toEqual([
+      { meta: { id: 'a' }, value: 3 },
+      { meta: { id: 'b' }, value: 2 },
+    ]);
+    expect(upsert.data).not.toBe(before);
+
+    const window = createAccumulator({ type: 'window', duration: 1000, size: 3 });
+    window.add('a', 0);
+    window.add('b', 600);
+    expect(window.add('c', 1200)).toEqual(['b', 'c']);
+    expect(window.add(['d', 'e'], 1300)).toEqual(['c', 'd', 'e']);
+
+    const timed = createAccumulator({ type: 'window', duration: 60000, timePath: 'at' });
+    expect(
+      timed.add(
+        [
+          { at: '2024-01-01T00:00:00Z', id: 1 },
+          { at: '2024-01-01T00:01:30Z', id: 2 },
+        ],
+        Date.parse('2024-01-01T00:02:00Z')
+      )
+    ).toEqual([{ at: '2024-01-01T00:01:30Z', id: 2 }]);
+  });
+
+  it('backs off exponentially up to the maximum delay', () => {
+    const reconnect = { initialDelay: 100, maxDelay: 1000, jitter: false };
+    expect([0, 1, 2, 3, 4].map((attempt) => reconnectDelay(attempt, reconnect))).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+    expect(reconnectDelay(2, { ...reconnect, jitter: true }, () => 0)).toBe(200);
+    expect(reconnectDelay(2, { ...reconnect, jitter: true }, () => 1)).toBe(400);
+  });
+
+  it('subscribes, reconnects after drops and gives up after its attempts', async () => {
+    vi.useFakeTimers();
+    const server = createLocalStreamServer();
+    const url = 'ws://local/prices';
+    const messages: unknown[] = [];
+    const statuses: StreamStatus[] = [];
+    const onError = vi.fn<[Error], void>();
+
+    const close = connectStream(
+      prices,
+      {
+        onMessage: (message) => messages.push(message),
+        onStatus: (s) => statuses.push(s),
+        onError,
+      },
+      { WebSocket: server.WebSocket }
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(server.received(url)).toEqual([{ type: 'subscribe', channel: 'prices' }]);
+
+    server.send(url, { payload: { symbol: 'ACME', price: 10 } });
+    expect(messages).toEqual([{ symbol: 'ACME', price: 10 }]);
+
+    // Dropped, then back after one failed attempt
+    server.setDown(url, true);
+    server.drop(url);
+    await vi.advanceTimersByTimeAsync(150);
+    server.setDown(url, false);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(server.connections(url)).toBe(1);
+    expect(server.received(url)).toHaveLength(2);
+    expect(statuses).toEqual(['connecting', 'open', 'reconnecting', 'reconnecting', 'open']);
+
+    close();
+    expect(server.received(url)).toContainEqual({ type: 'unsubscribe', channel: 'prices' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(server.connections(url)).toBe(0);
+
+    // Two failed attempts in a row are the limit
+    connectStream(prices, { onMessage: vi.fn(), onError }, { WebSocket: server.WebSocket });
+    server.setDown(url, true);
+    await vi.advanceTimersByTimeAsync(100 + 199);
+    expect(onError).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(50);
+    expect(onError).toHaveBeenCalledWith(expect.any(StreamConnectionError));
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      message: 'Lost connection to data source "prices"',
+      attempts: 2,
+    });
+  });
+
+  it('backs off from servers that drop connections before any message', async () => {
+    vi.useFakeTimers();
+    const server = createLocalStreamServer();
+    const url = 'ws://local/prices';
+    const statuses: StreamStatus[] = [];
+    const onError = vi.fn<[Error], void>();
+    server.onReceive(url, () => {
+      setTimeout(() => server.drop(url), 0);
+    });
+
+    connectStream(
+      prices,
+      { onMessage: vi.fn(), onStatus: (s) => statuses.push(s), onError },
+      { WebSocket: server.WebSocket }
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(statuses).toEqual([
+      'connecting',
+      'open',
+      'reconnecting',
+      'open',
+      'reconnecting',
+      'open',
+      'closed',
+    ]);
+    expect(onError.mock.calls[0][0]).toMatchObject({ attempts: 2 });
+    expect(server.connections(url)).toBe(0);
+  });
+
+  it('rejects the next message of sources that cannot connect', async () => {
+    await expect(nextMessage({ ...prices, endpoint: undefined })).rejects.toThrow(
+      'Data source "prices" has no endpoint'
+    );
+  });
+
+  it('listens to Server-Sent Event types', async () => {
+    vi.useFakeTimers();
+    const server = createLocalStreamServer();
+    const messages: unknown[] = [];
+    const source: DataSourceSchema = {
+      id: 'alerts',
+      type: 'sse',
+      endpoint: '/events',
+      stream: { events: ['alert'], reducer: { type: 'append' } },
+    };
+
+    const close = connectStream(
+      source,
+      { onMessage: (message) => messages.push(message) },
+      { EventSource: server.EventSource }
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    server.send('/events', { level: 'high' }, 'alert');
+    server.send('/events', 'ignored');
+    server.send('/events', 'plain text', 'alert');
+    expect(messages).toEqual([{ level: 'high' }, 'plain text']);
+
+    close();
+    expect(server.connections('/events')).toBe(0);
+  });
+
+  it('validates stream settings', () => {
+    expect(validateStream(prices.stream, 'websocket')).toEqual([]);
+    expect(
+      validateStream(
+        {
+          subscribe: [{ type: 'subscribe' }],
+          reducer: { type: 'upsert', max: 0 },
+          reconnect: { factor: 0.5 },
+        },
+        'sse'
+      )
+    ).toEqual([
+      {
+        path: 'stream.subscribe',
+        message: 'Server-Sent Events cannot send messages to the server',
+      },
+      { path: 'stream.reducer.key', message: 'Upsert reducers need a key' },
+      { path: 'stream.reducer', message: 'Item limits must be positive integers' },
+      {
+        path: 'stream.reconnect',
+        message:
+          'Reconnect takes non-negative delays and attempts and a factor of at least 1, or false',
+      },
+    ]);
+    expect(validateStream({ reducer: { type: 'merge' } }, 'rest')).toEqual([
+      { path: 'stream', message: 'Stream settings only apply to websocket and sse sources' },
+      {
+        path: 'stream.reducer.type',
+        message: 'Reducer type must be one of: replace, append, upsert, window',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,434 @@
+/**
+ * Real-time data for `websocket` and `sse` sources
+ *
+ * A streaming source connects to its endpoint, sends its subscription
+ * messages and folds every message it receives into its data with a
+ * {@link StreamReducer}. Dropped connections are retried with exponential
+ * backoff. Transports are looked up on `globalThis` unless passed in, so a
+ * `LocalStreamServer` can stand in for the backend.
+ */
+
+import { getPath } from './transforms';
+import {
+  DataSourceSchema,
+  ReconnectSchema,
+  StreamReducer,
+  StreamReducerType,
+  ValidationResult,
+} from './types';
+
+type ValidationIssue = NonNullable<ValidationResult['errors']>[number];
+
+export type StreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+// The parts of the browser's WebSocket and EventSource a stream uses
+export interface WebSocketLike {
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+}
+
+export interface EventSourceLike {
+  addEventListener(type: string, listener: (event: MessageEvent) => void): void;
+  close(): void;
+  onopen: ((event: Event) => void) | null;
+  onerror: ((event: Event) => void) | null;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+export type EventSourceConstructor = new (url: string) => EventSourceLike;
+
+export interface StreamHandlers {
+  onMessage: (message: unknown) => void;
+  onStatus?: (status: StreamStatus) => void;
+  // Called when the stream gives up reconnecting
+  onError?: (error: Error) => void;
+}
+
+export interface StreamOptions {
+  WebSocket?: WebSocketConstructor;
+  EventSource?: EventSourceConstructor;
+  // Jitters reconnection delays; Math.random by default
+  random?: () => number;
+}
+
+/**
+ * A stream lost its connection and stopped reconnecting
+ */
+export class StreamConnectionError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: number
+  ) {
+    super(message);
+    this.name = 'StreamConnectionError';
+  }
+}
+
+export const streamReducerTypes: StreamReducerType[] = ['replace', 'append', 'upsert', 'window'];
+
+const defaultReconnect: Required<Omit<ReconnectSchema, 'maxAttempts'>> = {
+  initialDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+};
+
+export function isStreamSource(dataSource: DataSourceSchema): boolean {
+  return dataSource.type === 'websocket' || dataSource.type === 'sse';
+}
+
+/**
+ * Milliseconds to wait before reconnection attempt `attempt`, counted from 0
+ */
+export function reconnectDelay(
+  attempt: number,
+  reconnect: ReconnectSchema = {},
+  random: () => number = Math.random
+): number {
+  const { initialDelay, maxDelay, factor, jitter } = { ...defaultReconnect, ...reconnect };
+  const delay = Math.min(maxDelay, initialDelay * Math.pow(factor, attempt));
+  return jitter ? Math.round(delay / 2 + (random() * delay) / 2) : delay;
+}
+
+// Epoch milliseconds of a timestamp value, or undefined
+function timeOf(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' || value instanceof Date) {
+    const time = new Date(value).getTime();
+    return isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+export interface StreamAccumulator {
+  // Data after the messages so far
+  readonly data: unknown;
+  // Fold in a message and return the new data
+  add(message: unknown, now?: number): unknown;
+}
+
+/**
+ * Keep a source's data as messages arrive. Every message that changes the
+ * data produces a new value, so it can be compared by reference.
+ */
+export function createAccumulator(reducer: StreamReducer = { type: 'replace' }): StreamAccumulator {
+  let data: unknown = reducer.type === 'replace' ? null : [];
+  // Arrival times of windowed items, in step with `data`
+  let arrivals: number[] = [];
+
+  const keep = <T>(items: T[], max: number | undefined): T[] =>
+    max !== undefined && items.length > max ? items.slice(items.length - max) : items;
+
+  return {
+    get data() {
+      return data;
+    },
+
+    add(message, now = Date.now()) {
+      const previous = Array.isArray(data) ? (data as unknown[]) : [];
+      const items = Array.isArray(message) ? (message as unknown[]) : [message];
+
+      switch (reducer.type) {
+        case 'replace':
+          data = message;
+          break;
+        case 'append':
+          data = keep([...previous, ...items], reducer.max);
+          break;
+        case 'upsert': {
+          const next = [...previous];
+          for (const item of items) {
+            const key = getPath(item, reducer.key);
+            const index = next.findIndex((existing) => getPath(existing, reducer.key) === key);
+            if (key !== undefined && index !== -1) {
+              next[index] = item;
+            } else {
+              next.push(item);
+            }
+          }
+          data = keep(next, reducer.max);
+          break;
+        }
+        case 'window': {
+          const { duration, size, timePath } = reducer;
+          const timed = [...previous, ...items].map((item, index) => ({
+            item,
+            time:
+              (timePath ? timeOf(getPath(item, timePath)) : undefined) ??
+              (index < previous.length ? arrivals[index] : now),
+          }));
+          const kept = keep(
+            duration === undefined ? timed : timed.filter(({ time }) => time > now - duration),
+            size
+          );
+          data = kept.map(({ item }) => item);
+          arrivals = kept.map(({ time }) => time);
+          break;
+        }
+      }
+      return data;
+    },
+  };
+}
+
+// Parse a message as JSON when it is JSON, and pick its payload
+function readMessage(raw: unknown, messagePath: string | undefined): unknown {
+  let message = raw;
+  if (typeof raw === 'string') {
+    try {
+      message = JSON.parse(raw) as unknown;
+    } catch {
+      // Plain text messages are used as they are
+    }
+  }
+  return messagePath ? getPath(message, messagePath) : message;
+}
+
+function encode(message: unknown): string {
+  return typeof message === 'string' ? message : JSON.stringify(message);
+}
+
+/**
+ * Connect a `websocket` or `sse` source and keep it connected until the
+ * returned function is called
+ */
+export function connectStream(
+  dataSource: DataSourceSchema,
+  handlers: StreamHandlers,
+  options: StreamOptions = {}
+): () => void {
+  const { onMessage, onStatus, onError } = handlers;
+  const stream = dataSource.stream ?? {};
+  const Socket = options.WebSocket ?? (globalThis.WebSocket as WebSocketConstructor | undefined);
+  const Source =
+    options.EventSource ?? (globalThis.EventSource as EventSourceConstructor | undefined);
+
+  // Failed connections in a row; one that opens but drops before any message
+  // counts as failed, so a server that accepts and hangs up still backs off
+  let attempts = 0;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let disconnect: (() => void) | undefined;
+
+  const fail = (message: string): void => {
+    onStatus?.('closed');
+    onError?.(new StreamConnectionError(message, attempts));
+  };
+
+  const receive = (data: unknown): void => {
+    attempts = 0;
+    onMessage(readMessage(data, stream.messagePath));
+  };
+
+  const retry = (): void => {
+    disconnect?.();
+    disconnect = undefined;
+    if (stopped) {
+      return;
+    }
+    const { reconnect = {} } = stream;
+    if (reconnect === false || attempts >= (reconnect.maxAttempts ?? Infinity)) {
+      fail(`Lost connection to data source "${dataSource.id}"`);
+      return;
+    }
+    onStatus?.('reconnecting');
+    timer = setTimeout(connect, reconnectDelay(attempts, reconnect, options.random));
+    attempts++;
+  };
+
+  const connect = (): void => {
+    const url = dataSource.endpoint as string;
+    if (attempts === 0) {
+      onStatus?.('connecting');
+    }
+
+    if (dataSource.type === 'websocket') {
+      if (!Socket) {
+        fail('WebSocket is not available');
+        return;
+      }
+      const socket = new Socket(url);
+      let opened = false;
+      socket.onopen = () => {
+        opened = true;
+        onStatus?.('open');
+        stream.subscribe?.forEach((message) => socket.send(encode(message)));
+      };
+      socket.onmessage = (event) => receive(event.data);
+      // Errors are always followed by close
+      socket.onclose = () => retry();
+      disconnect = () => {
+        socket.onclose = null;
+        socket.onmessage = null;
+        if (opened && stopped) {
+          stream.unsubscribe?.forEach((message) => socket.send(encode(message)));
+        }
+        socket.close();
+      };
+    } else {
+      if (!Source) {
+        fail('EventSource is not available');
+        return;
+      }
+      const source = new Source(url);
+      let listening = true;
+      source.onopen = () => onStatus?.('open');
+      for (const type of stream.events ?? ['message']) {
+        source.addEventListener(type, (event) => {
+          if (listening) {
+            receive(event.data);
+          }
+        });
+      }
+      // EventSource would reconnect on its own; back off like WebSockets do
+      source.onerror = () => retry();
+      disconnect = () => {
+        listening = false;
+        source.onerror = null;
+        source.close();
+      };
+    }
+  };
+
+  if (!dataSource.endpoint) {
+    fail(`Data source "${dataSource.id}" has no endpoint`);
+    return () => undefined;
+  }
+  connect();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    disconnect?.();
+    disconnect = undefined;
+  };
+}
+
+/**
+ * Connect once and resolve with the first message, e.g. to try a source
+ */
+export function nextMessage(
+  dataSource: DataSourceSchema,
+  timeout = 10000,
+  options: StreamOptions = {}
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    // Replaced once connected; connecting can fail before it returns
+    let close = (): void => undefined;
+    const timer = setTimeout(() => {
+      close();
+      reject(new Error(`No message from data source "${dataSource.id}" within ${timeout}ms`));
+    }, timeout);
+    const settle = (): void => {
+      clearTimeout(timer);
+      close();
+    };
+    close = connectStream(
+      { ...dataSource, stream: { ...dataSource.stream, reconnect: false } },
+      {
+        onMessage: (message) => {
+          settle();
+          resolve(message);
+        },
+        onError: (error) => {
+          settle();
+          reject(error);
+        },
+      },
+      options
+    );
+  });
+}
+
+/**
+ * Check a source's stream settings
+ */
+export function validateStream(
+  stream: unknown,
+  sourceType: DataSourceSchema['type'],
+  path = 'stream'
+): ValidationIssue[] {
+  const errors: ValidationIssue[] = [];
+  if (typeof stream !== 'object' || stream === null) {
+    errors.push({ path, message: 'Stream settings must be an object' });
+    return errors;
+  }
+  if (sourceType !== 'websocket' && sourceType !== 'sse') {
+    errors.push({ path, message: 'Stream settings only apply to websocket and sse sources' });
+  }
+
+  const { subscribe, unsubscribe, events, reducer, reconnect } = stream as Record<string, unknown>;
+  for (const [key, messages] of Object.entries({ subscribe, unsubscribe })) {
+    if (messages === undefined) {
+      continue;
+    }
+    if (!Array.isArray(messages)) {
+      errors.push({ path: `${path}.${key}`, message: 'Messages must be an array' });
+    } else if (sourceType === 'sse') {
+      errors.push({
+        path: `${path}.${key}`,
+        message: 'Server-Sent Events cannot send messages to the server',
+      });
+    }
+  }
+  if (
+    events !== undefined &&
+    !(Array.isArray(events) && events.every((event) => typeof event === 'string'))
+  ) {
+    errors.push({ path: `${path}.events`, message: 'Events must be an array of event types' });
+  }
+
+  if (reducer !== undefined) {
+    const { type, key, max, size, duration } = (reducer ?? {}) as Record<string, unknown>;
+    const isCount = (value: unknown): boolean =>
+      value === undefined || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+    if (!streamReducerTypes.includes(type as StreamReducerType)) {
+      errors.push({
+        path: `${path}.reducer.type`,
+        message: `Reducer type must be one of: ${streamReducerTypes.join(', ')}`,
+      });
+    }
+    if (type === 'upsert' && (typeof key !== 'string' || !key)) {
+      errors.push({ path: `${path}.reducer.key`, message: 'Upsert reducers need a key' });
+    }
+    if (!isCount(max) || !isCount(size)) {
+      errors.push({ path: `${path}.reducer`, message: 'Item limits must be positive integers' });
+    }
+    if (duration !== undefined && !(typeof duration === 'number' && duration > 0)) {
+      errors.push({
+        path: `${path}.reducer.duration`,
+        message: 'Duration must be a positive number of milliseconds',
+      });
+    }
+  }
+
+  if (reconnect !== undefined && reconnect !== false) {
+    const settings = (
+      typeof reconnect === 'object' && reconnect !== null ? reconnect : {}
+    ) as Record<string, unknown>;
+    const { initialDelay, maxDelay, factor, maxAttempts } = settings;
+    const isNumber = (value: unknown, min: number): boolean =>
+      value === undefined || (typeof value === 'number' && value >= min);
+    if (
+      typeof reconnect !== 'object' ||
+      !isNumber(initialDelay, 0) ||
+      !isNumber(maxDelay, 0) ||
+      !isNumber(factor, 1) ||
+      !isNumber(maxAttempts, 0)
+    ) {
+      errors.push({
+        path: `${path}.reconnect`,
+        message:
+          'Reconnect takes non-negative delays and attempts and a factor of at least 1, or false',
+      });
+    }
+  }
+
+  return errors;
+}
@@ -10,6 +10,7 @@ export const labelValuePairSchema: ComponentSchema = {
   type: 'display',
   category: 'subcomponents',
   description: 'Display a label and value with optional trend indicator',
+  imports: ["import { LabelValuePair } from '../patterns/pending/LabelValuePair';"],
   props: [
     {
       name: 'label',
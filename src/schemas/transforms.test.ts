@@ -0,0 +1,287 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TransformError,
+  inferTransformShape,
+  runTransform,
+  validateTransformSteps,
+} from './transforms';
+import { validateDataSource, validatePageSchema } from './validation';
+import { ComponentSchema, DataShape, TransformStep } from './types';
+
+const response = {
+  data: {
+    orders: [
+      { id: 'o1', customerId: 'c1', region: 'EU', total: 120, items: ['a', 'b'] },
+      { id: 'o2', customerId: 'c2', region: 'US', total: 80, items: ['c'] },
+      { id: 'o3', customerId: 'c1', region: 'EU', total: 40, items: [] },
+      { id: 'o4', customerId: 'c3', region: 'US', total: null, items: ['d'] },
+    ],
+  },
+};
+
+const customers = [
+  { id: 'c1', name: 'Ada' },
+  { id: 'c2', name: 'Grace' },
+];
+
+const orderShape: DataShape = {
+  type: 'object',
+  fields: {
+    data: {
+      type: 'object',
+      required: true,
+      properties: {
+        orders: {
+          type: 'array',
+          required: true,
+          itemType: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', required: true },
+              customerId: { type: 'string' },
+              region: { type: 'string', enum: ['EU', 'US'] },
+              total: { type: 'number', nullable: true },
+              items: { type: 'array', itemType: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+describe('runTransform', () => {
+  it('should select, filter, sort, pick and rename records', () => {
+    const steps: TransformStep[] = [
+      { op: 'get', path: 'data.orders' },
+      { op: 'filter', where: [{ field: 'total', operator: 'gte', value: 50 }] },
+      { op: 'sort', by: [{ field: 'total', direction: 'asc' }] },
+      { op: 'pick', fields: ['id', 'total'] },
+      { op: 'rename', fields: { total: 'amount' } },
+    ];
+
+    expect(runTransform(response, steps)).toEqual([
+      { id: 'o2', amount: 80 },
+      { id: 'o1', amount: 120 },
+    ]);
+  });
+
+  it('should only use the own keys of pick and rename fields', () => {
+    const rows = [{ constructor: 'c', toString: 't', id: 1 }];
+    expect(runTransform(rows, [{ op: 'rename', fields: { id: 'key' } }])).toEqual([
+      { constructor: 'c', toString: 't', key: 1 },
+    ]);
+    expect(runTransform([{ id: 1 }], [{ op: 'pick', fields: ['id', 'constructor'] }])).toEqual([
+      { id: 1 },
+    ]);
+
+    const fields: DataShape['fields'] = { toString: { type: 'string' as const } };
+    const shape = inferTransformShape([{ op: 'rename', fields: { id: 'key' } }], {
+      type: 'array',
+      itemShape: { type: 'object', fields },
+    });
+    expect(shape?.itemShape?.fields).toEqual(fields);
+  });
+
+  it('should map values from fields, literals and templates', () => {
+    const result = runTransform(response, [
+      { op: 'get', path: 'data.orders' },
+      {
+        op: 'map',
+        fields: {
+          label: { template: 'Order {id} ({region})' },
+          currency: { value: 'EUR' },
+          customer: { field: 'customerId' },
+        },
+      },
+      { op: 'pick', fields: ['label', 'currency', 'customer'] },
+    ]) as unknown[];
+
+    expect(result[0]).toEqual({ label: 'Order o1 (EU)', currency: 'EUR', customer: 'c1' });
+  });
+
+  it('should group, aggregate and flatten', () => {
+    const orders: TransformStep = { op: 'get', path: 'data.orders' };
+
+    expect(
+      runTransform(response, [
+        orders,
+        {
+          op: 'aggregate',
+          groupBy: 'region',
+          metrics: {
+            orders: { fn: 'count' },
+            revenue: { fn: 'sum', field: 'total' },
+            average: { fn: 'avg', field: 'total' },
+            largest: { fn: 'max', field: 'total' },
+          },
+        },
+      ])
+    ).toEqual([
+      { region: 'EU', orders: 2, revenue: 160, average: 80, largest: 120 },
+      { region: 'US', orders: 2, revenue: 80, average: 80, largest: 80 },
+    ]);
+
+    const groups = runTransform(response, [orders, { op: 'groupBy', field: 'customerId' }]);
+    expect((groups as Array<{ items: unknown[] }>).map((group) => group.items.length)).toEqual([
+      2, 1, 1,
+    ]);
+
+    expect(runTransform(response, [orders, { op: 'flatten', field: 'items' }])).toEqual([
+      'a',
+      'b',
+      'c',
+      'd',
+    ]);
+  });
+
+  it('should join another source', () => {
+    const result = runTransform(
+      response,
+      [
+        { op: 'get', path: 'data.orders' },
+        {
+          op: 'join',
+          source: 'customers',
+          on: { local: 'customerId', foreign: 'id' },
+          as: 'customer',
+        },
+        { op: 'map', fields: { name: { field: 'customer.name' } } },
+        { op: 'pick', fields: ['id', 'name'] },
+      ],
+      { sources: { customers } }
+    );
+
+    expect(result).toEqual([
+      { id: 'o1', name: 'Ada' },
+      { id: 'o2', name: 'Grace' },
+      { id: 'o3', name: 'Ada' },
+      { id: 'o4', name: undefined },
+    ]);
+  });
+
+  it('should name the step that failed', () => {
+    const run = (): unknown =>
+      runTransform(response, [
+        { op: 'get', path: 'data' },
+        { op: 'sort', by: [{ field: 'id' }] },
+      ]);
+
+    expect(run).toThrow(TransformError);
+    expect(run).toThrow('Step 2 (sort): expected an array but got object');
+    expect(() =>
+      runTransform(
+        [],
+        [{ op: 'join', source: 'missing', on: { local: 'a', foreign: 'b' }, as: 'x' }]
+      )
+    ).toThrow('source "missing" is not available');
+  });
+});
+
+describe('transform validation', () => {
+  it('should report malformed steps', () => {
+    expect(
+      validateTransformSteps([
+        { op: 'explode' },
+        { op: 'get' },
+        { op: 'aggregate', metrics: { total: { fn: 'sum' }, n: { fn: 'median' } } },
+        { op: 'map', fields: { a: { literal: 1 } } },
+      ]).map((issue) => `${issue.path}: ${issue.message}`)
+    ).toEqual([
+      'transform[0].op: Unknown transform step; expected one of: get, pick, rename, map, filter, sort, groupBy, aggregate, flatten, join',
+      'transform[1].path: "path" is required',
+      'transform[2].metrics.total.field: "sum" needs a field',
+      'transform[2].metrics.n.fn: Aggregate must be one of: count, sum, avg, min, max',
+      'transform[3].fields.a: Mapped value needs one of "field", "value" or "template"',
+    ]);
+    expect(validateTransformSteps('return data')).toHaveLength(1);
+  });
+
+  it('should infer the output shape of the steps', () => {
+    const shape = inferTransformShape(
+      [
+        { op: 'get', path: 'data.orders' },
+        { op: 'rename', fields: { total: 'amount' } },
+        { op: 'map', fields: { label: { template: '{id}' } } },
+        { op: 'pick', fields: ['id', 'amount', 'label'] },
+      ],
+      orderShape
+    );
+
+    expect(shape).toEqual({
+      type: 'array',
+      itemShape: {
+        type: 'object',
+        fields: {
+          id: { type: 'string', required: true },
+          amount: { type: 'number', nullable: true },
+          label: { type: 'string', required: true },
+        },
+      },
+    });
+    expect(inferTransformShape([{ op: 'get', path: 'data.missing' }], orderShape)).toBeNull();
+  });
+
+  it('should check transformed output against the component shape', () => {
+    const summary: ComponentSchema = {
+      id: 'RegionSummary',
+      name: 'Region Summary',
+      type: 'display',
+      props: [],
+      dataShape: {
+        type: 'array',
+        itemShape: {
+          type: 'object',
+          fields: {
+            region: { type: 'string', required: true },
+            revenue: { type: 'number', required: true },
+          },
+        },
+      },
+    };
+    const source = {
+      id: 'orders',
+      type: 'rest' as const,
+      responseShape: orderShape,
+      transform: [
+        { op: 'get', path: 'data.orders' },
+        {
+          op: 'aggregate',
+          groupBy: 'region',
+          metrics: { revenue: { fn: 'sum', field: 'total' } },
+        },
+      ] as TransformStep[],
+    };
+
+    expect(validateDataSource(source, summary.dataShape).valid).toBe(true);
+    expect(validateDataSource(orderSource(), summary.dataShape).errors).toEqual([
+      { path: '[].revenue', message: 'Required field is not provided by the data source' },
+    ]);
+
+    const result = validatePageSchema(
+      {
+        id: 'report',
+        name: 'Report',
+        route: '/report',
+        layout: { type: 'grid' },
+        dataSources: [{ ...source, transform: 'return data' }],
+        components: [{ id: 'summary', component: 'RegionSummary', dataSource: 'orders' }],
+      },
+      { componentSchemas: new Map([[summary.id, summary]]) }
+    );
+    expect(result.warnings?.map((warning) => warning.message)).toEqual([
+      'Script transforms are deprecated; use transform steps',
+      'Data source "orders" uses a script transform; compatibility with "RegionSummary" cannot be checked',
+    ]);
+
+    function orderSource(): typeof source {
+      return {
+        ...source,
+        transform: [
+          { op: 'get', path: 'data.orders' },
+          { op: 'groupBy', field: 'region' },
+        ],
+      };
+    }
+  });
+});
@@ -0,0 +1,638 @@
+/**
+ * Declarative transform pipeline for data sources
+ *
+ * `DataSourceSchema.transform` steps are plain JSON, so schemas loaded from
+ * anywhere can be interpreted without evaluating code, checked structurally,
+ * and followed statically from a `responseShape` to the shape they produce.
+ * The deprecated string form is a JavaScript function body and only runs
+ * through `runScriptTransform`, which callers must opt into.
+ */
+
+import { shapeRegistry } from './registry';
+import { compareValues } from './validationRules';
+import {
+  DataShape,
+  FieldSchema,
+  RuleCondition,
+  TransformOp,
+  TransformStep,
+  TransformValue,
+  ValidationResult,
+} from './types';
+
+type ValidationIssue = NonNullable<ValidationResult['errors']>[number];
+
+export interface TransformContext {
+  // Data of other sources by ID, for `join` steps
+  sources?: Record<string, unknown>;
+}
+
+/**
+ * A step could not be applied to the data it received
+ */
+export class TransformError extends Error {
+  constructor(
+    message: string,
+    public readonly step: number
+  ) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+export const transformOps: TransformOp[] = [
+  'get',
+  'pick',
+  'rename',
+  'map',
+  'filter',
+  'sort',
+  'groupBy',
+  'aggregate',
+  'flatten',
+  'join',
+];
+
+type Row = Record<string, unknown>;
+
+function isRow(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+// Keys such as `constructor` must not be found on the prototype
+function hasOwn(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+// New name of `key` in a rename step
+function renamed(fields: Record<string, string>, key: string): string {
+  return hasOwn(fields, key) ? fields[key] : key;
+}
+
+/**
+ * Read a dot path such as `user.address.city`; empty paths return `value`
+ */
+export function getPath(value: unknown, path: string): unknown {
+  if (!path) {
+    return value;
+  }
+  let current = value;
+  for (const key of path.split('.')) {
+    if (!isRow(current) && !Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Row)[key];
+  }
+  return current;
+}
+
+function evaluateValue(row: Row, value: TransformValue): unknown {
+  if ('field' in value) {
+    return getPath(row, value.field);
+  }
+  if ('template' in value) {
+    return value.template.replace(/\{([^}]+)\}/g, (_, path: string) => {
+      const resolved = getPath(row, path.trim());
+      return isPresent(resolved) ? String(resolved as string | number | boolean) : '';
+    });
+  }
+  return value.value;
+}
+
+function matchesWhere(row: Row, condition: RuleCondition): boolean {
+  const value = getPath(row, condition.field);
+  const operator = condition.operator ?? (condition.value !== undefined ? 'eq' : 'present');
+  if (operator === 'present') {
+    return isPresent(value);
+  }
+  if (operator === 'absent') {
+    return !isPresent(value);
+  }
+  return compareValues(value, operator, condition.value) === true;
+}
+
+/**
+ * Sort order for mixed values: numbers and strings compare naturally,
+ * missing values always go last
+ */
+function compareForSort(a: unknown, b: unknown): number {
+  if (!isPresent(a) || !isPresent(b)) {
+    return Number(!isPresent(a)) - Number(!isPresent(b));
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a as string).localeCompare(String(b as string));
+}
+
+function aggregate(rows: Row[], fn: string, field?: string): unknown {
+  const values = field ? rows.map((row) => getPath(row, field)) : rows;
+  switch (fn) {
+    case 'count':
+      return field ? values.filter(isPresent).length : rows.length;
+    case 'sum':
+    case 'avg': {
+      const numbers = values.filter((value): value is number => typeof value === 'number');
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      if (fn === 'sum') {
+        return sum;
+      }
+      return numbers.length > 0 ? sum / numbers.length : null;
+    }
+    default: {
+      const present = values.filter(isPresent);
+      if (present.length === 0) {
+        return null;
+      }
+      const sorted = [...present].sort(compareForSort);
+      return fn === 'min' ? sorted[0] : sorted[sorted.length - 1];
+    }
+  }
+}
+
+function groupRows(rows: Row[], field: string): Map<unknown, Row[]> {
+  const groups = new Map<unknown, Row[]>();
+  for (const row of rows) {
+    const key = getPath(row, field);
+    const group = groups.get(key) ?? [];
+    group.push(row);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+/**
+ * Interpreter for one pipeline run
+ */
+class TransformRunner {
+  private index = 0;
+
+  constructor(private context: TransformContext) {}
+
+  run(data: unknown, steps: TransformStep[]): unknown {
+    return steps.reduce((current, step, index) => {
+      this.index = index;
+      return this.apply(current, step);
+    }, data);
+  }
+
+  private fail(step: TransformStep, message: string): never {
+    throw new TransformError(`Step ${this.index + 1} (${step.op}): ${message}`, this.index);
+  }
+
+  private rows(data: unknown, step: TransformStep): Row[] {
+    if (!Array.isArray(data)) {
+      this.fail(step, `expected an array but got ${data === null ? 'null' : typeof data}`);
+    }
+    return data.map((item) => (isRow(item) ? item : { value: item }));
+  }
+
+  /**
+   * Apply a per-record step to an object or to each object in an array
+   */
+  private eachRow(data: unknown, step: TransformStep, fn: (row: Row) => Row): unknown {
+    if (Array.isArray(data)) {
+      return this.rows(data, step).map(fn);
+    }
+    if (isRow(data)) {
+      return fn(data);
+    }
+    return this.fail(step, `expected an object or array but got ${typeof data}`);
+  }
+
+  private apply(data: unknown, step: TransformStep): unknown {
+    switch (step.op) {
+      case 'get':
+        return getPath(data, step.path);
+
+      case 'pick':
+        return this.eachRow(data, step, (row) =>
+          Object.fromEntries(
+            step.fields.filter((key) => hasOwn(row, key)).map((key) => [key, row[key]])
+          )
+        );
+
+      case 'rename':
+        return this.eachRow(data, step, (row) =>
+          Object.fromEntries(
+            Object.entries(row).map(([key, value]) => [renamed(step.fields, key), value])
+          )
+        );
+
+      case 'map':
+        return this.eachRow(data, step, (row) => {
+          const result = { ...row };
+          for (const [key, value] of Object.entries(step.fields)) {
+            result[key] = evaluateValue(row, value);
+          }
+          return result;
+        });
+
+      case 'filter':
+        return this.rows(data, step).filter((row) =>
+          step.where.every((condition) => matchesWhere(row, condition))
+        );
+
+      case 'sort':
+        // Array.prototype.sort is stable, so earlier keys win ties in order
+        return [...this.rows(data, step)].sort((a, b) => {
+          for (const { field, direction } of step.by) {
+            const result = compareForSort(getPath(a, field), getPath(b, field));
+            if (result !== 0) {
+              const missing = !isPresent(getPath(a, field)) || !isPresent(getPath(b, field));
+              return direction === 'desc' && !missing ? -result : result;
+            }
+          }
+          return 0;
+        });
+
+      case 'groupBy':
+        return Array.from(groupRows(this.rows(data, step), step.field), ([key, rows]) => ({
+          [step.field]: key,
+          [step.as ?? 'items']: rows,
+        }));
+
+      case 'aggregate': {
+        const rows = this.rows(data, step);
+        const summarize = (group: Row[]): Row =>
+          Object.fromEntries(
+            Object.entries(step.metrics).map(([name, metric]) => [
+              name,
+              aggregate(group, metric.fn, metric.field),
+            ])
+          );
+        if (!step.groupBy) {
+          return summarize(rows);
+        }
+        const field = step.groupBy;
+        return Array.from(groupRows(rows, field), ([key, group]) => ({
+          [field]: key,
+          ...summarize(group),
+        }));
+      }
+
+      case 'flatten': {
+        if (!Array.isArray(data)) {
+          return this.fail(step, `expected an array but got ${typeof data}`);
+        }
+        if (!step.field) {
+          return (data as unknown[]).flat();
+        }
+        const field = step.field;
+        return this.rows(data, step).flatMap((row) => {
+          const nested = getPath(row, field);
+          return Array.isArray(nested) ? (nested as unknown[]) : [];
+        });
+      }
+
+      case 'join': {
+        const other = this.context.sources?.[step.source];
+        if (!Array.isArray(other)) {
+          return this.fail(step, `source "${step.source}" is not available as an array`);
+        }
+        const index = groupRows(other.filter(isRow), step.on.foreign);
+        return this.eachRow(data, step, (row) => {
+          const matches = index.get(getPath(row, step.on.local)) ?? [];
+          return { ...row, [step.as]: step.many ? matches : (matches[0] ?? null) };
+        });
+      }
+
+      default:
+        return this.fail(step, 'unknown step');
+    }
+  }
+}
+
+/**
+ * Run transform steps over `data`. Throws `TransformError` naming the step
+ * that could not be applied.
+ */
+export function runTransform(
+  data: unknown,
+  steps: TransformStep[],
+  context: TransformContext = {}
+): unknown {
+  return new TransformRunner(context).run(data, steps);
+}
+
+/**
+ * Run a deprecated string transform. The body receives `data` and should
+ * return the transformed value; errors fall back to the input.
+ *
+ * @deprecated Script transforms evaluate code from the schema. Use transform
+ * steps instead; this only runs when the caller opts in explicitly.
+ */
+export function runScriptTransform(data: unknown, script: string): unknown {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-implied-eval
+    const transformFn = new Function(
+      'data',
+      `
+      try {
+        ${script}
+      } catch (e) {
+        console.error('Transform error:', e);
+        return data;
+      }
+    `
+    ) as (data: unknown) => unknown;
+    return transformFn(data);
+  } catch (error) {
+    console.error('Failed to create transform function:', error);
+    return data;
+  }
+}
+
+const requiredParams: Record<TransformOp, string[]> = {
+  get: ['path'],
+  pick: ['fields'],
+  rename: ['fields'],
+  map: ['fields'],
+  filter: ['where'],
+  sort: ['by'],
+  groupBy: ['field'],
+  aggregate: ['metrics'],
+  flatten: [],
+  join: ['source', 'on', 'as'],
+};
+
+/**
+ * Check transform steps structurally. Paths in the returned issues start
+ * at `path`, e.g. `transform[2].fields`.
+ */
+export function validateTransformSteps(steps: unknown, path = 'transform'): ValidationIssue[] {
+  if (!Array.isArray(steps)) {
+    return [{ path, message: 'Transform must be an array of steps', value: steps }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  steps.forEach((step: unknown, index) => {
+    const at = `${path}[${index}]`;
+    if (!isRow(step) || !transformOps.includes(step.op as TransformOp)) {
+      issues.push({
+        path: `${at}.op`,
+        message: `Unknown transform step; expected one of: ${transformOps.join(', ')}`,
+        value: isRow(step) ? step.op : step,
+      });
+      return;
+    }
+
+    for (const param of requiredParams[step.op as TransformOp]) {
+      if (!isPresent(step[param])) {
+        issues.push({ path: `${at}.${param}`, message: `"${param}" is required` });
+      }
+    }
+
+    const typed = step as TransformStep;
+    if (typed.op === 'pick' && isPresent(typed.fields) && !Array.isArray(typed.fields)) {
+      issues.push({ path: `${at}.fields`, message: 'Fields must be an array of names' });
+    }
+    if (
+      (typed.op === 'filter' || typed.op === 'sort') &&
+      !Array.isArray(step[typed.op === 'filter' ? 'where' : 'by'])
+    ) {
+      issues.push({
+        path: `${at}.${typed.op === 'filter' ? 'where' : 'by'}`,
+        message: 'Expected an array',
+      });
+    }
+    if (typed.op === 'aggregate' && isRow(typed.metrics)) {
+      for (const [name, metric] of Object.entries(typed.metrics)) {
+        if (!['count', 'sum', 'avg', 'min', 'max'].includes(metric?.fn)) {
+          issues.push({
+            path: `${at}.metrics.${name}.fn`,
+            message: 'Aggregate must be one of: count, sum, avg, min, max',
+            value: metric?.fn,
+          });
+        } else if (metric.fn !== 'count' && !metric.field) {
+          issues.push({
+            path: `${at}.metrics.${name}.field`,
+            message: `"${metric.fn}" needs a field`,
+          });
+        }
+      }
+    }
+    if (typed.op === 'map' && isRow(typed.fields)) {
+      for (const [name, value] of Object.entries(typed.fields)) {
+        if (!isRow(value) || !('field' in value || 'value' in value || 'template' in value)) {
+          issues.push({
+            path: `${at}.fields.${name}`,
+            message: 'Mapped value needs one of "field", "value" or "template"',
+          });
+        }
+      }
+    }
+  });
+  return issues;
+}
+
+// Fields whose type a transform cannot know; compatibility checks skip them
+const unknownField: FieldSchema = { type: 'union' };
+
+/**
+ * True for a union without variants, which stands for "any value"
+ */
+export function isUnknownField(field: FieldSchema): boolean {
+  return field.type === 'union' && !field.oneOf && !field.anyOf;
+}
+
+/**
+ * Describe a data shape as a field, resolving registered references
+ */
+export function shapeToField(shape: DataShape | undefined): FieldSchema {
+  const resolved = shape?.$ref ? shapeRegistry.get(shape.$ref) : shape;
+  if (!resolved) {
+    return unknownField;
+  }
+  if (resolved.type === 'array') {
+    return {
+      type: 'array',
+      itemType: resolved.itemShape ? shapeToField(resolved.itemShape) : undefined,
+    };
+  }
+  if (resolved.type === 'object') {
+    const required = new Set(resolved.required ?? []);
+    return {
+      type: 'object',
+      properties: resolved.fields
+        ? Object.fromEntries(
+            Object.entries(resolved.fields).map(([name, field]) => [
+              name,
+              required.has(name) ? { ...field, required: true } : field,
+            ])
+          )
+        : undefined,
+    };
+  }
+  return unknownField;
+}
+
+function fieldToShape(field: FieldSchema): DataShape {
+  if (field.$ref) {
+    return { type: field.type === 'array' ? 'array' : 'object', $ref: field.$ref };
+  }
+  if (field.type === 'array') {
+    return field.itemType && !isUnknownField(field.itemType)
+      ? { type: 'array', itemShape: fieldToShape(field.itemType) }
+      : { type: 'array' };
+  }
+  if (field.type === 'object') {
+    return field.properties ? { type: 'object', fields: field.properties } : { type: 'object' };
+  }
+  return { type: 'primitive' };
+}
+
+function fieldAt(field: FieldSchema, path: string): FieldSchema {
+  let current: FieldSchema | undefined = field;
+  for (const key of path ? path.split('.') : []) {
+    if (current?.$ref) {
+      current = shapeToField(shapeRegistry.get(current.$ref));
+    }
+    current = current?.type === 'object' ? current.properties?.[key] : undefined;
+  }
+  return current ?? unknownField;
+}
+
+/**
+ * Follow transform steps statically from the shape a source returns to the
+ * shape it produces. Parts the steps cannot determine are left open, so
+ * compatibility checks only compare what is known; returns null when the
+ * output could be anything.
+ */
+export function inferTransformShape(
+  steps: TransformStep[],
+  input: DataShape,
+  sourceShapes: Record<string, DataShape> = {}
+): DataShape | null {
+  let current = shapeToField(input);
+
+  const items = (field: FieldSchema): FieldSchema =>
+    field.type === 'array' ? (field.itemType ?? unknownField) : unknownField;
+  const eachRow = (field: FieldSchema, fn: (row: FieldSchema) => FieldSchema): FieldSchema =>
+    field.type === 'array' ? { type: 'array', itemType: fn(items(field)) } : fn(field);
+  const withProperties = (
+    row: FieldSchema,
+    update: (properties: Record<string, FieldSchema>) => Record<string, FieldSchema>
+  ): FieldSchema =>
+    row.type === 'object' && row.properties
+      ? { type: 'object', properties: update(row.properties) }
+      : { type: 'object' };
+  const metricField = (row: FieldSchema, fn: string, field?: string): FieldSchema => {
+    if (fn === 'count' || fn === 'sum') {
+      return { type: 'number', required: true };
+    }
+    if (fn === 'avg') {
+      return { type: 'number', nullable: true };
+    }
+    return { ...fieldAt(row, field ?? ''), required: false, nullable: true };
+  };
+
+  for (const step of steps) {
+    switch (step.op) {
+      case 'get':
+        current = fieldAt(current, step.path);
+        break;
+      case 'pick':
+        current = eachRow(current, (row) =>
+          withProperties(row, (properties) =>
+            Object.fromEntries(
+              step.fields
+                .filter((key) => hasOwn(properties, key))
+                .map((key) => [key, properties[key]])
+            )
+          )
+        );
+        break;
+      case 'rename':
+        current = eachRow(current, (row) =>
+          withProperties(row, (properties) =>
+            Object.fromEntries(
+              Object.entries(properties).map(([key, field]) => [renamed(step.fields, key), field])
+            )
+          )
+        );
+        break;
+      case 'map':
+        current = eachRow(current, (row) =>
+          withProperties(row, (properties) => {
+            const result = { ...properties };
+            for (const [key, value] of Object.entries(step.fields)) {
+              if ('field' in value) {
+                result[key] = fieldAt(row, value.field);
+              } else if ('template' in value) {
+                result[key] = { type: 'string', required: true };
+              } else {
+                result[key] =
+                  value.value === null
+                    ? { ...unknownField, nullable: true }
+                    : {
+                        type: typeof value.value as 'string' | 'number' | 'boolean',
+                        required: true,
+                      };
+              }
+            }
+            return result;
+          })
+        );
+        break;
+      case 'filter':
+      case 'sort':
+        break;
+      case 'groupBy':
+        current = {
+          type: 'array',
+          itemType: {
+            type: 'object',
+            properties: {
+              [step.field]: { ...fieldAt(items(current), step.field), required: true },
+              [step.as ?? 'items']: { type: 'array', required: true, itemType: items(current) },
+            },
+          },
+        };
+        break;
+      case 'aggregate': {
+        const row = items(current);
+        const metrics = Object.fromEntries(
+          Object.entries(step.metrics).map(([name, metric]) => [
+            name,
+            metricField(row, metric.fn, metric.field),
+          ])
+        );
+        const summary: FieldSchema = step.groupBy
+          ? {
+              type: 'object',
+              properties: {
+                [step.groupBy]: { ...fieldAt(row, step.groupBy), required: true },
+                ...metrics,
+              },
+            }
+          : { type: 'object', properties: metrics };
+        current = step.groupBy ? { type: 'array', itemType: summary } : summary;
+        break;
+      }
+      case 'flatten': {
+        const nested = step.field ? fieldAt(items(current), step.field) : items(current);
+        current = { type: 'array', itemType: items(nested) };
+        break;
+      }
+      case 'join': {
+        const other = sourceShapes[step.source] ? shapeToField(sourceShapes[step.source]) : null;
+        const joined: FieldSchema = step.many
+          ? { type: 'array', required: true, itemType: other ? items(other) : undefined }
+          : other
+            ? { ...items(other), required: false, nullable: true }
+            : { ...unknownField, nullable: true };
+        current = eachRow(current, (row) =>
+          withProperties(row, (properties) => ({ ...properties, [step.as]: joined }))
+        );
+        break;
+      }
+    }
+  }
+
+  return isUnknownField(current) ? null : fieldToShape(current);
+}
@@ -0,0 +1,74 @@
+/**
+ * Drift check between hand-written props interfaces and component schemas
+ *
+ * Uses the TypeScript compiler API to read declared props from source, so it
+ * is meant for node tooling (`npm run types:check`) rather than the browser.
+ */
+
+import * as ts from 'typescript';
+import { ComponentSchema } from './types';
+import { DeclaredProp, PropsDrift, findPropsDrift } from './typeGenerator';
+
+/**
+ * Read the members of an interface or object type alias from source.
+ * Returns null when no declaration with that name exists.
+ */
+export function extractDeclaredProps(
+  source: string,
+  typeName: string,
+  fileName = 'props.tsx'
+): DeclaredProp[] | null {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true);
+  let members: ts.NodeArray<ts.TypeElement> | null = null;
+
+  const visit = (node: ts.Node): void => {
+    if (members) {
+      return;
+    }
+    if (ts.isInterfaceDeclaration(node) && node.name.text === typeName) {
+      members = node.members;
+      return;
+    }
+    if (
+      ts.isTypeAliasDeclaration(node) &&
+      node.name.text === typeName &&
+      ts.isTypeLiteralNode(node.type)
+    ) {
+      members = node.type.members;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  if (!members) {
+    return null;
+  }
+
+  return (members as ts.NodeArray<ts.TypeElement>).filter(ts.isPropertySignature).map((member) => ({
+    name: member.name.getText(sourceFile).replace(/^['"]|['"]$/g, ''),
+    optional: member.questionToken !== undefined,
+    type: member.type?.getText(sourceFile) ?? 'unknown',
+  }));
+}
+
+/**
+ * Check a props interface in `source` against a component schema
+ */
+export function checkPropsDrift(
+  source: string,
+  component: ComponentSchema,
+  typeName = `${component.id}Props`
+): PropsDrift[] {
+  const declared = extractDeclaredProps(source, typeName);
+  if (!declared) {
+    return [
+      {
+        prop: typeName,
+        kind: 'missing-in-interface',
+        message: `No interface named "${typeName}" was found`,
+      },
+    ];
+  }
+  return findPropsDrift(declared, component);
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findPropsDrift,
+  generatePropsInterface,
+  generateShapeType,
+  generateTypes,
+} from './typeGenerator';
+import { checkPropsDrift, extractDeclaredProps } from './typeDrift';
+import { ComponentSchema, DataShape } from './types';
+import { commonDataShapes } from './registry';
+
+const contactShape: DataShape = {
+  type: 'object',
+  fields: {
+    id: { type: 'string' },
+    email: { type: 'string', format: 'email', description: 'Work address' },
+    score: { type: 'number', min: 0, max: 100 },
+    'home-page': { type: 'string', format: 'url' },
+    tags: { type: 'array', itemType: { type: 'string' } },
+    address: {
+      type: 'object',
+      properties: { city: { type: 'string', required: true }, zip: { type: 'string' } },
+    },
+  },
+  required: ['id', 'email'],
+};
+
+const badge: ComponentSchema = {
+  id: 'StatusBadge',
+  name: 'Status Badge',
+  type: 'display',
+  props: [
+    { name: 'label', type: 'string', required: true },
+    {
+      name: 'tone',
+      type: 'enum',
+      default: 'info',
+      options: [
+        { label: 'Info', value: 'info' },
+        { label: 'Error', value: 'error' },
+      ],
+    },
+    { name: 'count', type: 'number', description: 'Shown next to the label' },
+    { name: 'onClick', type: 'function' },
+  ],
+};
+
+describe('typeGenerator', () => {
+  it('should generate an interface with optionality and format hints', () => {
+    expect(generateShapeType('Contact', contactShape)).toBe(
+      [
+        'export interface Contact {',
+        '  id: string;',
+        '  /**',
+        '   * Work address',
+        '   * @format email',
+        '   */',
+        '  email: string;',
+        '  /**',
+        '   * @minimum 0',
+        '   * @maximum 100',
+        '   */',
+        '  score?: number;',
+        '  /** @format url */',
+        "  'home-page'?: string;",
+        '  tags?: string[];',
+        '  address?: {',
+        '    city: string;',
+        '    zip?: string;',
+        '  };',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('should emit branded format types when requested', () => {
+    const output = generateTypes({ shapes: { contact: contactShape } }, { brandFormats: true });
+
+    expect(output).toContain("export type EmailString = string & { readonly __format: 'email' };");
+    expect(output).toContain('  email: EmailString;');
+    expect(output).toContain("  'home-page'?: UrlString;");
+  });
+
+  it('should turn enum props into string-literal unions', () => {
+    expect(generatePropsInterface(badge)).toBe(
+      [
+        'export interface StatusBadgeProps {',
+        '  label: string;',
+        "  /** @default 'info' */",
+        "  tone?: 'info' | 'error';",
+        '  /** Shown next to the label */',
+        '  count?: number;',
+        '  onClick?: (...args: unknown[]) => void;',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('should generate array shape aliases and component data types', () => {
+    const output = generateTypes({
+      components: [{ ...badge, dataShape: { type: 'array', itemShape: { type: 'primitive' } } }],
+    });
+
+    expect(output).toContain('export type StatusBadgeData = Array<string | number | boolean>;');
+    expect(output).toContain('export interface StatusBadgeProps {');
+  });
+
+  it('should emit nullable and union field types', () => {
+    const output = generateShapeType('Metric', {
+      type: 'object',
+      fields: {
+        note: { type: 'string', nullable: true },
+        value: { type: 'union', oneOf: [{ type: 'number' }, { type: 'string' }] },
+        tags: { type: 'array', itemType: { type: 'string', nullable: true } },
+      },
+    });
+
+    expect(output).toContain('note?: string | null;');
+    expect(output).toContain('value?: number | string;');
+    expect(output).toContain('tags?: Array<string | null>;');
+  });
+
+  it('should reference named shape types', () => {
+    const output = generateShapeType('Navigation', commonDataShapes.navigation);
+
+    expect(output).toContain('children?: Navigation;');
+    expect(generateShapeType('Menu', { type: 'array', $ref: 'navigation' })).toBe(
+      'export type Menu = Navigation;'
+    );
+  });
+});
+
+describe('props drift', () => {
+  const source = `
+    import React from 'react';
+    export interface StatusBadgeProps {
+      label?: string;
+      tone?: "error" | 'info' | 'warning';
+      count?: number;
+      icon?: React.ReactNode;
+    }
+  `;
+
+  it('should read props from an interface declaration', () => {
+    expect(extractDeclaredProps(source, 'StatusBadgeProps')?.map((prop) => prop.name)).toEqual([
+      'label',
+      'tone',
+      'count',
+      'icon',
+    ]);
+    expect(extractDeclaredProps('type P = { a: string };', 'P')).toEqual([
+      { name: 'a', optional: false, type: 'string' },
+    ]);
+    expect(extractDeclaredProps(source, 'Missing')).toBeNull();
+  });
+
+  it('should report differences between interface and schema', () => {
+    expect(checkPropsDrift(source, badge).map(({ prop, kind }) => `${kind}:${prop}`)).toEqual([
+      'optionality:label',
+      'type:tone',
+      'missing-in-interface:onClick',
+      'missing-in-schema:icon',
+    ]);
+  });
+
+  it('should ignore union order and props mirrored from the data shape', () => {
+    const drift = findPropsDrift(
+      [
+        { name: 'label', optional: false, type: 'string' },
+        { name: 'tone', optional: true, type: "'error' | 'info' | undefined" },
+        { name: 'count', optional: true, type: 'number' },
+        { name: 'onClick', optional: true, type: '() => void' },
+        { name: 'items', optional: true, type: 'string[]' },
+      ],
+      { ...badge, dataShape: { type: 'object', fields: { items: { type: 'array' } } } }
+    );
+
+    expect(drift).toEqual([]);
+  });
+});
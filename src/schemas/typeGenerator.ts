@@ -0,0 +1,408 @@
+/**
+ * TypeScript type generation from schemas
+ *
+ * Emits interfaces for `DataShape` trees and `ComponentSchema.props`, and
+ * compares a hand-written props interface against its schema to report drift.
+ * Parsing declared interfaces from source lives in `typeDrift.ts`.
+ */
+
+import { ComponentSchema, DataShape, FieldFormat, FieldSchema, PropSchema } from './types';
+import { formatValue, toComponentName } from './codeGenerator';
+import { getUnionVariants, resolveShape } from './validation';
+
+export interface TypeGenerationOptions {
+  // Emit branded string types for formats instead of JSDoc hints
+  brandFormats?: boolean;
+  // Spaces per indentation level
+  indent?: number;
+}
+
+export interface TypeGenerationInput {
+  // Named shapes, e.g. `commonDataShapes`; keys become PascalCase type names
+  shapes?: Record<string, DataShape>;
+  components?: ComponentSchema[];
+}
+
+/**
+ * A property parsed from a hand-written props interface
+ */
+export interface DeclaredProp {
+  name: string;
+  optional: boolean;
+  type: string;
+}
+
+export type PropsDriftKind = 'missing-in-interface' | 'missing-in-schema' | 'optionality' | 'type';
+
+export interface PropsDrift {
+  prop: string;
+  kind: PropsDriftKind;
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+const brandNames: Record<FieldFormat, string> = {
+  email: 'EmailString',
+  url: 'UrlString',
+  phone: 'PhoneString',
+  currency: 'CurrencyString',
+  percentage: 'PercentageString',
+  datetime: 'DateTimeString',
+};
+
+interface Member {
+  name: string;
+  optional: boolean;
+  type: string;
+  doc: string[];
+}
+
+/**
+ * Emitter state for one generated file
+ */
+class TypeEmitter {
+  private usedBrands = new Set<FieldFormat>();
+  private indentUnit: string;
+
+  constructor(private options: TypeGenerationOptions = {}) {
+    this.indentUnit = ' '.repeat(options.indent ?? 2);
+  }
+
+  get brands(): FieldFormat[] {
+    return [...this.usedBrands];
+  }
+
+  shapeDeclaration(name: string, shape: DataShape): string {
+    if (shape.type === 'object' && !shape.$ref) {
+      return `export interface ${name} ${this.objectType(this.shapeMembers(shape), 0)}`;
+    }
+    return `export type ${name} = ${this.shapeType(shape, 0)};`;
+  }
+
+  propsDeclaration(name: string, component: ComponentSchema): string {
+    const members = component.props.map((prop) => ({
+      name: prop.name,
+      optional: !prop.required,
+      type: propType(prop),
+      doc: propDoc(prop),
+    }));
+    const doc = component.description ? `/**\n * ${component.description}\n */\n` : '';
+    return `${doc}export interface ${name} ${this.objectType(members, 0)}`;
+  }
+
+  private shapeType(shape: DataShape, depth: number): string {
+    // References point at the declaration generated for the named shape
+    if (shape.$ref) {
+      return toTypeName(shape.$ref);
+    }
+
+    switch (shape.type) {
+      case 'object':
+        return this.objectType(this.shapeMembers(shape), depth);
+      case 'array':
+        return shape.itemShape ? wrapArray(this.shapeType(shape.itemShape, depth)) : 'unknown[]';
+      default:
+        return 'string | number | boolean';
+    }
+  }
+
+  private shapeMembers(shape: DataShape): Member[] {
+    const required = new Set(shape.required ?? []);
+    return Object.entries(shape.fields ?? {}).map(([name, field]) => ({
+      name,
+      optional: !(field.required === true || required.has(name)),
+      type: this.fieldType(field, 1),
+      doc: this.fieldDoc(field),
+    }));
+  }
+
+  private fieldType(field: FieldSchema, depth: number): string {
+    const type = this.baseFieldType(field, depth);
+    return field.nullable ? `${type} | null` : type;
+  }
+
+  private baseFieldType(field: FieldSchema, depth: number): string {
+    if (field.$ref) {
+      return toTypeName(field.$ref);
+    }
+
+    if (field.enum && field.enum.length > 0) {
+      return (field.enum as Array<string | number>).map((value) => formatValue(value)).join(' | ');
+    }
+
+    switch (field.type) {
+      case 'string':
+        if (field.format && this.options.brandFormats) {
+          this.usedBrands.add(field.format);
+          return brandNames[field.format];
+        }
+        return 'string';
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'date':
+        return 'string | Date';
+      case 'array':
+        return field.itemType ? wrapArray(this.fieldType(field.itemType, depth)) : 'unknown[]';
+      case 'object': {
+        if (!field.properties) {
+          return 'Record<string, unknown>';
+        }
+        const members = Object.entries(field.properties).map(([name, property]) => ({
+          name,
+          optional: !property.required,
+          type: this.fieldType(property, depth + 1),
+          doc: this.fieldDoc(property),
+        }));
+        return this.objectType(members, depth);
+      }
+      case 'union': {
+        const { variants } = getUnionVariants(field);
+        return variants.length > 0
+          ? variants.map((variant) => this.fieldType(variant, depth)).join(' | ')
+          : 'unknown';
+      }
+      default:
+        return 'unknown';
+    }
+  }
+
+  private fieldDoc(field: FieldSchema): string[] {
+    const doc: string[] = [];
+    if (field.description) {
+      doc.push(field.description);
+    }
+    if (field.format && !(this.options.brandFormats && field.type === 'string')) {
+      doc.push(`@format ${field.format}`);
+    }
+    if (field.min !== undefined) {
+      doc.push(`@minimum ${field.min}`);
+    }
+    if (field.max !== undefined) {
+      doc.push(`@maximum ${field.max}`);
+    }
+    if (field.pattern) {
+      doc.push(`@pattern ${field.pattern}`);
+    }
+    if (field.default !== undefined) {
+      doc.push(`@default ${formatValue(field.default)}`);
+    }
+    return doc;
+  }
+
+  private objectType(members: Member[], depth: number): string {
+    if (members.length === 0) {
+      return 'Record<string, unknown>';
+    }
+
+    const inner = this.indentUnit.repeat(depth + 1);
+    const lines = members.flatMap((member) => [
+      ...renderDoc(member.doc, inner),
+      `${inner}${propertyKey(member.name)}${member.optional ? '?' : ''}: ${member.type};`,
+    ]);
+    return `{\n${lines.join('\n')}\n${this.indentUnit.repeat(depth)}}`;
+  }
+}
+
+function renderDoc(doc: string[], indent: string): string[] {
+  if (doc.length === 0) {
+    return [];
+  }
+  if (doc.length === 1) {
+    return [`${indent}/** ${doc[0]} */`];
+  }
+  return [`${indent}/**`, ...doc.map((line) => `${indent} * ${line}`), `${indent} */`];
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : formatValue(name);
+}
+
+function wrapArray(type: string): string {
+  return /^[\w.]+$/.test(type) ? `${type}[]` : `Array<${type}>`;
+}
+
+function propType(prop: PropSchema): string {
+  switch (prop.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return prop.type;
+    case 'enum':
+      return prop.options && prop.options.length > 0
+        ? prop.options.map((option) => formatValue(option.value)).join(' | ')
+        : 'string';
+    case 'object':
+      return 'Record<string, unknown>';
+    case 'function':
+      return '(...args: unknown[]) => void';
+    default:
+      return 'unknown';
+  }
+}
+
+function propDoc(prop: PropSchema): string[] {
+  const doc: string[] = [];
+  if (prop.description) {
+    doc.push(prop.description);
+  }
+  if (prop.default !== undefined) {
+    doc.push(`@default ${formatValue(prop.default)}`);
+  }
+  return doc;
+}
+
+/**
+ * Type name for a shape key or component ID
+ */
+export function toTypeName(value: string): string {
+  return toComponentName(value, 'Schema');
+}
+
+/**
+ * Generate a type declaration for a single data shape
+ */
+export function generateShapeType(
+  name: string,
+  shape: DataShape,
+  options: TypeGenerationOptions = {}
+): string {
+  return new TypeEmitter(options).shapeDeclaration(name, shape);
+}
+
+/**
+ * Generate the props interface for a component
+ */
+export function generatePropsInterface(
+  component: ComponentSchema,
+  options: TypeGenerationOptions = {}
+): string {
+  return new TypeEmitter(options).propsDeclaration(`${toTypeName(component.id)}Props`, component);
+}
+
+/**
+ * Generate a complete `.ts` module for shapes and component props
+ */
+export function generateTypes(
+  input: TypeGenerationInput,
+  options: TypeGenerationOptions = {}
+): string {
+  const emitter = new TypeEmitter(options);
+  const declarations: string[] = [];
+
+  for (const [key, shape] of Object.entries(input.shapes ?? {})) {
+    declarations.push(emitter.shapeDeclaration(toTypeName(key), shape));
+  }
+
+  for (const component of input.components ?? []) {
+    const name = toTypeName(component.id);
+    if (component.dataShape) {
+      declarations.push(emitter.shapeDeclaration(`${name}Data`, component.dataShape));
+    }
+    declarations.push(emitter.propsDeclaration(`${name}Props`, component));
+  }
+
+  const brands = emitter.brands.map(
+    (format) => `export type ${brandNames[format]} = string & { readonly __format: '${format}' };`
+  );
+
+  const header = [
+    '/**',
+    ' * Generated from schema definitions by scripts/generate-types.ts.',
+    ' * Do not edit by hand.',
+    ' */',
+  ].join('\n');
+
+  return [header, ...(brands.length > 0 ? [brands.join('\n')] : []), ...declarations]
+    .join('\n\n')
+    .concat('\n');
+}
+
+/**
+ * Split a type into its top-level union members, normalized for comparison
+ */
+function unionMembers(type: string): string[] {
+  const members: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of type.replace(/\s+/g, '').replace(/"/g, "'")) {
+    if ('<({['.includes(char)) {
+      depth++;
+    } else if ('>)}]'.includes(char)) {
+      depth--;
+    }
+    if (char === '|' && depth === 0) {
+      members.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  members.push(current);
+
+  return members.filter((member) => member && member !== 'undefined').sort();
+}
+
+/**
+ * Compare a declared props interface with the component schema. Declared
+ * props that mirror `dataShape` fields are treated as covered by the schema.
+ */
+export function findPropsDrift(declared: DeclaredProp[], component: ComponentSchema): PropsDrift[] {
+  const drift: PropsDrift[] = [];
+  const declaredByName = new Map(declared.map((prop) => [prop.name, prop]));
+  const dataShape = component.dataShape && resolveShape(component.dataShape);
+  const dataFields = new Set(Object.keys(dataShape?.fields ?? {}));
+
+  for (const prop of component.props) {
+    const declaration = declaredByName.get(prop.name);
+    if (!declaration) {
+      drift.push({
+        prop: prop.name,
+        kind: 'missing-in-interface',
+        message: `Schema prop "${prop.name}" is not declared in the props interface`,
+        expected: propType(prop),
+      });
+      continue;
+    }
+
+    const schemaOptional = !prop.required;
+    if (schemaOptional !== declaration.optional) {
+      drift.push({
+        prop: prop.name,
+        kind: 'optionality',
+        message: `Prop "${prop.name}" is ${schemaOptional ? 'optional' : 'required'} in the schema but ${declaration.optional ? 'optional' : 'required'} in the interface`,
+      });
+    }
+
+    // Object and function props are too loosely typed in schemas to compare
+    if (prop.type !== 'object' && prop.type !== 'function') {
+      const expected = propType(prop);
+      if (unionMembers(expected).join('|') !== unionMembers(declaration.type).join('|')) {
+        drift.push({
+          prop: prop.name,
+          kind: 'type',
+          message: `Prop "${prop.name}" type does not match the schema`,
+          expected,
+          actual: declaration.type,
+        });
+      }
+    }
+  }
+
+  const schemaProps = new Set(component.props.map((prop) => prop.name));
+  for (const declaration of declared) {
+    if (!schemaProps.has(declaration.name) && !dataFields.has(declaration.name)) {
+      drift.push({
+        prop: declaration.name,
+        kind: 'missing-in-schema',
+        message: `Interface prop "${declaration.name}" is not described by the schema`,
+        actual: declaration.type,
+      });
+    }
+  }
+
+  return drift;
+}
@@ -3,13 +3,17 @@
  */
 
 // Base field types
-export type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
+export type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object' | 'union';
 
 export type FieldFormat = 'email' | 'url' | 'phone' | 'currency' | 'percentage' | 'datetime';
 
 export interface FieldSchema {
   type: FieldType;
   required?: boolean;
+  // Name of a registered shape; the value is validated as that shape
+  $ref?: string;
+  // Also accept null
+  nullable?: boolean;
   format?: FieldFormat;
   enum?: string[] | number[];
   default?: any;
@@ -27,16 +31,103 @@ export interface FieldSchema {
   minLength?: number;
   maxLength?: number;
   pattern?: string;
+  // For unions: the value must match exactly one `oneOf` variant or at least
+  // one `anyOf` variant
+  oneOf?: FieldSchema[];
+  anyOf?: FieldSchema[];
+  // For discriminated unions: object property whose value selects the
+  // variant; each variant lists its tag values in `properties[tag].enum`
+  discriminator?: string;
 }
 
+// Comparison operators for cross-field rules
+export type RuleOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+// Right-hand side of a comparison: another field or a literal value
+export type RuleOperand = { field: string } | { value: string | number | boolean | null };
+
+// Condition on a sibling field; `present`/`absent` ignore `value`
+export interface RuleCondition {
+  field: string;
+  operator?: RuleOperator | 'present' | 'absent';
+  value?: string | number | boolean | null;
+}
+
+// Cross-field rules evaluated on object data after per-field checks
+export type ShapeRule =
+  | {
+      type: 'compare';
+      field: string;
+      operator: RuleOperator;
+      other: RuleOperand;
+      message?: string;
+    }
+  | {
+      type: 'requiredIf';
+      field: string;
+      when: RuleCondition;
+      message?: string;
+    }
+  | {
+      type: 'requireOneOf';
+      fields: string[];
+      message?: string;
+    }
+  | {
+      type: 'custom';
+      // Name of a validator registered with `registerValidator`
+      validator: string;
+      // Field the error is reported on; defaults to the object itself
+      field?: string;
+      options?: Record<string, unknown>;
+      message?: string;
+    };
+
 // Data shape for components
 export interface DataShape {
   type: 'object' | 'array' | 'primitive';
+  // Name of a registered shape used in place of this one
+  $ref?: string;
   fields?: Record<string, FieldSchema>;
   itemShape?: DataShape;
   required?: string[];
+  rules?: ShapeRule[];
 }
 
+// Serializable behaviour bound to a `function` prop. String fields may
+// contain `{{ }}` bindings, which also see the handler's first argument as
+// `event`.
+export type ActionSchema =
+  | { type: 'navigate'; to: string; replace?: boolean }
+  | {
+      type: 'openDialog';
+      title: string;
+      message?: string;
+      confirmLabel?: string;
+      cancelLabel?: string;
+      onConfirm?: ActionSchema;
+      onCancel?: ActionSchema;
+    }
+  | { type: 'setState'; key: string; value?: unknown }
+  | { type: 'refetch'; dataSource: string }
+  | {
+      type: 'mutate';
+      dataSource: string;
+      // Defaults to the source's method, or POST for GET sources
+      method?: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+      body?: unknown;
+      // Sources to refetch once the mutation succeeds
+      refetch?: string[];
+    }
+  | {
+      type: 'showSnackbar';
+      message: string;
+      severity?: 'success' | 'info' | 'warning' | 'error';
+    }
+  | { type: 'chain'; actions: ActionSchema[] };
+
+export type ActionType = ActionSchema['type'];
+
 // Component prop schema
 export interface PropSchema {
   name: string;
@@ -61,6 +152,8 @@ export interface VariantSchema {
 export interface ComponentSchema {
   id: string;
   name: string;
+  // Props format version, starting at 1; bump it with a registered migration
+  version?: number;
   type: 'display' | 'form' | 'layout' | 'navigation' | 'utility';
   category?: string;
   description?: string;
@@ -74,25 +167,191 @@ export interface ComponentSchema {
   dependencies?: string[];
 }
 
+// Value produced by a `map` transform step: another field (dot path), a
+// literal, or a template with `{path}` placeholders
+export type TransformValue =
+  | { field: string }
+  | { value: string | number | boolean | null }
+  | { template: string };
+
+export type TransformAggregateFn = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+// Declarative data source transforms, applied in order. Steps that work on
+// records apply to each item of an array; field names accept dot paths
+// except in `pick` and `rename`, which work on top-level keys.
+export type TransformStep =
+  | { op: 'get'; path: string }
+  | { op: 'pick'; fields: string[] }
+  | { op: 'rename'; fields: Record<string, string> }
+  | { op: 'map'; fields: Record<string, TransformValue> }
+  | { op: 'filter'; where: RuleCondition[] }
+  | { op: 'sort'; by: Array<{ field: string; direction?: 'asc' | 'desc' }> }
+  | { op: 'groupBy'; field: string; as?: string }
+  | {
+      op: 'aggregate';
+      groupBy?: string;
+      metrics: Record<string, { fn: TransformAggregateFn; field?: string }>;
+    }
+  | { op: 'flatten'; field?: string }
+  | {
+      op: 'join';
+      // ID of the data source to join with
+      source: string;
+      on: { local: string; foreign: string };
+      as: string;
+      // Attach every match as an array instead of the first one
+      many?: boolean;
+    };
+
+export type TransformOp = TransformStep['op'];
+
+// How a source's results are split into pages. Parameters are sent as query
+// parameters to REST sources and as variables to GraphQL sources; the items
+// of every loaded page are combined before transform steps run.
+export type PaginationSchema = {
+  // Dot path to the items in each response; defaults to the response itself
+  itemsPath?: string;
+  // Dot path to the total number of items, when the API reports it
+  totalPath?: string;
+} & (
+  | { type: 'offset'; pageSize: number; offsetParam?: string; limitParam?: string }
+  | { type: 'page'; pageSize: number; pageParam?: string; sizeParam?: string; firstPage?: number }
+  | {
+      type: 'cursor';
+      // Dot path to the next page's cursor; pages end when it is empty
+      cursorPath: string;
+      cursorParam?: string;
+      pageSize?: number;
+      sizeParam?: string;
+    }
+  // Follow the rel="next" URL of the Link header (REST only)
+  | { type: 'link' }
+);
+
+export type PaginationType = PaginationSchema['type'];
+
+// How a `mock` source answers; every request succeeds at once by default
+export interface MockSourceSchema {
+  // Data to answer with; generated from `responseShape` when omitted
+  fixture?: unknown;
+  // Same seed, same generated data; defaults to the source ID
+  seed?: number | string;
+  // Number of generated items for array shapes
+  count?: number;
+  // Milliseconds before answering, fixed or picked from a range
+  latency?: number | { min: number; max: number };
+  // Share of requests that fail with status 500, from 0 to 1
+  errorRate?: number;
+  // HTTP status to answer with; 4xx and 5xx fail every request
+  status?: number;
+  // Answer with no items: an empty list, or the object with its lists emptied
+  empty?: boolean;
+}
+
+// How each message of a `websocket` or `sse` source updates its data. Array
+// messages add each of their items to `append`, `upsert` and `window` data.
+export type StreamReducer =
+  // The latest message is the data
+  | { type: 'replace' }
+  // Messages are added to a list, keeping the last `max`
+  | { type: 'append'; max?: number }
+  // Items replace the item with the same value at `key` (a dot path), or are
+  // added after the others
+  | { type: 'upsert'; key: string; max?: number }
+  // Items from the last `duration` milliseconds and at most the last `size`
+  // items are kept; items are timed by the date or epoch milliseconds at
+  // `timePath`, or when they arrive
+  | { type: 'window'; duration?: number; size?: number; timePath?: string };
+
+export type StreamReducerType = StreamReducer['type'];
+
+// Reconnecting after a connection drops; delays grow from `initialDelay` by
+// `factor` up to `maxDelay`
+export interface ReconnectSchema {
+  initialDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  // Give up after this many failed attempts in a row; unlimited by default
+  maxAttempts?: number;
+  // Randomize each delay between half and all of it, so clients spread out
+  jitter?: boolean;
+}
+
+// How `websocket` and `sse` sources receive messages
+export interface StreamSchema {
+  // Messages sent on every (re)connection, e.g. subscription requests;
+  // anything but a string is sent as JSON. WebSocket only.
+  subscribe?: unknown[];
+  // Messages sent before the connection is closed. WebSocket only.
+  unsubscribe?: unknown[];
+  // Server-Sent Event types to listen to; defaults to 'message'
+  events?: string[];
+  // Dot path to the payload in each message, after parsing it as JSON
+  messagePath?: string;
+  // Defaults to replace
+  reducer?: StreamReducer;
+  // False to stay disconnected after a drop
+  reconnect?: ReconnectSchema | false;
+}
+
+// Where an input of a `computed` source comes from: another source's data, a
+// page route parameter or an app state key
+export type ComputedInput = { source: string } | { param: string } | { state: string };
+
+// How a `computed` source derives its data from its inputs
+export interface ComputedSourceSchema {
+  // Inputs by the name the derivation reads them under
+  inputs: Record<string, ComputedInput>;
+  // The data, with `{{ }}` bindings at any depth evaluated against the
+  // inputs, e.g. { total: "{{ orders.length }}" }; defaults to the only
+  // input, or an object of all inputs. Transform steps run on the result.
+  value?: unknown;
+}
+
 // Data source schema
 export interface DataSourceSchema {
   id: string;
   name?: string;
-  type: 'rest' | 'graphql' | 'static' | 'computed';
+  type: 'rest' | 'graphql' | 'static' | 'computed' | 'mock' | 'websocket' | 'sse';
   endpoint?: string;
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   headers?: Record<string, string>;
   query?: string; // For GraphQL
-  transform?: string; // Transform function as string
+  // Transform steps; a string is a deprecated JavaScript function body that
+  // only runs when `useSchemaData` is called with `allowScriptTransform`
+  transform?: TransformStep[] | string;
   cache?: {
     enabled: boolean;
+    // Milliseconds before cached data goes stale
     ttl?: number;
+    // Milliseconds after `ttl` during which stale data is shown while it is
+    // refetched in the background
+    staleWhileRevalidate?: number;
+    // Keep cached data across reloads, e.g. to show it offline. Entries are
+    // kept for the user signed in through AuthContextProvider and dropped when
+    // another user, or no one, signs in; apps without it share them
+    persist?: boolean;
+    // Change to drop data cached for earlier versions of the source; changing
+    // its transform or response shape does the same
+    version?: string | number;
     key?: string;
   };
   refresh?: {
     interval?: number;
+    // Events that make the source refetch, or drop its cache when not shown
     events?: string[];
   };
+  // Events emitted after a successful mutation through this source
+  emits?: string[];
+  // Load results a page at a time
+  pagination?: PaginationSchema;
+  // Simulated responses of `mock` sources
+  mock?: MockSourceSchema;
+  // Inputs and derivation of `computed` sources
+  compute?: ComputedSourceSchema;
+  // Messages and reconnection of `websocket` and `sse` sources, which
+  // connect to `endpoint`
+  stream?: StreamSchema;
   // Expected data shape
   responseShape?: DataShape;
 }
@@ -176,4 +435,10 @@ export interface RuntimeConfig {
   environment?: 'development' | 'staging' | 'production';
   features?: Record<string, boolean>;
   debug?: boolean;
+  // Display formatting; locale and time zone default to the browser's
+  locale?: string;
+  // ISO 4217 code for `currency` fields, e.g. 'EUR'; defaults to USD
+  currency?: string;
+  // IANA time zone for `datetime` fields, e.g. 'Europe/Berlin'
+  timeZone?: string;
 }
@@ -0,0 +1,456 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SchemaValidator,
+  validateApplicationSchema,
+  validateData,
+  validatePageSchema,
+} from './validation';
+import { ApplicationSchema, ComponentSchema, DataShape, PageSchema } from './types';
+import { commonDataShapes, registerShape, shapeRegistry } from './registry';
+
+const userList: ComponentSchema = {
+  id: 'UserList',
+  name: 'User List',
+  type: 'display',
+  props: [
+    { name: 'title', type: 'string', required: true },
+    { name: 'pageSize', type: 'number' },
+    { name: 'onSelect', type: 'function' },
+    {
+      name: 'variant',
+      type: 'enum',
+      options: [
+        { label: 'Compact', value: 'compact' },
+        { label: 'Detailed', value: 'detailed' },
+      ],
+    },
+  ],
+  dataShape: {
+    type: 'array',
+    itemShape: {
+      type: 'object',
+      fields: {
+        id: { type: 'string', required: true },
+        joined: { type: 'date' },
+      },
+    },
+  },
+};
+
+const componentSchemas = new Map([[userList.id, userList]]);
+
+const page = (overrides: Partial<PageSchema> = {}): PageSchema => ({
+  id: 'users',
+  name: 'Users',
+  route: '/users',
+  layout: { type: 'grid' },
+  dataSources: [
+    {
+      id: 'users',
+      type: 'rest',
+      endpoint: '/api/users',
+      responseShape: {
+        type: 'array',
+        itemShape: {
+          type: 'object',
+          fields: { id: { type: 'string' }, joined: { type: 'string' } },
+        },
+      },
+    },
+  ],
+  components: [
+    { id: 'list', component: 'UserList', dataSource: 'users', props: { title: 'Users' } },
+  ],
+  ...overrides,
+});
+
+const paths = (result: ReturnType<typeof validatePageSchema>): string[] =>
+  (result.errors ?? []).map((error) => error.path);
+
+describe('reference validation', () => {
+  it('should accept a page whose references resolve', () => {
+    const result = validatePageSchema(page(), { componentSchemas });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('should report unknown components and data sources', () => {
+    const result = validatePageSchema(
+      page({
+        components: [
+          { id: 'a', component: 'Missing' },
+          { id: 'b', component: 'UserList', dataSource: 'nope', props: { title: 'x' } },
+        ],
+      }),
+      { componentSchemas }
+    );
+
+    expect(paths(result)).toEqual(['components[0].component', 'components[1].dataSource']);
+  });
+
+  it('should resolve data sources from global sources', () => {
+    const result = validatePageSchema(
+      page({
+        dataSources: [],
+        components: [{ id: 'a', component: 'UserList', dataSource: 'g', props: { title: 'x' } }],
+      }),
+      { componentSchemas, globalDataSources: [{ id: 'g', type: 'static' }] }
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings?.[0].message).toContain('has no responseShape');
+  });
+
+  it('should check prop types, enums and required props', () => {
+    const result = validatePageSchema(
+      page({
+        components: [
+          {
+            id: 'list',
+            component: 'UserList',
+            props: { variant: 'huge', extra: 1 },
+            responsive: { mobile: { props: { title: 42 } } },
+          },
+        ],
+      }),
+      { componentSchemas }
+    );
+
+    expect(result.errors).toEqual([
+      {
+        path: 'components[0].props.variant',
+        message: 'Value must be one of: compact, detailed',
+        value: 'huge',
+      },
+      { path: 'components[0].props.title', message: 'Required prop missing' },
+      {
+        path: 'components[0].responsive.mobile.props.title',
+        message: 'Expected string but got number',
+        value: 42,
+      },
+    ]);
+    expect(result.warnings).toEqual([
+      { path: 'components[0].props.extra', message: 'Unknown prop for component "UserList"' },
+    ]);
+  });
+
+  it('should accept bindings on props of any type and check their syntax', () => {
+    const result = validatePageSchema(
+      page({
+        components: [
+          {
+            id: 'list',
+            component: 'UserList',
+            props: { title: '{{ params.title }}', pageSize: '{{ data.count }}', variant: '{{ ' },
+          },
+        ],
+      }),
+      { componentSchemas }
+    );
+
+    expect(result.errors).toEqual([
+      {
+        path: 'components[0].props.variant',
+        message: 'Missing "}}" after "{{"',
+        value: '{{ ',
+      },
+    ]);
+  });
+
+  it('should check actions held by function props', () => {
+    const placement = (id: string, onSelect: unknown): PageSchema['components'][number] => ({
+      id,
+      component: 'UserList',
+      props: { title: 'Users', onSelect },
+    });
+    const result = validatePageSchema(
+      page({
+        components: [
+          placement('a', { type: 'navigate', to: '/users/{{ event.id }}' }),
+          placement('b', { type: 'chain', actions: [{ type: 'refetch', dataSource: 'users' }] }),
+          placement('c', { type: 'mutate', dataSource: 'orders' }),
+          placement('d', { type: 'wave' }),
+        ],
+      }),
+      { componentSchemas }
+    );
+
+    expect(result.errors).toEqual([
+      { path: 'components[2].props.onSelect.dataSource', message: 'Unknown data source "orders"' },
+      {
+        path: 'components[3].props.onSelect.type',
+        message:
+          'Unknown action; expected one of: navigate, openDialog, setState, refetch, mutate, showSnackbar, chain',
+      },
+    ]);
+  });
+
+  it('should detect incompatible response shapes', () => {
+    const result = validatePageSchema(
+      page({
+        dataSources: [
+          {
+            id: 'users',
+            type: 'rest',
+            responseShape: {
+              type: 'array',
+              itemShape: { type: 'object', fields: { id: { type: 'number' } } },
+            },
+          },
+        ],
+      }),
+      { componentSchemas }
+    );
+
+    expect(result.errors).toEqual([
+      {
+        path: 'components[0].dataSource[].id',
+        message: 'Data source provides number but component expects string',
+      },
+    ]);
+  });
+
+  it('should reject malformed routes', () => {
+    const messages = ['users', '/a//b', '/*/x', '/u/:id/:id', '/a b'].map(
+      (route) => validatePageSchema(page({ route }), { componentSchemas }).errors?.[0].message
+    );
+
+    expect(messages).toEqual([
+      'Route must start with "/"',
+      'Route must not contain empty segments',
+      'Wildcard "*" must be the last route segment',
+      'Duplicate route parameter "id"',
+      'Invalid route segment "a b"',
+    ]);
+  });
+
+  it('should validate a whole application with unique routes', () => {
+    const app: ApplicationSchema = {
+      id: 'crm',
+      name: 'CRM',
+      version: '1.0',
+      components: [userList],
+      pages: [
+        page(),
+        page({ id: 'detail', route: '/users/:id', components: [] }),
+        page({ id: 'detail', route: '/users/:userId/', components: [] }),
+      ],
+    };
+
+    const result = validateApplicationSchema(app, { componentSchemas: new Map() });
+
+    expect(result.errors).toEqual([
+      { path: 'pages[2].id', message: 'Duplicate page ID "detail"' },
+      {
+        path: 'pages[2].route',
+        message: 'Route "/users/:userId/" conflicts with pages[1].route',
+        value: '/users/:userId/',
+      },
+    ]);
+    expect(result.warnings).toEqual([
+      { path: 'version', message: 'Version should follow semver (e.g. 1.0.0)' },
+    ]);
+  });
+});
+
+const dashboardShape: DataShape = {
+  type: 'object',
+  fields: {
+    nickname: { type: 'string', nullable: true, required: true },
+    score: { type: 'union', oneOf: [{ type: 'number' }, { type: 'string', pattern: '^n/a$' }] },
+    label: { type: 'union', anyOf: [{ type: 'string' }, { type: 'string', minLength: 3 }] },
+    stats: {
+      type: 'array',
+      itemType: {
+        type: 'union',
+        discriminator: 'kind',
+        oneOf: [
+          {
+            type: 'object',
+            properties: {
+              kind: { type: 'string', enum: ['counter'] },
+              value: { type: 'number', required: true },
+            },
+          },
+          {
+            type: 'object',
+            properties: {
+              kind: { type: 'string', enum: ['trend', 'sparkline'] },
+              points: { type: 'array', itemType: { type: 'number' } },
+            },
+          },
+        ],
+      },
+    },
+  },
+};
+
+describe('union and nullable fields', () => {
+  it('should accept null for nullable fields and matching variants', () => {
+    const result = validateData(
+      {
+        nickname: null,
+        score: 'n/a',
+        label: 'ok',
+        stats: [
+          { kind: 'counter', value: 3 },
+          { kind: 'sparkline', points: [1, 2] },
+        ],
+      },
+      dashboardShape
+    );
+
+    expect(result).toEqual({ valid: true, errors: undefined, warnings: undefined });
+  });
+
+  it('should report which variant failed', () => {
+    const result = validateData(
+      {
+        nickname: 4,
+        score: 'none',
+        label: 'label',
+        stats: [{ kind: 'counter', value: 'x' }, { kind: 'pie' }, { value: 1 }, 'bar'],
+      },
+      dashboardShape
+    );
+
+    expect(result.errors).toEqual([
+      { path: 'nickname', message: 'Expected string or null but got number', value: 4 },
+      { path: 'score', message: 'Value does not match any oneOf variant', value: 'none' },
+      { path: 'score', message: 'oneOf[0]: Expected number but got string', value: 'none' },
+      { path: 'score', message: 'oneOf[1]: String does not match pattern ^n/a$', value: 'none' },
+      {
+        path: 'stats[0].value',
+        message: 'oneOf[0] (kind "counter"): Expected number but got string',
+        value: 'x',
+      },
+      {
+        path: 'stats[1].kind',
+        message: 'Unknown kind "pie"; expected one of: counter, trend, sparkline',
+        value: 'pie',
+      },
+      { path: 'stats[2].kind', message: 'Discriminator "kind" missing', value: undefined },
+      { path: 'stats[3]', message: 'Expected object but got string', value: 'bar' },
+    ]);
+  });
+
+  it('should reject values matching more than one oneOf variant', () => {
+    const shape: DataShape = {
+      type: 'object',
+      fields: {
+        id: { type: 'union', oneOf: [{ type: 'string' }, { type: 'string', minLength: 1 }] },
+      },
+    };
+
+    expect(validateData({ id: 'a' }, shape).errors).toEqual([
+      {
+        path: 'id',
+        message: 'Value matches oneOf[0] and oneOf[1]; expected exactly one',
+        value: 'a',
+      },
+    ]);
+  });
+
+  it('should transform with the matching variant and keep nulls', () => {
+    const shape: DataShape = {
+      type: 'object',
+      fields: {
+        amount: { type: 'union', oneOf: [{ type: 'number' }, { type: 'boolean' }] },
+        tags: { type: 'array', nullable: true },
+        owner: { type: 'string', nullable: true, required: true },
+      },
+    };
+
+    expect(SchemaValidator.transformData({ amount: '12', tags: null }, shape)).toEqual({
+      amount: 12,
+      tags: null,
+    });
+    expect(validateData({ amount: '12', tags: null }, shape).errors).toEqual([
+      { path: 'amount', message: 'Value does not match any oneOf variant', value: '12' },
+      { path: 'amount', message: 'oneOf[0]: Expected number but got string', value: '12' },
+      { path: 'amount', message: 'oneOf[1]: Expected boolean but got string', value: '12' },
+      { path: 'owner', message: 'Required field missing', value: undefined },
+    ]);
+  });
+});
+
+describe('shape references', () => {
+  it('should validate recursive navigation items', () => {
+    const navigation = [
+      {
+        id: 'docs',
+        label: 'Docs',
+        children: [
+          { id: 'intro', label: 'Intro' },
+          { id: 'api', label: 'API', children: [{ id: 'hooks', label: 3 }] },
+        ],
+      },
+    ];
+
+    expect(validateData(navigation, commonDataShapes.navigation).errors).toEqual([
+      {
+        path: '[0].children[1].children[0].label',
+        message: 'Expected string but got number',
+        value: 3,
+      },
+    ]);
+  });
+
+  it('should transform nested comment replies', () => {
+    const comments = [
+      {
+        id: 'c1',
+        author: 'ada',
+        body: 'Hi',
+        replies: [{ id: 'c2', author: 'bob', body: 'Hey', createdAt: '2024-05-01' }],
+      },
+    ];
+
+    const [comment] = SchemaValidator.transformData(comments, commonDataShapes.comments) as Array<{
+      replies: Array<{ createdAt: unknown }>;
+    }>;
+    expect(comment.replies[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should stop on cyclic data', () => {
+    const item: Record<string, unknown> = { id: 'loop', label: 'Loop' };
+    item.children = [item];
+
+    expect(validateData([item], commonDataShapes.navigation).errors).toEqual([
+      {
+        path: '[0].children[0].children',
+        message: 'Circular data for shape "navigation"',
+        value: [item],
+      },
+    ]);
+    expect(SchemaValidator.transformData([item], commonDataShapes.navigation)).toHaveLength(1);
+  });
+
+  it('should report unknown and circular references', () => {
+    registerShape('loopA', { type: 'object', $ref: 'loopB' });
+    registerShape('loopB', { type: 'object', $ref: 'loopA' });
+
+    try {
+      const shape: DataShape = {
+        type: 'object',
+        fields: {
+          owner: { type: 'object', $ref: 'person' },
+          loop: { type: 'object', $ref: 'loopA' },
+        },
+      };
+
+      expect(validateData({ owner: {}, loop: {} }, shape).errors).toEqual([
+        { path: 'owner', message: 'Unknown shape reference "person"', value: {} },
+        {
+          path: 'loop',
+          message: 'Circular shape reference: loopA -> loopB -> loopA',
+          value: {},
+        },
+      ]);
+    } finally {
+      shapeRegistry.delete('loopA');
+      shapeRegistry.delete('loopB');
+    }
+  });
+});
@@ -10,7 +10,144 @@ import {
   ComponentSchema,
   PageSchema,
   ApplicationSchema,
+  DataSourceSchema,
+  LayoutType,
+  PropSchema,
 } from './types';
+import { componentSchemas, shapeRegistry } from './registry';
+import { collectAsyncRules, evaluateRules, getRuleFields } from './validationRules';
+import { inferTransformShape, isUnknownField, validateTransformSteps } from './transforms';
+import { validatePagination } from './pagination';
+import { validateMockSource } from './mockSource';
+import { validateComputedSource, validateDependencies } from './computedSources';
+import { validateStream } from './streamSource';
+import { checkTemplate, isBinding } from './expressions';
+import { validateAction } from './actions';
+
+type ValidationIssue = NonNullable<ValidationResult['errors']>[number];
+type ValidationWarning = NonNullable<ValidationResult['warnings']>[number];
+
+export interface ReferenceValidationOptions {
+  // Component schemas placements resolve against; defaults to the registry
+  componentSchemas?: Map<string, ComponentSchema>;
+  // Data sources shared by all pages
+  globalDataSources?: DataSourceSchema[];
+}
+
+const layoutTypes: LayoutType[] = ['grid', 'flex', 'absolute', 'responsive'];
+
+// Patterns for `FieldSchema.format`; unknown formats always pass
+export const formatPatterns: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  url: /^https?:\/\/.+/,
+  phone: /^\+?[\d\s-()]+$/,
+  currency: /^\$?[\d,]+\.?\d*$/,
+  percentage: /^\d+\.?\d*%?$/,
+  datetime: /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2})?/,
+};
+
+/**
+ * Follow a `$ref` name through the shape registry to a concrete shape.
+ * Throws for unknown names and for reference chains that loop.
+ */
+export function resolveShapeRef(ref: string, shapes = shapeRegistry): DataShape {
+  const chain: string[] = [];
+  let name = ref;
+
+  for (;;) {
+    if (chain.includes(name)) {
+      throw new Error(`Circular shape reference: ${[...chain, name].join(' -> ')}`);
+    }
+    chain.push(name);
+
+    const shape = shapes.get(name);
+    if (!shape) {
+      throw new Error(`Unknown shape reference "${name}"`);
+    }
+    if (!shape.$ref) {
+      return shape;
+    }
+    name = shape.$ref;
+  }
+}
+
+/**
+ * Resolve a shape that may be a `$ref` pointer. Unresolvable references
+ * return the shape unchanged; validation reports them.
+ */
+export function resolveShape(shape: DataShape, shapes = shapeRegistry): DataShape {
+  if (!shape.$ref) {
+    return shape;
+  }
+  try {
+    return resolveShapeRef(shape.$ref, shapes);
+  } catch {
+    return shape;
+  }
+}
+
+// Objects currently being validated or transformed against each referenced
+// shape. Validation is synchronous, so a module-level map is enough to stop
+// recursive shapes from looping on cyclic data.
+const activeRefs = new WeakMap<object, Set<DataShape>>();
+
+/**
+ * Run `visit` unless `value` is already being visited against `shape`.
+ * Returns false when that would recurse forever.
+ */
+export function visitRef(value: unknown, shape: DataShape, visit: () => void): boolean {
+  if (typeof value !== 'object' || value === null) {
+    visit();
+    return true;
+  }
+
+  const active = activeRefs.get(value) ?? new Set<DataShape>();
+  if (active.has(shape)) {
+    return false;
+  }
+  active.add(shape);
+  activeRefs.set(value, active);
+  try {
+    visit();
+  } finally {
+    active.delete(shape);
+  }
+  return true;
+}
+
+/**
+ * Variants of a union field and the keyword they are declared under
+ */
+export function getUnionVariants(schema: FieldSchema): {
+  keyword: 'oneOf' | 'anyOf';
+  variants: FieldSchema[];
+} {
+  return schema.oneOf
+    ? { keyword: 'oneOf', variants: schema.oneOf }
+    : { keyword: 'anyOf', variants: schema.anyOf ?? [] };
+}
+
+/**
+ * Index of the variant whose discriminator `enum` lists `tagValue`, or -1
+ */
+export function findDiscriminatedVariant(
+  variants: FieldSchema[],
+  discriminator: string,
+  tagValue: unknown
+): number {
+  return variants.findIndex((variant) =>
+    (variant.properties?.[discriminator]?.enum as unknown[] | undefined)?.includes(tagValue)
+  );
+}
+
+/**
+ * Tag values accepted across all variants of a discriminated union
+ */
+export function getDiscriminatorValues(variants: FieldSchema[], discriminator: string): unknown[] {
+  return variants.flatMap(
+    (variant) => (variant.properties?.[discriminator]?.enum as unknown[] | undefined) ?? []
+  );
+}
 
 export class SchemaValidator {
   /**
@@ -37,6 +174,13 @@ export class SchemaValidator {
     };
   }
 
+  /**
+   * Validate data including async custom rule validators
+   */
+  static validateDataAsync(data: unknown, shape: DataShape): Promise<ValidationResult> {
+    return collectAsyncRules(() => this.validateData(data, shape));
+  }
+
   /**
    * Validate a component schema
    */
@@ -94,6 +238,10 @@ export class SchemaValidator {
    * Transform and clean data to match schema
    */
   static transformData(data: any, shape: DataShape): any {
+    if (shape.$ref) {
+      return this.transformRef(data, shape.$ref);
+    }
+
     if (shape.type === 'array') {
       if (!Array.isArray(data)) {
         return [];
@@ -113,8 +261,8 @@ export class SchemaValidator {
           transformed[key] = this.transformField(value, fieldSchema);
         } else if (fieldSchema.default !== undefined) {
           transformed[key] = fieldSchema.default;
-        } else if (fieldSchema.required) {
-          // Will be caught by validation
+        } else if (fieldSchema.required && !fieldSchema.nullable) {
+          // Will be caught by validation; null would pass a nullable field
           transformed[key] = null;
         }
       }
@@ -141,15 +289,171 @@ export class SchemaValidator {
     return transformed;
   }
 
+  /**
+   * Validate a data source's transform and, when `targetShape` is given,
+   * check that its output fits that shape. `sourceShapes` are the response
+   * shapes of other sources, used to follow `join` steps.
+   */
+  static validateDataSource(
+    source: DataSourceSchema,
+    targetShape?: DataShape,
+    sourceShapes: Record<string, DataShape> = {}
+  ): ValidationResult {
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    this.validateSourceTransform(source, '', errors, warnings);
+    this.validateSourcePagination(source, '', errors);
+    this.validateSourceMock(source, '', errors);
+    this.validateSourceCompute(source, '', errors);
+    this.validateSourceStream(source, '', errors);
+    if (targetShape) {
+      this.checkSourceOutput(source, targetShape, sourceShapes, '', errors, warnings);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
+  /**
+   * Validate a page schema and its references to components and data sources
+   */
+  static validatePageSchema(
+    page: PageSchema,
+    options: ReferenceValidationOptions = {}
+  ): ValidationResult {
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    this.validatePage(
+      page,
+      '',
+      options.componentSchemas ?? componentSchemas,
+      options.globalDataSources ?? [],
+      errors,
+      warnings
+    );
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
+  /**
+   * Validate a whole application: component schemas, unique routes and every
+   * page reference. Components declared on the application take precedence
+   * over registered ones.
+   */
+  static validateApplicationSchema(
+    app: ApplicationSchema,
+    options: Pick<ReferenceValidationOptions, 'componentSchemas'> = {}
+  ): ValidationResult {
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    if (!app.id) {
+      errors.push({ path: 'id', message: 'Application ID is required' });
+    }
+    if (!app.name) {
+      errors.push({ path: 'name', message: 'Application name is required' });
+    }
+    if (!app.version) {
+      errors.push({ path: 'version', message: 'Application version is required' });
+    } else if (!/^\d+\.\d+\.\d+/.test(app.version)) {
+      warnings.push({ path: 'version', message: 'Version should follow semver (e.g. 1.0.0)' });
+    }
+
+    // Application components
+    const schemas = new Map(options.componentSchemas ?? componentSchemas);
+    const componentIds = new Set<string>();
+    (app.components ?? []).forEach((component, index) => {
+      const path = `components[${index}]`;
+      const result = this.validateComponentSchema(component);
+      result.errors?.forEach((error) => errors.push({ ...error, path: `${path}.${error.path}` }));
+
+      if (componentIds.has(component.id)) {
+        errors.push({ path: `${path}.id`, message: `Duplicate component ID "${component.id}"` });
+      }
+      componentIds.add(component.id);
+      schemas.set(component.id, component);
+    });
+
+    // Global data sources
+    const globalDataSources = app.globalDataSources ?? [];
+    this.checkUniqueIds(globalDataSources, 'globalDataSources', 'data source', errors);
+    globalDataSources.forEach((source, index) => {
+      this.validateSourceTransform(source, `globalDataSources[${index}]`, errors, warnings);
+      this.validateSourcePagination(source, `globalDataSources[${index}]`, errors);
+      this.validateSourceMock(source, `globalDataSources[${index}]`, errors);
+      this.validateSourceCompute(source, `globalDataSources[${index}]`, errors);
+      this.validateSourceStream(source, `globalDataSources[${index}]`, errors);
+    });
+    errors.push(
+      ...validateDependencies(globalDataSources, (id) => {
+        const index = globalDataSources.findIndex((source) => source.id === id);
+        return index === -1 ? undefined : `globalDataSources[${index}]`;
+      })
+    );
+
+    // Pages and routes
+    if (!Array.isArray(app.pages)) {
+      errors.push({ path: 'pages', message: 'Pages must be an array' });
+    } else {
+      const pageIds = new Set<string>();
+      const routes = new Map<string, number>();
+
+      app.pages.forEach((page, index) => {
+        const path = `pages[${index}]`;
+
+        if (pageIds.has(page.id)) {
+          errors.push({ path: `${path}.id`, message: `Duplicate page ID "${page.id}"` });
+        }
+        pageIds.add(page.id);
+
+        if (page.route) {
+          const normalized = this.normalizeRoute(page.route);
+          const existing = routes.get(normalized);
+          if (existing !== undefined) {
+            errors.push({
+              path: `${path}.route`,
+              message: `Route "${page.route}" conflicts with pages[${existing}].route`,
+              value: page.route,
+            });
+          } else {
+            routes.set(normalized, index);
+          }
+        }
+
+        this.validatePage(page, path, schemas, globalDataSources, errors, warnings);
+      });
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
   // Private helper methods
 
   private static validateDataShape(
     data: any,
     shape: DataShape,
     path: string,
-    errors: ValidationResult['errors'],
-    warnings: ValidationResult['warnings']
+    errors: ValidationIssue[],
+    warnings: ValidationWarning[]
   ): void {
+    if (shape.$ref) {
+      this.validateRef(data, shape.$ref, path, errors, warnings);
+      return;
+    }
+
     if (shape.type === 'array') {
       if (!Array.isArray(data)) {
         errors.push({
@@ -215,6 +519,14 @@ export class SchemaValidator {
           }
         }
       }
+
+      // Cross-field rules
+      if (shape.rules) {
+        evaluateRules(data as Record<string, unknown>, shape, path, {
+          error: (issue) => errors.push(issue),
+          warning: (warning) => warnings.push(warning),
+        });
+      }
     }
   }
 
@@ -222,14 +534,28 @@ export class SchemaValidator {
     value: any,
     schema: FieldSchema,
     path: string,
-    errors: ValidationResult['errors'],
-    warnings: ValidationResult['warnings']
+    errors: ValidationIssue[],
+    warnings: ValidationWarning[]
   ): void {
+    if (value === null && schema.nullable) {
+      return;
+    }
+
+    if (schema.$ref) {
+      this.validateRef(value, schema.$ref, path, errors, warnings);
+      return;
+    }
+
+    if (schema.type === 'union') {
+      this.validateUnion(value, schema, path, errors, warnings);
+      return;
+    }
+
     // Type validation
     if (!this.validateFieldType(value, schema.type)) {
       errors.push({
         path,
-        message: `Expected ${schema.type} but got ${typeof value}`,
+        message: `Expected ${schema.type}${schema.nullable ? ' or null' : ''} but got ${typeof value}`,
         value,
       });
       return;
@@ -327,6 +653,113 @@ export class SchemaValidator {
     }
   }
 
+  /**
+   * Validate a value against a referenced shape. Recursive shapes stop at
+   * objects that are already being validated against the same shape.
+   */
+  private static validateRef(
+    value: unknown,
+    ref: string,
+    path: string,
+    errors: ValidationIssue[],
+    warnings: ValidationWarning[]
+  ): void {
+    let shape: DataShape;
+    try {
+      shape = resolveShapeRef(ref);
+    } catch (error) {
+      errors.push({ path, message: (error as Error).message, value });
+      return;
+    }
+
+    const visited = visitRef(value, shape, () =>
+      this.validateDataShape(value, shape, path, errors, warnings)
+    );
+    if (!visited) {
+      errors.push({ path, message: `Circular data for shape "${ref}"`, value });
+    }
+  }
+
+  /**
+   * Validate a union field. Branch errors are prefixed with the variant they
+   * came from, e.g. `oneOf[1]: Expected number but got string`.
+   */
+  private static validateUnion(
+    value: unknown,
+    schema: FieldSchema,
+    path: string,
+    errors: ValidationIssue[],
+    warnings: ValidationWarning[]
+  ): void {
+    const { keyword, variants } = getUnionVariants(schema);
+
+    if (schema.discriminator) {
+      const tag = schema.discriminator;
+      if (!this.validateFieldType(value, 'object')) {
+        errors.push({ path, message: `Expected object but got ${typeof value}`, value });
+        return;
+      }
+
+      const tagValue = (value as Record<string, unknown>)[tag];
+      if (tagValue === undefined) {
+        errors.push({
+          path: `${path}.${tag}`,
+          message: `Discriminator "${tag}" missing`,
+          value: undefined,
+        });
+        return;
+      }
+
+      const index = findDiscriminatedVariant(variants, tag, tagValue);
+      if (index === -1) {
+        errors.push({
+          path: `${path}.${tag}`,
+          message: `Unknown ${tag} "${String(tagValue)}"; expected one of: ${getDiscriminatorValues(variants, tag).join(', ')}`,
+          value: tagValue,
+        });
+        return;
+      }
+
+      const branchErrors: ValidationIssue[] = [];
+      this.validateField(value, variants[index], path, branchErrors, warnings);
+      const label = `${keyword}[${index}] (${tag} "${String(tagValue)}")`;
+      errors.push(
+        ...branchErrors.map((error) => ({ ...error, message: `${label}: ${error.message}` }))
+      );
+      return;
+    }
+
+    const matches: number[] = [];
+    const branchErrors: ValidationIssue[] = [];
+    variants.forEach((variant, index) => {
+      const variantErrors: ValidationIssue[] = [];
+      this.validateField(value, variant, path, variantErrors, []);
+      if (variantErrors.length === 0) {
+        matches.push(index);
+      } else {
+        branchErrors.push(
+          ...variantErrors.map((error) => ({
+            ...error,
+            message: `${keyword}[${index}]: ${error.message}`,
+          }))
+        );
+      }
+    });
+
+    if (matches.length === 0) {
+      errors.push(
+        { path, message: `Value does not match any ${keyword} variant`, value },
+        ...branchErrors
+      );
+    } else if (keyword === 'oneOf' && matches.length > 1) {
+      errors.push({
+        path,
+        message: `Value matches ${matches.map((index) => `oneOf[${index}]`).join(' and ')}; expected exactly one`,
+        value,
+      });
+    }
+  }
+
   private static validateFieldType(value: any, type: FieldType): boolean {
     switch (type) {
       case 'string':
@@ -347,19 +780,22 @@ export class SchemaValidator {
   }
 
   private static validateFormat(value: string, format: string): boolean {
-    const patterns: Record<string, RegExp> = {
-      email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
-      url: /^https?:\/\/.+/,
-      phone: /^\+?[\d\s-()]+$/,
-      currency: /^\$?[\d,]+\.?\d*$/,
-      percentage: /^\d+\.?\d*%?$/,
-      datetime: /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2})?/,
-    };
-
-    return patterns[format]?.test(value) ?? true;
+    return formatPatterns[format]?.test(value) ?? true;
   }
 
   private static transformField(value: any, schema: FieldSchema): any {
+    if (value === null && schema.nullable) {
+      return null;
+    }
+
+    if (schema.$ref) {
+      return this.transformRef(value, schema.$ref);
+    }
+
+    if (schema.type === 'union') {
+      return this.transformUnion(value, schema);
+    }
+
     // Type coercion
     if (schema.type === 'number' && typeof value === 'string') {
       const parsed = parseFloat(value);
@@ -381,6 +817,60 @@ export class SchemaValidator {
     return value;
   }
 
+  /**
+   * Transform a value with a referenced shape. Unknown references and cyclic
+   * data are returned unchanged for validation to report.
+   */
+  private static transformRef(value: unknown, ref: string): unknown {
+    let shape: DataShape;
+    try {
+      shape = resolveShapeRef(ref);
+    } catch {
+      return value;
+    }
+
+    let transformed: unknown = value;
+    visitRef(value, shape, () => {
+      transformed = this.transformData(value, shape);
+    });
+    return transformed;
+  }
+
+  /**
+   * Coerce a union value with the variant it belongs to. Values that already
+   * match a variant are kept as-is; otherwise the first variant whose
+   * coercion produces a valid value wins.
+   */
+  private static transformUnion(value: unknown, schema: FieldSchema): unknown {
+    const { variants } = getUnionVariants(schema);
+
+    if (schema.discriminator) {
+      const index = findDiscriminatedVariant(
+        variants,
+        schema.discriminator,
+        (value as Record<string, unknown> | null | undefined)?.[schema.discriminator]
+      );
+      return index === -1 ? value : this.transformField(value, variants[index]);
+    }
+
+    if (variants.some((variant) => this.matchesField(value, variant))) {
+      return value;
+    }
+    for (const variant of variants) {
+      const transformed: unknown = this.transformField(value, variant);
+      if (this.matchesField(transformed, variant)) {
+        return transformed;
+      }
+    }
+    return value;
+  }
+
+  private static matchesField(value: unknown, schema: FieldSchema): boolean {
+    const errors: ValidationIssue[] = [];
+    this.validateField(value, schema, '', errors, []);
+    return errors.length === 0;
+  }
+
   private static validateDataShapeSchema(shape: DataShape, path: string): ValidationResult {
     const errors: ValidationResult['errors'] = [];
 
@@ -391,6 +881,15 @@ export class SchemaValidator {
       });
     }
 
+    if (shape.$ref) {
+      try {
+        resolveShapeRef(shape.$ref);
+      } catch (error) {
+        errors.push({ path: `${path}.$ref`, message: (error as Error).message });
+      }
+      return { valid: errors.length === 0, errors: errors.length > 0 ? errors : undefined };
+    }
+
     if (shape.type === 'object' && !shape.fields) {
       errors.push({
         path: `${path}.fields`,
@@ -405,11 +904,539 @@ export class SchemaValidator {
       });
     }
 
+    shape.rules?.forEach((rule, index) => {
+      for (const field of getRuleFields(rule)) {
+        if (!shape.fields?.[field]) {
+          errors.push({
+            path: `${path}.rules[${index}]`,
+            message: `Rule references unknown field "${field}"`,
+          });
+        }
+      }
+    });
+
     return {
       valid: errors.length === 0,
       errors: errors.length > 0 ? errors : undefined,
     };
   }
+
+  private static validatePage(
+    page: PageSchema,
+    basePath: string,
+    schemas: Map<string, ComponentSchema>,
+    globalDataSources: DataSourceSchema[],
+    errors: ValidationIssue[],
+    warnings: ValidationWarning[]
+  ): void {
+    const at = (key: string): string => (basePath ? `${basePath}.${key}` : key);
+
+    if (!page.id) {
+      errors.push({ path: at('id'), message: 'Page ID is required' });
+    }
+    if (!page.name) {
+      errors.push({ path: at('name'), message: 'Page name is required' });
+    }
+    if (!page.route) {
+      errors.push({ path: at('route'), message: 'Page route is required' });
+    } else {
+      const routeIssue = this.getRouteIssue(page.route);
+      if (routeIssue) {
+        errors.push({ path: at('route'), message: routeIssue, value: page.route });
+      }
+    }
+    if (!layoutTypes.includes(page.layout?.type)) {
+      errors.push({
+        path: at('layout.type'),
+        message: `Layout type must be one of: ${layoutTypes.join(', ')}`,
+        value: page.layout?.type,
+      });
+    }
+
+    // Page data sources
+    const dataSources = page.dataSources ?? [];
+    this.checkUniqueIds(dataSources, at('dataSources'), 'data source', errors);
+    dataSources.forEach((source, index) => {
+      if (globalDataSources.some((global) => global.id === source.id)) {
+        warnings.push({
+          path: at(`dataSources[${index}].id`),
+          message: `Data source "${source.id}" shadows a global data source`,
+        });
+      }
+      this.validateSourceTransform(source, at(`dataSources[${index}]`), errors, warnings);
+      this.validateSourcePagination(source, at(`dataSources[${index}]`), errors);
+      this.validateSourceMock(source, at(`dataSources[${index}]`), errors);
+      this.validateSourceCompute(source, at(`dataSources[${index}]`), errors);
+      this.validateSourceStream(source, at(`dataSources[${index}]`), errors);
+    });
+    errors.push(
+      ...validateDependencies([...dataSources, ...globalDataSources], (id) => {
+        const index = dataSources.findIndex((source) => source.id === id);
+        return index === -1 ? undefined : at(`dataSources[${index}]`);
+      })
+    );
+    const sourceShapes = Object.fromEntries(
+      [...globalDataSources, ...dataSources]
+        .filter((source) => source.responseShape)
+        .map((source) => [source.id, source.responseShape as DataShape])
+    );
+
+    // Placements
+    if (!Array.isArray(page.components)) {
+      errors.push({ path: at('components'), message: 'Components must be an array' });
+      return;
+    }
+    this.checkUniqueIds(page.components, at('components'), 'placement', errors);
+    // Sources that actions in function props can refetch or mutate
+    const dataSourceIds = [...dataSources, ...globalDataSources].map((source) => source.id);
+
+    page.components.forEach((placement, index) => {
+      const path = at(`components[${index}]`);
+      const schema = schemas.get(placement.component);
+
+      if (!schema) {
+        errors.push({
+          path: `${path}.component`,
+          message: `Component "${placement.component}" is not registered`,
+          value: placement.component,
+        });
+      }
+
+      const source = placement.dataSource
+        ? (dataSources.find((candidate) => candidate.id === placement.dataSource) ??
+          globalDataSources.find((candidate) => candidate.id === placement.dataSource))
+        : undefined;
+
+      if (placement.dataSource && !source) {
+        errors.push({
+          path: `${path}.dataSource`,
+          message: `Data source "${placement.dataSource}" is not defined on the page or globally`,
+          value: placement.dataSource,
+        });
+      }
+
+      if (schema) {
+        this.validatePlacementProps(
+          placement.props,
+          schema,
+          `${path}.props`,
+          // PageRenderer injects `data` for placements with a data source
+          placement.dataSource ? ['data'] : [],
+          dataSourceIds,
+          errors,
+          warnings
+        );
+
+        for (const [breakpoint, override] of Object.entries(placement.responsive ?? {})) {
+          if (override?.props) {
+            this.validatePlacementProps(
+              override.props,
+              schema,
+              `${path}.responsive.${breakpoint}.props`,
+              null,
+              dataSourceIds,
+              errors,
+              warnings
+            );
+          }
+        }
+
+        if (source && schema.dataShape) {
+          this.checkSourceOutput(
+            source,
+            schema.dataShape,
+            sourceShapes,
+            `${path}.dataSource`,
+            errors,
+            warnings,
+            schema.id
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Check placement props against the component's PropSchema list. Pass
+   * `null` for `providedProps` to skip the required-prop check (overrides).
+   */
+  private static validatePlacementProps(
+    props: Record<string, unknown> | undefined,
+    schema: ComponentSchema,
+    path: string,
+    providedProps: string[] | null,
+    dataSourceIds: string[],
+    errors: ValidationIssue[],
+    warnings: ValidationWarning[]
+  ): void {
+    const propSchemas = new Map((schema.props ?? []).map((prop) => [prop.name, prop]));
+
+    for (const [name, value] of Object.entries(props ?? {})) {
+      const prop = propSchemas.get(name);
+      if (!prop) {
+        warnings.push({
+          path: `${path}.${name}`,
+          message: `Unknown prop for component "${schema.id}"`,
+        });
+        continue;
+      }
+      if (value === undefined || value === null) {
+        continue;
+      }
+      // Bindings resolve to a value of any type at render time
+      if (isBinding(value)) {
+        const syntaxError = checkTemplate(value);
+        if (syntaxError) {
+          errors.push({ path: `${path}.${name}`, message: syntaxError.message, value });
+        }
+        continue;
+      }
+      // Function props hold actions, which have their own structure
+      if (prop.type === 'function' && typeof value === 'object' && !Array.isArray(value)) {
+        errors.push(...validateAction(value, `${path}.${name}`, dataSourceIds));
+        continue;
+      }
+
+      const issue = this.getPropValueIssue(value, prop);
+      if (issue) {
+        errors.push({ path: `${path}.${name}`, message: issue, value });
+      }
+    }
+
+    if (providedProps) {
+      for (const prop of propSchemas.values()) {
+        if (
+          prop.required &&
+          prop.default === undefined &&
+          props?.[prop.name] === undefined &&
+          schema.defaultProps?.[prop.name] === undefined &&
+          !providedProps.includes(prop.name)
+        ) {
+          errors.push({ path: `${path}.${prop.name}`, message: 'Required prop missing' });
+        }
+      }
+    }
+  }
+
+  private static getPropValueIssue(value: unknown, prop: PropSchema): string | null {
+    switch (prop.type) {
+      case 'string':
+        return typeof value === 'string' ? null : `Expected string but got ${typeof value}`;
+      case 'number':
+        return typeof value === 'number' && !isNaN(value)
+          ? null
+          : `Expected number but got ${typeof value}`;
+      case 'boolean':
+        return typeof value === 'boolean' ? null : `Expected boolean but got ${typeof value}`;
+      case 'enum':
+        if (prop.options && !prop.options.some((option) => option.value === value)) {
+          return `Value must be one of: ${prop.options.map((option) => String(option.value)).join(', ')}`;
+        }
+        return null;
+      case 'object':
+        return typeof value === 'object' ? null : `Expected object but got ${typeof value}`;
+      case 'function':
+        // Functions are serialized as strings in schemas; actions are checked above
+        return typeof value === 'function' || typeof value === 'string'
+          ? null
+          : `Expected function but got ${typeof value}`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Check a source's transform steps, such as unknown operations or joins
+   * without a source. Script transforms only run with `allowScriptTransform`,
+   * so they are reported as deprecated warnings rather than errors.
+   */
+  private static validateSourceTransform(
+    source: DataSourceSchema,
+    path: string,
+    errors: ValidationIssue[],
+    warnings: ValidationWarning[]
+  ): void {
+    const at = path ? `${path}.transform` : 'transform';
+    if (typeof source.transform === 'string') {
+      warnings.push({
+        path: at,
+        message: 'Script transforms are deprecated; use transform steps',
+      });
+    } else if (source.transform !== undefined) {
+      errors.push(...validateTransformSteps(source.transform, at));
+    }
+  }
+
+  private static validateSourcePagination(
+    source: DataSourceSchema,
+    path: string,
+    errors: ValidationIssue[]
+  ): void {
+    if (source.pagination !== undefined) {
+      const at = path ? `${path}.pagination` : 'pagination';
+      errors.push(...validatePagination(source.pagination, source.type, at));
+    }
+  }
+
+  private static validateSourceMock(
+    source: DataSourceSchema,
+    path: string,
+    errors: ValidationIssue[]
+  ): void {
+    const at = path ? `${path}.mock` : 'mock';
+    if (source.mock !== undefined) {
+      errors.push(...validateMockSource(source.mock, source.type, at));
+    }
+    if (source.type === 'mock' && source.mock?.fixture === undefined && !source.responseShape) {
+      errors.push({ path: at, message: 'Mock sources need a fixture or a responseShape' });
+    }
+  }
+
+  private static validateSourceCompute(
+    source: DataSourceSchema,
+    path: string,
+    errors: ValidationIssue[]
+  ): void {
+    errors.push(
+      ...validateComputedSource(source.compute, source.type, path ? `${path}.compute` : 'compute')
+    );
+  }
+
+  private static validateSourceStream(
+    source: DataSourceSchema,
+    path: string,
+    errors: ValidationIssue[]
+  ): void {
+    const at = path ? `${path}.stream` : 'stream';
+    if (source.stream !== undefined) {
+      errors.push(...validateStream(source.stream, source.type, at));
+    }
+    if ((source.type === 'websocket' || source.type === 'sse') && !source.endpoint) {
+      errors.push({
+        path: path ? `${path}.endpoint` : 'endpoint',
+        message: 'Streaming sources need an endpoint to connect to',
+      });
+    }
+  }
+
+  /**
+   * Check that what a source produces, after its transform steps, fits the
+   * shape a component expects
+   */
+  private static checkSourceOutput(
+    source: DataSourceSchema,
+    target: DataShape,
+    sourceShapes: Record<string, DataShape>,
+    path: string,
+    errors: ValidationIssue[],
+    warnings: ValidationWarning[],
+    componentId?: string
+  ): void {
+    const expected = componentId ? ` with "${componentId}"` : '';
+    if (!source.responseShape) {
+      warnings.push({
+        path,
+        message: `Data source "${source.id}" has no responseShape; compatibility${expected} cannot be checked`,
+      });
+      return;
+    }
+    if (typeof source.transform === 'string') {
+      warnings.push({
+        path,
+        message: `Data source "${source.id}" uses a script transform; compatibility${expected} cannot be checked`,
+      });
+      return;
+    }
+
+    // Invalid steps are reported by validateSourceTransform
+    if (source.transform && validateTransformSteps(source.transform).length > 0) {
+      return;
+    }
+
+    const output = source.transform
+      ? inferTransformShape(source.transform, source.responseShape, sourceShapes)
+      : source.responseShape;
+    if (output) {
+      this.checkShapeCompatibility(output, target, path, errors);
+    }
+  }
+
+  /**
+   * Check that data matching `source` also satisfies `target`
+   */
+  private static checkShapeCompatibility(
+    source: DataShape,
+    target: DataShape,
+    path: string,
+    errors: ValidationIssue[]
+  ): void {
+    source = resolveShape(source);
+    target = resolveShape(target);
+    if (source === target) {
+      return;
+    }
+
+    if (source.type !== target.type) {
+      errors.push({
+        path,
+        message: `Data source provides ${source.type} data but component expects ${target.type}`,
+      });
+      return;
+    }
+
+    if (source.type === 'array' && source.itemShape && target.itemShape) {
+      this.checkShapeCompatibility(source.itemShape, target.itemShape, `${path}[]`, errors);
+      return;
+    }
+
+    if (source.type === 'object' && source.fields && target.fields) {
+      for (const [key, targetField] of Object.entries(target.fields)) {
+        const sourceField = source.fields[key];
+        const required = targetField.required === true || target.required?.includes(key) === true;
+
+        if (!sourceField) {
+          if (required) {
+            errors.push({
+              path: `${path}.${key}`,
+              message: 'Required field is not provided by the data source',
+            });
+          }
+          continue;
+        }
+        this.checkFieldCompatibility(sourceField, targetField, `${path}.${key}`, errors);
+      }
+    }
+  }
+
+  private static checkFieldCompatibility(
+    source: FieldSchema,
+    target: FieldSchema,
+    path: string,
+    errors: ValidationIssue[]
+  ): void {
+    // Transform steps leave fields they cannot type open
+    if (isUnknownField(source)) {
+      return;
+    }
+
+    // Date strings are coerced by transformData
+    const coercible = source.type === 'string' && target.type === 'date';
+    if (source.type !== target.type && !coercible) {
+      errors.push({
+        path,
+        message: `Data source provides ${source.type} but component expects ${target.type}`,
+      });
+      return;
+    }
+
+    if (source.enum && target.enum) {
+      const allowed: unknown[] = target.enum;
+      const extra = (source.enum as unknown[]).filter((value) => !allowed.includes(value));
+      if (extra.length > 0) {
+        errors.push({
+          path,
+          message: `Data source values ${extra.join(', ')} are not accepted by the component`,
+        });
+      }
+    }
+
+    if (source.itemType && target.itemType) {
+      this.checkFieldCompatibility(source.itemType, target.itemType, `${path}[]`, errors);
+    }
+
+    if (source.properties && target.properties) {
+      for (const [key, targetProperty] of Object.entries(target.properties)) {
+        const sourceProperty = source.properties[key];
+        if (!sourceProperty) {
+          if (targetProperty.required) {
+            errors.push({
+              path: `${path}.${key}`,
+              message: 'Required field is not provided by the data source',
+            });
+          }
+          continue;
+        }
+        this.checkFieldCompatibility(sourceProperty, targetProperty, `${path}.${key}`, errors);
+      }
+    }
+  }
+
+  private static checkUniqueIds(
+    items: Array<{ id: string }>,
+    path: string,
+    label: string,
+    errors: ValidationIssue[]
+  ): void {
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      if (!item.id) {
+        errors.push({ path: `${path}[${index}].id`, message: `${label} ID is required` });
+      } else if (seen.has(item.id)) {
+        errors.push({
+          path: `${path}[${index}].id`,
+          message: `Duplicate ${label} ID "${item.id}"`,
+        });
+      }
+      seen.add(item.id);
+    });
+  }
+
+  /**
+   * Describe what is wrong with a route, or null when it is well-formed
+   */
+  private static getRouteIssue(route: string): string | null {
+    if (!route.startsWith('/')) {
+      return 'Route must start with "/"';
+    }
+
+    const segments = route.split('/').slice(1);
+    const params = new Set<string>();
+
+    for (let index = 0; index < segments.length; index++) {
+      const segment = segments[index];
+      const isLast = index === segments.length - 1;
+
+      if (segment === '') {
+        if (isLast) {
+          continue;
+        }
+        return 'Route must not contain empty segments';
+      }
+      if (segment === '*') {
+        if (!isLast) {
+          return 'Wildcard "*" must be the last route segment';
+        }
+        continue;
+      }
+      if (segment.startsWith(':')) {
+        if (!/^:[A-Za-z_]\w*\??$/.test(segment)) {
+          return `Invalid route parameter "${segment}"`;
+        }
+        const name = segment.replace(/^:|\?$/g, '');
+        if (params.has(name)) {
+          return `Duplicate route parameter "${name}"`;
+        }
+        params.add(name);
+        continue;
+      }
+      if (!/^[\w\-.~%]+$/.test(segment)) {
+        return `Invalid route segment "${segment}"`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Routes that differ only in parameter names match the same URLs
+   */
+  private static normalizeRoute(route: string): string {
+    return route
+      .replace(/\/+$/, '')
+      .split('/')
+      .map((segment) => (segment.startsWith(':') ? ':' : segment))
+      .join('/');
+  }
 }
 
 // Convenience functions
@@ -417,6 +1444,10 @@ export function validateData(data: any, shape: DataShape): ValidationResult {
   return SchemaValidator.validateData(data, shape);
 }
 
+export function validateDataAsync(data: unknown, shape: DataShape): Promise<ValidationResult> {
+  return SchemaValidator.validateDataAsync(data, shape);
+}
+
 export function parseData<T = any>(data: any, shape: DataShape): T {
   return SchemaValidator.parseData(data, shape) as T;
 }
@@ -424,3 +1455,25 @@ export function parseData<T = any>(data: any, shape: DataShape): T {
 export function validateComponentSchema(schema: ComponentSchema): ValidationResult {
   return SchemaValidator.validateComponentSchema(schema);
 }
+
+export function validateDataSource(
+  source: DataSourceSchema,
+  targetShape?: DataShape,
+  sourceShapes?: Record<string, DataShape>
+): ValidationResult {
+  return SchemaValidator.validateDataSource(source, targetShape, sourceShapes);
+}
+
+export function validatePageSchema(
+  page: PageSchema,
+  options?: ReferenceValidationOptions
+): ValidationResult {
+  return SchemaValidator.validatePageSchema(page, options);
+}
+
+export function validateApplicationSchema(
+  app: ApplicationSchema,
+  options?: Pick<ReferenceValidationOptions, 'componentSchemas'>
+): ValidationResult {
+  return SchemaValidator.validateApplicationSchema(app, options);
+}
@@ -0,0 +1,148 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { compileShape } from './compiledValidation';
+import { registerValidator, validatorRegistry } from './registry';
+import { DataShape } from './types';
+import { SchemaValidator, validateComponentSchema, validateData } from './validation';
+
+const bookingShape: DataShape = {
+  type: 'object',
+  fields: {
+    startDate: { type: 'date', required: true },
+    endDate: { type: 'date', required: true },
+    guests: { type: 'number' },
+    email: { type: 'string', format: 'email' },
+    phone: { type: 'string', format: 'phone' },
+    contactMethod: { type: 'string', enum: ['email', 'phone'] },
+    coupon: { type: 'string' },
+  },
+  rules: [
+    { type: 'compare', field: 'endDate', operator: 'gt', other: { field: 'startDate' } },
+    { type: 'compare', field: 'guests', operator: 'lte', other: { value: 8 } },
+    { type: 'requireOneOf', fields: ['email', 'phone'] },
+    {
+      type: 'requiredIf',
+      field: 'phone',
+      when: { field: 'contactMethod', value: 'phone' },
+      message: 'Phone is needed to call you back',
+    },
+  ],
+};
+
+const valid = {
+  startDate: '2024-06-01',
+  endDate: '2024-06-05',
+  guests: 2,
+  email: 'ada@example.com',
+  contactMethod: 'email',
+};
+
+describe('shape rules', () => {
+  afterEach(() => {
+    validatorRegistry.clear();
+  });
+
+  it('should accept data that satisfies every rule', () => {
+    expect(validateData(valid, bookingShape).valid).toBe(true);
+  });
+
+  it('should report cross-field failures with field paths', () => {
+    const result = validateData(
+      { startDate: '2024-06-05', endDate: '2024-06-01', guests: 12, contactMethod: 'phone' },
+      bookingShape
+    );
+
+    expect(result.errors).toEqual([
+      { path: 'endDate', message: 'endDate must be after startDate', value: '2024-06-01' },
+      { path: 'guests', message: 'guests must be at most 8', value: 12 },
+      { path: 'email', message: 'One of email, phone is required', value: undefined },
+      { path: 'phone', message: 'Phone is needed to call you back', value: undefined },
+    ]);
+  });
+
+  it('should prefix rule paths inside arrays', () => {
+    const shape: DataShape = { type: 'array', itemShape: bookingShape };
+
+    expect(validateData([valid, { ...valid, endDate: '2024-05-01' }], shape).errors).toEqual([
+      { path: '[1].endDate', message: 'endDate must be after startDate', value: '2024-05-01' },
+    ]);
+  });
+
+  it('should run registered sync validators', () => {
+    registerValidator('couponCode', ({ value, options }) =>
+      typeof value === 'string' && value.startsWith(String(options.prefix))
+        ? null
+        : 'Unknown coupon'
+    );
+    const shape: DataShape = {
+      ...bookingShape,
+      rules: [
+        { type: 'custom', validator: 'couponCode', field: 'coupon', options: { prefix: 'SUMMER' } },
+        { type: 'custom', validator: 'missing' },
+      ],
+    };
+
+    expect(validateData({ ...valid, coupon: 'WINTER10' }, shape).errors).toEqual([
+      { path: 'coupon', message: 'Unknown coupon', value: 'WINTER10' },
+      {
+        path: '',
+        message: 'Unknown validator "missing"',
+        value: { ...valid, coupon: 'WINTER10' },
+      },
+    ]);
+  });
+
+  it('should run async validators only in validateDataAsync', async () => {
+    registerValidator('emailAvailable', ({ value }) =>
+      Promise.resolve(value === 'taken@example.com' ? 'Email is already registered' : null)
+    );
+    const shape: DataShape = {
+      ...bookingShape,
+      rules: [{ type: 'custom', validator: 'emailAvailable', field: 'email' }],
+    };
+    const data = { ...valid, email: 'taken@example.com' };
+
+    expect(validateData(data, shape)).toEqual({
+      valid: true,
+      errors: undefined,
+      warnings: [
+        {
+          path: 'email',
+          message: 'Async validator "emailAvailable" skipped; use validateDataAsync',
+        },
+      ],
+    });
+    expect((await SchemaValidator.validateDataAsync(data, shape)).errors).toEqual([
+      { path: 'email', message: 'Email is already registered', value: 'taken@example.com' },
+    ]);
+    expect((await compileShape(shape).validateAsync(data)).errors).toEqual([
+      { path: 'email', message: 'Email is already registered', value: 'taken@example.com' },
+    ]);
+  });
+
+  it('should evaluate rules the same way in compiled validators', () => {
+    const data = [
+      valid,
+      { startDate: '2024-06-05', endDate: '2024-06-01', guests: 12, contactMethod: 'phone' },
+    ];
+    const shape: DataShape = { type: 'array', itemShape: bookingShape };
+
+    expect(compileShape(shape).validate(data)).toEqual(SchemaValidator.validateData(data, shape));
+  });
+
+  it('should flag rules that reference unknown fields', () => {
+    const result = validateComponentSchema({
+      id: 'Booking',
+      name: 'Booking',
+      type: 'form',
+      props: [],
+      dataShape: {
+        ...bookingShape,
+        rules: [{ type: 'requireOneOf', fields: ['email', 'fax'] }],
+      },
+    });
+
+    expect(result.errors).toEqual([
+      { path: 'dataShape.rules[0]', message: 'Rule references unknown field "fax"' },
+    ]);
+  });
+});
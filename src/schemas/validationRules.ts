@@ -0,0 +1,310 @@
+/**
+ * Cross-field rules for DataShape
+ *
+ * Rules run after per-field validation on every object whose shape declares
+ * them, in both `SchemaValidator` and compiled validators. Custom validators
+ * come from the validator registry; async ones only run while
+ * `collectAsyncRules` is active and are skipped with a warning otherwise.
+ */
+
+import { validatorRegistry } from './registry';
+import { DataShape, RuleCondition, RuleOperator, ShapeRule, ValidationResult } from './types';
+
+type ValidationIssue = NonNullable<ValidationResult['errors']>[number];
+type ValidationWarning = NonNullable<ValidationResult['warnings']>[number];
+
+export interface RuleReporter {
+  error(issue: ValidationIssue): void;
+  warning(warning: ValidationWarning): void;
+}
+
+interface PendingRule {
+  path: string;
+  value: unknown;
+  validator: string;
+  message?: string;
+  result: Promise<string | null>;
+}
+
+// Async results for the validation run in progress. Validation itself is
+// synchronous, so the collector only lives for the duration of that run.
+let pendingRules: PendingRule[] | null = null;
+
+const operatorText: Record<RuleOperator, string> = {
+  eq: 'equal to',
+  neq: 'different from',
+  gt: 'greater than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+};
+
+const dateOperatorText: Partial<Record<RuleOperator, string>> = {
+  gt: 'after',
+  gte: 'on or after',
+  lt: 'before',
+  lte: 'on or before',
+};
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+function toComparable(value: unknown, isDate: boolean): unknown {
+  if (isDate && (typeof value === 'string' || value instanceof Date)) {
+    const time = new Date(value).getTime();
+    return isNaN(time) ? value : time;
+  }
+  return value;
+}
+
+/**
+ * Compare two values. Returns null when they cannot be compared (missing or
+ * of different types); per-field validation reports those cases.
+ */
+export function compareValues(
+  left: unknown,
+  operator: RuleOperator,
+  right: unknown
+): boolean | null {
+  if (!isPresent(left) || !isPresent(right)) {
+    return null;
+  }
+  if (operator === 'eq') {
+    return left === right;
+  }
+  if (operator === 'neq') {
+    return left !== right;
+  }
+  if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+    return null;
+  }
+
+  // Same type as `left` after the check above
+  const other = right as number | string;
+  switch (operator) {
+    case 'gt':
+      return left > other;
+    case 'gte':
+      return left >= other;
+    case 'lt':
+      return left < other;
+    case 'lte':
+      return left <= other;
+  }
+}
+
+function isDateField(shape: DataShape, field: string): boolean {
+  return shape.fields?.[field]?.type === 'date';
+}
+
+function matchesCondition(
+  data: Record<string, unknown>,
+  condition: RuleCondition,
+  shape: DataShape
+): boolean {
+  const value = data[condition.field];
+  const operator = condition.operator ?? (condition.value !== undefined ? 'eq' : 'present');
+
+  if (operator === 'present') {
+    return isPresent(value);
+  }
+  if (operator === 'absent') {
+    return !isPresent(value);
+  }
+
+  const isDate = isDateField(shape, condition.field);
+  return (
+    compareValues(toComparable(value, isDate), operator, toComparable(condition.value, isDate)) ===
+    true
+  );
+}
+
+function describeCondition(condition: RuleCondition): string {
+  const operator = condition.operator ?? (condition.value !== undefined ? 'eq' : 'present');
+  switch (operator) {
+    case 'present':
+      return `${condition.field} is set`;
+    case 'absent':
+      return `${condition.field} is not set`;
+    case 'eq':
+      return `${condition.field} is ${JSON.stringify(condition.value)}`;
+    default:
+      return `${condition.field} is ${operatorText[operator]} ${JSON.stringify(condition.value)}`;
+  }
+}
+
+function evaluateCustomRule(
+  data: Record<string, unknown>,
+  rule: Extract<ShapeRule, { type: 'custom' }>,
+  path: string,
+  reporter: RuleReporter
+): void {
+  const rulePath = rule.field ? joinPath(path, rule.field) : path;
+  const value = rule.field ? data[rule.field] : data;
+  const validator = validatorRegistry.get(rule.validator);
+
+  if (!validator) {
+    reporter.error({ path: rulePath, message: `Unknown validator "${rule.validator}"`, value });
+    return;
+  }
+
+  let result: string | null | Promise<string | null>;
+  try {
+    result = validator({ value, data, options: rule.options ?? {} });
+  } catch (error) {
+    reporter.error({
+      path: rulePath,
+      message: `Validator "${rule.validator}" failed: ${(error as Error).message}`,
+      value,
+    });
+    return;
+  }
+
+  if (result instanceof Promise) {
+    if (pendingRules) {
+      pendingRules.push({
+        path: rulePath,
+        value,
+        validator: rule.validator,
+        message: rule.message,
+        result,
+      });
+    } else {
+      result.catch(() => undefined);
+      reporter.warning({
+        path: rulePath,
+        message: `Async validator "${rule.validator}" skipped; use validateDataAsync`,
+      });
+    }
+    return;
+  }
+
+  if (result) {
+    reporter.error({ path: rulePath, message: rule.message ?? result, value });
+  }
+}
+
+/**
+ * Evaluate the rules of an object shape against `data` at `path`
+ */
+export function evaluateRules(
+  data: Record<string, unknown>,
+  shape: DataShape,
+  path: string,
+  reporter: RuleReporter
+): void {
+  for (const rule of shape.rules ?? []) {
+    switch (rule.type) {
+      case 'compare': {
+        const isDate = isDateField(shape, rule.field);
+        const left = data[rule.field];
+        const right = 'field' in rule.other ? data[rule.other.field] : rule.other.value;
+        const passed = compareValues(
+          toComparable(left, isDate),
+          rule.operator,
+          toComparable(right, isDate)
+        );
+        if (passed === false) {
+          const text =
+            (isDate ? dateOperatorText[rule.operator] : undefined) ?? operatorText[rule.operator];
+          const other = 'field' in rule.other ? rule.other.field : JSON.stringify(rule.other.value);
+          reporter.error({
+            path: joinPath(path, rule.field),
+            message: rule.message ?? `${rule.field} must be ${text} ${other}`,
+            value: left,
+          });
+        }
+        break;
+      }
+
+      case 'requiredIf':
+        if (matchesCondition(data, rule.when, shape) && !isPresent(data[rule.field])) {
+          reporter.error({
+            path: joinPath(path, rule.field),
+            message: rule.message ?? `Required when ${describeCondition(rule.when)}`,
+            value: data[rule.field],
+          });
+        }
+        break;
+
+      case 'requireOneOf':
+        if (!rule.fields.some((field) => isPresent(data[field]))) {
+          reporter.error({
+            path: joinPath(path, rule.fields[0] ?? ''),
+            message: rule.message ?? `One of ${rule.fields.join(', ')} is required`,
+            value: undefined,
+          });
+        }
+        break;
+
+      case 'custom':
+        evaluateCustomRule(data, rule, path, reporter);
+        break;
+    }
+  }
+}
+
+/**
+ * Fields a rule refers to, for schema checks
+ */
+export function getRuleFields(rule: ShapeRule): string[] {
+  switch (rule.type) {
+    case 'compare':
+      return 'field' in rule.other ? [rule.field, rule.other.field] : [rule.field];
+    case 'requiredIf':
+      return [rule.field, rule.when.field];
+    case 'requireOneOf':
+      return rule.fields;
+    case 'custom':
+      return rule.field ? [rule.field] : [];
+  }
+}
+
+/**
+ * Run a synchronous validation while collecting async custom validators,
+ * then wait for them and merge their errors into the result
+ */
+export async function collectAsyncRules(run: () => ValidationResult): Promise<ValidationResult> {
+  const pending: PendingRule[] = [];
+  const previous = pendingRules;
+  pendingRules = pending;
+
+  let result: ValidationResult;
+  try {
+    result = run();
+  } finally {
+    pendingRules = previous;
+  }
+
+  const asyncErrors = await Promise.all(
+    pending.map(async (rule): Promise<ValidationIssue | null> => {
+      try {
+        const message = await rule.result;
+        return message
+          ? { path: rule.path, message: rule.message ?? message, value: rule.value }
+          : null;
+      } catch (error) {
+        return {
+          path: rule.path,
+          message: `Validator "${rule.validator}" failed: ${(error as Error).message}`,
+          value: rule.value,
+        };
+      }
+    })
+  );
+
+  const errors = [
+    ...(result.errors ?? []),
+    ...asyncErrors.filter((error): error is ValidationIssue => error !== null),
+  ];
+  return {
+    valid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+    warnings: result.warnings,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Pluggable authentication for schema-driven applications
+ *
+ * `ApplicationRenderer` only talks to the `AuthProvider` interface, so a real
+ * backend can be swapped in without touching page guards. `MockAuthProvider`
+ * keeps users in memory for local development and tests.
+ */
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  roles: string[];
+  email?: string;
+}
+
+export interface AuthCredentials {
+  username: string;
+  password?: string;
+}
+
+export type AuthListener = (user: AuthUser | null) => void;
+
+export interface AuthProvider {
+  getCurrentUser(): Promise<AuthUser | null>;
+  login(credentials: AuthCredentials): Promise<AuthUser>;
+  logout(): Promise<void>;
+  // Returns an unsubscribe function
+  subscribe(listener: AuthListener): () => void;
+}
+
+export interface MockAuthUser extends AuthUser {
+  username: string;
+  password?: string;
+}
+
+export interface MockAuthProviderOptions {
+  users?: MockAuthUser[];
+  // Username of the user that starts signed in
+  initialUser?: string;
+  // Simulated network latency in ms
+  delay?: number;
+}
+
+export const defaultMockUsers: MockAuthUser[] = [
+  { id: 'admin', username: 'admin', name: 'Admin User', roles: ['admin', 'user'] },
+  { id: 'user', username: 'user', name: 'Regular User', roles: ['user'] },
+];
+
+/**
+ * In-memory auth provider. Passwords are only checked when a user defines one.
+ */
+export class MockAuthProvider implements AuthProvider {
+  private users: MockAuthUser[];
+  private currentUser: AuthUser | null = null;
+  private listeners = new Set<AuthListener>();
+  private delay: number;
+
+  constructor(options: MockAuthProviderOptions = {}) {
+    this.users = options.users ?? defaultMockUsers;
+    this.delay = options.delay ?? 0;
+
+    if (options.initialUser) {
+      const user = this.users.find((candidate) => candidate.username === options.initialUser);
+      this.currentUser = user ? toAuthUser(user) : null;
+    }
+  }
+
+  async getCurrentUser(): Promise<AuthUser | null> {
+    await this.wait();
+    return this.currentUser;
+  }
+
+  async login({ username, password }: AuthCredentials): Promise<AuthUser> {
+    await this.wait();
+
+    const user = this.users.find((candidate) => candidate.username === username);
+    if (!user || (user.password !== undefined && user.password !== password)) {
+      throw new Error('Invalid username or password');
+    }
+
+    this.setUser(toAuthUser(user));
+    return toAuthUser(user);
+  }
+
+  async logout(): Promise<void> {
+    await this.wait();
+    this.setUser(null);
+  }
+
+  subscribe(listener: AuthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setUser(user: AuthUser | null): void {
+    this.currentUser = user;
+    this.listeners.forEach((listener) => listener(user));
+  }
+
+  private wait(): Promise<void> {
+    if (this.delay <= 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => setTimeout(resolve, this.delay));
+  }
+}
+
+function toAuthUser({ id, name, roles, email }: MockAuthUser): AuthUser {
+  return { id, name, roles: [...roles], email };
+}
@@ -0,0 +1,107 @@
+/**
+ * Storage backends for the data store cache
+ *
+ * Persisted entries are written through as they are cached and read back
+ * once at startup, so data survives reloads and can be shown offline.
+ * IndexedDB is used where the browser has it; elsewhere, e.g. in tests,
+ * entries only live in memory.
+ */
+
+/**
+ * A cached response as it is stored
+ */
+export interface PersistedEntry {
+  key: string;
+  data: unknown;
+  timestamp: number;
+  ttl?: number;
+  staleWhileRevalidate?: number;
+  events?: string[];
+  // Version of the source the data was cached for
+  version?: string;
+  // Cache version of the store that wrote the entry
+  storeVersion: string;
+  // ID of the user the data was fetched for, if one was signed in
+  owner?: string;
+}
+
+export interface CachePersistence {
+  load: () => Promise<PersistedEntry[]>;
+  save: (entry: PersistedEntry) => Promise<void>;
+  remove: (keys: string[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export function createMemoryPersistence(): CachePersistence {
+  const entries = new Map<string, PersistedEntry>();
+
+  return {
+    load: () => Promise.resolve([...entries.values()]),
+    save: (entry) => {
+      entries.set(entry.key, entry);
+      return Promise.resolve();
+    },
+    remove: (keys) => {
+      keys.forEach((key) => entries.delete(key));
+      return Promise.resolve();
+    },
+    clear: () => {
+      entries.clear();
+      return Promise.resolve();
+    },
+  };
+}
+
+const ENTRIES = 'entries';
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDBPersistence(name = 'data-store-cache'): CachePersistence {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ENTRIES, { keyPath: 'key' });
+      };
+      database = requestResult(request);
+    }
+    return database;
+  };
+
+  // Resolves once the writes made by `write` are committed
+  const transact = async (write: (store: IDBObjectStore) => void): Promise<void> => {
+    const transaction = (await open()).transaction(ENTRIES, 'readwrite');
+    write(transaction.objectStore(ENTRIES));
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    load: async () => {
+      const store = (await open()).transaction(ENTRIES).objectStore(ENTRIES);
+      return requestResult(store.getAll() as IDBRequest<PersistedEntry[]>);
+    },
+    save: (entry) => transact((store) => store.put(entry)),
+    remove: (keys) => transact((store) => keys.forEach((key) => store.delete(key))),
+    clear: () => transact((store) => store.clear()),
+  };
+}
+
+/**
+ * IndexedDB persistence, or memory persistence where IndexedDB is unavailable
+ */
+export function createDefaultPersistence(): CachePersistence {
+  return typeof indexedDB === 'undefined'
+    ? createMemoryPersistence()
+    : createIndexedDBPersistence();
+}
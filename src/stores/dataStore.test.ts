@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useDataStore } from './dataStore';
+import { CachePersistence, createMemoryPersistence } from './cachePersistence';
+
+describe('dataStore cache', () => {
+  let persistence: CachePersistence;
+
+  beforeEach(async () => {
+    persistence = createMemoryPersistence();
+    useDataStore.getState().invalidateAll();
+    await useDataStore.getState().configureCache({ persistence, maxBytes: 1024, version: '1' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves stale entries within the stale-while-revalidate window', () => {
+    vi.useFakeTimers();
+    const store = useDataStore.getState();
+    store.setCached('users', ['Ada'], 1000, { staleWhileRevalidate: 5000 });
+
+    expect(store.getCacheEntry('users')).toEqual({ data: ['Ada'], stale: false });
+    vi.advanceTimersByTime(2000);
+    expect(store.getCacheEntry('users')).toEqual({ data: ['Ada'], stale: true });
+    expect(store.getCached('users')).toBeNull();
+
+    vi.advanceTimersByTime(5000);
+    expect(store.getCacheEntry('users')).toBeNull();
+    expect(store.getCacheSize()).toBe(0);
+  });
+
+  it('ignores entries cached for another version', () => {
+    const store = useDataStore.getState();
+    store.setCached('users', ['Ada'], undefined, { version: 'a' });
+
+    expect(store.getCached('users', 'a')).toEqual(['Ada']);
+    expect(store.getCached('users', 'b')).toBeNull();
+    expect(store.getCached('users', 'a')).toBeNull();
+  });
+
+  it('evicts least recently used entries beyond the byte budget', () => {
+    vi.useFakeTimers();
+    const store = useDataStore.getState();
+    // 200 characters, about 400 bytes each
+    const data = 'x'.repeat(198);
+
+    store.setCached('a', data);
+    vi.advanceTimersByTime(1);
+    store.setCached('b', data);
+    vi.advanceTimersByTime(1);
+    store.getCached('a');
+    vi.advanceTimersByTime(1);
+    store.setCached('c', data);
+
+    const { cache } = useDataStore.getState();
+    expect([...cache.keys()]).toEqual(['a', 'c']);
+    expect(store.getCacheSize('bytes')).toBe(800);
+
+    store.setCached('huge', 'x'.repeat(1024));
+    expect(store.getCached('huge')).toBeNull();
+  });
+
+  it('restores persisted entries of the current version', async () => {
+    const store = useDataStore.getState();
+    store.setCached('kept', { id: 1 }, 60000, { persist: true, events: ['users:changed'] });
+    store.setCached('memoryOnly', { id: 2 });
+    await Promise.resolve();
+    expect(await persistence.load()).toHaveLength(1);
+
+    useDataStore.setState({ cache: new Map() });
+    await store.hydrate();
+    expect(store.getCached('kept')).toEqual({ id: 1 });
+    expect(store.getCached('memoryOnly')).toBeNull();
+
+    // Events and invalidation reach the persisted copy
+    store.emit('users:changed');
+    await Promise.resolve();
+    expect(await persistence.load()).toEqual([]);
+  });
+
+  it('drops persisted entries of an earlier cache version', async () => {
+    const store = useDataStore.getState();
+    store.setCached('users', ['Ada'], undefined, { persist: true });
+
+    useDataStore.setState({ cache: new Map() });
+    await store.configureCache({ version: '2' });
+    await store.hydrate();
+
+    expect(store.getCached('users')).toBeNull();
+    expect(await persistence.load()).toEqual([]);
+  });
+});
@@ -1,44 +1,142 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
+import { CachePersistence, PersistedEntry, createDefaultPersistence } from './cachePersistence';
+import { logWarn } from '../services/logger';
 
 interface CachedData {
-  data: any;
+  data: unknown;
   timestamp: number;
+  // Milliseconds the data stays fresh
   ttl?: number;
+  // Milliseconds after `ttl` during which stale data may still be served
+  staleWhileRevalidate?: number;
+  // Events that make the entry stale
+  events?: string[];
+  // Entries cached for another version of their source are ignored
+  version?: string;
+  persist?: boolean;
+  // Estimated size in bytes, counted against the cache budget
+  size: number;
+  lastAccess: number;
 }
 
+export interface CacheEntryOptions {
+  events?: string[];
+  staleWhileRevalidate?: number;
+  version?: string;
+  // Keep the entry across reloads
+  persist?: boolean;
+}
+
+export interface CacheSettings {
+  persistence?: CachePersistence;
+  // Least recently used entries are evicted beyond this budget
+  maxBytes?: number;
+  // Change to drop every entry persisted by earlier releases
+  version?: string;
+}
+
+// Cached data, and whether it is past its TTL and should be refetched
+export interface CacheEntry {
+  data: unknown;
+  stale: boolean;
+}
+
+// Called with the payload given to `emit`, if any
+type EventCallback = (payload?: unknown) => void;
+
 interface DataStoreState {
   // Cache storage
   cache: Map<string, CachedData>;
 
   // Event subscriptions
-  subscriptions: Map<string, Set<() => void>>;
+  subscriptions: Map<string, Set<EventCallback>>;
 
   // Pending requests for deduplication
   pending: Map<string, Promise<any>>;
+
+  // Cache persistence and limits
+  persistence: CachePersistence;
+  maxBytes: number;
+  version: string;
+  // User the cached data belongs to; entries persisted for others are not loaded
+  owner: string | null;
+  // Resolves once persisted entries are loaded
+  ready: Promise<void>;
 }
 
 interface DataStoreActions {
   // Cache management
-  getCached: (key: string) => any | null;
-  setCached: (key: string, data: any, ttl?: number) => void;
+  getCached: (key: string, version?: string) => any | null;
+  getCacheEntry: (key: string, version?: string) => CacheEntry | null;
+  setCached: (key: string, data: any, ttl?: number, options?: CacheEntryOptions) => void;
+  // Replace an entry's data, keeping how fresh it is
+  replaceCachedData: (key: string, data: unknown, options?: { persist?: boolean }) => void;
   invalidate: (key: string) => void;
+  invalidateKeys: (keys: string[]) => void;
+  invalidatePrefix: (prefix: string) => void;
   invalidateAll: () => void;
 
   // Request deduplication
   dedupe: <T>(key: string, fetcher: () => Promise<T>) => Promise<T>;
 
   // Event subscriptions
-  subscribe: (event: string, callback: () => void) => () => void;
-  emit: (event: string) => void;
+  subscribe: (event: string, callback: EventCallback) => () => void;
+  emit: (event: string, payload?: unknown) => void;
 
   // Cache utilities
   clearExpired: () => void;
-  getCacheSize: () => number;
+  getCacheSize: (unit?: 'entries' | 'bytes') => number;
+  configureCache: (settings: CacheSettings) => Promise<void>;
+  // Load persisted entries, dropping expired ones and those of other versions
+  hydrate: () => Promise<void>;
+  // Hand the cache to another user, dropping data cached for anyone else
+  setCacheOwner: (owner: string | null) => Promise<void>;
 }
 
 type DataStore = DataStoreState & DataStoreActions;
 
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+// Strings count as UTF-16; data that cannot be serialized counts as empty
+function estimateSize(data: unknown): number {
+  try {
+    return (JSON.stringify(data)?.length ?? 0) * 2;
+  } catch {
+    return 0;
+  }
+}
+
+function isExpired(
+  cached: Pick<CachedData, 'timestamp' | 'ttl' | 'staleWhileRevalidate'>
+): boolean {
+  return (
+    !!cached.ttl && Date.now() - cached.timestamp > cached.ttl + (cached.staleWhileRevalidate ?? 0)
+  );
+}
+
+// Least recently used keys to evict so the cache fits its budget
+function overBudget(cache: Map<string, CachedData>, maxBytes: number): string[] {
+  let bytes = 0;
+  cache.forEach((cached) => (bytes += cached.size));
+
+  const evicted: string[] = [];
+  [...cache]
+    .sort(([, a], [, b]) => a.lastAccess - b.lastAccess)
+    .forEach(([key, cached]) => {
+      if (bytes > maxBytes) {
+        bytes -= cached.size;
+        evicted.push(key);
+      }
+    });
+  return evicted;
+}
+
+// Persistence runs in the background; a failed write only loses the copy on disk
+function persistInBackground(task: Promise<void>): void {
+  task.catch((error) => logWarn('Could not update the persisted cache', 'dataStore', error));
+}
+
 export const useDataStore = create<DataStore>()(
   devtools(
     (set, get) => ({
@@ -46,53 +144,128 @@ export const useDataStore = create<DataStore>()(
       cache: new Map(),
       subscriptions: new Map(),
       pending: new Map(),
+      persistence: createDefaultPersistence(),
+      maxBytes: DEFAULT_MAX_BYTES,
+      version: '1',
+      owner: null,
+      ready: Promise.resolve(),
+
+      // Get cached data if not stale
+      getCached: (key: string, version?: string) => {
+        const entry = get().getCacheEntry(key, version);
+        return entry && !entry.stale ? entry.data : null;
+      },
 
-      // Get cached data if not expired
-      getCached: (key: string) => {
+      // Get cached data, stale or not, unless it is expired or of another version
+      getCacheEntry: (key: string, version?: string) => {
         const cached = get().cache.get(key);
         if (!cached) {return null;}
 
-        const { data, timestamp, ttl } = cached;
-
-        // Check if expired
-        if (ttl && Date.now() - timestamp > ttl) {
-          // Remove expired entry
-          set((state) => {
-            const newCache = new Map(state.cache);
-            newCache.delete(key);
-            return { cache: newCache };
-          });
+        // Remove expired or outdated entry
+        if (isExpired(cached) || cached.version !== version) {
+          get().invalidate(key);
           return null;
         }
 
-        return data;
+        // Recency only orders evictions, so subscribers are not notified
+        cached.lastAccess = Date.now();
+        return {
+          data: cached.data,
+          stale: !!cached.ttl && Date.now() - cached.timestamp > cached.ttl,
+        };
       },
 
-      // Set cached data
-      setCached: (key: string, data: any, ttl?: number) => {
-        set((state) => {
-          const newCache = new Map(state.cache);
-          newCache.set(key, {
-            data,
-            timestamp: Date.now(),
-            ttl,
-          });
-          return { cache: newCache };
-        });
+      // Set cached data, evicting least recently used entries over the budget
+      setCached: (key: string, data: any, ttl?: number, options: CacheEntryOptions = {}) => {
+        const { maxBytes, persistence } = get();
+        const size = estimateSize(data);
+        if (size > maxBytes) {
+          get().invalidate(key);
+          return;
+        }
+
+        const timestamp = Date.now();
+        const newCache = new Map(get().cache);
+        newCache.set(key, { ...options, data, timestamp, ttl, size, lastAccess: timestamp });
+        const evicted = overBudget(newCache, maxBytes);
+        evicted.forEach((evictedKey) => newCache.delete(evictedKey));
+        set({ cache: newCache });
+
+        if (evicted.length > 0) {
+          persistInBackground(persistence.remove(evicted));
+        }
+        if (options.persist) {
+          const { events, staleWhileRevalidate, version } = options;
+          persistInBackground(
+            persistence.save({
+              key,
+              data,
+              timestamp,
+              ttl,
+              staleWhileRevalidate,
+              events,
+              version,
+              storeVersion: get().version,
+              owner: get().owner ?? undefined,
+            })
+          );
+        }
+      },
+
+      // Replace an entry's data, keeping its timestamp, TTL and options. The
+      // new data is only persisted when asked, e.g. once a mutation confirms it
+      replaceCachedData: (key: string, data: unknown, options: { persist?: boolean } = {}) => {
+        const cached = get().cache.get(key);
+        if (!cached) {return;}
+
+        const newCache = new Map(get().cache);
+        newCache.set(key, { ...cached, data, size: estimateSize(data) });
+        set({ cache: newCache });
+
+        if (options.persist && cached.persist) {
+          const { timestamp, ttl, staleWhileRevalidate, events, version } = cached;
+          persistInBackground(
+            get().persistence.save({
+              key,
+              data,
+              timestamp,
+              ttl,
+              staleWhileRevalidate,
+              events,
+              version,
+              storeVersion: get().version,
+              owner: get().owner ?? undefined,
+            })
+          );
+        }
       },
 
       // Invalidate specific cache entry
       invalidate: (key: string) => {
+        get().invalidateKeys([key]);
+      },
+
+      // Invalidate several entries, in memory and in persistence
+      invalidateKeys: (keys: string[]) => {
+        if (keys.length === 0) {return;}
+
         set((state) => {
           const newCache = new Map(state.cache);
-          newCache.delete(key);
+          keys.forEach((key) => newCache.delete(key));
           return { cache: newCache };
         });
+        persistInBackground(get().persistence.remove(keys));
+      },
+
+      // Invalidate every entry whose key starts with a prefix, e.g. all pages of a source
+      invalidatePrefix: (prefix: string) => {
+        get().invalidateKeys([...get().cache.keys()].filter((key) => key.startsWith(prefix)));
       },
 
       // Invalidate all cache entries
       invalidateAll: () => {
         set({ cache: new Map() });
+        persistInBackground(get().persistence.clear());
       },
 
       // Request deduplication
@@ -125,7 +298,7 @@ export const useDataStore = create<DataStore>()(
       },
 
       // Subscribe to events
-      subscribe: (event: string, callback: () => void) => {
+      subscribe: (event: string, callback: EventCallback) => {
         set((state) => {
           const newSubscriptions = new Map(state.subscriptions);
           const callbacks = newSubscriptions.get(event) || new Set();
@@ -150,33 +323,113 @@ export const useDataStore = create<DataStore>()(
         };
       },
 
-      // Emit event to all subscribers
-      emit: (event: string) => {
+      // Drop cached entries that depend on the event, then notify subscribers
+      emit: (event: string, payload?: unknown) => {
+        get().invalidateKeys(
+          [...get().cache]
+            .filter(([, cached]) => cached.events?.includes(event))
+            .map(([key]) => key)
+        );
+
         const callbacks = get().subscriptions.get(event);
         if (callbacks) {
-          callbacks.forEach((callback) => callback());
+          callbacks.forEach((callback) => callback(payload));
         }
       },
 
       // Clear expired cache entries
       clearExpired: () => {
-        set((state) => {
-          const newCache = new Map<string, CachedData>();
-          const now = Date.now();
+        get().invalidateKeys(
+          [...get().cache].filter(([, cached]) => isExpired(cached)).map(([key]) => key)
+        );
+      },
+
+      // Get cache size as a number of entries or estimated bytes
+      getCacheSize: (unit: 'entries' | 'bytes' = 'entries') => {
+        const { cache } = get();
+        if (unit === 'entries') {return cache.size;}
+
+        let bytes = 0;
+        cache.forEach((cached) => (bytes += cached.size));
+        return bytes;
+      },
+
+      // Change persistence or limits; a new persistence is loaded into the cache
+      configureCache: (settings: CacheSettings) => {
+        const previous = get().persistence;
+        set((state) => ({
+          persistence: settings.persistence ?? state.persistence,
+          maxBytes: settings.maxBytes ?? state.maxBytes,
+          version: settings.version ?? state.version,
+        }));
+        get().invalidateKeys(overBudget(get().cache, get().maxBytes));
+
+        return settings.persistence && settings.persistence !== previous
+          ? get().hydrate()
+          : get().ready;
+      },
 
-          state.cache.forEach((cached, key) => {
-            if (!cached.ttl || now - cached.timestamp <= cached.ttl) {
-              newCache.set(key, cached);
+      // Load persisted entries without replacing ones cached since startup
+      hydrate: () => {
+        const { persistence } = get();
+        const ready = persistence
+          .load()
+          .then((entries: PersistedEntry[]) => {
+            const { version, maxBytes, owner } = get();
+            const usable = (entry: PersistedEntry): boolean =>
+              entry.storeVersion === version && !isExpired(entry);
+            // Entries of other users are skipped here and removed by `setCacheOwner`
+            const owned = (entry: PersistedEntry): boolean => (entry.owner ?? null) === owner;
+
+            const newCache = new Map(get().cache);
+            entries
+              .filter((entry) => usable(entry) && owned(entry))
+              .forEach(({ key, storeVersion: _version, owner: _owner, ...entry }) => {
+                if (!newCache.has(key)) {
+                  newCache.set(key, {
+                    ...entry,
+                    persist: true,
+                    size: estimateSize(entry.data),
+                    lastAccess: entry.timestamp,
+                  });
+                }
+              });
+            const evicted = overBudget(newCache, maxBytes);
+            evicted.forEach((key) => newCache.delete(key));
+            set({ cache: newCache });
+
+            const removed = [
+              ...entries.filter((entry) => !usable(entry)).map((entry) => entry.key),
+              ...evicted,
+            ];
+            if (removed.length > 0) {
+              persistInBackground(persistence.remove(removed));
             }
-          });
+          })
+          .catch((error) => logWarn('Could not load the persisted cache', 'dataStore', error));
 
-          return { cache: newCache };
-        });
+        set({ ready });
+        return ready;
       },
 
-      // Get cache size
-      getCacheSize: () => {
-        return get().cache.size;
+      // Persisted entries outlive reloads, so those of other users are removed
+      // even when the owner is unchanged, e.g. signed out since the last visit
+      setCacheOwner: (owner: string | null) => {
+        const { persistence } = get();
+        const changed = owner !== get().owner;
+        if (changed) {
+          set({ owner, cache: new Map() });
+        }
+
+        persistInBackground(
+          persistence.load().then((entries) => {
+            const foreign = entries
+              .filter((entry) => (entry.owner ?? null) !== owner)
+              .map((entry) => entry.key);
+            return foreign.length > 0 ? persistence.remove(foreign) : undefined;
+          })
+        );
+        return changed ? get().hydrate() : get().ready;
       },
     }),
     {
@@ -185,8 +438,9 @@ export const useDataStore = create<DataStore>()(
   )
 );
 
-// Auto-clear expired cache entries every minute
+// Load persisted entries, then auto-clear expired cache entries every minute
 if (typeof window !== 'undefined') {
+  void useDataStore.getState().hydrate();
   setInterval(() => {
     useDataStore.getState().clearExpired();
   }, 60000);
@@ -195,4 +449,5 @@ if (typeof window !== 'undefined') {
 // Export convenience functions
 export const invalidateCache = (key: string) => useDataStore.getState().invalidate(key);
 export const invalidateAllCache = () => useDataStore.getState().invalidateAll();
-export const emitDataEvent = (event: string) => useDataStore.getState().emit(event);
+export const emitDataEvent = (event: string, payload?: unknown) =>
+  useDataStore.getState().emit(event, payload);
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { useDesignStore } from './designStore';
+import { ComponentSchema } from '../schemas/types';
+import { propsMigrations, registerMigration, renameProps } from '../schemas/migrations';
+
+const cardSchema: ComponentSchema = {
+  id: 'Card',
+  name: 'Card',
+  type: 'display',
+  props: [{ name: 'title', type: 'string' }],
+};
+
+const stackSchema: ComponentSchema = {
+  id: 'Stack',
+  name: 'Stack',
+  type: 'layout',
+  props: [],
+};
+
+describe('designStore history', () => {
+  beforeEach(() => {
+    const store = useDesignStore.getState();
+    store.clearAll();
+    store.registerSchemas([cardSchema, stackSchema]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start with nothing to undo or redo', () => {
+    const { canUndo, canRedo, history } = useDesignStore.getState();
+    expect(canUndo).toBe(false);
+    expect(canRedo).toBe(false);
+    expect(history).toHaveLength(0);
+  });
+
+  it('should undo and redo instance creation', () => {
+    const id = useDesignStore.getState().createInstance('Card', { title: 'Hello' });
+
+    expect(useDesignStore.getState().history[0].label).toBe('Add Card');
+
+    useDesignStore.getState().undo();
+    expect(useDesignStore.getState().instances.has(id)).toBe(false);
+    expect(useDesignStore.getState().canRedo).toBe(true);
+
+    useDesignStore.getState().redo();
+    expect(useDesignStore.getState().instances.get(id)?.props.title).toBe('Hello');
+    expect(useDesignStore.getState().canRedo).toBe(false);
+  });
+
+  it('should restore a deleted subtree and its parent link', () => {
+    const store = useDesignStore.getState();
+    const parentId = store.createInstance('Stack');
+    const childId = store.createInstance('Card', { title: 'Child' }, parentId);
+
+    useDesignStore.getState().selectInstance(childId);
+    useDesignStore.getState().deleteInstance(childId);
+    expect(useDesignStore.getState().selectedId).toBeNull();
+    expect(useDesignStore.getState().instances.get(parentId)?.children).toEqual([]);
+
+    useDesignStore.getState().undo();
+    const state = useDesignStore.getState();
+    expect(state.instances.get(childId)?.props.title).toBe('Child');
+    expect(state.instances.get(parentId)?.children).toEqual([childId]);
+  });
+
+  it('should undo a move back to the original parent', () => {
+    const store = useDesignStore.getState();
+    const first = store.createInstance('Stack');
+    const second = store.createInstance('Stack');
+    const card = store.createInstance('Card', {}, first);
+
+    useDesignStore.getState().moveInstance(card, second);
+    expect(useDesignStore.getState().instances.get(card)?.parentId).toBe(second);
+
+    useDesignStore.getState().undo();
+    const state = useDesignStore.getState();
+    expect(state.instances.get(card)?.parentId).toBe(first);
+    expect(state.instances.get(first)?.children).toEqual([card]);
+    expect(state.instances.get(second)?.children).toEqual([]);
+  });
+
+  it('should record duplication and bulk deletion as single steps', () => {
+    const store = useDesignStore.getState();
+    const parentId = store.createInstance('Stack');
+    store.createInstance('Card', {}, parentId);
+    const before = useDesignStore.getState().history.length;
+
+    useDesignStore.getState().duplicateInstance(parentId);
+    expect(useDesignStore.getState().history).toHaveLength(before + 1);
+    expect(useDesignStore.getState().instances.size).toBe(4);
+
+    useDesignStore
+      .getState()
+      .deleteInstances(Array.from(useDesignStore.getState().instances.keys()));
+    expect(useDesignStore.getState().history).toHaveLength(before + 2);
+    expect(useDesignStore.getState().history[before + 1].label).toBe('Delete 4 components');
+
+    useDesignStore.getState().undo();
+    expect(useDesignStore.getState().instances.size).toBe(4);
+    useDesignStore.getState().undo();
+    expect(useDesignStore.getState().instances.size).toBe(2);
+  });
+
+  it('should coalesce rapid prop edits on the same instance', () => {
+    vi.useFakeTimers();
+    const id = useDesignStore.getState().createInstance('Card', { title: 'A' });
+
+    useDesignStore.getState().updateInstance(id, { props: { title: 'AB' } });
+    vi.advanceTimersByTime(200);
+    useDesignStore.getState().updateInstance(id, { props: { title: 'ABC' } });
+    expect(useDesignStore.getState().history).toHaveLength(2);
+
+    vi.advanceTimersByTime(5000);
+    useDesignStore.getState().updateInstance(id, { props: { title: 'ABCD' } });
+    expect(useDesignStore.getState().history).toHaveLength(3);
+
+    useDesignStore.getState().undo();
+    expect(useDesignStore.getState().instances.get(id)?.props.title).toBe('ABC');
+    useDesignStore.getState().undo();
+    expect(useDesignStore.getState().instances.get(id)?.props.title).toBe('A');
+  });
+
+  it('should discard redo entries after a new mutation', () => {
+    const store = useDesignStore.getState();
+    store.createInstance('Card');
+    store.createInstance('Card');
+
+    useDesignStore.getState().undo();
+    expect(useDesignStore.getState().canRedo).toBe(true);
+
+    useDesignStore.getState().createInstance('Stack');
+    const state = useDesignStore.getState();
+    expect(state.canRedo).toBe(false);
+    expect(state.history.map((entry) => entry.label)).toEqual(['Add Card', 'Add Stack']);
+  });
+});
+
+describe('designStore migrations', () => {
+  const cardV2: ComponentSchema = { ...cardSchema, version: 2 };
+
+  beforeEach(() => {
+    const store = useDesignStore.getState();
+    store.clearAll();
+    store.registerSchemas([cardSchema, stackSchema]);
+    registerMigration({
+      schemaId: 'Card',
+      from: 1,
+      to: 2,
+      migrate: renameProps({ titleVariant: 'titleStyle' }),
+    });
+  });
+
+  afterEach(() => {
+    propsMigrations.clear();
+  });
+
+  it('should migrate imported instances to the registered version', () => {
+    useDesignStore.getState().registerSchema(cardV2);
+    useDesignStore.getState().importInstances(
+      JSON.stringify([
+        { id: 'a', schemaId: 'Card', props: { titleVariant: 'h6' } },
+        { id: 'b', schemaId: 'Card', props: {}, schemaVersion: 3 },
+      ])
+    );
+
+    const { instances, migrationReport } = useDesignStore.getState();
+    expect(instances.get('a')).toMatchObject({ props: { titleStyle: 'h6' }, schemaVersion: 2 });
+    expect(instances.get('b')?.schemaVersion).toBe(3);
+    expect(migrationReport).toEqual({
+      migrated: [{ id: 'a', schemaId: 'Card', from: 1, to: 2 }],
+      failed: [
+        {
+          id: 'b',
+          schemaId: 'Card',
+          from: 3,
+          to: 2,
+          reason: 'Saved version 3 is newer than schema version 2',
+        },
+      ],
+    });
+  });
+
+  it('should migrate existing instances when a schema is re-registered', () => {
+    const id = useDesignStore.getState().createInstance('Card', { titleVariant: 'h4' });
+
+    useDesignStore.getState().registerSchema(cardV2);
+    expect(useDesignStore.getState().instances.get(id)).toMatchObject({
+      props: { titleStyle: 'h4' },
+      schemaVersion: 2,
+    });
+
+    const newId = useDesignStore.getState().createInstance('Card');
+    expect(useDesignStore.getState().instances.get(newId)?.schemaVersion).toBe(2);
+  });
+
+  it('should keep undo and redo on the migrated version', () => {
+    const store = useDesignStore.getState();
+    const id = store.createInstance('Card', { titleVariant: 'h4' });
+    store.updateInstance(id, { props: { titleVariant: 'h5' } });
+    const deleted = store.createInstance('Card', { titleVariant: 'h6' });
+    store.deleteInstance(deleted);
+
+    store.registerSchema(cardV2);
+    const historyLength = useDesignStore.getState().history.length;
+
+    store.undo();
+    expect(useDesignStore.getState().instances.get(deleted)).toMatchObject({
+      props: { titleStyle: 'h6' },
+      schemaVersion: 2,
+    });
+    store.undo();
+    store.undo();
+    expect(useDesignStore.getState().instances.get(id)).toMatchObject({
+      props: { titleStyle: 'h4' },
+      schemaVersion: 2,
+    });
+    store.redo();
+    expect(useDesignStore.getState().instances.get(id)).toMatchObject({
+      props: { titleStyle: 'h5' },
+      schemaVersion: 2,
+    });
+    expect(useDesignStore.getState().history).toHaveLength(historyLength);
+  });
+});
@@ -2,7 +2,9 @@ import { create } from 'zustand';
 import { devtools, subscribeWithSelector } from 'zustand/middleware';
 import { ComponentSchema, DataSourceSchema } from '../schemas/types';
 import { validateData } from '../schemas/validation';
+import { MigrationReport, getSchemaVersion, migrateInstances } from '../schemas/migrations';
 import { nanoid } from 'nanoid';
+import { HistoryEntry, applyChanges, diffInstances, pushHistoryEntry } from './history';
 
 /**
  * Component instance - represents a placed component with configuration
@@ -11,6 +13,8 @@ export interface ComponentInstance {
   id: string;
   schemaId: string;
   props: Record<string, any>;
+  // Schema version the props were written for; missing means version 1
+  schemaVersion?: number;
   dataSource?: DataSourceSchema;
   parentId?: string;
   children?: string[];
@@ -28,6 +32,11 @@ export interface ComponentInstance {
   };
 }
 
+/**
+ * Undoable history entry for instance mutations
+ */
+export type DesignHistoryEntry = HistoryEntry<ComponentInstance>;
+
 /**
  * Design mode state
  */
@@ -47,8 +56,13 @@ interface DesignState {
   gridSize: number;
 
   // History for undo/redo
-  history: ComponentInstance[][];
+  history: DesignHistoryEntry[];
   historyIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+
+  // Outcome of the last props migration run by import or schema registration
+  migrationReport: MigrationReport | null;
 }
 
 /**
@@ -87,6 +101,7 @@ interface DesignActions {
   undo: () => void;
   redo: () => void;
   clearHistory: () => void;
+  transaction: <T>(label: string, fn: () => T) => T;
 
   // Queries
   getInstance: (id: string) => ComponentInstance | null;
@@ -98,6 +113,7 @@ interface DesignActions {
   // Import/Export
   exportInstances: () => string;
   importInstances: (json: string) => void;
+  clearMigrationReport: () => void;
   clearAll: () => void;
 }
 
@@ -124,367 +140,583 @@ function createNewInstance(
   };
 }
 
+/**
+ * Describe an instance for history labels
+ */
+function describeInstance(state: DesignState, id: string): string {
+  const instance = state.instances.get(id);
+  if (!instance) {
+    return 'component';
+  }
+  return instance.metadata?.name ?? state.schemas.get(instance.schemaId)?.name ?? instance.schemaId;
+}
+
+/**
+ * Keep selection and hover pointing at instances that still exist
+ */
+function pruneSelection(
+  state: DesignState,
+  instances: Map<string, ComponentInstance>
+): Partial<DesignState> {
+  const updates: Partial<DesignState> = {};
+  if (state.selectedId && !instances.has(state.selectedId)) {
+    updates.selectedId = null;
+  }
+  if (state.hoveredId && !instances.has(state.hoveredId)) {
+    updates.hoveredId = null;
+  }
+  return updates;
+}
+
+/**
+ * Migrate the instances of newly registered schemas, including the ones
+ * recorded in history, so undo and redo never restore props from an older
+ * schema version. Returns no update when nothing needed migrating.
+ */
+function migrateRegistered(
+  state: DesignState,
+  schemas: Map<string, ComponentSchema>,
+  schemaIds: Set<string>
+): Partial<DesignState> {
+  const candidates = Array.from(state.instances.values()).filter((instance) =>
+    schemaIds.has(instance.schemaId)
+  );
+  const { instances: migrated, report } = migrateInstances(candidates, schemas);
+
+  // History usually holds the current instance objects; migrate each one once
+  const results = new Map<ComponentInstance, ComponentInstance>(
+    candidates.map((instance, index) => [instance, migrated[index]])
+  );
+  const migrate = (instance: ComponentInstance | undefined): ComponentInstance | undefined => {
+    if (!instance || !schemaIds.has(instance.schemaId)) {
+      return instance;
+    }
+    if (!results.has(instance)) {
+      results.set(instance, migrateInstances([instance], schemas).instances[0]);
+    }
+    return results.get(instance);
+  };
+
+  let historyChanged = false;
+  const history = state.history.map((entry) => {
+    const changes = entry.changes.map((change) => {
+      const before = migrate(change.before);
+      const after = migrate(change.after);
+      return before === change.before && after === change.after
+        ? change
+        : { ...change, before, after };
+    });
+    if (changes.every((change, index) => change === entry.changes[index])) {
+      return entry;
+    }
+    historyChanged = true;
+    return { ...entry, changes };
+  });
+
+  const updates: Partial<DesignState> = historyChanged ? { history } : {};
+  if (report.migrated.length === 0 && report.failed.length === 0) {
+    return updates;
+  }
+
+  const instances = new Map(state.instances);
+  migrated.forEach((instance) => instances.set(instance.id, instance));
+  return { ...updates, instances, migrationReport: report };
+}
+
 /**
  * Design store for managing components and their instances
  */
 export const useDesignStore = create<DesignStore>()(
   devtools(
-    subscribeWithSelector((set, get) => ({
-      // Initial state
-      schemas: new Map(),
-      instances: new Map(),
-      selectedId: null,
-      hoveredId: null,
-      mode: 'design',
-      showGrid: false,
-      snapToGrid: true,
-      gridSize: 8,
-      history: [],
-      historyIndex: -1,
-
-      // Schema management
-      registerSchema: (schema) => {
-        set((state) => {
-          const schemas = new Map(state.schemas);
-          schemas.set(schema.id, schema);
-          return { schemas };
+    subscribeWithSelector((set, get) => {
+      // Open transaction; nested mutations are folded into a single history entry
+      let transactionDepth = 0;
+      let nextEntryId = 1;
+
+      const recordHistory = (
+        state: DesignState,
+        prev: Map<string, ComponentInstance>,
+        next: Map<string, ComponentInstance>,
+        label: string,
+        coalesceKey?: string
+      ): Partial<DesignState> => {
+        const changes = diffInstances(prev, next);
+        if (changes.length === 0) {
+          return {};
+        }
+
+        // Never coalesce into an entry that is followed by redo steps
+        const atHead = state.historyIndex === state.history.length - 1;
+        const { history, historyIndex } = pushHistoryEntry(state.history, state.historyIndex, {
+          id: nextEntryId++,
+          label,
+          timestamp: Date.now(),
+          changes,
+          coalesceKey: atHead ? coalesceKey : undefined,
         });
-      },
 
-      registerSchemas: (newSchemas) => {
+        return {
+          history,
+          historyIndex,
+          canUndo: historyIndex >= 0,
+          canRedo: false,
+        };
+      };
+
+      // Apply an instance mutation and record it as an undoable step
+      const commit = (
+        label: string | ((state: DesignState) => string),
+        recipe: (state: DesignState) => Partial<DesignState>,
+        coalesceKey?: string
+      ): void => {
         set((state) => {
-          const schemas = new Map(state.schemas);
-          newSchemas.forEach((schema) => {
+          const updates = recipe(state);
+          if (updates === state || !updates.instances || transactionDepth > 0) {
+            return updates;
+          }
+
+          const resolvedLabel = typeof label === 'function' ? label(state) : label;
+          return {
+            ...updates,
+            ...recordHistory(state, state.instances, updates.instances, resolvedLabel, coalesceKey),
+          };
+        });
+      };
+
+      return {
+        // Initial state
+        schemas: new Map(),
+        instances: new Map(),
+        selectedId: null,
+        hoveredId: null,
+        mode: 'design',
+        showGrid: false,
+        snapToGrid: true,
+        gridSize: 8,
+        history: [],
+        historyIndex: -1,
+        canUndo: false,
+        canRedo: false,
+        migrationReport: null,
+
+        // Schema management; existing instances are migrated to the new version
+        registerSchema: (schema) => {
+          set((state) => {
+            const schemas = new Map(state.schemas);
             schemas.set(schema.id, schema);
+            return { schemas, ...migrateRegistered(state, schemas, new Set([schema.id])) };
           });
-          return { schemas };
-        });
-      },
+        },
 
-      unregisterSchema: (schemaId) => {
-        set((state) => {
-          const schemas = new Map(state.schemas);
-          schemas.delete(schemaId);
-          return { schemas };
-        });
-      },
-
-      // Instance management
-      createInstance: (schemaId, props = {}, parentId) => {
-        const schema = get().schemas.get(schemaId);
-        if (!schema) {
-          console.error(`Schema ${schemaId} not found`);
-          return '';
-        }
+        registerSchemas: (newSchemas) => {
+          set((state) => {
+            const schemas = new Map(state.schemas);
+            newSchemas.forEach((schema) => {
+              schemas.set(schema.id, schema);
+            });
+            const schemaIds = new Set(newSchemas.map((schema) => schema.id));
+            return { schemas, ...migrateRegistered(state, schemas, schemaIds) };
+          });
+        },
 
-        const instance = createNewInstance(schemaId, props, parentId);
+        unregisterSchema: (schemaId) => {
+          set((state) => {
+            const schemas = new Map(state.schemas);
+            schemas.delete(schemaId);
+            return { schemas };
+          });
+        },
+
+        // Instance management
+        createInstance: (schemaId, props = {}, parentId) => {
+          const schema = get().schemas.get(schemaId);
+          if (!schema) {
+            console.error(`Schema ${schemaId} not found`);
+            return '';
+          }
 
-        // Apply default props from schema
-        if (schema.defaultProps) {
-          instance.props = { ...schema.defaultProps, ...props };
-        }
+          const instance = createNewInstance(schemaId, props, parentId);
+          if (schema.version !== undefined) {
+            instance.schemaVersion = getSchemaVersion(schema);
+          }
 
-        set((state) => {
-          const instances = new Map(state.instances);
-          instances.set(instance.id, instance);
-
-          // Update parent's children
-          if (parentId) {
-            const parent = instances.get(parentId);
-            if (parent) {
-              parent.children = [...(parent.children || []), instance.id];
-              instances.set(parentId, { ...parent });
-            }
+          // Apply default props from schema
+          if (schema.defaultProps) {
+            instance.props = { ...schema.defaultProps, ...props };
           }
 
-          return { instances };
-        });
+          commit(`Add ${schema.name}`, (state) => {
+            const instances = new Map(state.instances);
+            instances.set(instance.id, instance);
 
-        return instance.id;
-      },
+            // Update parent's children
+            if (parentId) {
+              const parent = instances.get(parentId);
+              if (parent) {
+                instances.set(parentId, {
+                  ...parent,
+                  children: [...(parent.children || []), instance.id],
+                });
+              }
+            }
 
-      updateInstance: (id, updates) => {
-        set((state) => {
-          const instances = new Map(state.instances);
-          const instance = instances.get(id);
+            return { instances };
+          });
 
-          if (!instance) {return state;}
+          return instance.id;
+        },
 
-          const updated = {
-            ...instance,
-            ...updates,
-            metadata: {
-              ...instance.metadata,
-              ...updates.metadata,
-              updatedAt: Date.now(),
-            },
-          };
+        updateInstance: (id, updates) => {
+          // Consecutive prop edits on the same instance collapse into one step
+          const keys = Object.keys(updates);
+          const coalesceKey = keys.length === 1 && keys[0] === 'props' ? `props:${id}` : undefined;
 
-          instances.set(id, updated);
-          return { instances };
-        });
-      },
+          commit((state) => `Update ${describeInstance(state, id)}`, (state) => {
+            const instances = new Map(state.instances);
+            const instance = instances.get(id);
 
-      deleteInstance: (id) => {
-        set((state) => {
-          const instances = new Map(state.instances);
-          const instance = instances.get(id);
+            if (!instance) {return state;}
+
+            const updated = {
+              ...instance,
+              ...updates,
+              metadata: {
+                ...instance.metadata,
+                ...updates.metadata,
+                updatedAt: Date.now(),
+              },
+            };
+
+            instances.set(id, updated);
+            return { instances };
+          }, coalesceKey);
+        },
+
+        deleteInstance: (id) => {
+          commit((state) => `Delete ${describeInstance(state, id)}`, (state) => {
+            const instances = new Map(state.instances);
+            const instance = instances.get(id);
 
-          if (!instance) {return state;}
+            if (!instance) {return state;}
 
-          // Delete all children recursively
-          const deleteRecursive = (instanceId: string) => {
-            const inst = instances.get(instanceId);
-            if (inst?.children) {
-              inst.children.forEach(deleteRecursive);
+            // Delete all children recursively
+            const deleteRecursive = (instanceId: string) => {
+              const inst = instances.get(instanceId);
+              if (inst?.children) {
+                inst.children.forEach(deleteRecursive);
+              }
+              instances.delete(instanceId);
+            };
+
+            deleteRecursive(id);
+
+            // Remove from parent's children
+            if (instance.parentId) {
+              const parent = instances.get(instance.parentId);
+              if (parent) {
+                instances.set(instance.parentId, {
+                  ...parent,
+                  children: parent.children?.filter((childId) => childId !== id) || [],
+                });
+              }
             }
-            instances.delete(instanceId);
-          };
-
-          deleteRecursive(id);
 
-          // Remove from parent's children
-          if (instance.parentId) {
-            const parent = instances.get(instance.parentId);
-            if (parent) {
-              parent.children = parent.children?.filter((childId) => childId !== id) || [];
-              instances.set(instance.parentId, { ...parent });
+            // Clear selection if deleted
+            return { instances, ...pruneSelection(state, instances) };
+          });
+        },
+
+        duplicateInstance: (id) => {
+          const instance = get().instances.get(id);
+          if (!instance) {return '';}
+
+          const duplicateRecursive = (inst: ComponentInstance, parentId?: string): string => {
+            const newId = get().createInstance(inst.schemaId, inst.props, parentId);
+            const newInstance = get().instances.get(newId);
+
+            if (newInstance && inst.children) {
+              inst.children.forEach((childId) => {
+                const child = get().instances.get(childId);
+                if (child) {
+                  duplicateRecursive(child, newId);
+                }
+              });
             }
-          }
 
-          // Clear selection if deleted
-          const updates: Partial<DesignState> = { instances };
-          if (state.selectedId === id) {
-            updates.selectedId = null;
-          }
-          if (state.hoveredId === id) {
-            updates.hoveredId = null;
-          }
+            return newId;
+          };
 
-          return updates;
-        });
-      },
+          return get().transaction(`Duplicate ${describeInstance(get(), id)}`, () =>
+            duplicateRecursive(instance, instance.parentId)
+          );
+        },
 
-      duplicateInstance: (id) => {
-        const instance = get().instances.get(id);
-        if (!instance) {return '';}
+        moveInstance: (id, newParentId, index) => {
+          commit((state) => `Move ${describeInstance(state, id)}`, (state) => {
+            const instances = new Map(state.instances);
+            const instance = instances.get(id);
 
-        const duplicateRecursive = (inst: ComponentInstance, parentId?: string): string => {
-          const newId = get().createInstance(inst.schemaId, inst.props, parentId);
-          const newInstance = get().instances.get(newId);
+            if (!instance) {return state;}
 
-          if (newInstance && inst.children) {
-            inst.children.forEach((childId) => {
-              const child = get().instances.get(childId);
-              if (child) {
-                duplicateRecursive(child, newId);
+            // Remove from old parent
+            if (instance.parentId) {
+              const oldParent = instances.get(instance.parentId);
+              if (oldParent) {
+                instances.set(instance.parentId, {
+                  ...oldParent,
+                  children: oldParent.children?.filter((childId) => childId !== id) || [],
+                });
               }
-            });
-          }
-
-          return newId;
-        };
-
-        return duplicateRecursive(instance, instance.parentId);
-      },
-
-      moveInstance: (id, newParentId, index) => {
-        set((state) => {
-          const instances = new Map(state.instances);
-          const instance = instances.get(id);
-
-          if (!instance) {return state;}
-
-          // Remove from old parent
-          if (instance.parentId) {
-            const oldParent = instances.get(instance.parentId);
-            if (oldParent) {
-              oldParent.children = oldParent.children?.filter((childId) => childId !== id) || [];
-              instances.set(instance.parentId, { ...oldParent });
             }
-          }
 
-          // Add to new parent
-          instance.parentId = newParentId;
-          if (newParentId) {
-            const newParent = instances.get(newParentId);
-            if (newParent) {
-              const children = [...(newParent.children || [])];
-              if (index !== undefined) {
-                children.splice(index, 0, id);
-              } else {
-                children.push(id);
+            // Add to new parent
+            if (newParentId) {
+              const newParent = instances.get(newParentId);
+              if (newParent) {
+                const children = [...(newParent.children || [])];
+                if (index !== undefined) {
+                  children.splice(index, 0, id);
+                } else {
+                  children.push(id);
+                }
+                instances.set(newParentId, { ...newParent, children });
               }
-              newParent.children = children;
-              instances.set(newParentId, { ...newParent });
             }
-          }
 
-          instances.set(id, { ...instance });
-          return { instances };
-        });
-      },
+            instances.set(id, { ...instance, parentId: newParentId });
+            return { instances };
+          });
+        },
+
+        // Bulk operations
+        updateInstances: (updates) => {
+          const label = `Update ${updates.length} component${updates.length === 1 ? '' : 's'}`;
+          commit(label, (state) => {
+            const instances = new Map(state.instances);
+
+            updates.forEach(({ id, updates }) => {
+              const instance = instances.get(id);
+              if (instance) {
+                instances.set(id, {
+                  ...instance,
+                  ...updates,
+                  metadata: {
+                    ...instance.metadata,
+                    ...updates.metadata,
+                    updatedAt: Date.now(),
+                  },
+                });
+              }
+            });
 
-      // Bulk operations
-      updateInstances: (updates) => {
-        set((state) => {
-          const instances = new Map(state.instances);
+            return { instances };
+          });
+        },
 
-          updates.forEach(({ id, updates }) => {
-            const instance = instances.get(id);
-            if (instance) {
-              instances.set(id, {
-                ...instance,
-                ...updates,
-                metadata: {
-                  ...instance.metadata,
-                  ...updates.metadata,
-                  updatedAt: Date.now(),
-                },
-              });
-            }
+        deleteInstances: (ids) => {
+          const label = `Delete ${ids.length} component${ids.length === 1 ? '' : 's'}`;
+          get().transaction(label, () => {
+            ids.forEach((id) => get().deleteInstance(id));
           });
+        },
 
-          return { instances };
-        });
-      },
+        // Selection
+        selectInstance: (id) => set({ selectedId: id }),
+        hoverInstance: (id) => set({ hoveredId: id }),
 
-      deleteInstances: (ids) => {
-        ids.forEach((id) => get().deleteInstance(id));
-      },
+        selectParent: () => {
+          const { selectedId, instances } = get();
+          if (!selectedId) {return;}
 
-      // Selection
-      selectInstance: (id) => set({ selectedId: id }),
-      hoverInstance: (id) => set({ hoveredId: id }),
+          const instance = instances.get(selectedId);
+          if (instance?.parentId) {
+            set({ selectedId: instance.parentId });
+          }
+        },
 
-      selectParent: () => {
-        const { selectedId, instances } = get();
-        if (!selectedId) {return;}
+        selectChild: (index = 0) => {
+          const { selectedId, instances } = get();
+          if (!selectedId) {return;}
 
-        const instance = instances.get(selectedId);
-        if (instance?.parentId) {
-          set({ selectedId: instance.parentId });
-        }
-      },
+          const instance = instances.get(selectedId);
+          if (instance?.children?.[index]) {
+            set({ selectedId: instance.children[index] });
+          }
+        },
+
+        // UI state
+        setMode: (mode) => set({ mode }),
+        toggleGrid: () => set((state) => ({ showGrid: !state.showGrid })),
+        toggleSnapToGrid: () => set((state) => ({ snapToGrid: !state.snapToGrid })),
+        setGridSize: (gridSize) => set({ gridSize }),
+
+        // History
+        undo: () => {
+          set((state) => {
+            const entry = state.history[state.historyIndex];
+            if (!entry) {
+              return state;
+            }
 
-      selectChild: (index = 0) => {
-        const { selectedId, instances } = get();
-        if (!selectedId) {return;}
+            const instances = applyChanges(state.instances, entry.changes, 'undo');
+            const historyIndex = state.historyIndex - 1;
 
-        const instance = instances.get(selectedId);
-        if (instance?.children?.[index]) {
-          set({ selectedId: instance.children[index] });
-        }
-      },
+            return {
+              instances,
+              historyIndex,
+              canUndo: historyIndex >= 0,
+              canRedo: true,
+              ...pruneSelection(state, instances),
+            };
+          });
+        },
 
-      // UI state
-      setMode: (mode) => set({ mode }),
-      toggleGrid: () => set((state) => ({ showGrid: !state.showGrid })),
-      toggleSnapToGrid: () => set((state) => ({ snapToGrid: !state.snapToGrid })),
-      setGridSize: (gridSize) => set({ gridSize }),
+        redo: () => {
+          set((state) => {
+            const entry = state.history[state.historyIndex + 1];
+            if (!entry) {
+              return state;
+            }
 
-      // History
-      undo: () => {
-        // TODO: Implement undo
-      },
+            const instances = applyChanges(state.instances, entry.changes, 'redo');
+            const historyIndex = state.historyIndex + 1;
 
-      redo: () => {
-        // TODO: Implement redo
-      },
+            return {
+              instances,
+              historyIndex,
+              canUndo: true,
+              canRedo: historyIndex < state.history.length - 1,
+              ...pruneSelection(state, instances),
+            };
+          });
+        },
+
+        clearHistory: () => set({ history: [], historyIndex: -1, canUndo: false, canRedo: false }),
 
-      clearHistory: () => set({ history: [], historyIndex: -1 }),
+        transaction: (label, fn) => {
+          const before = get().instances;
+          transactionDepth++;
 
-      // Queries
-      getInstance: (id) => get().instances.get(id) || null,
+          try {
+            return fn();
+          } finally {
+            transactionDepth--;
+            // Nested transactions are recorded by the outermost one
+            if (transactionDepth === 0) {
+              set((state) => recordHistory(state, before, state.instances, label));
+            }
+          }
+        },
 
-      getSchema: (id) => get().schemas.get(id) || null,
+        // Queries
+        getInstance: (id) => get().instances.get(id) || null,
 
-      getChildren: (parentId) => {
-        const { instances } = get();
-        const parent = instances.get(parentId);
+        getSchema: (id) => get().schemas.get(id) || null,
 
-        if (!parent?.children) {return [];}
+        getChildren: (parentId) => {
+          const { instances } = get();
+          const parent = instances.get(parentId);
 
-        return parent.children
-          .map((id) => instances.get(id))
-          .filter((instance): instance is ComponentInstance => !!instance);
-      },
+          if (!parent?.children) {return [];}
 
-      getAncestors: (id) => {
-        const { instances } = get();
-        const ancestors: ComponentInstance[] = [];
+          return parent.children
+            .map((id) => instances.get(id))
+            .filter((instance): instance is ComponentInstance => !!instance);
+        },
 
-        let currentId = id;
-        while (currentId) {
-          const instance = instances.get(currentId);
-          if (!instance) {break;}
+        getAncestors: (id) => {
+          const { instances } = get();
+          const ancestors: ComponentInstance[] = [];
 
-          if (instance.parentId) {
-            const parent = instances.get(instance.parentId);
-            if (parent) {
-              ancestors.push(parent);
-              currentId = instance.parentId;
+          let currentId = id;
+          while (currentId) {
+            const instance = instances.get(currentId);
+            if (!instance) {break;}
+
+            if (instance.parentId) {
+              const parent = instances.get(instance.parentId);
+              if (parent) {
+                ancestors.push(parent);
+                currentId = instance.parentId;
+              } else {
+                break;
+              }
             } else {
               break;
             }
-          } else {
-            break;
           }
-        }
 
-        return ancestors;
-      },
+          return ancestors;
+        },
 
-      validateInstance: (id) => {
-        const instance = get().instances.get(id);
-        const schema = instance ? get().schemas.get(instance.schemaId) : null;
+        validateInstance: (id) => {
+          const instance = get().instances.get(id);
+          const schema = instance ? get().schemas.get(instance.schemaId) : null;
 
-        if (!instance || !schema) {
-          return { valid: false, errors: ['Instance or schema not found'] };
-        }
+          if (!instance || !schema) {
+            return { valid: false, errors: ['Instance or schema not found'] };
+          }
 
-        if (schema.dataShape && instance.props.data) {
-          const result = validateData(instance.props.data, schema.dataShape);
-          return { valid: result.valid, errors: result.errors };
-        }
+          if (schema.dataShape && instance.props.data) {
+            const result = validateData(instance.props.data, schema.dataShape);
+            return { valid: result.valid, errors: result.errors };
+          }
 
-        return { valid: true };
-      },
+          return { valid: true };
+        },
 
-      // Import/Export
-      exportInstances: () => {
-        const { instances } = get();
-        return JSON.stringify(Array.from(instances.values()), null, 2);
-      },
+        // Import/Export
+        exportInstances: () => {
+          const { instances } = get();
+          return JSON.stringify(Array.from(instances.values()), null, 2);
+        },
 
-      importInstances: (json) => {
-        try {
-          const data = JSON.parse(json);
-          if (!Array.isArray(data)) {
-            throw new Error('Invalid format');
-          }
+        importInstances: (json) => {
+          try {
+            const data = JSON.parse(json);
+            if (!Array.isArray(data)) {
+              throw new Error('Invalid format');
+            }
 
-          const instances = new Map<string, ComponentInstance>();
-          data.forEach((instance) => {
-            instances.set(instance.id, instance);
-          });
+            // Saved props are upgraded to the registered schema versions
+            const { instances: migrated, report } = migrateInstances(
+              data as ComponentInstance[],
+              get().schemas
+            );
+            const instances = new Map<string, ComponentInstance>();
+            migrated.forEach((instance) => {
+              instances.set(instance.id, instance);
+            });
 
-          set({ instances, selectedId: null, hoveredId: null });
-        } catch (error) {
-          console.error('Failed to import instances:', error);
-        }
-      },
-
-      clearAll: () => {
-        set({
-          instances: new Map(),
-          selectedId: null,
-          hoveredId: null,
-          history: [],
-          historyIndex: -1,
-        });
-      },
-    })),
+            commit('Import components', () => ({
+              instances,
+              selectedId: null,
+              hoveredId: null,
+              migrationReport: report,
+            }));
+          } catch (error) {
+            console.error('Failed to import instances:', error);
+          }
+        },
+
+        clearMigrationReport: () => {
+          set({ migrationReport: null });
+        },
+
+        clearAll: () => {
+          set({
+            instances: new Map(),
+            selectedId: null,
+            hoveredId: null,
+            history: [],
+            historyIndex: -1,
+            canUndo: false,
+            canRedo: false,
+            migrationReport: null,
+          });
+        },
+      };
+    }),
     {
       name: 'design-store',
     }
@@ -498,3 +730,12 @@ export const selectChildren = (parentId: string) => (state: DesignStore) =>
   state.getChildren(parentId);
 export const selectSelectedInstance = (state: DesignStore) =>
   state.selectedId ? state.instances.get(state.selectedId) : null;
+export const selectUndoLabel = (state: DesignStore): string | null =>
+  state.history[state.historyIndex]?.label ?? null;
+export const selectRedoLabel = (state: DesignStore): string | null =>
+  state.history[state.historyIndex + 1]?.label ?? null;
+
+// Sources of every instance; derive it from `state.instances` with `useMemo`,
+// since it builds a new array each time
+export const dataSourcesOf = (instances: Map<string, ComponentInstance>): DataSourceSchema[] =>
+  [...instances.values()].flatMap((instance) => (instance.dataSource ? [instance.dataSource] : []));
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HistoryEntry,
+  applyChanges,
+  diffInstances,
+  mergeChanges,
+  pushHistoryEntry,
+} from './history';
+
+interface Item {
+  id: string;
+  value: number;
+}
+
+const entry = (
+  id: number,
+  timestamp: number,
+  coalesceKey?: string,
+  changes: HistoryEntry<Item>['changes'] = [
+    { id: 'a', before: undefined, after: { id: 'a', value: id } },
+  ]
+): HistoryEntry<Item> => ({ id, label: `Entry ${id}`, timestamp, changes, coalesceKey });
+
+describe('history helpers', () => {
+  it('should diff added, changed and removed instances', () => {
+    const a = { id: 'a', value: 1 };
+    const b = { id: 'b', value: 2 };
+    const c = { id: 'c', value: 3 };
+    const b2 = { ...b, value: 20 };
+
+    const changes = diffInstances(
+      new Map([
+        ['a', a],
+        ['b', b],
+      ]),
+      new Map([
+        ['b', b2],
+        ['c', c],
+      ])
+    );
+
+    expect(changes).toEqual([
+      { id: 'a', before: a, after: undefined },
+      { id: 'b', before: b, after: b2 },
+      { id: 'c', before: undefined, after: c },
+    ]);
+  });
+
+  it('should apply changes in both directions', () => {
+    const before = { id: 'a', value: 1 };
+    const after = { id: 'a', value: 2 };
+    const changes = [
+      { id: 'a', before, after },
+      { id: 'b', before: undefined, after: { id: 'b', value: 3 } },
+    ];
+
+    const redone = applyChanges(new Map([['a', before]]), changes, 'redo');
+    expect(redone.get('a')).toBe(after);
+    expect(redone.has('b')).toBe(true);
+
+    const undone = applyChanges(redone, changes, 'undo');
+    expect(undone.get('a')).toBe(before);
+    expect(undone.has('b')).toBe(false);
+  });
+
+  it('should drop merged changes that cancel out', () => {
+    const original = { id: 'a', value: 1 };
+    const edited = { id: 'a', value: 2 };
+
+    expect(
+      mergeChanges(
+        [{ id: 'a', before: original, after: edited }],
+        [{ id: 'a', before: edited, after: original }]
+      )
+    ).toEqual([]);
+  });
+
+  it('should coalesce entries inside the window only', () => {
+    const options = { maxEntries: 10, coalesceWindow: 500 };
+    let state = pushHistoryEntry([], -1, entry(1, 0, 'props:a'), options);
+    state = pushHistoryEntry(state.history, state.historyIndex, entry(2, 300, 'props:a'), options);
+    expect(state.history).toHaveLength(1);
+    expect(state.history[0].timestamp).toBe(300);
+
+    state = pushHistoryEntry(state.history, state.historyIndex, entry(3, 2000, 'props:a'), options);
+    expect(state.history).toHaveLength(2);
+  });
+
+  it('should cap the number of entries', () => {
+    const options = { maxEntries: 3, coalesceWindow: 0 };
+    let state = { history: [] as HistoryEntry<Item>[], historyIndex: -1 };
+
+    for (let i = 1; i <= 5; i++) {
+      state = pushHistoryEntry(state.history, state.historyIndex, entry(i, i * 1000), options);
+    }
+
+    expect(state.history.map((e) => e.id)).toEqual([3, 4, 5]);
+    expect(state.historyIndex).toBe(2);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Command history helpers for the design store
+ *
+ * Each history entry records only the instances a mutation touched, as
+ * before/after pairs, so undo and redo replay the recorded side of every
+ * change instead of keeping full snapshots of the canvas.
+ */
+
+/**
+ * Minimal instance shape the history helpers need
+ */
+export interface HistoryInstance {
+  id: string;
+}
+
+/**
+ * A single instance change; `undefined` means the instance did not exist
+ */
+export interface InstanceChange<T extends HistoryInstance> {
+  id: string;
+  before?: T;
+  after?: T;
+}
+
+/**
+ * Labelled, undoable history entry
+ */
+export interface HistoryEntry<T extends HistoryInstance> {
+  id: number;
+  label: string;
+  timestamp: number;
+  changes: InstanceChange<T>[];
+  // Entries with the same coalesce key recorded within the coalesce window are merged
+  coalesceKey?: string;
+}
+
+export interface HistoryOptions {
+  maxEntries: number;
+  coalesceWindow: number;
+}
+
+export const defaultHistoryOptions: HistoryOptions = {
+  maxEntries: 100,
+  coalesceWindow: 1000,
+};
+
+/**
+ * Collect the instances that differ between two instance maps.
+ * Instances are updated immutably, so reference equality is enough.
+ */
+export function diffInstances<T extends HistoryInstance>(
+  prev: Map<string, T>,
+  next: Map<string, T>
+): InstanceChange<T>[] {
+  const changes: InstanceChange<T>[] = [];
+
+  prev.forEach((before, id) => {
+    const after = next.get(id);
+    if (after !== before) {
+      changes.push({ id, before, after });
+    }
+  });
+
+  next.forEach((after, id) => {
+    if (!prev.has(id)) {
+      changes.push({ id, before: undefined, after });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Apply one side of a set of changes to an instance map
+ */
+export function applyChanges<T extends HistoryInstance>(
+  instances: Map<string, T>,
+  changes: InstanceChange<T>[],
+  direction: 'undo' | 'redo'
+): Map<string, T> {
+  const result = new Map(instances);
+
+  changes.forEach((change) => {
+    const value = direction === 'undo' ? change.before : change.after;
+    if (value) {
+      result.set(change.id, value);
+    } else {
+      result.delete(change.id);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Merge a later change list into an earlier one, keeping the earliest
+ * `before` and the latest `after` for every instance
+ */
+export function mergeChanges<T extends HistoryInstance>(
+  earlier: InstanceChange<T>[],
+  later: InstanceChange<T>[]
+): InstanceChange<T>[] {
+  const merged = new Map<string, InstanceChange<T>>();
+
+  earlier.forEach((change) => merged.set(change.id, { ...change }));
+  later.forEach((change) => {
+    const existing = merged.get(change.id);
+    if (existing) {
+      existing.after = change.after;
+    } else {
+      merged.set(change.id, { ...change });
+    }
+  });
+
+  // Drop changes that cancelled each other out
+  return Array.from(merged.values()).filter((change) => change.before !== change.after);
+}
+
+/**
+ * Push an entry onto the history stack.
+ * Discards any redo entries, coalesces with the previous entry when possible
+ * and trims the oldest entries beyond the configured cap.
+ */
+export function pushHistoryEntry<T extends HistoryInstance>(
+  history: HistoryEntry<T>[],
+  historyIndex: number,
+  entry: HistoryEntry<T>,
+  options: HistoryOptions = defaultHistoryOptions
+): { history: HistoryEntry<T>[]; historyIndex: number } {
+  const past = history.slice(0, historyIndex + 1);
+  const previous = past[past.length - 1];
+
+  if (
+    previous &&
+    entry.coalesceKey &&
+    previous.coalesceKey === entry.coalesceKey &&
+    entry.timestamp - previous.timestamp <= options.coalesceWindow
+  ) {
+    const changes = mergeChanges(previous.changes, entry.changes);
+    const remaining = past.slice(0, -1);
+
+    if (changes.length === 0) {
+      return { history: remaining, historyIndex: remaining.length - 1 };
+    }
+
+    remaining.push({ ...previous, changes, timestamp: entry.timestamp });
+    return { history: remaining, historyIndex: remaining.length - 1 };
+  }
+
+  past.push(entry);
+  const trimmed = past.length > options.maxEntries ? past.slice(-options.maxEntries) : past;
+
+  return { history: trimmed, historyIndex: trimmed.length - 1 };
+}